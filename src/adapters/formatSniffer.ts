@@ -0,0 +1,107 @@
+// Format Sniffer
+// Identifies an uploaded file's format from its bytes, so the upload modal can
+// route it to the right adapter without trusting the file extension.
+
+import { SourceFormat } from "../shared/types";
+import { isSearchApiFormat } from "./types/searchApi.types";
+import { isCurrentApiFormat } from "./types/currentApi.types";
+import { isXliffContent } from "./types/xliff.types";
+import { isPoContent } from "./types/po.types";
+import { isAndroidStringsContent } from "./types/androidStrings.types";
+import { isAppleStringsContent, isXcstringsContent } from "./types/appleStrings.types";
+import { isSpreadsheetContent } from "./types/spreadsheet.types";
+import { parseTraFileDetailed } from "./types/traFile.types";
+
+/** A loadable file format, or a .zip archive whose entries need sniffing in turn */
+export type SniffedFormat = SourceFormat | "zip";
+
+export type SniffResult =
+  | { format: SniffedFormat }
+  | { format: null; reason: string };
+
+/** How much of a file is decoded for sniffing — enough for headers and a few lines */
+const SNIFF_BYTES = 64 * 1024;
+/** Number of lines checked when deciding whether text is .tra */
+const TRA_SAMPLE_LINES = 20;
+
+/**
+ * Decode the start of a file, honouring UTF-16 byte order marks (Apple
+ * .strings files are often UTF-16). Returns null for binary content.
+ */
+function decodeSample(bytes: Uint8Array): string | null {
+  const sample = bytes.subarray(0, SNIFF_BYTES);
+  let encoding = "utf-8";
+  if (sample[0] === 0xff && sample[1] === 0xfe) encoding = "utf-16le";
+  else if (sample[0] === 0xfe && sample[1] === 0xff) encoding = "utf-16be";
+  const text = new TextDecoder(encoding).decode(sample);
+  if (text.includes("\u0000")) return null;
+  return text.replace(/^\uFEFF/, "");
+}
+
+// A sample cut from a large file can't be parsed — judge it by its opening
+function sniffTruncatedJson(text: string): SniffResult {
+  if (text.trim().startsWith("[")) {
+    return /"multilanTextList"\s*:/.test(text)
+      ? { format: "current-api" }
+      : { format: null, reason: "JSON array that is not a multilan export" };
+  }
+  return { format: /"resultList"\s*:/.test(text) ? "search-api" : "i18next" };
+}
+
+function sniffJson(text: string, isComplete: boolean): SniffResult {
+  if (isXcstringsContent(text)) return { format: "apple" };
+  if (!isComplete) return sniffTruncatedJson(text);
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { format: null, reason: "invalid JSON" };
+  }
+  if (isSearchApiFormat(data)) return { format: "search-api" };
+  if (Array.isArray(data)) {
+    return data.length > 0 && isCurrentApiFormat(data)
+      ? { format: "current-api" }
+      : { format: null, reason: "JSON array that is not a multilan export" };
+  }
+  if (typeof data === "object" && data !== null) return { format: "i18next" };
+  return { format: null, reason: "JSON that is neither an object nor an array" };
+}
+
+function looksLikeTra(text: string): boolean {
+  const sample = text.split("\n").slice(0, TRA_SAMPLE_LINES).join("\n");
+  const { records, skipped } = parseTraFileDetailed(sample);
+  if (records === 0) return false;
+  // Allow the odd malformed record (or one cut off by the sample), but most
+  // records must be id,"text"
+  return (records - skipped) / records >= 0.8;
+}
+
+/**
+ * Identify the format of a file from its content.
+ */
+export function sniffFormat(bytes: Uint8Array): SniffResult {
+  if (bytes.length === 0) return { format: null, reason: "empty file" };
+  // Local file header signature "PK\x03\x04"
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) {
+    return { format: "zip" };
+  }
+
+  const text = decodeSample(bytes);
+  if (text === null) return { format: null, reason: "binary file" };
+  const trimmed = text.trim();
+  if (!trimmed) return { format: null, reason: "empty file" };
+
+  if (trimmed.startsWith("<")) {
+    if (isXliffContent(text)) return { format: "xliff" };
+    if (isAndroidStringsContent(text)) return { format: "android" };
+    return { format: null, reason: "XML that is neither XLIFF nor Android string resources" };
+  }
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    return sniffJson(text, bytes.length <= SNIFF_BYTES);
+  }
+  if (isPoContent(text)) return { format: "po" };
+  if (isAppleStringsContent(text)) return { format: "apple" };
+  if (isSpreadsheetContent(text)) return { format: "spreadsheet" };
+  if (looksLikeTra(text)) return { format: "tra" };
+  return { format: null, reason: "unrecognized content" };
+}
@@ -0,0 +1,79 @@
+// Android Strings Adapter
+// Transforms Android strings.xml resources to internal plugin format
+
+import { TranslationDataPort } from "../../ports/translationPort";
+import { TranslationMap, MetadataMap, fileDataLanguages } from "../../shared/types";
+import {
+  AndroidStringsFileData,
+  isAndroidStringsFileData,
+  parseAndroidStrings,
+} from "../types/androidStrings.types";
+
+/**
+ * Adapter for Android string resources (one strings.xml per language).
+ * Keys are resource names; plurals and string-arrays are flattened.
+ */
+export class AndroidStringsAdapter implements TranslationDataPort {
+  private translationMap: TranslationMap;
+  private metadataMap: MetadataMap;
+  private readonly sourceIdentifier = "android-strings";
+
+  private constructor(translationMap: TranslationMap) {
+    this.translationMap = translationMap;
+    this.metadataMap = {}; // strings.xml carries no workflow metadata
+  }
+
+  /**
+   * Async factory — yields between language files and every 2000 resources.
+   */
+  static async createAsync(data: unknown): Promise<AndroidStringsAdapter> {
+    if (!isAndroidStringsFileData(data)) {
+      throw new Error(
+        "Invalid data format: expected strings.xml contents keyed by language"
+      );
+    }
+    const translationMap = await AndroidStringsAdapter.buildTranslationMapAsync(data);
+    return new AndroidStringsAdapter(translationMap);
+  }
+
+  /**
+   * Build a translation map from all language files
+   */
+  private static async buildTranslationMapAsync(data: AndroidStringsFileData): Promise<TranslationMap> {
+    const map: TranslationMap = {};
+
+    for (const lang of fileDataLanguages(data)) {
+      const content = data[lang];
+      if (!content) continue;
+
+      let count = 0;
+      for (const [key, text] of parseAndroidStrings(content)) {
+        if (key === "__proto__") continue;
+        (map[key] ?? (map[key] = {}))[lang] = text;
+        count++;
+        if (count % 2000 === 0) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    return map;
+  }
+
+  getTranslationMap(): TranslationMap {
+    return this.translationMap;
+  }
+
+  getMetadataMap(): MetadataMap {
+    return this.metadataMap;
+  }
+
+  getTranslationCount(): number {
+    return Object.keys(this.translationMap).length;
+  }
+
+  getSourceIdentifier(): string {
+    return this.sourceIdentifier;
+  }
+}
@@ -0,0 +1,118 @@
+// Apple Strings Adapter
+// Transforms Apple .strings files and .xcstrings String Catalogs to internal plugin format
+
+import { TranslationDataPort } from "../../ports/translationPort";
+import { TranslationMap, MetadataMap, MultilanStatus, fileDataLanguages } from "../../shared/types";
+import {
+  AppleStringsFileData,
+  isAppleStringsFileData,
+  isXcstringsContent,
+  parseAppleStrings,
+  parseXcstrings,
+  xcstringsStateToStatus,
+} from "../types/appleStrings.types";
+
+// Workflow order — when languages disagree, the least advanced status wins
+const STATUS_ORDER: MultilanStatus[] = [
+  "TO_TRANSLATE_EXTERNALLY",
+  "IN_TRANSLATION",
+  "FOUR_EYES_CHECK",
+  "FINAL",
+];
+
+/**
+ * Adapter for Apple localization files. Each slot holds that language's
+ * .strings file, or a String Catalog that fills every language of the upload
+ * (the data's keys) it has strings for.
+ */
+export class AppleStringsAdapter implements TranslationDataPort {
+  private translationMap: TranslationMap;
+  private metadataMap: MetadataMap;
+  private readonly sourceIdentifier = "apple-strings";
+
+  private constructor(translationMap: TranslationMap, metadataMap: MetadataMap) {
+    this.translationMap = translationMap;
+    this.metadataMap = metadataMap;
+  }
+
+  /**
+   * Async factory — yields between files and every 2000 entries.
+   */
+  static async createAsync(data: unknown): Promise<AppleStringsAdapter> {
+    if (!isAppleStringsFileData(data)) {
+      throw new Error(
+        "Invalid data format: expected .strings or .xcstrings contents keyed by language"
+      );
+    }
+    const { translationMap, metadataMap } = await AppleStringsAdapter.buildMapsAsync(data);
+    return new AppleStringsAdapter(translationMap, metadataMap);
+  }
+
+  /**
+   * Build translation and metadata maps from all files
+   */
+  private static async buildMapsAsync(
+    data: AppleStringsFileData
+  ): Promise<{ translationMap: TranslationMap; metadataMap: MetadataMap }> {
+    const translationMap: TranslationMap = {};
+    const metadataMap: MetadataMap = {};
+    // Every key is a language of the upload, even when its slot is empty
+    // because a catalog in another slot carries it
+    const slots = Object.keys(data);
+
+    for (const slot of fileDataLanguages(data)) {
+      const content = data[slot];
+      if (!content) continue;
+      let count = 0;
+
+      if (isXcstringsContent(content)) {
+        const { sourceLanguage, entries } = parseXcstrings(content);
+        for (const entry of entries) {
+          if (!slots.includes(entry.language)) continue;
+          (translationMap[entry.key] ?? (translationMap[entry.key] = {}))[entry.language] = entry.value;
+
+          const metadata = metadataMap[entry.key] ?? (metadataMap[entry.key] = { sourceLanguageId: sourceLanguage });
+          if (entry.comment) metadata.notes = entry.comment;
+          // The source text isn't translated, so its state says nothing about progress
+          const status = entry.language === sourceLanguage ? undefined : xcstringsStateToStatus(entry.state);
+          if (status && (!metadata.status || STATUS_ORDER.indexOf(status) < STATUS_ORDER.indexOf(metadata.status))) {
+            metadata.status = status;
+          }
+
+          count++;
+          if (count % 2000 === 0) {
+            await new Promise(resolve => setTimeout(resolve, 0));
+          }
+        }
+      } else {
+        for (const [key, text] of parseAppleStrings(content)) {
+          if (key === "__proto__") continue;
+          (translationMap[key] ?? (translationMap[key] = {}))[slot] = text;
+          count++;
+          if (count % 2000 === 0) {
+            await new Promise(resolve => setTimeout(resolve, 0));
+          }
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    return { translationMap, metadataMap };
+  }
+
+  getTranslationMap(): TranslationMap {
+    return this.translationMap;
+  }
+
+  getMetadataMap(): MetadataMap {
+    return this.metadataMap;
+  }
+
+  getTranslationCount(): number {
+    return Object.keys(this.translationMap).length;
+  }
+
+  getSourceIdentifier(): string {
+    return this.sourceIdentifier;
+  }
+}
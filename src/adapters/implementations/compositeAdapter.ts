@@ -0,0 +1,186 @@
+// Composite Adapter
+// Stacks several data sources with an explicit precedence order, e.g. a small
+// set of draft strings overlaid on the official .tra folder
+
+import {
+  TranslationDataPort,
+  TranslationPortEntry,
+  TranslationSearchOptions,
+  TranslationChunkHandler,
+} from "../../ports/translationPort";
+import { TranslationMap, MetadataMap } from "../../shared/types";
+
+const ENTRY_CHUNK_SIZE = 2000;
+
+/**
+ * One layer of a composite source. `name` is recorded as the `origin` of every
+ * entry the layer provides (e.g. "draft", "official").
+ */
+export interface CompositeLayer {
+  name: string;
+  port: TranslationDataPort;
+}
+
+/**
+ * Adapter that merges several ports. Layers are given highest precedence
+ * first: an ID present in several layers comes entirely from the first layer
+ * that has it, and its metadata records that layer as `origin`.
+ *
+ * The lazy port methods are offered when the layers offer them: getEntry and
+ * iterateEntries when any layer has them, searchText when every layer has it.
+ * They follow the same precedence.
+ */
+export class CompositeAdapter implements TranslationDataPort {
+  private translationMap: TranslationMap;
+  private metadataMap: MetadataMap;
+  private readonly layers: CompositeLayer[];
+
+  getEntry?: (multilanId: string) => Promise<TranslationPortEntry | null>;
+  searchText?: (query: string, options?: TranslationSearchOptions) => Promise<TranslationPortEntry[]>;
+  iterateEntries?: (onChunk: TranslationChunkHandler, chunkSize?: number) => Promise<void>;
+
+  private constructor(translationMap: TranslationMap, metadataMap: MetadataMap, layers: CompositeLayer[]) {
+    this.translationMap = translationMap;
+    this.metadataMap = metadataMap;
+    this.layers = layers;
+
+    if (layers.some(({ port }) => port.getEntry)) {
+      this.getEntry = multilanId => this.findEntry(multilanId);
+    }
+    if (layers.every(({ port }) => port.searchText)) {
+      this.searchText = (query, options) => this.searchLayers(query, options);
+    }
+    if (layers.some(({ port }) => port.iterateEntries)) {
+      this.iterateEntries = (onChunk, chunkSize) => this.iterateLayers(onChunk, chunkSize);
+    }
+  }
+
+  /**
+   * Async factory — yields every 2000 entries while merging.
+   */
+  static async createAsync(layers: CompositeLayer[]): Promise<CompositeAdapter> {
+    if (layers.length === 0) {
+      throw new Error("Invalid data format: a composite source needs at least one layer");
+    }
+    const names = layers.map(layer => layer.name);
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate) {
+      throw new Error(`Invalid data format: duplicate layer name "${duplicate}"`);
+    }
+
+    const translationMap: TranslationMap = {};
+    const metadataMap: MetadataMap = {};
+    let count = 0;
+
+    for (const { name, port } of layers) {
+      const layerTranslations = port.getTranslationMap();
+      const layerMetadata = port.getMetadataMap();
+
+      for (const multilanId of Object.keys(layerTranslations)) {
+        if (multilanId === "__proto__" || Object.prototype.hasOwnProperty.call(translationMap, multilanId)) continue;
+        translationMap[multilanId] = layerTranslations[multilanId];
+        const metadata = Object.prototype.hasOwnProperty.call(layerMetadata, multilanId)
+          ? layerMetadata[multilanId]
+          : undefined;
+        metadataMap[multilanId] = { ...metadata, origin: name };
+
+        count++;
+        if (count % 2000 === 0) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+      }
+    }
+
+    return new CompositeAdapter(translationMap, metadataMap, [...layers]);
+  }
+
+  /** The entry from the first layer that has it, through getEntry for lazy layers */
+  private async findEntry(multilanId: string): Promise<TranslationPortEntry | null> {
+    for (const { name, port } of this.layers) {
+      const translations = port.getTranslationMap();
+      let entry: TranslationPortEntry | null = null;
+      if (Object.prototype.hasOwnProperty.call(translations, multilanId)) {
+        const metadata = port.getMetadataMap();
+        entry = {
+          multilanId,
+          translations: translations[multilanId],
+          metadata: Object.prototype.hasOwnProperty.call(metadata, multilanId) ? metadata[multilanId] : undefined,
+        };
+      } else if (port.getEntry) {
+        entry = await port.getEntry(multilanId);
+      }
+      if (entry) return { ...entry, metadata: { ...entry.metadata, origin: name } };
+    }
+    return null;
+  }
+
+  /**
+   * Each layer's matches, highest layer first. A match is shown as the entry
+   * of the first layer that has its ID, whether or not that entry matches.
+   */
+  private async searchLayers(query: string, options?: TranslationSearchOptions): Promise<TranslationPortEntry[]> {
+    const results: TranslationPortEntry[] = [];
+    const seen = new Set<string>();
+    for (const { port } of this.layers) {
+      for (const match of await port.searchText!(query, options)) {
+        if (seen.has(match.multilanId)) continue;
+        seen.add(match.multilanId);
+        const entry = await this.findEntry(match.multilanId);
+        if (entry) results.push(entry);
+      }
+    }
+    return options?.limit !== undefined ? results.slice(0, options.limit) : results;
+  }
+
+  /** Walk the layers in order, skipping IDs a higher layer already gave */
+  private async iterateLayers(onChunk: TranslationChunkHandler, chunkSize = ENTRY_CHUNK_SIZE): Promise<void> {
+    const seen = new Set<string>();
+    let stopped = false;
+
+    for (const { name, port } of this.layers) {
+      const handleLayerChunk = async (chunk: TranslationPortEntry[]) => {
+        const entries: TranslationPortEntry[] = [];
+        for (const entry of chunk) {
+          if (seen.has(entry.multilanId)) continue;
+          seen.add(entry.multilanId);
+          entries.push({ ...entry, metadata: { ...entry.metadata, origin: name } });
+        }
+        if (entries.length > 0 && await onChunk(entries) === false) stopped = true;
+        return !stopped;
+      };
+
+      if (port.iterateEntries) {
+        await port.iterateEntries(handleLayerChunk, chunkSize);
+      } else {
+        const translations = port.getTranslationMap();
+        const metadata = port.getMetadataMap();
+        const ids = Object.keys(translations);
+        for (let i = 0; i < ids.length && !stopped; i += chunkSize) {
+          await handleLayerChunk(ids.slice(i, i + chunkSize).map(multilanId => ({
+            multilanId,
+            translations: translations[multilanId],
+            metadata: Object.prototype.hasOwnProperty.call(metadata, multilanId) ? metadata[multilanId] : undefined,
+          })));
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+      }
+      if (stopped) return;
+    }
+  }
+
+  getTranslationMap(): TranslationMap {
+    return this.translationMap;
+  }
+
+  getMetadataMap(): MetadataMap {
+    return this.metadataMap;
+  }
+
+  getTranslationCount(): number {
+    return Object.keys(this.translationMap).length;
+  }
+
+  getSourceIdentifier(): string {
+    return `composite(${this.layers.map(layer => layer.name).join(",")})`;
+  }
+}
@@ -0,0 +1,82 @@
+// i18next Adapter
+// Transforms i18next / flat JSON locale bundles to internal plugin format
+
+import { TranslationDataPort } from "../../ports/translationPort";
+import { TranslationMap, MetadataMap, fileDataLanguages } from "../../shared/types";
+import { I18nextFileData, isI18nextFileData, parseI18nextBundle } from "../types/i18next.types";
+
+/**
+ * Adapter for i18next JSON bundles (one file per language).
+ * Keys are the flattened dotted paths, so multilanIds are not numeric.
+ */
+export class I18nextAdapter implements TranslationDataPort {
+  private translationMap: TranslationMap;
+  private metadataMap: MetadataMap;
+  private readonly sourceIdentifier = "i18next";
+
+  private constructor(translationMap: TranslationMap) {
+    this.translationMap = translationMap;
+    this.metadataMap = {}; // JSON bundles don't contain metadata
+  }
+
+  /**
+   * Async factory — yields between language files and every 2000 keys.
+   */
+  static async createAsync(data: unknown): Promise<I18nextAdapter> {
+    if (!isI18nextFileData(data)) {
+      throw new Error(
+        "Invalid data format: expected JSON bundle contents keyed by language"
+      );
+    }
+    const translationMap = await I18nextAdapter.buildTranslationMapAsync(data);
+    return new I18nextAdapter(translationMap);
+  }
+
+  /**
+   * Build a translation map from all language bundles
+   */
+  private static async buildTranslationMapAsync(data: I18nextFileData): Promise<TranslationMap> {
+    const map: TranslationMap = {};
+
+    for (const lang of fileDataLanguages(data)) {
+      const content = data[lang];
+      if (!content) continue;
+
+      let bundle: Map<string, string>;
+      try {
+        bundle = parseI18nextBundle(content);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid data format: ${lang.toUpperCase()} bundle is not valid JSON (${reason})`);
+      }
+
+      let count = 0;
+      for (const [key, text] of bundle) {
+        (map[key] ?? (map[key] = {}))[lang] = text;
+        count++;
+        if (count % 2000 === 0) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    return map;
+  }
+
+  getTranslationMap(): TranslationMap {
+    return this.translationMap;
+  }
+
+  getMetadataMap(): MetadataMap {
+    return this.metadataMap;
+  }
+
+  getTranslationCount(): number {
+    return Object.keys(this.translationMap).length;
+  }
+
+  getSourceIdentifier(): string {
+    return this.sourceIdentifier;
+  }
+}
@@ -0,0 +1,142 @@
+// Live Adapter
+// Wraps the current port of a source that can be refreshed (e.g. a folder
+// re-upload) and reports what each refresh added, changed or removed
+
+import {
+  TranslationDataPort,
+  TranslationChangeEvent,
+  TranslationChangeListener,
+  TranslationPortEntry,
+  TranslationSearchOptions,
+  TranslationChunkHandler,
+} from "../../ports/translationPort";
+import { TranslationMap, MetadataMap, TranslationEntry, MultilanMetadata } from "../../shared/types";
+
+function sameEntry(a: TranslationEntry, b: TranslationEntry): boolean {
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every(lang => a[lang as keyof TranslationEntry] === b[lang as keyof TranslationEntry]);
+}
+
+function sameMetadata(a: MultilanMetadata | undefined, b: MultilanMetadata | undefined): boolean {
+  // Metadata values are flat strings, so a serialized comparison is enough
+  return JSON.stringify(a ?? {}) === JSON.stringify(b ?? {});
+}
+
+/**
+ * Adapter whose data can be replaced in place. The maps it returns are stable
+ * objects patched on every refresh, so caches keyed on them stay valid once
+ * they've applied the change event. Diffs the materialized maps, so it suits
+ * sources that load everything up front. The current port's lazy methods
+ * (getEntry, searchText, iterateEntries) are offered as the adapter's own.
+ */
+export class LiveAdapter implements TranslationDataPort {
+  private translationMap: TranslationMap;
+  private metadataMap: MetadataMap;
+  private sourceIdentifier: string;
+  private listeners: Set<TranslationChangeListener> = new Set();
+
+  getEntry?: (multilanId: string) => Promise<TranslationPortEntry | null>;
+  searchText?: (query: string, options?: TranslationSearchOptions) => Promise<TranslationPortEntry[]>;
+  iterateEntries?: (onChunk: TranslationChunkHandler, chunkSize?: number) => Promise<void>;
+
+  private constructor(port: TranslationDataPort) {
+    // Adopt the first port's maps rather than copying them; the port is owned
+    // by this adapter from here on
+    this.translationMap = port.getTranslationMap();
+    this.metadataMap = port.getMetadataMap();
+    this.sourceIdentifier = port.getSourceIdentifier();
+    this.forwardLazyMethods(port);
+  }
+
+  private forwardLazyMethods(port: TranslationDataPort): void {
+    this.getEntry = port.getEntry?.bind(port);
+    this.searchText = port.searchText?.bind(port);
+    this.iterateEntries = port.iterateEntries?.bind(port);
+  }
+
+  static async createAsync(port: TranslationDataPort): Promise<LiveAdapter> {
+    return new LiveAdapter(port);
+  }
+
+  /**
+   * Swap in a freshly parsed port, patching the maps in place (yields every
+   * 2000 entries). Listeners are notified once, after the maps are updated,
+   * unless nothing changed.
+   */
+  async replaceAsync(port: TranslationDataPort): Promise<TranslationChangeEvent> {
+    const nextTranslations = port.getTranslationMap();
+    const nextMetadata = port.getMetadataMap();
+    const event: TranslationChangeEvent = { added: [], changed: [], removed: [], previous: {} };
+    let count = 0;
+    const tick = async () => {
+      count++;
+      if (count % 2000 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    };
+
+    for (const multilanId of Object.keys(this.translationMap)) {
+      if (Object.prototype.hasOwnProperty.call(nextTranslations, multilanId)) continue;
+      event.removed.push(multilanId);
+      event.previous[multilanId] = this.translationMap[multilanId];
+      delete this.translationMap[multilanId];
+      delete this.metadataMap[multilanId];
+      await tick();
+    }
+
+    for (const multilanId of Object.keys(nextTranslations)) {
+      if (multilanId === "__proto__") continue;
+      const next = nextTranslations[multilanId];
+      const metadata = Object.prototype.hasOwnProperty.call(nextMetadata, multilanId)
+        ? nextMetadata[multilanId]
+        : undefined;
+
+      if (!Object.prototype.hasOwnProperty.call(this.translationMap, multilanId)) {
+        event.added.push(multilanId);
+      } else if (!sameEntry(this.translationMap[multilanId], next) || !sameMetadata(this.metadataMap[multilanId], metadata)) {
+        event.changed.push(multilanId);
+        event.previous[multilanId] = this.translationMap[multilanId];
+      } else {
+        await tick();
+        continue;
+      }
+
+      this.translationMap[multilanId] = next;
+      if (metadata) {
+        this.metadataMap[multilanId] = metadata;
+      } else {
+        delete this.metadataMap[multilanId];
+      }
+      await tick();
+    }
+
+    this.sourceIdentifier = port.getSourceIdentifier();
+    this.forwardLazyMethods(port);
+    if (event.added.length > 0 || event.changed.length > 0 || event.removed.length > 0) {
+      this.listeners.forEach(listener => listener(event));
+    }
+    return event;
+  }
+
+  subscribe(listener: TranslationChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getTranslationMap(): TranslationMap {
+    return this.translationMap;
+  }
+
+  getMetadataMap(): MetadataMap {
+    return this.metadataMap;
+  }
+
+  getTranslationCount(): number {
+    return Object.keys(this.translationMap).length;
+  }
+
+  getSourceIdentifier(): string {
+    return this.sourceIdentifier;
+  }
+}
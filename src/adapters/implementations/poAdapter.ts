@@ -0,0 +1,112 @@
+// PO Adapter
+// Transforms gettext .po / .pot files to internal plugin format
+
+import { TranslationDataPort } from "../../ports/translationPort";
+import { TranslationMap, MetadataMap, fileDataLanguages } from "../../shared/types";
+import {
+  PoFileData,
+  PO_SOURCE_LANGUAGE,
+  getPoEntryKey,
+  isPoFileData,
+  parsePo,
+} from "../types/po.types";
+
+/**
+ * Adapter for gettext PO files (one file per language).
+ * Fuzzy entries are kept but marked DRAFT; translator comments become notes.
+ */
+export class PoAdapter implements TranslationDataPort {
+  private translationMap: TranslationMap;
+  private metadataMap: MetadataMap;
+  private readonly sourceIdentifier = "po";
+
+  private constructor(translationMap: TranslationMap, metadataMap: MetadataMap) {
+    this.translationMap = translationMap;
+    this.metadataMap = metadataMap;
+  }
+
+  /**
+   * Async factory — yields between language files and every 2000 entries.
+   */
+  static async createAsync(data: unknown): Promise<PoAdapter> {
+    if (!isPoFileData(data)) {
+      throw new Error(
+        "Invalid data format: expected PO file contents keyed by language"
+      );
+    }
+    const { translationMap, metadataMap } = await PoAdapter.buildMapsAsync(data);
+    return new PoAdapter(translationMap, metadataMap);
+  }
+
+  /**
+   * Build translation and metadata maps from all language files
+   */
+  private static async buildMapsAsync(
+    data: PoFileData
+  ): Promise<{ translationMap: TranslationMap; metadataMap: MetadataMap }> {
+    const translationMap: TranslationMap = {};
+    const metadataMap: MetadataMap = {};
+    // msgids are source texts — applied last so an uploaded EN file always wins
+    const sourceTexts = new Map<string, string>();
+
+    for (const lang of fileDataLanguages(data)) {
+      const content = data[lang];
+      if (!content) continue;
+
+      const { entries } = parsePo(content);
+      let count = 0;
+      for (const entry of entries) {
+        const id = getPoEntryKey(entry);
+        if (!id) continue;
+        const translations = translationMap[id] ?? (translationMap[id] = {});
+
+        if (entry.msgstr) {
+          translations[lang] = entry.msgstr;
+        } else if (lang === PO_SOURCE_LANGUAGE) {
+          // Untranslated EN entries (and every .pot entry) carry the text in msgid
+          translations[lang] = entry.msgid;
+        }
+        if (entry.msgid) sourceTexts.set(id, entry.msgid);
+
+        const metadata = metadataMap[id] ?? (metadataMap[id] = { sourceLanguageId: PO_SOURCE_LANGUAGE });
+        if (entry.fuzzy) metadata.status = "DRAFT";
+        for (const comment of entry.translatorComments) {
+          const notes = metadata.notes ? metadata.notes.split("\n") : [];
+          if (!notes.includes(comment)) {
+            metadata.notes = [...notes, comment].join("\n");
+          }
+        }
+
+        count++;
+        if (count % 2000 === 0) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    for (const [id, text] of sourceTexts) {
+      if (translationMap[id][PO_SOURCE_LANGUAGE] === undefined) {
+        translationMap[id][PO_SOURCE_LANGUAGE] = text;
+      }
+    }
+
+    return { translationMap, metadataMap };
+  }
+
+  getTranslationMap(): TranslationMap {
+    return this.translationMap;
+  }
+
+  getMetadataMap(): MetadataMap {
+    return this.metadataMap;
+  }
+
+  getTranslationCount(): number {
+    return Object.keys(this.translationMap).length;
+  }
+
+  getSourceIdentifier(): string {
+    return this.sourceIdentifier;
+  }
+}
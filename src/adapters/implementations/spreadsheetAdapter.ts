@@ -0,0 +1,84 @@
+// Spreadsheet Adapter
+// Transforms a multi-language CSV sheet (converted from XLSX in the UI) to internal plugin format
+
+import { TranslationDataPort } from "../../ports/translationPort";
+import { TranslationMap, MetadataMap } from "../../shared/types";
+import {
+  SpreadsheetFileData,
+  SPREADSHEET_SLOT,
+  isSpreadsheetFileData,
+  parseSpreadsheet,
+} from "../types/spreadsheet.types";
+
+/**
+ * Adapter for a single sheet with one column per language.
+ * Optional status and notes columns feed MultilanMetadata.
+ */
+export class SpreadsheetAdapter implements TranslationDataPort {
+  private translationMap: TranslationMap;
+  private metadataMap: MetadataMap;
+  private readonly sourceIdentifier = "spreadsheet";
+
+  private constructor(translationMap: TranslationMap, metadataMap: MetadataMap) {
+    this.translationMap = translationMap;
+    this.metadataMap = metadataMap;
+  }
+
+  /**
+   * Async factory — yields every 2000 rows.
+   */
+  static async createAsync(data: unknown): Promise<SpreadsheetAdapter> {
+    if (!isSpreadsheetFileData(data)) {
+      throw new Error(
+        "Invalid data format: expected a sheet with an ID column and at least one language column"
+      );
+    }
+    const { translationMap, metadataMap } = await SpreadsheetAdapter.buildMapsAsync(data);
+    return new SpreadsheetAdapter(translationMap, metadataMap);
+  }
+
+  /**
+   * Build translation and metadata maps from the sheet rows
+   */
+  private static async buildMapsAsync(
+    data: SpreadsheetFileData
+  ): Promise<{ translationMap: TranslationMap; metadataMap: MetadataMap }> {
+    const translationMap: TranslationMap = {};
+    const metadataMap: MetadataMap = {};
+    const rows = parseSpreadsheet(data[SPREADSHEET_SLOT]);
+
+    let count = 0;
+    for (const row of rows) {
+      // A repeated ID fills in languages the earlier row left empty
+      translationMap[row.id] = { ...row.translations, ...translationMap[row.id] };
+      if (row.status || row.notes) {
+        const metadata = metadataMap[row.id] ?? (metadataMap[row.id] = {});
+        if (row.status && !metadata.status) metadata.status = row.status;
+        if (row.notes && !metadata.notes) metadata.notes = row.notes;
+      }
+
+      count++;
+      if (count % 2000 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    return { translationMap, metadataMap };
+  }
+
+  getTranslationMap(): TranslationMap {
+    return this.translationMap;
+  }
+
+  getMetadataMap(): MetadataMap {
+    return this.metadataMap;
+  }
+
+  getTranslationCount(): number {
+    return Object.keys(this.translationMap).length;
+  }
+
+  getSourceIdentifier(): string {
+    return this.sourceIdentifier;
+  }
+}
@@ -2,22 +2,24 @@
 // Transforms .tra file format to internal plugin format
 
 import { TranslationDataPort } from "../../ports/translationPort";
-import { TranslationMap, MetadataMap } from "../../shared/types";
-import { TraFileData, parseTraFileAsync, isTraFileData } from "../types/traFile.types";
+import { TranslationMap, MetadataMap, ParseDiagnostic, fileDataLanguages } from "../../shared/types";
+import { TraFileData, parseTraFileDetailedAsync, isTraFileData } from "../types/traFile.types";
 
 /**
  * Adapter for .tra file format.
- * Takes the content of all 4 language files and builds TranslationMap.
+ * Takes the content of each language's file and builds TranslationMap.
  * Use TraFileAdapter.createAsync() for non-blocking parsing of large files.
  */
 export class TraFileAdapter implements TranslationDataPort {
   private translationMap: TranslationMap;
   private metadataMap: MetadataMap;
+  private diagnostics: ParseDiagnostic[];
   private readonly sourceIdentifier = "tra-files";
 
-  private constructor(translationMap: TranslationMap) {
+  private constructor(translationMap: TranslationMap, diagnostics: ParseDiagnostic[]) {
     this.translationMap = translationMap;
     this.metadataMap = {}; // .tra files don't contain metadata
+    this.diagnostics = diagnostics;
   }
 
   /**
@@ -26,30 +28,34 @@ export class TraFileAdapter implements TranslationDataPort {
   static async createAsync(data: unknown): Promise<TraFileAdapter> {
     if (!isTraFileData(data)) {
       throw new Error(
-        "Invalid data format: expected object with en, fr, nl, de string properties"
+        "Invalid data format: expected .tra file contents keyed by language code"
       );
     }
-    const translationMap = await TraFileAdapter.buildTranslationMapAsync(data);
-    return new TraFileAdapter(translationMap);
+    const diagnostics: ParseDiagnostic[] = [];
+    const translationMap = await TraFileAdapter.buildTranslationMapAsync(data, diagnostics);
+    return new TraFileAdapter(translationMap, diagnostics);
   }
 
   /**
    * Build a translation map from .tra file contents (async, chunked).
+   * Problems found in each file are appended to `diagnostics`.
    */
-  private static async buildTranslationMapAsync(data: TraFileData): Promise<TranslationMap> {
+  private static async buildTranslationMapAsync(data: TraFileData, diagnostics: ParseDiagnostic[]): Promise<TranslationMap> {
     const map: TranslationMap = {};
+    const languages = fileDataLanguages(data);
 
-    // Parse all 4 language files in parallel (each yields internally)
-    const [enMap, frMap, nlMap, deMap] = await Promise.all([
-      parseTraFileAsync(data.en),
-      parseTraFileAsync(data.fr),
-      parseTraFileAsync(data.nl),
-      parseTraFileAsync(data.de),
-    ]);
+    // Parse every language file in parallel (each yields internally)
+    const results = await Promise.all(languages.map(lang => parseTraFileDetailedAsync(data[lang])));
+    results.forEach((result, index) => {
+      for (const diagnostic of result.diagnostics) {
+        diagnostics.push({ ...diagnostic, language: languages[index] });
+      }
+    });
+    const langMaps = results.map(result => result.entries);
 
     // Collect all unique multilanIds
     const allIds = new Set<string>();
-    [enMap, frMap, nlMap, deMap].forEach(langMap => {
+    langMaps.forEach(langMap => {
       langMap.forEach((_, id) => allIds.add(id));
     });
 
@@ -58,15 +64,10 @@ export class TraFileAdapter implements TranslationDataPort {
     for (const id of allIds) {
       map[id] = {};
 
-      const enText = enMap.get(id);
-      const frText = frMap.get(id);
-      const nlText = nlMap.get(id);
-      const deText = deMap.get(id);
-
-      if (enText !== undefined) map[id]['en'] = enText;
-      if (frText !== undefined) map[id]['fr'] = frText;
-      if (nlText !== undefined) map[id]['nl'] = nlText;
-      if (deText !== undefined) map[id]['de'] = deText;
+      langMaps.forEach((langMap, index) => {
+        const text = langMap.get(id);
+        if (text !== undefined) map[id][languages[index]] = text;
+      });
 
       count++;
       if (count % 2000 === 0) {
@@ -77,6 +78,13 @@ export class TraFileAdapter implements TranslationDataPort {
     return map;
   }
 
+  /**
+   * Records that couldn't be read, per language file, in file order
+   */
+  getDiagnostics(): ParseDiagnostic[] {
+    return this.diagnostics;
+  }
+
   getTranslationMap(): TranslationMap {
     return this.translationMap;
   }
@@ -0,0 +1,149 @@
+// XLIFF Adapter
+// Transforms XLIFF 1.2 / 2.0 files to internal plugin format
+
+import { TranslationDataPort } from "../../ports/translationPort";
+import {
+  TranslationMap,
+  MetadataMap,
+  MultilanStatus,
+  Language,
+  baseLanguage,
+  fileDataLanguages,
+} from "../../shared/types";
+import {
+  XliffFileData,
+  isXliffFileData,
+  parseXliff,
+  xliffStateToStatus,
+} from "../types/xliff.types";
+
+/**
+ * Workflow order of statuses, least advanced first. When the same unit has
+ * different states across language files, the least advanced one wins — an
+ * entry is only as final as its weakest translation.
+ */
+const STATUS_ORDER: MultilanStatus[] = [
+  "TO_TRANSLATE_EXTERNALLY",
+  "TO_TRANSLATE_INTERNALLY",
+  "DRAFT",
+  "IN_TRANSLATION",
+  "FOUR_EYES_CHECK",
+  "FINAL",
+];
+
+/**
+ * The language a file's source texts fill: its source locale when uploaded,
+ * else an uploaded locale of the same language, else the bare language —
+ * "en-US" sources fill "en" rather than a locale nobody picks.
+ */
+function sourceSlot(sourceLanguage: Language, languages: Language[]): Language {
+  if (languages.includes(sourceLanguage)) return sourceLanguage;
+  const base = baseLanguage(sourceLanguage);
+  if (languages.includes(base)) return base;
+  return languages.find(lang => baseLanguage(lang) === base) ?? base;
+}
+
+/**
+ * Adapter for XLIFF files (one file per target language).
+ * Unit targets fill the slot's language; unit sources fill the file's source
+ * language unless a file for that language was uploaded as well.
+ */
+export class XliffAdapter implements TranslationDataPort {
+  private translationMap: TranslationMap;
+  private metadataMap: MetadataMap;
+  private readonly sourceIdentifier = "xliff";
+
+  private constructor(translationMap: TranslationMap, metadataMap: MetadataMap) {
+    this.translationMap = translationMap;
+    this.metadataMap = metadataMap;
+  }
+
+  /**
+   * Async factory — yields between language files and every 2000 units so a
+   * large vendor delivery never blocks the main thread.
+   * @throws Error if the data is not XLIFF file data or a file is malformed
+   */
+  static async createAsync(data: unknown): Promise<XliffAdapter> {
+    if (!isXliffFileData(data)) {
+      throw new Error(
+        "Invalid data format: expected XLIFF file contents keyed by language"
+      );
+    }
+    const { translationMap, metadataMap } = await XliffAdapter.buildMapsAsync(data);
+    return new XliffAdapter(translationMap, metadataMap);
+  }
+
+  /**
+   * Build translation and metadata maps from all language files
+   */
+  private static async buildMapsAsync(
+    data: XliffFileData
+  ): Promise<{ translationMap: TranslationMap; metadataMap: MetadataMap }> {
+    const translationMap: TranslationMap = {};
+    const metadataMap: MetadataMap = {};
+    // Source texts, applied last so an explicitly uploaded file always wins
+    const sourceTexts: Array<{ id: string; lang: string; text: string }> = [];
+
+    const languages = fileDataLanguages(data);
+    for (const lang of languages) {
+      const content = data[lang];
+      if (!content) continue;
+
+      const doc = parseXliff(content);
+      const source = doc.sourceLanguage && sourceSlot(doc.sourceLanguage, languages);
+      let count = 0;
+      for (const unit of doc.units) {
+        const entry = translationMap[unit.id] ?? (translationMap[unit.id] = {});
+
+        if (unit.target !== undefined && unit.target !== "") {
+          entry[lang] = unit.target;
+        } else if (source === lang && unit.source) {
+          entry[lang] = unit.source;
+        }
+        if (source && source !== lang && unit.source) {
+          sourceTexts.push({ id: unit.id, lang: source, text: unit.source });
+        }
+
+        const status = xliffStateToStatus(unit.state, unit.approved);
+        const metadata = metadataMap[unit.id] ?? (metadataMap[unit.id] = {});
+        if (source && !metadata.sourceLanguageId) {
+          metadata.sourceLanguageId = source;
+        }
+        if (status && (!metadata.status ||
+            STATUS_ORDER.indexOf(status) < STATUS_ORDER.indexOf(metadata.status))) {
+          metadata.status = status;
+        }
+
+        count++;
+        if (count % 2000 === 0) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    for (const { id, lang, text } of sourceTexts) {
+      if (translationMap[id][lang] === undefined) {
+        translationMap[id][lang] = text;
+      }
+    }
+
+    return { translationMap, metadataMap };
+  }
+
+  getTranslationMap(): TranslationMap {
+    return this.translationMap;
+  }
+
+  getMetadataMap(): MetadataMap {
+    return this.metadataMap;
+  }
+
+  getTranslationCount(): number {
+    return Object.keys(this.translationMap).length;
+  }
+
+  getSourceIdentifier(): string {
+    return this.sourceIdentifier;
+  }
+}
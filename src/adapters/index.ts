@@ -2,15 +2,38 @@
 // Central module for managing and creating translation data adapters
 
 import { TranslationDataPort } from "../ports/translationPort";
+import type { SourceFormat } from "../shared/types";
 import { CurrentApiAdapter } from "./implementations/currentApiAdapter";
 import { SearchApiAdapter } from "./implementations/searchApiAdapter";
 import { TraFileAdapter } from "./implementations/traFileAdapter";
+import { XliffAdapter } from "./implementations/xliffAdapter";
+import { PoAdapter } from "./implementations/poAdapter";
+import { I18nextAdapter } from "./implementations/i18nextAdapter";
+import { SpreadsheetAdapter } from "./implementations/spreadsheetAdapter";
+import { AndroidStringsAdapter } from "./implementations/androidStringsAdapter";
+import { AppleStringsAdapter } from "./implementations/appleStringsAdapter";
 import { isCurrentApiFormat } from "./types/currentApi.types";
 import { isSearchApiFormat } from "./types/searchApi.types";
 import { isTraFileData } from "./types/traFile.types";
+import type { TraFileData } from "./types/traFile.types";
+import { isXliffFileData } from "./types/xliff.types";
+import { isPoFileData } from "./types/po.types";
+import { isI18nextFileData } from "./types/i18next.types";
+import { isSpreadsheetFileData } from "./types/spreadsheet.types";
+import { isAndroidStringsFileData } from "./types/androidStrings.types";
+import { isAppleStringsFileData } from "./types/appleStrings.types";
 
 // Supported adapter types
-export type AdapterType = "current-api" | "search-api" | "tra-files";
+export type AdapterType =
+  | "current-api"
+  | "search-api"
+  | "tra-files"
+  | "xliff"
+  | "po"
+  | "i18next"
+  | "spreadsheet"
+  | "android-strings"
+  | "apple-strings";
 
 // Adapter factory function type (sync or async)
 type AdapterFactory = (data: unknown) => TranslationDataPort | Promise<TranslationDataPort>;
@@ -20,6 +43,12 @@ const adapterRegistry = new Map<AdapterType, AdapterFactory>([
   ["current-api", (data) => new CurrentApiAdapter(data)],
   ["search-api", (data) => new SearchApiAdapter(data)],
   ["tra-files", (data) => TraFileAdapter.createAsync(data)],
+  ["xliff", (data) => XliffAdapter.createAsync(data)],
+  ["po", (data) => PoAdapter.createAsync(data)],
+  ["i18next", (data) => I18nextAdapter.createAsync(data)],
+  ["spreadsheet", (data) => SpreadsheetAdapter.createAsync(data)],
+  ["android-strings", (data) => AndroidStringsAdapter.createAsync(data)],
+  ["apple-strings", (data) => AppleStringsAdapter.createAsync(data)],
 ]);
 
 /**
@@ -35,7 +64,27 @@ export function detectAdapterType(data: unknown): AdapterType | null {
   if (isCurrentApiFormat(data)) {
     return "current-api";
   }
-  // .tra file format (object with en, fr, nl, de string properties)
+  // Every file format shares the per-language shape of .tra data, so check them first
+  if (isXliffFileData(data)) {
+    return "xliff";
+  }
+  if (isPoFileData(data)) {
+    return "po";
+  }
+  if (isAndroidStringsFileData(data)) {
+    return "android-strings";
+  }
+  // String Catalogs are JSON too — check before generic JSON bundles
+  if (isAppleStringsFileData(data)) {
+    return "apple-strings";
+  }
+  if (isI18nextFileData(data)) {
+    return "i18next";
+  }
+  if (isSpreadsheetFileData(data)) {
+    return "spreadsheet";
+  }
+  // .tra file format (file contents keyed by language code)
   if (isTraFileData(data)) {
     return "tra-files";
   }
@@ -70,6 +119,34 @@ export async function createAdapter(
   return await factory(data);
 }
 
+// Adapter that parses each uploadable file format
+export const ADAPTER_FOR_FORMAT: Record<SourceFormat, AdapterType> = {
+  tra: "tra-files",
+  xliff: "xliff",
+  po: "po",
+  i18next: "i18next",
+  spreadsheet: "spreadsheet",
+  android: "android-strings",
+  apple: "apple-strings",
+  "search-api": "search-api",
+  "current-api": "current-api",
+};
+
+/**
+ * Create the adapter for uploaded (or stored) files of a known format.
+ * API payloads are kept as JSON text in the EN slot; their adapters take the
+ * parsed payload.
+ */
+export async function createAdapterForFormat(
+  data: TraFileData,
+  sourceFormat: SourceFormat
+): Promise<TranslationDataPort> {
+  const input = sourceFormat === "search-api" || sourceFormat === "current-api"
+    ? JSON.parse(data.en)
+    : data;
+  return createAdapter(input, ADAPTER_FOR_FORMAT[sourceFormat]);
+}
+
 /**
  * Register a new adapter factory
  * Allows extending the adapter system with custom adapters
@@ -101,9 +178,28 @@ export function getRegisteredAdapterTypes(): AdapterType[] {
 export { CurrentApiAdapter } from "./implementations/currentApiAdapter";
 export { SearchApiAdapter, mergeSearchApiResponses } from "./implementations/searchApiAdapter";
 export { TraFileAdapter } from "./implementations/traFileAdapter";
+export { XliffAdapter } from "./implementations/xliffAdapter";
+export { PoAdapter } from "./implementations/poAdapter";
+export { I18nextAdapter } from "./implementations/i18nextAdapter";
+export { SpreadsheetAdapter } from "./implementations/spreadsheetAdapter";
+export { AndroidStringsAdapter } from "./implementations/androidStringsAdapter";
+export { AppleStringsAdapter } from "./implementations/appleStringsAdapter";
+export { CompositeAdapter } from "./implementations/compositeAdapter";
+export type { CompositeLayer } from "./implementations/compositeAdapter";
+export { LiveAdapter } from "./implementations/liveAdapter";
+export { sniffFormat } from "./formatSniffer";
+export type { SniffedFormat, SniffResult } from "./formatSniffer";
+export { diffTranslationMaps } from "./uploadDiff";
 
 // Re-export types
 export { TranslationDataPort } from "../ports/translationPort";
+export type {
+  TranslationPortEntry,
+  TranslationSearchOptions,
+  TranslationChunkHandler,
+  TranslationChangeEvent,
+  TranslationChangeListener,
+} from "../ports/translationPort";
 export type {
   CurrentApiMultilan,
   CurrentApiMultilanText,
@@ -116,5 +212,31 @@ export type {
   SearchApiRequest,
 } from "./types/searchApi.types";
 export { isSearchApiFormat } from "./types/searchApi.types";
-export type { TraFileData } from "./types/traFile.types";
-export { isTraFileData, parseTraFile, parseTraFileAsync, parseTraLine } from "./types/traFile.types";
+export type { TraFileData, TraParseResult } from "./types/traFile.types";
+export {
+  isTraFileData,
+  parseTraFile,
+  parseTraFileAsync,
+  parseTraFileDetailed,
+  parseTraFileDetailedAsync,
+  parseTraLine,
+  TraRecordParser,
+} from "./types/traFile.types";
+export type { XliffFileData, XliffDocument, XliffUnit } from "./types/xliff.types";
+export { isXliffFileData, parseXliff, readXliffLanguages, xliffStateToStatus } from "./types/xliff.types";
+export type { PoFileData, PoDocument, PoEntry } from "./types/po.types";
+export { isPoFileData, parsePo } from "./types/po.types";
+export type { I18nextFileData } from "./types/i18next.types";
+export { isI18nextFileData, flattenI18nextBundle, parseI18nextBundle } from "./types/i18next.types";
+export type {
+  SpreadsheetFileData,
+  SpreadsheetRow,
+  SpreadsheetField,
+  SpreadsheetColumnRole,
+  SpreadsheetColumnMapping,
+} from "./types/spreadsheet.types";
+export { isSpreadsheetFileData, parseSpreadsheet, parseCsvRows } from "./types/spreadsheet.types";
+export type { AndroidStringsFileData } from "./types/androidStrings.types";
+export { isAndroidStringsFileData, parseAndroidStrings } from "./types/androidStrings.types";
+export type { AppleStringsFileData, XcstringsEntry } from "./types/appleStrings.types";
+export { isAppleStringsFileData, parseAppleStrings, parseXcstrings } from "./types/appleStrings.types";
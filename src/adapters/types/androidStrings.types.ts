@@ -0,0 +1,105 @@
+// Types and parser for Android string resources (res/values*/strings.xml)
+// Format:
+//   <resources>
+//     <string name="checkout_submit">Submit</string>
+//     <plurals name="cart_items">
+//       <item quantity="one">%d item</item>
+//       <item quantity="other">%d items</item>
+//     </plurals>
+//     <string-array name="steps"><item>Cart</item><item>Pay</item></string-array>
+//   </resources>
+//
+// Keys are resource names. Plural items become "name.quantity" and array items
+// "name.index", matching how the flattened i18next keys look.
+
+import { isLanguageFileData, LanguageFileData } from "../../shared/types";
+import { elementText, parseAttributes } from "./xliff.types";
+
+/**
+ * strings.xml content per language slot — same shape as TraFileData. The
+ * default `values/strings.xml` goes in the EN slot.
+ */
+export type AndroidStringsFileData = LanguageFileData;
+
+/**
+ * Apply Android's resource string rules to already entity-decoded text:
+ * unquoted runs collapse whitespace, "quoted" runs keep it, and backslash
+ * escapes (\n, \t, \', \", \@, \?, \uXXXX) are resolved.
+ */
+export function unescapeAndroidString(raw: string): string {
+  let result = "";
+  let inQuotes = false;
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i];
+    if (ch === "\\" && i + 1 < raw.length) {
+      const next = raw[++i];
+      if (next === "n") result += "\n";
+      else if (next === "t") result += "\t";
+      else if (next === "u" && /^[0-9a-fA-F]{4}$/.test(raw.slice(i + 1, i + 5))) {
+        result += String.fromCharCode(parseInt(raw.slice(i + 1, i + 5), 16));
+        i += 4;
+      } else result += next;
+    } else if (ch === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && /\s/.test(ch)) {
+      if (!result.endsWith(" ")) result += " ";
+    } else {
+      result += ch;
+    }
+  }
+  return result.trim();
+}
+
+function resourceText(inner: string): string {
+  return unescapeAndroidString(elementText(inner));
+}
+
+/**
+ * Parse a strings.xml file into resource key → text.
+ * @throws Error when the content has no <resources> root
+ */
+export function parseAndroidStrings(content: string): Map<string, string> {
+  if (!/<resources\b/.test(content)) {
+    throw new Error("Invalid Android resources: missing <resources> root element");
+  }
+  const result = new Map<string, string>();
+  // Comments may contain commented-out resources
+  const body = content.replace(/<!--[\s\S]*?-->/g, "");
+
+  const pattern = /<(string|plurals|string-array)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+  let match;
+  while ((match = pattern.exec(body)) !== null) {
+    const [, tag, rawAttrs, inner = ""] = match;
+    const name = parseAttributes(rawAttrs).name;
+    if (!name) continue;
+
+    if (tag === "string") {
+      result.set(name, resourceText(inner));
+      continue;
+    }
+    const itemPattern = /<item\b([^>]*?)(?:\/>|>([\s\S]*?)<\/item>)/g;
+    let item;
+    let index = 0;
+    while ((item = itemPattern.exec(inner)) !== null) {
+      const suffix = tag === "plurals" ? parseAttributes(item[1]).quantity : String(index);
+      if (suffix) result.set(`${name}.${suffix}`, resourceText(item[2] ?? ""));
+      index++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Check whether a string looks like an Android resources file with strings
+ */
+export function isAndroidStringsContent(content: string): boolean {
+  return /<resources\b/.test(content) && /<(string|plurals|string-array)\s[^>]*name=/.test(content);
+}
+
+/**
+ * Check if the data looks like Android strings data (file contents keyed by language,
+ * at least one of which is a strings.xml)
+ */
+export function isAndroidStringsFileData(data: unknown): data is AndroidStringsFileData {
+  return isLanguageFileData(data) && Object.values(data).some(v => isAndroidStringsContent(v));
+}
@@ -0,0 +1,174 @@
+// Types and parsers for Apple localization files
+//
+// .strings (one file per language, e.g. fr.lproj/Localizable.strings):
+//   /* Checkout button */
+//   "checkout.submit" = "Submit";
+//
+// .xcstrings (String Catalog — one JSON file holding every language):
+//   { "sourceLanguage": "en", "strings": { "checkout.submit": {
+//       "comment": "Checkout button",
+//       "localizations": { "fr": { "stringUnit": { "state": "translated", "value": "Soumettre" } } } } } }
+//
+// Keys are the string keys. Plural variations in a catalog become "key.one",
+// "key.other", … like Android plurals.
+
+import { isLanguageFileData, normalizeLocale, LanguageFileData, MultilanStatus } from "../../shared/types";
+
+/**
+ * Apple localization content per language slot — same shape as TraFileData.
+ * Each non-empty value is either that language's .strings file or an
+ * .xcstrings catalog (which carries all languages, so it is stored once).
+ */
+export type AppleStringsFileData = LanguageFileData;
+
+/**
+ * A catalog entry for one language
+ */
+export interface XcstringsEntry {
+  key: string;
+  language: string;
+  value: string;
+  state?: string;
+  comment?: string;
+}
+
+// String Catalog states mapped onto MultilanStatus
+const XCSTRINGS_STATE_MAP: Record<string, MultilanStatus> = {
+  "new": "TO_TRANSLATE_EXTERNALLY",
+  "needs_review": "FOUR_EYES_CHECK",
+  "stale": "IN_TRANSLATION",
+  "translated": "FINAL",
+};
+
+/**
+ * Map a String Catalog `state` to a MultilanStatus
+ */
+export function xcstringsStateToStatus(state?: string): MultilanStatus | undefined {
+  return state ? XCSTRINGS_STATE_MAP[state] : undefined;
+}
+
+/** "fr-BE" / "fr_BE" → "fr-BE"; tags with subtags we don't model keep their language */
+function normalizeAppleLanguage(code: string): string {
+  return normalizeLocale(code) ?? normalizeLocale(code.split(/[-_]/)[0]) ?? code;
+}
+
+function unescapeStringsLiteral(raw: string): string {
+  return raw.replace(/\\(U[0-9a-fA-F]{4}|u[0-9a-fA-F]{4}|.)/g, (_, esc: string) => {
+    if (esc.length === 5) return String.fromCharCode(parseInt(esc.slice(1), 16));
+    switch (esc) {
+      case "n": return "\n";
+      case "t": return "\t";
+      case "r": return "\r";
+      default: return esc;
+    }
+  });
+}
+
+/**
+ * Parse a .strings file into key → text. Comments are skipped; keys may be
+ * quoted or bare identifiers.
+ */
+export function parseAppleStrings(content: string): Map<string, string> {
+  const result = new Map<string, string>();
+  const body = content
+    .replace(/^\uFEFF/, "")
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(/^\s*\/\/.*$/gm, "");
+
+  const literal = `"((?:[^"\\\\]|\\\\.)*)"`;
+  const pattern = new RegExp(`(?:${literal}|([\\w.-]+))\\s*=\\s*${literal}\\s*;`, "g");
+  let match;
+  while ((match = pattern.exec(body)) !== null) {
+    const key = match[1] !== undefined ? unescapeStringsLiteral(match[1]) : match[2];
+    result.set(key, unescapeStringsLiteral(match[3]));
+  }
+  return result;
+}
+
+interface XcstringsStringUnit {
+  state?: string;
+  value?: string;
+}
+
+interface XcstringsLocalization {
+  stringUnit?: XcstringsStringUnit;
+  variations?: { plural?: Record<string, { stringUnit?: XcstringsStringUnit }> };
+}
+
+interface XcstringsCatalog {
+  sourceLanguage: string;
+  strings: Record<string, {
+    comment?: string;
+    localizations?: Record<string, XcstringsLocalization>;
+  }>;
+}
+
+/**
+ * Check whether a string is a String Catalog (.xcstrings JSON)
+ */
+export function isXcstringsContent(content: string): boolean {
+  const trimmed = content.trim();
+  return trimmed.startsWith("{") && /"sourceLanguage"\s*:/.test(trimmed) && /"strings"\s*:/.test(trimmed);
+}
+
+/**
+ * Parse a String Catalog into one entry per key and language. Keys without a
+ * source-language localization use the key itself as source text, as Xcode does.
+ * @throws Error when the content is not a catalog
+ */
+export function parseXcstrings(content: string): { sourceLanguage: string; entries: XcstringsEntry[] } {
+  const catalog = JSON.parse(content) as XcstringsCatalog;
+  if (!catalog || typeof catalog.strings !== "object" || typeof catalog.sourceLanguage !== "string") {
+    throw new Error("Invalid String Catalog: expected sourceLanguage and strings");
+  }
+  const sourceLanguage = normalizeAppleLanguage(catalog.sourceLanguage);
+  const entries: XcstringsEntry[] = [];
+
+  for (const [key, definition] of Object.entries(catalog.strings)) {
+    if (key === "__proto__") continue;
+    const comment = definition?.comment || undefined;
+    const localizations = definition?.localizations ?? {};
+    let hasSource = false;
+
+    for (const [code, localization] of Object.entries(localizations)) {
+      const language = normalizeAppleLanguage(code);
+      const unit = localization.stringUnit;
+      if (unit?.value !== undefined) {
+        entries.push({ key, language, value: unit.value, state: unit.state, comment });
+        if (language === sourceLanguage) hasSource = true;
+      }
+      for (const [quantity, variation] of Object.entries(localization.variations?.plural ?? {})) {
+        const pluralUnit = variation.stringUnit;
+        if (pluralUnit?.value === undefined) continue;
+        entries.push({ key: `${key}.${quantity}`, language, value: pluralUnit.value, state: pluralUnit.state, comment });
+      }
+    }
+    if (!hasSource && !localizations[catalog.sourceLanguage]?.variations) {
+      entries.push({ key, language: sourceLanguage, value: key, comment });
+    }
+  }
+  return { sourceLanguage, entries };
+}
+
+/**
+ * Locales present in a String Catalog, source first
+ */
+export function readXcstringsLanguages(content: string): string[] {
+  const { sourceLanguage, entries } = parseXcstrings(content);
+  return [...new Set([sourceLanguage, ...entries.map(e => e.language)])];
+}
+
+/**
+ * Check whether a string looks like an Apple .strings file
+ */
+export function isAppleStringsContent(content: string): boolean {
+  return /^\s*(?:"(?:[^"\\]|\\.)*"|[\w.-]+)\s*=\s*"(?:[^"\\]|\\.)*"\s*;/m.test(content);
+}
+
+/**
+ * Check if the data looks like Apple localization data (file contents keyed by language,
+ * at least one of which is a .strings file or a String Catalog)
+ */
+export function isAppleStringsFileData(data: unknown): data is AppleStringsFileData {
+  return isLanguageFileData(data) && Object.values(data).some(v => isXcstringsContent(v) || isAppleStringsContent(v));
+}
@@ -0,0 +1,70 @@
+// Types and flattener for i18next / flat JSON locale bundles
+// Format (one file per language, nested or already flat):
+//   { "checkout": { "submit": "Submit", "cancel": "Cancel" }, "home.title": "Welcome" }
+//
+// Nested keys are joined with "." so the multilanId is the same dotted key the
+// developers pass to t() — "checkout.submit", "home.title".
+
+import { isLanguageFileData, LanguageFileData } from "../../shared/types";
+
+/**
+ * JSON bundle content per language slot — same shape as TraFileData, but each
+ * non-empty value is the raw text of one language's JSON file.
+ */
+export type I18nextFileData = LanguageFileData;
+
+/** Separator i18next uses between nested key segments */
+export const I18NEXT_KEY_SEPARATOR = ".";
+
+/**
+ * Flatten a parsed bundle into dotted key → text. Arrays are indexed
+ * ("steps.0"), numbers and booleans are stringified, null and empty objects
+ * are dropped.
+ */
+export function flattenI18nextBundle(bundle: unknown, prefix = ""): Map<string, string> {
+  const result = new Map<string, string>();
+
+  const walk = (value: unknown, key: string) => {
+    if (value === null || value === undefined) return;
+    if (typeof value === "object") {
+      for (const [childKey, child] of Object.entries(value as Record<string, unknown>)) {
+        // JSON.parse keeps "__proto__" as an own key; using it as a map key would pollute prototypes
+        if (childKey === "__proto__") continue;
+        walk(child, key ? key + I18NEXT_KEY_SEPARATOR + childKey : childKey);
+      }
+      return;
+    }
+    if (key) result.set(key, String(value));
+  };
+
+  walk(bundle, prefix);
+  return result;
+}
+
+/**
+ * Parse one JSON bundle file.
+ * @throws Error when the content is not a JSON object
+ */
+export function parseI18nextBundle(content: string): Map<string, string> {
+  const parsed: unknown = JSON.parse(content);
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("Invalid i18next bundle: expected a JSON object");
+  }
+  return flattenI18nextBundle(parsed);
+}
+
+/**
+ * Cheap check whether a string looks like a JSON object (does not parse it)
+ */
+export function isI18nextContent(content: string): boolean {
+  const trimmed = content.trim();
+  return trimmed.startsWith("{") && trimmed.endsWith("}");
+}
+
+/**
+ * Check if the data looks like i18next bundle data (file contents keyed by language,
+ * at least one of which is a JSON object)
+ */
+export function isI18nextFileData(data: unknown): data is I18nextFileData {
+  return isLanguageFileData(data) && Object.values(data).some(v => isI18nextContent(v));
+}
@@ -0,0 +1,183 @@
+// Types and parser for gettext .po / .pot files
+// Format:
+//   # translator comment
+//   #, fuzzy
+//   msgctxt "checkout.submit"
+//   msgid "Submit"
+//   msgstr "Soumettre"
+//
+// Entries are keyed by msgctxt when present (teams use it as the stable key),
+// otherwise by msgid. msgid is the source text, which gettext assumes is English.
+
+import { isLanguageFileData, normalizeLocale, LanguageFileData } from "../../shared/types";
+
+/**
+ * PO content per language slot — same shape as TraFileData, but each non-empty
+ * value is the raw text of one language's .po file (or the .pot for EN).
+ */
+export type PoFileData = LanguageFileData;
+
+/**
+ * A single (non-header, non-obsolete) PO entry
+ */
+export interface PoEntry {
+  msgctxt?: string;
+  msgid: string;
+  msgidPlural?: string;
+  /** msgstr, or msgstr[0] for plural entries */
+  msgstr: string;
+  fuzzy: boolean;
+  /** `# ` translator comments, one per line */
+  translatorComments: string[];
+}
+
+/**
+ * A parsed PO/POT file
+ */
+export interface PoDocument {
+  /** `Language:` header normalized to a locale ("fr-BE"), if present */
+  language?: string;
+  entries: PoEntry[];
+}
+
+/** gettext msgids are written in the source language, which is English by convention */
+export const PO_SOURCE_LANGUAGE = "en";
+
+/**
+ * Key used as multilanId for an entry
+ */
+export function getPoEntryKey(entry: PoEntry): string {
+  return entry.msgctxt ?? entry.msgid;
+}
+
+function unescapePoString(raw: string): string {
+  return raw.replace(/\\(.)/g, (_, ch: string) => {
+    switch (ch) {
+      case "n": return "\n";
+      case "t": return "\t";
+      case "r": return "\r";
+      default: return ch;
+    }
+  });
+}
+
+/** Extract the quoted part of a keyword or continuation line: `msgid "a\"b"` → `a"b` */
+function readQuoted(line: string): string {
+  const match = line.match(/"((?:[^"\\]|\\.)*)"\s*$/);
+  return match ? unescapePoString(match[1]) : "";
+}
+
+function parseHeaderLanguage(headerMsgstr: string): string | undefined {
+  const match = headerMsgstr.match(/^Language:\s*([^\n]*)$/m);
+  const code = match?.[1].trim();
+  if (!code) return undefined;
+  // "fr_BE@euro": the modifier isn't part of the locale
+  const tag = code.split("@")[0];
+  return normalizeLocale(tag) ?? normalizeLocale(tag.split(/[-_]/)[0]) ?? undefined;
+}
+
+/**
+ * Parse a .po or .pot file. Obsolete (`#~`) entries are skipped; the header
+ * entry (empty msgid) only contributes its `Language:` field.
+ */
+export function parsePo(content: string): PoDocument {
+  const entries: PoEntry[] = [];
+  let language: string | undefined;
+
+  let current: Partial<PoEntry> & { translatorComments: string[]; fuzzy: boolean } | null = null;
+  // Which field continuation lines ("...") append to
+  let field: "msgctxt" | "msgid" | "msgidPlural" | "msgstr" | "ignored" | null = null;
+
+  const flush = () => {
+    if (current && current.msgid !== undefined) {
+      if (current.msgid === "" && current.msgctxt === undefined) {
+        language = parseHeaderLanguage(current.msgstr ?? "");
+      } else {
+        entries.push({
+          msgctxt: current.msgctxt,
+          msgid: current.msgid,
+          msgidPlural: current.msgidPlural,
+          msgstr: current.msgstr ?? "",
+          fuzzy: current.fuzzy,
+          translatorComments: current.translatorComments,
+        });
+      }
+    }
+    current = null;
+    field = null;
+  };
+
+  const start = () => {
+    if (!current) current = { translatorComments: [], fuzzy: false };
+    return current;
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) {
+      flush();
+      continue;
+    }
+
+    if (line.startsWith("#")) {
+      // A comment after msgstr starts the next entry (blank lines are optional)
+      if (field === "msgstr" || field === "ignored") flush();
+      if (line.startsWith("#~")) continue;
+      const entry = start();
+      if (line.startsWith("#,")) {
+        if (line.slice(2).split(",").some(flag => flag.trim() === "fuzzy")) entry.fuzzy = true;
+      } else if (line === "#" || line.startsWith("# ")) {
+        const comment = line.slice(1).trim();
+        if (comment) entry.translatorComments.push(comment);
+      }
+      continue;
+    }
+
+    if (line.startsWith('"')) {
+      if (!current || !field || field === "ignored") continue;
+      const entry = current as Partial<PoEntry>;
+      entry[field] = (entry[field] ?? "") + readQuoted(line);
+      continue;
+    }
+
+    const keyword = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s/);
+    if (!keyword) continue;
+
+    if (keyword[1] === "msgctxt" || (keyword[1] === "msgid" && field !== "msgctxt")) {
+      // msgctxt or msgid always opens an entry (unless msgid follows its msgctxt)
+      if (field === "msgstr" || field === "ignored") flush();
+    }
+    const entry = start();
+    if (keyword[1] === "msgctxt") {
+      field = "msgctxt";
+    } else if (keyword[1] === "msgid") {
+      field = "msgid";
+    } else if (keyword[1] === "msgid_plural") {
+      field = "msgidPlural";
+    } else {
+      // Plural forms: keep msgstr[0], ignore the rest
+      field = keyword[2] === undefined || keyword[2] === "0" ? "msgstr" : "ignored";
+    }
+    if (field !== "ignored") {
+      (entry as Partial<PoEntry>)[field] = readQuoted(line);
+    }
+  }
+  flush();
+
+  return { language, entries };
+}
+
+/**
+ * Check whether a string looks like a gettext PO/POT file
+ */
+export function isPoContent(content: string): boolean {
+  return /^\s*msgid\s+"/m.test(content) && /^\s*msgstr(\[\d+\])?\s+"/m.test(content);
+}
+
+/**
+ * Check if the data looks like PO file data (file contents keyed by language,
+ * at least one of which is a PO file)
+ */
+export function isPoFileData(data: unknown): data is PoFileData {
+  return isLanguageFileData(data) && Object.values(data).some(v => isPoContent(v));
+}
@@ -0,0 +1,273 @@
+// Types and parser for spreadsheet (CSV / XLSX) multi-language sheets
+// Format: one header row, then one row per multilan, with a column per locale:
+//   id,en,fr,nl,de,pt-BR,status,notes
+//   10001,Submit,Soumettre,Indienen,Einreichen,Enviar,FINAL,Checkout button
+//
+// XLSX workbooks are converted to rows in the UI (the sandbox can't unzip them
+// cheaply on every load), and the upload modal's column-mapping step rewrites
+// the header to the canonical column names above before storing the sheet.
+
+import {
+  baseLanguage,
+  isLanguageFileData,
+  normalizeLocale,
+  Language,
+  LanguageFileData,
+  MultilanStatus,
+} from "../../shared/types";
+
+/**
+ * Spreadsheet content per language slot — same shape as TraFileData so it
+ * flows through the existing upload/storage path. The whole sheet (CSV with
+ * canonical header) lives in the `en` slot; the other slots stay empty.
+ */
+export type SpreadsheetFileData = LanguageFileData;
+
+/** Slot that carries the sheet in SpreadsheetFileData */
+export const SPREADSHEET_SLOT = "en";
+
+/** Columns a sheet can have besides its language columns */
+export type SpreadsheetField = "id" | "status" | "notes";
+
+export const SPREADSHEET_FIELDS: readonly SpreadsheetField[] = ["id", "status", "notes"];
+
+export function isSpreadsheetField(role: string): role is SpreadsheetField {
+  return (SPREADSHEET_FIELDS as readonly string[]).includes(role);
+}
+
+/**
+ * What a sheet column can feed: a field, or the texts of the locale it's
+ * named after ("en", "pt-BR")
+ */
+export type SpreadsheetColumnRole = SpreadsheetField | Language;
+
+/** Column index per role; unmapped roles are absent */
+export type SpreadsheetColumnMapping = Partial<Record<SpreadsheetColumnRole, number>>;
+
+/**
+ * A parsed sheet row
+ */
+export interface SpreadsheetRow {
+  id: string;
+  translations: { [lang: string]: string };
+  status?: MultilanStatus;
+  notes?: string;
+}
+
+// Header aliases per field, compared lower-cased with spaces/dashes/underscores removed
+const FIELD_ALIASES: Record<SpreadsheetField, string[]> = {
+  id: ["id", "multilanid", "multilan", "key", "stringid"],
+  status: ["status", "state"],
+  notes: ["notes", "note", "comment", "comments", "description", "context"],
+};
+
+// Language columns named in words rather than by locale code
+const LANGUAGE_NAME_ALIASES = new Map<string, Language>([
+  ["english", "en"],
+  ["french", "fr"],
+  ["francais", "fr"],
+  ["dutch", "nl"],
+  ["nederlands", "nl"],
+  ["german", "de"],
+  ["deutsch", "de"],
+]);
+
+const STATUS_VALUES: MultilanStatus[] = [
+  "TO_TRANSLATE_INTERNALLY",
+  "TO_TRANSLATE_EXTERNALLY",
+  "IN_TRANSLATION",
+  "FINAL",
+  "DRAFT",
+  "FOUR_EYES_CHECK",
+];
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_-]+/g, "");
+}
+
+/**
+ * Pick the delimiter from the header line — Excel exports use ";" in
+ * locales where "," is the decimal separator.
+ */
+function detectDelimiter(content: string): string {
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const counts = [",", ";", "\t"].map(d => ({ d, n: firstLine.split(d).length - 1 }));
+  counts.sort((a, b) => b.n - a.n);
+  return counts[0].n > 0 ? counts[0].d : ",";
+}
+
+/**
+ * Parse CSV text into rows (RFC 4180: quoted fields, "" escapes, embedded
+ * newlines, CRLF). Blank lines are dropped.
+ */
+export function parseCsvRows(content: string, delimiter = detectDelimiter(content)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Serialize rows as comma-separated CSV, quoting only where needed
+ */
+export function toCsv(rows: string[][]): string {
+  return rows
+    .map(row => row
+      .map(cell => /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)
+      .join(","))
+    .join("\n");
+}
+
+/**
+ * Guess which role a header cell plays, or null when it matches none. A
+ * language column is headed by its locale code ("fr-BE", "pt_br") or name.
+ */
+export function guessColumnRole(header: string): SpreadsheetColumnRole | null {
+  const normalized = normalizeHeader(header);
+  const field = SPREADSHEET_FIELDS.find(role => FIELD_ALIASES[role].includes(normalized));
+  if (field) return field;
+  const named = LANGUAGE_NAME_ALIASES.get(normalized);
+  if (named) return named;
+  const locale = normalizeLocale(header);
+  // Three-letter headers are only codes with a region ("ref" alone is a word)
+  return locale && (baseLanguage(locale).length === 2 || locale.includes("-")) ? locale : null;
+}
+
+/**
+ * The languages a mapping has columns for, in column order
+ */
+export function mappedLanguages(mapping: SpreadsheetColumnMapping): Language[] {
+  return Object.keys(mapping)
+    .filter(role => !isSpreadsheetField(role) && mapping[role] !== undefined)
+    .sort((a, b) => mapping[a]! - mapping[b]!);
+}
+
+/**
+ * Guess a column mapping from a header row; the first column matching a role wins
+ */
+export function guessColumnMapping(headers: string[]): SpreadsheetColumnMapping {
+  const mapping: SpreadsheetColumnMapping = {};
+  headers.forEach((header, index) => {
+    const role = guessColumnRole(header);
+    if (role && mapping[role] === undefined) mapping[role] = index;
+  });
+  return mapping;
+}
+
+/**
+ * Rewrite a sheet to the canonical layout: only the mapped columns, with the
+ * role names as header. Rows without an ID are dropped.
+ */
+export function toCanonicalSheet(rows: string[][], mapping: SpreadsheetColumnMapping): string {
+  const roles = ["id", ...mappedLanguages(mapping), "status", "notes"].filter(role => mapping[role] !== undefined);
+  const body = rows.slice(1)
+    .map(row => roles.map(role => (row[mapping[role]!] ?? "").trim()))
+    .filter(cells => cells[0] !== "");
+  return toCsv([roles, ...body]);
+}
+
+/**
+ * Map a status cell to a MultilanStatus ("Four eyes check", "final", … are accepted)
+ */
+export function parseSpreadsheetStatus(value: string): MultilanStatus | undefined {
+  const normalized = value.trim().toUpperCase().replace(/[\s-]+/g, "_");
+  return STATUS_VALUES.find(status => status === normalized);
+}
+
+/**
+ * Parse a sheet with a header row into rows keyed by ID. The header is matched
+ * with guessColumnMapping, so canonical and common raw headers both work.
+ * @throws Error when the header has no ID column or no language column
+ */
+export function parseSpreadsheet(content: string): SpreadsheetRow[] {
+  const rows = parseCsvRows(content);
+  if (rows.length === 0) return [];
+
+  const mapping = guessColumnMapping(rows[0]);
+  if (mapping.id === undefined) {
+    throw new Error("Invalid spreadsheet: no ID column in header");
+  }
+  const languages = mappedLanguages(mapping);
+  if (languages.length === 0) {
+    throw new Error("Invalid spreadsheet: no language column in header");
+  }
+
+  const result: SpreadsheetRow[] = [];
+  for (const cells of rows.slice(1)) {
+    const id = (cells[mapping.id] ?? "").trim();
+    // "__proto__" can't be a plain-object map key
+    if (!id || id === "__proto__") continue;
+    const row: SpreadsheetRow = { id, translations: {} };
+    for (const lang of languages) {
+      const text = cells[mapping[lang]!];
+      if (text) row.translations[lang] = text;
+    }
+    if (mapping.status !== undefined) {
+      const status = parseSpreadsheetStatus(cells[mapping.status] ?? "");
+      if (status) row.status = status;
+    }
+    if (mapping.notes !== undefined) {
+      const notes = (cells[mapping.notes] ?? "").trim();
+      if (notes) row.notes = notes;
+    }
+    result.push(row);
+  }
+  return result;
+}
+
+/**
+ * Check whether a string looks like a sheet: its header row names an ID
+ * column and at least one language column
+ */
+export function isSpreadsheetContent(content: string): boolean {
+  const headerEnd = content.search(/\r?\n|$/);
+  const header = parseCsvRows(content.slice(0, headerEnd))[0];
+  if (!header) return false;
+  const mapping = guessColumnMapping(header);
+  return mapping.id !== undefined && mappedLanguages(mapping).length > 0;
+}
+
+/**
+ * Check if the data looks like spreadsheet data (file contents keyed by
+ * language, with a sheet in the `en` slot)
+ */
+export function isSpreadsheetFileData(data: unknown): data is SpreadsheetFileData {
+  return isLanguageFileData(data) && typeof data[SPREADSHEET_SLOT] === 'string' && isSpreadsheetContent(data[SPREADSHEET_SLOT]);
+}
@@ -1,88 +1,251 @@
 // Types for .tra file format
 // Format: multilanId,"text","ignored"
+// multilanIds are usually numeric, but any comma-free key (e.g. "checkout.submit") is accepted
+// Records follow RFC 4180: quoted values may span lines and escape quotes as ""
 
-export interface TraFileData {
-  en: string;
-  fr: string;
-  nl: string;
-  de: string;
+import { isLanguageFileData, LanguageFileData, ParseDiagnostic } from "../../shared/types";
+
+/** .tra file content per language code ("en" for en-BE.tra, "lb" for lb-LU.tra) */
+export type TraFileData = LanguageFileData;
+
+/**
+ * Outcome of parsing one .tra file
+ */
+export interface TraParseResult {
+  /** multilanId -> text; a later record with the same ID wins */
+  entries: Map<string, string>;
+  /** Problems found, in file order */
+  diagnostics: ParseDiagnostic[];
+  /** Non-blank records read */
+  records: number;
+  /** Records dropped because no entry could be read from them */
+  skipped: number;
 }
 
+const ID_PATTERN = /^[^,"\s]+$/;
+const SNIPPET_LENGTH = 60;
+// Characters fed to the parser between yields in parseTraFileDetailedAsync
+const TRA_STREAM_CHUNK_CHARS = 128 * 1024;
+
 /**
- * Parse a single line from a .tra file
- * Format: id,"text","ignored"
+ * Streaming .tra reader: feed text with write() in pieces of any size, then
+ * call end(). A small state machine splits records on unquoted line breaks
+ * (LF, CRLF or CR) and fields on unquoted commas.
  */
-export function parseTraLine(line: string): { id: string; text: string } | null {
-  const trimmed = line.trim();
-  if (!trimmed) return null;
-
-  // Match: id,"text",anything or id,"text"
-  // Handle escaped quotes within the text
-  const match = trimmed.match(/^(\d+),"((?:[^"\\]|\\.|"")*)"/);
-  if (!match) {
-    // Try without quotes for simple values
-    const simpleMatch = trimmed.match(/^(\d+),([^,]*)/);
-    if (simpleMatch) {
-      return { id: simpleMatch[1], text: simpleMatch[2] };
+export class TraRecordParser {
+  private readonly result: TraParseResult = { entries: new Map(), diagnostics: [], records: 0, skipped: 0 };
+  // Line each ID was last read on, to point duplicates at the earlier record
+  private readonly idLines = new Map<string, number>();
+  // The last character of each write is held back so lookahead ("" escapes,
+  // CRLF) can always peek one character ahead
+  private pending = "";
+  private fields: string[] = [];
+  private field = "";
+  private fieldQuoted = false;
+  private firstFieldQuoted = false;
+  private inQuotes = false;
+  private afterQuote = false;
+  private trailingTextReported = false;
+  private line = 1;
+  private recordLine = 1;
+  private raw = "";
+
+  write(chunk: string): void {
+    const text = this.pending + chunk;
+    if (!text) return;
+    this.pending = text.slice(this.consume(text, text.length - 1));
+  }
+
+  end(): TraParseResult {
+    const text = this.pending;
+    this.pending = "";
+    this.consume(text, text.length);
+
+    if (this.inQuotes) {
+      this.report(this.recordLine, "unterminated quoted value — the closing quote is missing");
+      this.result.records++;
+      this.result.skipped++;
+      this.resetRecord();
+    } else if (this.fields.length > 0 || this.field !== "" || this.fieldQuoted) {
+      this.endRecord();
     }
-    return null;
+    return this.result;
   }
 
-  // Unescape double quotes
-  const text = match[2].replace(/""/g, '"');
-  return { id: match[1], text };
-}
+  /**
+   * Read the first `length` characters, peeking at most one beyond. Returns
+   * the index of the first character not consumed.
+   */
+  private consume(text: string, length: number): number {
+    let i = 0;
+    for (; i < length; i++) {
+      const ch = text[i];
+      if (this.raw.length <= SNIPPET_LENGTH) this.raw += ch;
 
-/**
- * Parse a complete .tra file content
- * Returns a map of multilanId -> text
- */
-export function parseTraFile(content: string): Map<string, string> {
-  const result = new Map<string, string>();
-  const lines = content.split('\n');
+      if (this.inQuotes) {
+        if (ch === '"') {
+          if (text[i + 1] === '"') {
+            this.field += '"';
+            i++;
+          } else {
+            this.inQuotes = false;
+            this.afterQuote = true;
+          }
+        } else if (ch === "\\" && i + 1 < text.length && text[i + 1] !== "\r" && text[i + 1] !== "\n") {
+          // Older exports escape with a backslash; keep both characters verbatim
+          this.field += ch + text[i + 1];
+          i++;
+        } else if (ch === "\r" || ch === "\n") {
+          // Line breaks inside a value are kept, normalized to \n
+          if (ch === "\r" && text[i + 1] === "\n") i++;
+          this.field += "\n";
+          this.line++;
+        } else {
+          this.field += ch;
+        }
+      } else if (ch === ",") {
+        this.endField();
+      } else if (ch === "\r" || ch === "\n") {
+        if (ch === "\r" && text[i + 1] === "\n") i++;
+        this.endRecord();
+        this.line++;
+        this.recordLine = this.line;
+      } else if (this.afterQuote) {
+        // Text between a closing quote and the next comma is dropped;
+        // padding spaces are common enough not to be worth reporting
+        if (ch !== " " && ch !== "\t" && !this.trailingTextReported && this.fields.length < 2) {
+          this.report(this.recordLine, "unexpected text after a closing quote");
+          this.trailingTextReported = true;
+        }
+      } else if (ch === '"' && this.field === "" && !this.fieldQuoted) {
+        this.inQuotes = true;
+        this.fieldQuoted = true;
+        if (this.fields.length === 0) this.firstFieldQuoted = true;
+      } else {
+        this.field += ch;
+      }
+    }
+    return i;
+  }
+
+  private endField(): void {
+    this.fields.push(this.field);
+    this.field = "";
+    this.fieldQuoted = false;
+    this.afterQuote = false;
+  }
 
-  for (const line of lines) {
-    const parsed = parseTraLine(line);
-    if (parsed) {
-      result.set(parsed.id, parsed.text);
+  private endRecord(): void {
+    this.endField();
+    const fields = this.fields;
+    const blank = !this.firstFieldQuoted && fields.every(f => f.trim() === "");
+    if (!blank) {
+      this.result.records++;
+      const id = fields[0].trim();
+      let reason: string | null = null;
+      if (!id || this.firstFieldQuoted) {
+        reason = "missing multilanId";
+      } else if (fields.length < 2) {
+        reason = 'no comma — expected multilanId,"text"';
+      } else if (!ID_PATTERN.test(id)) {
+        reason = `invalid multilanId "${id}"`;
+      }
+
+      if (reason) {
+        this.report(this.recordLine, reason);
+        this.result.skipped++;
+      } else {
+        const earlierLine = this.idLines.get(id);
+        if (earlierLine !== undefined) {
+          this.report(this.recordLine, `duplicate multilanId "${id}" — this record replaces the one on line ${earlierLine}`, earlierLine);
+        }
+        this.idLines.set(id, this.recordLine);
+        this.result.entries.set(id, fields[1]);
+      }
     }
+    this.resetRecord();
+  }
+
+  private resetRecord(): void {
+    this.fields = [];
+    this.field = "";
+    this.fieldQuoted = false;
+    this.firstFieldQuoted = false;
+    this.inQuotes = false;
+    this.afterQuote = false;
+    this.trailingTextReported = false;
+    this.raw = "";
   }
 
-  return result;
+  private report(line: number, reason: string, duplicateOfLine?: number): void {
+    const raw = this.raw.replace(/[\r\n]+$/, "");
+    const firstLine = raw.split(/\r\n|\r|\n/)[0];
+    const snippet = raw.length > SNIPPET_LENGTH || firstLine !== raw
+      ? firstLine.slice(0, SNIPPET_LENGTH) + "…"
+      : firstLine;
+    this.result.diagnostics.push(
+      duplicateOfLine === undefined ? { line, reason, snippet } : { line, reason, snippet, duplicateOfLine }
+    );
+  }
 }
 
 /**
- * Async version of parseTraFile — yields every chunkSize lines
- * to avoid blocking the main thread on large files.
+ * Parse a complete .tra file, reporting the records that couldn't be read
  */
-export async function parseTraFileAsync(content: string, chunkSize = 2000): Promise<Map<string, string>> {
-  if (!content) return new Map();
-  const result = new Map<string, string>();
-  const lines = content.split('\n');
+export function parseTraFileDetailed(content: string): TraParseResult {
+  const parser = new TraRecordParser();
+  // A leading byte-order mark is not part of the first ID
+  parser.write(content.charCodeAt(0) === 0xfeff ? content.slice(1) : content);
+  return parser.end();
+}
 
-  for (let i = 0; i < lines.length; i++) {
-    const parsed = parseTraLine(lines[i]);
-    if (parsed) {
-      result.set(parsed.id, parsed.text);
-    }
-    if ((i + 1) % chunkSize === 0) {
+/**
+ * Async version of parseTraFileDetailed — feeds the parser in chunks and
+ * yields between them to avoid blocking the main thread on large files.
+ */
+export async function parseTraFileDetailedAsync(
+  content: string,
+  chunkChars = TRA_STREAM_CHUNK_CHARS
+): Promise<TraParseResult> {
+  const parser = new TraRecordParser();
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+  for (let start = 0; start < text.length; start += chunkChars) {
+    parser.write(text.slice(start, start + chunkChars));
+    if (start + chunkChars < text.length) {
       await new Promise(resolve => setTimeout(resolve, 0));
     }
   }
+  return parser.end();
+}
 
-  return result;
+/**
+ * Parse a single record from a .tra file
+ * Format: id,"text","ignored"
+ */
+export function parseTraLine(line: string): { id: string; text: string } | null {
+  const first = parseTraFileDetailed(line).entries.entries().next();
+  return first.done ? null : { id: first.value[0], text: first.value[1] };
+}
+
+/**
+ * Parse a complete .tra file content
+ * Returns a map of multilanId -> text
+ */
+export function parseTraFile(content: string): Map<string, string> {
+  return parseTraFileDetailed(content).entries;
+}
+
+/**
+ * Async version of parseTraFile
+ */
+export async function parseTraFileAsync(content: string): Promise<Map<string, string>> {
+  if (!content) return new Map();
+  return (await parseTraFileDetailedAsync(content)).entries;
 }
 
 /**
- * Check if the data looks like .tra file data (object with en, fr, nl, de string properties)
+ * Check if the data looks like .tra file data (file contents keyed by language code)
  */
 export function isTraFileData(data: unknown): data is TraFileData {
-  if (typeof data !== 'object' || data === null) return false;
-  const obj = data as Record<string, unknown>;
-  return (
-    typeof obj.en === 'string' &&
-    typeof obj.fr === 'string' &&
-    typeof obj.nl === 'string' &&
-    typeof obj.de === 'string'
-  );
+  return isLanguageFileData(data);
 }
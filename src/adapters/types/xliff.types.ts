@@ -0,0 +1,237 @@
+// Types and parser for XLIFF 1.2 / 2.0 files
+// Vendors deliver one XLIFF per target language; each file carries the source
+// text too, so a single French XLIFF yields both EN (source) and FR (target).
+//
+// The plugin sandbox has no DOMParser, so this is a small string scanner that
+// only understands the elements we need (file/xliff, trans-unit/unit, segment,
+// source, target). Inline markup inside source/target is flattened to text.
+
+import { isLanguageFileData, normalizeLocale, LanguageFileData, MultilanStatus } from "../../shared/types";
+
+/**
+ * XLIFF content per language slot — same shape as TraFileData, but each
+ * non-empty value is the raw text of an XLIFF file whose target is that language.
+ */
+export type XliffFileData = LanguageFileData;
+
+/**
+ * A single translatable unit (1.2 `trans-unit` or 2.0 `unit`)
+ */
+export interface XliffUnit {
+  id: string;
+  source: string;
+  target?: string;
+  state?: string;
+  approved?: boolean;
+}
+
+/**
+ * A parsed XLIFF document
+ */
+export interface XliffDocument {
+  version: "1.2" | "2.0";
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  units: XliffUnit[];
+}
+
+/**
+ * XLIFF state values mapped onto our workflow statuses.
+ * 1.2: new → needs-* → translated → signed-off → final
+ * 2.0: initial → translated → reviewed → final
+ */
+const XLIFF_STATE_MAP: Record<string, MultilanStatus> = {
+  // Nothing done yet — the vendor still has to translate
+  "new": "TO_TRANSLATE_EXTERNALLY",
+  "initial": "TO_TRANSLATE_EXTERNALLY",
+  "needs-translation": "TO_TRANSLATE_EXTERNALLY",
+  // Translated but needs rework
+  "needs-adaptation": "IN_TRANSLATION",
+  "needs-l10n": "IN_TRANSLATION",
+  "translated": "IN_TRANSLATION",
+  // Awaiting review
+  "needs-review-translation": "FOUR_EYES_CHECK",
+  "needs-review-adaptation": "FOUR_EYES_CHECK",
+  "needs-review-l10n": "FOUR_EYES_CHECK",
+  "reviewed": "FOUR_EYES_CHECK",
+  // Done
+  "signed-off": "FINAL",
+  "final": "FINAL",
+};
+
+/**
+ * Map an XLIFF `state` attribute (1.2 or 2.0) to a MultilanStatus.
+ * An approved 1.2 unit without a state counts as FINAL.
+ */
+export function xliffStateToStatus(state?: string, approved?: boolean): MultilanStatus | undefined {
+  if (state) {
+    const status = XLIFF_STATE_MAP[state.toLowerCase()];
+    if (status) return status;
+  }
+  return approved ? "FINAL" : undefined;
+}
+
+/**
+ * Normalize an XLIFF language attribute to a locale, keeping its region
+ * ("fr_be" → "fr-BE"). Tags with subtags we don't model keep their language.
+ */
+export function normalizeXliffLanguage(code: string | undefined): string | undefined {
+  if (!code) return undefined;
+  return normalizeLocale(code) ?? normalizeLocale(code.split(/[-_]/)[0]) ?? undefined;
+}
+
+/**
+ * Parse the attributes of a start tag (entity-decoded)
+ */
+export function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const attrPattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match;
+  while ((match = attrPattern.exec(raw)) !== null) {
+    attrs[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? "");
+  }
+  return attrs;
+}
+
+/**
+ * Decode the predefined XML entities and numeric character references
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case "lt": return "<";
+      case "gt": return ">";
+      case "amp": return "&";
+      case "quot": return '"';
+      case "apos": return "'";
+    }
+    const codePoint = entity[1] === "x"
+      ? parseInt(entity.slice(2), 16)
+      : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(codePoint);
+  });
+}
+
+/**
+ * Flatten the content of a source/target element to plain text:
+ * CDATA is kept verbatim, inline tags (<g>, <x/>, <ph>, <pc>, …) are dropped.
+ */
+export function elementText(inner: string): string {
+  let text = "";
+  const cdataPattern = /<!\[CDATA\[([\s\S]*?)\]\]>/g;
+  let lastIndex = 0;
+  let match;
+  while ((match = cdataPattern.exec(inner)) !== null) {
+    text += decodeXmlEntities(inner.slice(lastIndex, match.index).replace(/<[^>]*>/g, ""));
+    text += match[1];
+    lastIndex = cdataPattern.lastIndex;
+  }
+  text += decodeXmlEntities(inner.slice(lastIndex).replace(/<[^>]*>/g, ""));
+  return text;
+}
+
+/** Collect the text of every `<tag>` child in `body`, in document order. */
+function collectElements(body: string, tag: "source" | "target"): { text: string; attrs: Record<string, string> }[] {
+  const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, "g");
+  const found: { text: string; attrs: Record<string, string> }[] = [];
+  let match;
+  while ((match = pattern.exec(body)) !== null) {
+    found.push({ text: elementText(match[2] ?? ""), attrs: parseAttributes(match[1]) });
+  }
+  return found;
+}
+
+function parseUnits12(content: string): XliffUnit[] {
+  const units: XliffUnit[] = [];
+  const unitPattern = /<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g;
+  let match;
+  while ((match = unitPattern.exec(content)) !== null) {
+    const attrs = parseAttributes(match[1]);
+    if (!attrs.id) continue;
+    // alt-trans holds alternative (e.g. TM) translations — never the real one
+    const body = match[2].replace(/<alt-trans\b[\s\S]*?<\/alt-trans>/g, "");
+    const source = collectElements(body, "source")[0];
+    const target = collectElements(body, "target")[0];
+    units.push({
+      id: attrs.id,
+      source: source?.text ?? "",
+      target: target?.text,
+      state: target?.attrs.state,
+      approved: attrs.approved === "yes",
+    });
+  }
+  return units;
+}
+
+function parseUnits20(content: string): XliffUnit[] {
+  const units: XliffUnit[] = [];
+  const unitPattern = /<unit\b([^>]*)>([\s\S]*?)<\/unit>/g;
+  let match;
+  while ((match = unitPattern.exec(content)) !== null) {
+    const attrs = parseAttributes(match[1]);
+    if (!attrs.id) continue;
+    const body = match[2];
+    // A unit may be split into several segments (plus ignorables); join them back
+    const sources = collectElements(body, "source");
+    const targets = collectElements(body, "target");
+    const segmentState = body.match(/<segment\b[^>]*\bstate\s*=\s*["']([^"']*)["']/);
+    units.push({
+      id: attrs.id,
+      source: sources.map(s => s.text).join(""),
+      target: targets.length > 0 ? targets.map(t => t.text).join("") : undefined,
+      state: segmentState?.[1],
+    });
+  }
+  return units;
+}
+
+/**
+ * Read the declared source/target languages without parsing the units.
+ * Used by the upload modal to assign a dropped file to a language slot.
+ */
+export function readXliffLanguages(content: string): { sourceLanguage?: string; targetLanguage?: string } {
+  const root = content.match(/<xliff\b([^>]*)>/);
+  const rootAttrs = root ? parseAttributes(root[1]) : {};
+  if (rootAttrs.version?.startsWith("2")) {
+    return {
+      sourceLanguage: normalizeXliffLanguage(rootAttrs.srcLang),
+      targetLanguage: normalizeXliffLanguage(rootAttrs.trgLang),
+    };
+  }
+  const file = content.match(/<file\b([^>]*)>/);
+  const fileAttrs = file ? parseAttributes(file[1]) : {};
+  return {
+    sourceLanguage: normalizeXliffLanguage(fileAttrs["source-language"]),
+    targetLanguage: normalizeXliffLanguage(fileAttrs["target-language"]),
+  };
+}
+
+/**
+ * Parse an XLIFF 1.2 or 2.0 document into its translation units
+ * @throws Error if the content has no <xliff> root element
+ */
+export function parseXliff(content: string): XliffDocument {
+  const root = content.match(/<xliff\b([^>]*)>/);
+  if (!root) {
+    throw new Error("Invalid XLIFF: missing <xliff> root element");
+  }
+  const version = parseAttributes(root[1]).version?.startsWith("2") ? "2.0" : "1.2";
+  const { sourceLanguage, targetLanguage } = readXliffLanguages(content);
+  const units = version === "2.0" ? parseUnits20(content) : parseUnits12(content);
+  return { version, sourceLanguage, targetLanguage, units };
+}
+
+/**
+ * Check whether a string looks like an XLIFF document
+ */
+export function isXliffContent(content: string): boolean {
+  return /<xliff[\s>]/.test(content);
+}
+
+/**
+ * Check if the data looks like XLIFF file data (file contents keyed by language,
+ * at least one of which is an XLIFF document)
+ */
+export function isXliffFileData(data: unknown): data is XliffFileData {
+  return isLanguageFileData(data) && Object.values(data).some(v => isXliffContent(v));
+}
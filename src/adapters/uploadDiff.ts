@@ -0,0 +1,53 @@
+// Upload diff - compares a folder's stored translations with what an upload
+// would store, per language, so the upload modal can show what a release changes.
+
+import type { Language, TranslationMap, UploadLanguageDiff } from "../shared/types";
+
+/**
+ * Per-language IDs an upload adds (no text before), removes (no text after)
+ * or rewords (different text). Languages without changes are left out.
+ * Yields every 2000 IDs.
+ */
+export async function diffTranslationMaps(
+  previous: TranslationMap,
+  next: TranslationMap,
+  languages: readonly Language[]
+): Promise<Partial<Record<Language, UploadLanguageDiff>>> {
+  const diffs: Record<string, UploadLanguageDiff> = {};
+  for (const lang of languages) {
+    diffs[lang] = { added: [], removed: [], reworded: [] };
+  }
+
+  const ids = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  let count = 0;
+  for (const multilanId of ids) {
+    if (multilanId === "__proto__") continue;
+    const before = Object.prototype.hasOwnProperty.call(previous, multilanId) ? previous[multilanId] : undefined;
+    const after = Object.prototype.hasOwnProperty.call(next, multilanId) ? next[multilanId] : undefined;
+    for (const lang of languages) {
+      const oldText = before?.[lang];
+      const newText = after?.[lang];
+      if (oldText === newText) continue;
+      if (oldText === undefined) {
+        diffs[lang].added.push(multilanId);
+      } else if (newText === undefined) {
+        diffs[lang].removed.push(multilanId);
+      } else {
+        diffs[lang].reworded.push(multilanId);
+      }
+    }
+    count++;
+    if (count % 2000 === 0) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  const result: Partial<Record<Language, UploadLanguageDiff>> = {};
+  for (const lang of languages) {
+    const diff = diffs[lang];
+    if (diff.added.length > 0 || diff.removed.length > 0 || diff.reworded.length > 0) {
+      result[lang] = diff;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,141 @@
+// Upload validation - checks uploaded files before anything is stored, so the
+// upload modal can show what is about to be loaded and let the user back out.
+
+import { TraFileAdapter } from "./implementations/traFileAdapter";
+import { createAdapterForFormat } from "./index";
+import type { TraFileData } from "./types/traFile.types";
+import type { Language, SourceFormat, TranslationEntry } from "../shared/types";
+
+export type UploadIssueKind =
+  | "parse"
+  | "duplicate-id"
+  | "missing-language"
+  | "empty-wording"
+  | "placeholder-mismatch"
+  | "mojibake";
+
+export interface UploadIssue {
+  kind: UploadIssueKind;
+  message: string;
+  multilanId?: string;
+  language?: Language;
+  /** 1-based line in the language's file, when known */
+  line?: number;
+}
+
+export interface UploadValidationReport {
+  translationCount: number;
+  issues: UploadIssue[];
+}
+
+export interface ValidateUploadOptions {
+  /** Languages whose file wasn't valid UTF-8 and was read as windows-1252 */
+  fallbackLanguages?: Language[];
+}
+
+const PLACEHOLDER_PATTERN = /###([^#]+)###/g;
+// UTF-8 read as windows-1252: a lead byte shown as "Ã", "Â" or "â" followed by a
+// continuation byte (0x80-0xBF) as windows-1252 shows it ("Ã©" for "é",
+// "â€™" for "’"); or C1 control characters, which a windows-1252 read leaves
+// for the bytes it doesn't define
+const MOJIBAKE_PATTERN =
+  /[\u00c2\u00c3][\u00a0-\u00bf\u0152\u0153\u0160\u0161\u0178\u017d\u017e\u0192\u02c6\u02dc\u2013\u2014\u2018-\u201a\u201c-\u201e\u2020-\u2022\u2026\u2030\u2039\u203a\u20ac\u2122]|\u00e2\u20ac|[\u0080-\u009f]/;
+
+function placeholderSet(text: string): string {
+  const names = new Set<string>();
+  let match: RegExpExecArray | null;
+  PLACEHOLDER_PATTERN.lastIndex = 0;
+  while ((match = PLACEHOLDER_PATTERN.exec(text)) !== null) {
+    names.add(match[1]);
+  }
+  return Array.from(names).sort().map(name => `###${name}###`).join(" ");
+}
+
+function checkEntry(multilanId: string, entry: TranslationEntry, languages: Language[], issues: UploadIssue[]): void {
+  const present = languages.filter(lang => entry[lang] !== undefined);
+
+  const missing = languages.filter(lang => entry[lang] === undefined);
+  if (missing.length > 0 && languages.length > 1) {
+    issues.push({
+      kind: "missing-language",
+      multilanId,
+      message: `${multilanId} has no ${missing.map(lang => lang.toUpperCase()).join(", ")} text`,
+    });
+  }
+
+  for (const lang of present) {
+    const text = entry[lang];
+    if (!text.trim()) {
+      issues.push({ kind: "empty-wording", multilanId, language: lang, message: `${multilanId} is empty in ${lang.toUpperCase()}` });
+    } else if (MOJIBAKE_PATTERN.test(text)) {
+      issues.push({
+        kind: "mojibake",
+        multilanId,
+        language: lang,
+        message: `${multilanId} in ${lang.toUpperCase()} looks garbled: "${text.length > 60 ? text.slice(0, 60) + "…" : text}"`,
+      });
+    }
+  }
+
+  const withText = present.filter(lang => entry[lang].trim());
+  const sets = withText.map(lang => placeholderSet(entry[lang]));
+  if (sets.some(set => set !== sets[0])) {
+    issues.push({
+      kind: "placeholder-mismatch",
+      multilanId,
+      message: `${multilanId} has different variables per language: ${withText
+        .map((lang, i) => `${lang.toUpperCase()} ${sets[i] || "(none)"}`)
+        .join(" · ")}`,
+    });
+  }
+}
+
+/**
+ * Parse uploaded files with the adapter for their format and report problems:
+ * records the parser couldn't read or read twice (.tra only), IDs missing from
+ * some of the uploaded languages, empty wordings, `###var###` sets that differ
+ * between languages, and text that looks mis-decoded. Yields every 2000 entries.
+ * @param languages The languages this upload provides
+ * @throws Error when the files can't be parsed at all
+ */
+export async function validateUpload(
+  data: TraFileData,
+  sourceFormat: SourceFormat,
+  languages: Language[],
+  options: ValidateUploadOptions = {}
+): Promise<UploadValidationReport> {
+  const port = await createAdapterForFormat(data, sourceFormat);
+  const issues: UploadIssue[] = [];
+
+  for (const lang of options.fallbackLanguages ?? []) {
+    issues.push({
+      kind: "mojibake",
+      language: lang,
+      message: `The ${lang.toUpperCase()} file isn't valid UTF-8 and was read as Windows-1252 — check its accented characters`,
+    });
+  }
+
+  if (port instanceof TraFileAdapter) {
+    for (const diagnostic of port.getDiagnostics()) {
+      const where = `${diagnostic.language ? diagnostic.language.toUpperCase() + " " : ""}line ${diagnostic.line}`;
+      issues.push({
+        kind: diagnostic.duplicateOfLine !== undefined ? "duplicate-id" : "parse",
+        language: diagnostic.language,
+        line: diagnostic.line,
+        message: `${where}: ${diagnostic.reason} — ${diagnostic.snippet}`,
+      });
+    }
+  }
+
+  const translationMap = port.getTranslationMap();
+  let count = 0;
+  for (const multilanId of Object.keys(translationMap)) {
+    checkEntry(multilanId, translationMap[multilanId], languages, issues);
+    count++;
+    if (count % 2000 === 0) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  return { translationCount: count, issues };
+}
@@ -11,60 +11,99 @@ import {
   MetadataMap,
   PluginMessage,
   Language,
-  SUPPORTED_LANGUAGES,
-  FOLDER_NAMES,
+  DEFAULT_LANGUAGES,
+  fileDataLanguages,
+  isLanguageCode,
+  DEFAULT_FOLDER_NAMES,
+  MAX_FOLDER_NAME_LENGTH,
   FrameNodeMatchResult,
   TextNodeInfo,
   FolderDataStatus,
   TraUploadMetadata,
+  SourceFormat,
+  ParseDiagnostic,
+  UploadDiff,
+  UploadLanguageDiff,
+  UploadMode,
+  TextScope,
+  isTextScope,
+  PageResult,
 } from "../shared/types";
-import { createAdapter } from "../adapters";
+import {
+  createAdapterForFormat,
+  diffTranslationMaps,
+  TranslationDataPort,
+  CompositeAdapter,
+  LiveAdapter,
+  TraFileAdapter,
+} from "../adapters";
+import type { TranslationChangeEvent } from "../adapters";
 import { TraFileData } from "../adapters/types/traFile.types";
 import { deflateSync, inflateSync, strToU8, strFromU8 } from "fflate";
 
 import {
   getAllTranslations,
   getTranslation,
+  getEntryAsync,
+  primeEntriesAsync,
   isLanguage,
-  globalSearchTranslationsAsync,
-  searchTranslationsWithScoreAsync,
+  globalSearchAsync,
+  searchWithScoreAsync,
   detectLanguage,
   detectMatchAsync,
   invalidateTextToIdMapCache,
+  updateTextToIdMapCache,
   getTextToIdMap,
   normalizeExactKey,
   createCancellationToken,
 } from "./services/translationService";
 import type { CancellationToken } from "./services/translationService";
+import { stripMarkup } from "./services/markupService";
 import {
   getAllTextNodesInfo,
+  getTextNodesInfo,
+  getTextNodesByPage,
+  getPageResult,
   getSelectedTextNodeInfo,
   selectNode,
+  selectNodes,
   getTextNodesInScope,
   getMultilanId,
   getExpectedText,
   isTextModified,
   clearMultilanId,
   clearExpectedText,
+  clearVariableValues,
   removeMultilanIdFromName,
   loadNodeFont,
   getTextNodeById,
-  updateNodeText,
   setExpectedText,
   buildTextNodeInfo,
   isEffectivelyVisible,
 } from "./services/nodeService";
+import type { PageTextNodes } from "./services/nodeService";
 import {
   linkTextNode,
   unlinkTextNode,
   markAsPlaceholder,
-  switchLanguage,
+  switchNodesLanguage,
+  switchDocumentLanguage,
   createLinkedTextNode,
-  rewriteInterpolatedNodesToTemplate,
+  writeTranslation,
+  captureInterpolatedValues,
 } from "./services/linkingService";
 import {
   setFolderTraData,
   touchFolder,
+  setFolderOverlay,
+  getFolderOverlay,
+  clearFolderOverlay,
+  getFolderHistory,
+  rollbackFolder,
+  getFolderNames,
+  setFolderNames,
+  moveFolderData,
+  clearFolderCache,
 } from "./services/storageService";
 
 // ---- Constants ----
@@ -72,6 +111,23 @@ import {
 declare const __BUILD_TIMESTAMP__: string;
 const BUILD_TIMESTAMP = typeof __BUILD_TIMESTAMP__ !== "undefined" ? __BUILD_TIMESTAMP__ : new Date().toISOString();
 
+// Last multilan:search endpoint used for a live search-API load
+const SEARCH_API_ENDPOINT_STORAGE_KEY = "searchApiEndpoint";
+// Languages whose text a language switch uses, in order, when a language has none
+const FALLBACK_LANGUAGES_STORAGE_KEY = "fallbackLanguages";
+const DEFAULT_FALLBACK_LANGUAGES: Language[] = ["en"];
+// Scope the user last chose for language switches and highlighting
+const SCOPE_STORAGE_KEY = "scope";
+const DEFAULT_SCOPE: TextScope = "selection";
+
+// Layer names recorded as each entry's origin when a folder has a draft overlay
+const OVERLAY_LAYER = "draft";
+const BASE_LAYER = "official";
+
+// Formats that carry every language in one file, stored in the EN slot. They
+// replace the folder on upload instead of merging per language.
+const SINGLE_FILE_FORMATS: SourceFormat[] = ["spreadsheet", "search-api", "current-api"];
+
 // ---- Compression helpers for clientStorage ----
 
 function compressText(text: string): string {
@@ -87,28 +143,32 @@ function decompressText(b64: string): string {
 }
 
 function compressTraData(data: TraFileData): TraFileData {
-  return {
-    en: compressText(data.en),
-    fr: compressText(data.fr),
-    nl: compressText(data.nl),
-    de: compressText(data.de),
-  };
+  const compressed: TraFileData = {};
+  for (const lang of Object.keys(data)) compressed[lang] = compressText(data[lang]);
+  return compressed;
 }
 
 function decompressTraData(data: TraFileData): TraFileData {
-  return {
-    en: decompressText(data.en),
-    fr: decompressText(data.fr),
-    nl: decompressText(data.nl),
-    de: decompressText(data.de),
-  };
+  const decompressed: TraFileData = {};
+  for (const lang of Object.keys(data)) decompressed[lang] = decompressText(data[lang]);
+  return decompressed;
 }
 
 // ---- Plugin State ----
 
-let currentFolder: string = FOLDER_NAMES[0] || "EB";
+// The user's folders, in display order (loaded from clientStorage at startup)
+let folderNames: string[] = [...DEFAULT_FOLDER_NAMES];
+let currentFolder: string = folderNames[0] || "EB";
 let translationData: TranslationMap = {};
 let metadataData: MetadataMap = {};
+// Port the current folder is served through (the live source, which forwards
+// the lazy methods of the port it wraps) — lazy ports serve entries on demand
+let activePort: TranslationDataPort | null = null;
+// Owns translationData/metadataData for the loaded folder; refreshes of that
+// folder go through it so only the affected entries are updated
+let liveSource: LiveAdapter | null = null;
+let liveSourceFolder: string | null = null;
+let unsubscribeLiveSource: (() => void) | null = null;
 let lastSelectionTextNodes: TextNodeInfo[] = [];
 let lastFrameMatchResults: FrameNodeMatchResult[] | undefined = undefined;
 let selectionChangeTimer: ReturnType<typeof setTimeout> | null = null;
@@ -146,47 +206,157 @@ function getCachedPageNodes(): TextNode[] {
   return pageNodeCache;
 }
 
+/**
+ * Text nodes in scope. On the "document" scope they also come grouped by
+ * page, for the per-page results its actions report.
+ */
+async function getScopeNodes(scope: TextScope): Promise<{ nodes: TextNode[]; pages: PageTextNodes[] | null }> {
+  if (scope !== "document") return { nodes: getTextNodesInScope(scope), pages: null };
+  const pages = await getTextNodesByPage();
+  const nodes: TextNode[] = [];
+  for (const page of pages) nodes.push(...page.nodes);
+  return { nodes, pages };
+}
+
 // ---- Translation Data Management ----
 
-async function initializeTraFileData(traData: TraFileData): Promise<boolean> {
+/** A folder's draft overlay, decompressed and ready to parse */
+interface FolderOverlay {
+  data: TraFileData;
+  sourceFormat: SourceFormat;
+}
+
+/** Records the adapter couldn't read from the files (only .tra reports them) */
+function readParseDiagnostics(port: TranslationDataPort): ParseDiagnostic[] {
+  return port instanceof TraFileAdapter ? port.getDiagnostics() : [];
+}
+
+/** Build the port for a folder's files, with its draft overlay stacked on top */
+async function buildFolderPort(
+  traData: TraFileData,
+  sourceFormat: SourceFormat,
+  overlay?: FolderOverlay
+): Promise<TranslationDataPort> {
+  const adapter = await createAdapterForFormat(traData, sourceFormat);
+  if (!overlay) return adapter;
+  // Draft strings take precedence over the folder's own data
+  return CompositeAdapter.createAsync([
+    { name: OVERLAY_LAYER, port: await createAdapterForFormat(overlay.data, overlay.sourceFormat) },
+    { name: BASE_LAYER, port: adapter },
+  ]);
+}
+
+function clearLoadedData(): void {
+  unsubscribeLiveSource?.();
+  unsubscribeLiveSource = null;
+  liveSource = null;
+  liveSourceFolder = null;
+  activePort = null;
+  translationData = {};
+  metadataData = {};
+}
+
+async function initializeTraFileData(
+  traData: TraFileData,
+  sourceFormat: SourceFormat = "tra",
+  overlay?: FolderOverlay
+): Promise<boolean> {
   try {
-    const adapter = await createAdapter(traData, "tra-files");
-    translationData = adapter.getTranslationMap();
-    metadataData = adapter.getMetadataMap();
+    const port = await buildFolderPort(traData, sourceFormat, overlay);
+    clearLoadedData();
+    liveSource = await LiveAdapter.createAsync(port);
+    liveSourceFolder = currentFolder;
+    unsubscribeLiveSource = liveSource.subscribe(event => {
+      handleTranslationChanges(event).catch(err => console.error('handleTranslationChanges failed:', err));
+    });
+    activePort = liveSource;
+    translationData = liveSource.getTranslationMap();
+    metadataData = liveSource.getMetadataMap();
     invalidateTextToIdMapCache();
     console.log(`Loaded ${Object.keys(translationData).length} translations`);
     return true;
   } catch (error) {
-    console.error(`Failed to parse .tra files:`, error);
+    console.error(`Failed to parse ${sourceFormat} files:`, error);
     return false;
   }
 }
 
+/**
+ * Reload the current folder after its stored data changed. When the folder is
+ * already loaded, the new data is swapped into the live source and only the
+ * affected entries are updated (see handleTranslationChanges); otherwise the
+ * folder is loaded from scratch. Parse errors propagate on the refresh path.
+ */
+async function reloadCurrentFolder(
+  traData: TraFileData,
+  sourceFormat: SourceFormat = "tra",
+  overlay?: FolderOverlay
+): Promise<void> {
+  if (liveSource && liveSourceFolder === currentFolder) {
+    const port = await buildFolderPort(traData, sourceFormat, overlay);
+    await liveSource.replaceAsync(port);
+    return;
+  }
+  await initializeTraFileData(traData, sourceFormat, overlay);
+  await initialize();
+}
+
 async function buildFolderDataStatus(): Promise<FolderDataStatus> {
   const status: FolderDataStatus = {};
   const results = await Promise.all(
-    FOLDER_NAMES.map(async (folder) => {
-      const [cached, meta] = await Promise.all([
+    folderNames.map(async (folder) => {
+      const [cached, meta, overlay, history] = await Promise.all([
         figma.clientStorage.getAsync('traData_' + folder).catch(() => null),
         figma.clientStorage.getAsync('traMetadata_' + folder).catch(() => null),
+        getFolderOverlay(folder),
+        getFolderHistory(folder),
       ]);
-      return { folder, hasData: !!cached, metadata: meta as TraUploadMetadata | undefined };
+      return {
+        folder,
+        hasData: !!cached,
+        metadata: meta as TraUploadMetadata | undefined,
+        overlay: overlay?.metadata as TraUploadMetadata | undefined,
+        history: history.map(release => release.metadata as TraUploadMetadata),
+      };
     })
   );
-  for (const { folder, hasData, metadata } of results) {
-    status[folder] = { hasData, metadata };
+  for (const { folder, hasData, metadata, overlay, history } of results) {
+    status[folder] = overlay ? { hasData, metadata, overlay } : { hasData, metadata };
+    if (history.length > 0) status[folder].history = history;
   }
   return status;
 }
 
+async function loadFolderMetadata(folder: string): Promise<TraUploadMetadata | undefined> {
+  const meta = await figma.clientStorage.getAsync('traMetadata_' + folder).catch(() => undefined);
+  return (meta as TraUploadMetadata | undefined) || undefined;
+}
+
+/** A folder's languages, in upload order; the defaults while it has no data */
+async function loadFolderLanguages(folder: string): Promise<Language[]> {
+  const languages = (await loadFolderMetadata(folder))?.availableLanguages ?? [];
+  return languages.length > 0 ? languages : [...DEFAULT_LANGUAGES];
+}
+
+async function loadFallbackLanguages(): Promise<Language[]> {
+  const stored = await figma.clientStorage.getAsync(FALLBACK_LANGUAGES_STORAGE_KEY).catch(() => undefined);
+  return Array.isArray(stored) ? stored.filter(isLanguageCode) : [...DEFAULT_FALLBACK_LANGUAGES];
+}
+
+async function loadScope(): Promise<TextScope> {
+  const stored = await figma.clientStorage.getAsync(SCOPE_STORAGE_KEY).catch(() => undefined);
+  return isTextScope(stored) ? stored : DEFAULT_SCOPE;
+}
+
 async function loadTraDataForFolder(folder: string): Promise<TraFileData | null> {
   try {
     const cached = await figma.clientStorage.getAsync('traData_' + folder);
     if (!cached) return null;
     const data = cached as TraFileData;
-    // Detect if data is compressed (base64 doesn't start with a digit like raw .tra lines)
-    const sample = data.en || data.fr || data.nl || data.de;
-    if (sample && !sample.match(/^\d/)) {
+    // Detect if data is compressed — raw .tra lines always contain a comma, base64 never does
+    // (IDs are not necessarily numeric, so the first character proves nothing)
+    const sample = Object.keys(data).map(lang => data[lang]).find(Boolean);
+    if (sample && !sample.includes(',')) {
       return decompressTraData(data);
     }
     return data;
@@ -195,10 +365,22 @@ async function loadTraDataForFolder(folder: string): Promise<TraFileData | null>
   }
 }
 
+async function loadOverlayForFolder(folder: string): Promise<FolderOverlay | undefined> {
+  const stored = await getFolderOverlay(folder);
+  if (!stored) return undefined;
+  const metadata = stored.metadata as TraUploadMetadata | undefined;
+  return {
+    data: decompressTraData(stored.data as TraFileData),
+    sourceFormat: metadata?.sourceFormat ?? "tra",
+  };
+}
+
 async function initializeWithFolder(): Promise<void> {
+  folderNames = await getFolderNames(DEFAULT_FOLDER_NAMES);
+  currentFolder = folderNames[0];
   try {
     const saved = await figma.clientStorage.getAsync('selectedFolder');
-    if (saved && FOLDER_NAMES.includes(saved)) {
+    if (saved && folderNames.includes(saved)) {
       currentFolder = saved;
     }
   } catch {
@@ -207,13 +389,19 @@ async function initializeWithFolder(): Promise<void> {
 
   const traData = await loadTraDataForFolder(currentFolder);
   if (traData) {
-    await initializeTraFileData(traData);
+    const meta = await loadFolderMetadata(currentFolder);
+    await initializeTraFileData(traData, meta?.sourceFormat, await loadOverlayForFolder(currentFolder));
   } else {
-    translationData = {};
-    metadataData = {};
+    clearLoadedData();
   }
 }
 
+/** Fetch the entries linked in `nodes` from a lazy port before sync code reads them */
+async function primeLinkedEntries(nodes: TextNode[]): Promise<void> {
+  const ids = nodes.map(getMultilanId).filter((id): id is string => id !== null);
+  await primeEntriesAsync(activePort, translationData, metadataData, ids);
+}
+
 // ---- Auto-Unlink Modified Nodes ----
 
 function autoUnlinkModifiedNodes(nodes: TextNode[]): number {
@@ -227,6 +415,7 @@ function autoUnlinkModifiedNodes(nodes: TextNode[]): number {
       removeMultilanIdFromName(node);
       clearMultilanId(node);
       clearExpectedText(node);
+      clearVariableValues(node);
       unlinkedCount++;
       continue;
     }
@@ -238,11 +427,12 @@ function autoUnlinkModifiedNodes(nodes: TextNode[]): number {
       const translations = getTranslations(multilanId);
       if (translations) {
         const matchesAnyTranslation = Object.values(translations).some(
-          (text) => text === node.characters
+          (text) => stripMarkup(text) === node.characters
         );
         if (!matchesAnyTranslation) {
           removeMultilanIdFromName(node);
           clearMultilanId(node);
+          clearVariableValues(node);
           unlinkedCount++;
         }
       }
@@ -310,7 +500,7 @@ async function patchNodeInSelection(
 
   let frameMatchResults = previousFrameMatchResults;
   if (previousFrameMatchResults && previousFrameMatchResults.length > 1) {
-    const textToIdMap = await getTextToIdMap(translationData);
+    const textToIdMap = await getTextToIdMap(translationData, activePort);
     const updatedMatch = buildSingleFrameMatchResult(updatedInfo, textToIdMap);
     frameMatchResults = previousFrameMatchResults.map(r =>
       r.nodeId === changedNode.id ? updatedMatch : r
@@ -336,10 +526,37 @@ async function sendNodeUpdate(node: TextNode): Promise<void> {
   });
 }
 
+/**
+ * Apply a refresh of the loaded folder incrementally: patch the exact-match
+ * cache and send the UI only the linked nodes whose entries changed.
+ */
+async function handleTranslationChanges(event: TranslationChangeEvent): Promise<void> {
+  updateTextToIdMapCache(translationData, event);
+
+  const affectedIds = new Set([...event.added, ...event.changed, ...event.removed]);
+  const affectedNodes = getCachedPageNodes().filter(node => {
+    const multilanId = getMultilanId(node);
+    return multilanId !== null && affectedIds.has(multilanId);
+  });
+
+  figma.ui.postMessage({
+    type: "translations-changed",
+    translationChanges: { added: event.added, changed: event.changed, removed: event.removed },
+    textNodes: affectedNodes.map(n => buildTextNodeInfo(n, getTranslations)),
+    translationCount: Object.keys(translationData).length,
+  });
+
+  // Selection panels hold match results that new or changed entries may affect
+  if (figma.currentPage.selection.length > 0) {
+    await handleSelectionChange();
+  }
+}
+
 // ---- Initialize ----
 
 async function initialize(): Promise<void> {
   const allPageNodes = getCachedPageNodes();
+  await primeLinkedEntries(allPageNodes);
 
   // Auto-unlink nodes that have been modified by designers
   const unlinkedCount = autoUnlinkModifiedNodes(allPageNodes);
@@ -367,20 +584,24 @@ async function initialize(): Promise<void> {
     })
     .filter((n): n is { multilanId: string; characters: string } => n !== null);
 
-  const detectedLanguage = detectLanguage(translationData, linkedNodes);
+  const languages = await loadFolderLanguages(currentFolder);
+  const detectedLanguage = detectLanguage(translationData, linkedNodes, languages);
 
   figma.ui.postMessage({
     type: "init",
     canEdit: hasEditPermission(),
-    languages: SUPPORTED_LANGUAGES,
+    languages,
     textNodes,
     selectedNode,
     translationCount: Object.keys(translationData).length,
     buildTimestamp: BUILD_TIMESTAMP,
     detectedLanguage,
-    folderNames: FOLDER_NAMES,
+    folderNames,
     folderName: currentFolder,
     folderDataStatus: await buildFolderDataStatus(),
+    searchApiEndpoint: await figma.clientStorage.getAsync(SEARCH_API_ENDPOINT_STORAGE_KEY).catch(() => undefined),
+    fallbackLanguages: await loadFallbackLanguages(),
+    scope: await loadScope(),
   });
 }
 
@@ -403,7 +624,7 @@ async function handleSelectionChange(): Promise<void> {
     selectionFuzzyToken = null;
   }
 
-  const textToIdMap = await getTextToIdMap(translationData);
+  const textToIdMap = await getTextToIdMap(translationData, activePort);
 
   let matchResult = undefined;
   if (selectedNode) {
@@ -458,25 +679,36 @@ async function handleSelectionChange(): Promise<void> {
 // ---- Message Handlers (one per message type) ----
 
 async function handleSwitchLanguage(msg: PluginMessage): Promise<void> {
-  if (!msg.language || !isLanguage(msg.language)) return;
+  if (!msg.language || !isLanguage(msg.language, await loadFolderLanguages(currentFolder))) return;
   if (!requireEditPermission()) return;
 
   const scope = msg.scope || "page";
-  const result = switchLanguage(translationData, msg.language, scope);
+  const { nodes, pages } = await getScopeNodes(scope);
+  await primeLinkedEntries(nodes);
+  const fallbackLanguages = await loadFallbackLanguages();
+  const result = pages
+    ? await switchDocumentLanguage(translationData, msg.language, pages, fallbackLanguages)
+    : await switchNodesLanguage(translationData, msg.language, nodes, fallbackLanguages);
 
   if (result.success > 0) {
-    figma.notify(`Switched ${result.success} text(s) to ${msg.language.toUpperCase()}`);
+    const notes: string[] = [];
+    if (result.fallbackNodes.length > 0) notes.push(`${result.fallbackNodes.length} use fallback text`);
+    if (result.overflowNodes.length > 0) notes.push(`${result.overflowNodes.length} overflow`);
+    const where = pages ? ` on ${pages.length} page${pages.length > 1 ? "s" : ""}` : "";
+    figma.notify(`Switched ${result.success} text(s)${where} to ${msg.language.toUpperCase()}${
+      notes.length > 0 ? ` — ${notes.join(", ")}` : ""
+    }`);
   }
 
   figma.ui.postMessage({ type: "language-switched", ...result });
 
-  const textNodes = getAllTextNodesInfo(scope, getTranslations);
+  const textNodes = getTextNodesInfo(nodes, getTranslations);
   figma.ui.postMessage({ type: "text-nodes-updated", textNodes });
 }
 
 async function handleSearch(msg: PluginMessage): Promise<void> {
   if (!msg.searchQuery) return;
-  const results = await searchTranslationsWithScoreAsync(translationData, msg.searchQuery, 20);
+  const results = await searchWithScoreAsync(activePort, translationData, msg.searchQuery, 20);
   figma.ui.postMessage({ type: "search-results", results });
 }
 
@@ -485,16 +717,16 @@ async function handleLinkNode(msg: PluginMessage): Promise<void> {
   if (!msg.nodeId || !msg.multilanId) return;
 
   const lang = msg.language || 'en';
+  await primeEntriesAsync(activePort, translationData, metadataData, [msg.multilanId]);
   const translation = getTranslation(translationData, msg.multilanId, lang);
 
-  const success = await linkTextNode(msg.nodeId, msg.multilanId, translationData, msg.language);
+  const success = await linkTextNode(msg.nodeId, msg.multilanId, translationData);
   if (!success) return;
 
   const node = await getTextNodeById(msg.nodeId);
   if (node) {
     if (translation) {
-      await updateNodeText(node, translation);
-      setExpectedText(node, translation);
+      setExpectedText(node, await writeTranslation(node, translation));
     }
     figma.notify(`Linked to ${msg.multilanId}`);
     await sendNodeUpdate(node);
@@ -517,17 +749,19 @@ async function handleUnlinkNode(msg: PluginMessage): Promise<void> {
 
 async function handleRefresh(msg: PluginMessage): Promise<void> {
   const scope = msg.scope || "page";
-  const nodes = getTextNodesInScope(scope);
-  const rewrittenCount = await rewriteInterpolatedNodesToTemplate(nodes, getTranslations);
-  if (rewrittenCount > 0) {
-    figma.notify(`Restored ${rewrittenCount} templated node${rewrittenCount > 1 ? 's' : ''} to canonical form`);
+  const { nodes, pages } = await getScopeNodes(scope);
+  await primeLinkedEntries(nodes);
+  const capturedCount = captureInterpolatedValues(nodes, getTranslations);
+  if (capturedCount > 0) {
+    figma.notify(`Kept variable values of ${capturedCount} node${capturedCount > 1 ? 's' : ''}`);
   }
   const unlinkedCount = autoUnlinkModifiedNodes(nodes);
   if (unlinkedCount > 0) {
     figma.notify(`Auto-unlinked ${unlinkedCount} modified node${unlinkedCount > 1 ? 's' : ''}`);
   }
-  const textNodes = getAllTextNodesInfo(scope, getTranslations);
-  figma.ui.postMessage({ type: "text-nodes-updated", textNodes });
+  const textNodes = getTextNodesInfo(nodes, getTranslations);
+  const pageResults = pages?.map(getPageResult);
+  figma.ui.postMessage({ type: "text-nodes-updated", textNodes, pageResults });
 }
 
 async function handleMarkAsPlaceholder(msg: PluginMessage): Promise<void> {
@@ -557,7 +791,7 @@ function handleDetectMatch(msg: PluginMessage): void {
   const token = createCancellationToken();
   selectionFuzzyToken = token;
 
-  detectMatchAsync(translationData, msg.text, metadataData, token).then(matchResult => {
+  detectMatchAsync(translationData, msg.text, metadataData, token, activePort).then(matchResult => {
     if (!token.cancelled) {
       selectionFuzzyToken = null;
       figma.ui.postMessage({ type: "match-detected", matchResult });
@@ -574,7 +808,7 @@ function handleGlobalSearch(msg: PluginMessage): void {
   const token = createCancellationToken();
   globalSearchToken = token;
 
-  globalSearchTranslationsAsync(translationData, msg.searchQuery, 30, metadataData, token).then(results => {
+  globalSearchAsync(activePort, translationData, msg.searchQuery, 30, metadataData, token).then(results => {
     if (!token.cancelled) {
       globalSearchToken = null;
       figma.ui.postMessage({ type: "global-search-results", results });
@@ -588,86 +822,373 @@ function handleFindCloseMatches(msg: PluginMessage): void {
   const targetNodeId = msg.nodeId;
   const token = createCancellationToken();
 
-  detectMatchAsync(translationData, msg.text, metadataData, token).then(matchResult => {
+  detectMatchAsync(translationData, msg.text, metadataData, token, activePort).then(matchResult => {
     if (!token.cancelled) {
       figma.ui.postMessage({ type: "frame-match-result", nodeId: targetNodeId, matchResult });
     }
   });
 }
 
+function isUnlinked(node: TextNode): boolean {
+  return !getMultilanId(node) && isEffectivelyVisible(node);
+}
+
+/**
+ * Select the unlinked text nodes in scope. A selection can't span pages, so on
+ * the "document" scope it selects those on the current page, or else goes to
+ * the first page that has some, and says how many the other pages have.
+ */
 async function handleHighlightUnlinked(msg: PluginMessage): Promise<void> {
   if (!requireEditPermission()) return;
 
   const scope = msg.scope || "page";
-  const nodes = getTextNodesInScope(scope);
-  const unlinkedNodes = nodes.filter(
-    node => !getMultilanId(node) && isEffectivelyVisible(node)
-  );
+  if (!msg.highlight) {
+    figma.currentPage.selection = [];
+    return;
+  }
 
-  if (msg.highlight) {
-    if (unlinkedNodes.length > 0) {
-      figma.currentPage.selection = unlinkedNodes;
-      figma.viewport.scrollAndZoomIntoView(unlinkedNodes);
-      figma.notify(`Selected ${unlinkedNodes.length} unlinked text node${unlinkedNodes.length > 1 ? 's' : ''}`);
-    } else {
-      figma.notify("No unlinked text nodes found");
-    }
+  const { nodes, pages } = await getScopeNodes(scope);
+  let unlinkedNodes = nodes.filter(isUnlinked);
+  let elsewhere = 0;
+  if (pages) {
+    const unlinkedPages = pages.filter(page => page.nodes.some(isUnlinked));
+    const shown = unlinkedPages.find(page => page.page === figma.currentPage) || unlinkedPages[0];
+    if (shown && shown.page !== figma.currentPage) await figma.setCurrentPageAsync(shown.page);
+    elsewhere = shown ? unlinkedNodes.length - shown.nodes.filter(isUnlinked).length : 0;
+    unlinkedNodes = shown ? shown.nodes.filter(isUnlinked) : [];
+  }
+
+  if (unlinkedNodes.length > 0) {
+    figma.currentPage.selection = unlinkedNodes;
+    figma.viewport.scrollAndZoomIntoView(unlinkedNodes);
+    figma.notify(`Selected ${unlinkedNodes.length} unlinked text node${unlinkedNodes.length > 1 ? 's' : ''}${
+      elsewhere > 0 ? ` — ${elsewhere} more on other pages` : ''
+    }`);
   } else {
-    figma.currentPage.selection = [];
+    figma.notify("No unlinked text nodes found");
   }
 }
 
-async function handleSwitchFolder(msg: PluginMessage): Promise<void> {
-  if (!msg.folderName || !FOLDER_NAMES.includes(msg.folderName)) return;
+async function handleGetUnlinkedQueue(msg: PluginMessage): Promise<void> {
+  const scope = msg.scope || "page";
+  const { nodes, pages } = await getScopeNodes(scope);
+  const isQueued = (node: TextNode) => !getMultilanId(node) && node.characters.trim() !== "";
+  const unlinkedQueue = nodes
+    .filter(isQueued)
+    .map(node => ({ nodeId: node.id, nodeName: node.name, characters: node.characters }));
+  const pageResults = pages?.map((page): PageResult => ({
+    ...getPageResult(page),
+    unlinked: page.nodes.filter(isQueued).length,
+  }));
+  figma.ui.postMessage({ type: "unlinked-queue", unlinkedQueue, pageResults });
+}
 
-  currentFolder = msg.folderName;
+/**
+ * Make `folder` the current folder and load its data. An empty folder asks the
+ * UI for an upload, unless `promptUpload` is false.
+ */
+async function switchToFolder(folder: string, promptUpload = true): Promise<void> {
+  currentFolder = folder;
   await figma.clientStorage.setAsync('selectedFolder', currentFolder);
 
   const traData = await loadTraDataForFolder(currentFolder);
   if (traData) {
     await touchFolder(currentFolder);
-    await initializeTraFileData(traData);
+    const meta = await loadFolderMetadata(currentFolder);
+    await initializeTraFileData(traData, meta?.sourceFormat, await loadOverlayForFolder(currentFolder));
     await initialize();
-  } else {
-    translationData = {};
-    metadataData = {};
+  } else if (promptUpload) {
+    clearLoadedData();
     figma.ui.postMessage({ type: 'tra-upload-needed', folderName: currentFolder });
+  } else {
+    clearLoadedData();
+    await initialize();
   }
 }
 
-async function handleUploadTraFiles(msg: PluginMessage): Promise<void> {
-  if (!msg.folderName || !msg.traFileData) return;
+async function handleSwitchFolder(msg: PluginMessage): Promise<void> {
+  if (!msg.folderName || !folderNames.includes(msg.folderName)) return;
+  await switchToFolder(msg.folderName);
+}
+
+// ---- Folder Management ----
+
+/** Why `name` can't be given to a folder (other than `except`), or null if it can */
+function folderNameError(name: string, except?: string): string | null {
+  if (!name) return "Folder names can't be empty";
+  if (name.length > MAX_FOLDER_NAME_LENGTH) {
+    return `Folder names can be at most ${MAX_FOLDER_NAME_LENGTH} characters`;
+  }
+  const lower = name.toLowerCase();
+  if (folderNames.some(folder => folder !== except && folder.toLowerCase() === lower)) {
+    return `There is already a folder named ${name}`;
+  }
+  return null;
+}
+
+async function postFoldersUpdated(): Promise<void> {
+  figma.ui.postMessage({
+    type: 'folders-updated',
+    folderNames,
+    folderName: currentFolder,
+    folderDataStatus: await buildFolderDataStatus(),
+  });
+}
+
+async function handleCreateFolder(msg: PluginMessage): Promise<void> {
+  const name = msg.folderName?.trim() ?? "";
+  const error = folderNameError(name);
+  if (error) {
+    figma.notify(error, { error: true });
+    return;
+  }
+  folderNames = [...folderNames, name];
+  await setFolderNames(folderNames);
+  await postFoldersUpdated();
+}
+
+/** Rename a folder, moving its stored data with it */
+async function handleRenameFolder(msg: PluginMessage): Promise<void> {
+  const from = msg.folderName;
+  const to = msg.newFolderName?.trim() ?? "";
+  if (!from || !folderNames.includes(from) || to === from) return;
+  const error = folderNameError(to, from);
+  if (error) {
+    figma.notify(error, { error: true });
+    await postFoldersUpdated();
+    return;
+  }
 
   try {
-    const newData = msg.traFileData as TraFileData;
+    await moveFolderData(from, to);
+  } catch (err) {
+    console.error('handleRenameFolder failed:', err);
+    figma.notify('Rename failed: ' + (err instanceof Error ? err.message : String(err)), { error: true });
+    await postFoldersUpdated();
+    return;
+  }
+  folderNames = folderNames.map(folder => (folder === from ? to : folder));
+  await setFolderNames(folderNames);
+  if (currentFolder === from) {
+    currentFolder = to;
+    await figma.clientStorage.setAsync('selectedFolder', currentFolder);
+  }
+  if (liveSourceFolder === from) liveSourceFolder = to;
+  await postFoldersUpdated();
+}
 
-    // Merge with existing data — only overwrite languages that were uploaded (non-empty)
-    const existing = await loadTraDataForFolder(msg.folderName);
-    const merged: TraFileData = {
-      en: newData.en || (existing?.en ?? ''),
-      fr: newData.fr || (existing?.fr ?? ''),
-      nl: newData.nl || (existing?.nl ?? ''),
-      de: newData.de || (existing?.de ?? ''),
-    };
+/** Delete a folder and everything stored for it; the last folder is kept */
+async function handleDeleteFolder(msg: PluginMessage): Promise<void> {
+  const folder = msg.folderName;
+  if (!folder || !folderNames.includes(folder)) return;
+  if (folderNames.length === 1) {
+    figma.notify("The last folder can't be deleted", { error: true });
+    return;
+  }
 
-    // Merge available languages from previous + new upload
-    let mergedLanguages: string[] = [];
-    if (msg.traUploadMetadata) {
-      const existingMeta = await figma.clientStorage.getAsync('traMetadata_' + msg.folderName) as TraUploadMetadata | undefined;
-      const previousLanguages = existingMeta?.availableLanguages || [];
-      const newLanguages = msg.traUploadMetadata.availableLanguages || [];
-      mergedLanguages = [...new Set([...previousLanguages, ...newLanguages])];
+  await clearFolderCache(folder);
+  folderNames = folderNames.filter(name => name !== folder);
+  await setFolderNames(folderNames);
+  if (currentFolder === folder) {
+    await switchToFolder(folderNames[0], false);
+  }
+  figma.notify(`Deleted ${folder} and its translations`);
+  await postFoldersUpdated();
+}
+
+async function handleReorderFolders(msg: PluginMessage): Promise<void> {
+  const order = msg.folderNames;
+  // Only a permutation of the current list is accepted
+  if (!order || order.length !== folderNames.length || !folderNames.every(folder => order.includes(folder))) return;
+  folderNames = [...order];
+  await setFolderNames(folderNames);
+  await postFoldersUpdated();
+}
+
+/** What storing an upload would write to its folder */
+interface PreparedUpload {
+  merged: TraFileData;
+  sourceFormat: SourceFormat;
+  metadata?: TraUploadMetadata;
+  /** A merge or language replacement that replaces the whole folder instead */
+  replacesFolder: boolean;
+}
+
+/**
+ * Work out what storing an upload writes to its folder, per `mode`:
+ * - "merge": uploaded languages replace their stored files, the rest are kept
+ * - "replace-folder": the folder holds only the uploaded languages
+ * - "replace-languages": as "merge", and each of `languages` without an
+ *   uploaded file is dropped
+ * - "remove-language": `languages` are dropped (`newData` is ignored)
+ * An upload in another format than the stored data's, or in a single-file
+ * format, can't be merged: it replaces the folder (`replacesFolder`).
+ * Nothing is written.
+ * @throws Error when a removal isn't possible or would leave the folder empty
+ */
+async function prepareUpload(
+  folder: string,
+  newData: TraFileData,
+  uploadMetadata?: TraUploadMetadata,
+  mode: UploadMode = "merge",
+  languages: Language[] = []
+): Promise<PreparedUpload> {
+  const existingMeta = await loadFolderMetadata(folder);
+  const previousLanguages = existingMeta?.availableLanguages ?? [];
+
+  if (mode === "remove-language") {
+    const sourceFormat = existingMeta?.sourceFormat ?? "tra";
+    const existing = await loadTraDataForFolder(folder);
+    if (!existing) throw new Error(`${folder} has no translations to remove`);
+    // Single-file formats hold every language in one payload
+    if (SINGLE_FILE_FORMATS.includes(sourceFormat)) {
+      throw new Error(`Languages can't be removed from ${sourceFormat} data — upload it again without them`);
     }
+    const remaining = previousLanguages.filter(lang => !languages.includes(lang));
+    if (remaining.length === 0) {
+      throw new Error(`Removing ${languages.map(lang => lang.toUpperCase()).join(", ")} would leave ${folder} empty`);
+    }
+    const merged: TraFileData = { ...existing };
+    const fileLastModified = { ...existingMeta?.fileLastModified };
+    for (const lang of languages) {
+      delete merged[lang];
+      delete fileLastModified[lang];
+    }
+    const metadata = existingMeta
+      ? { ...existingMeta, uploadTimestamp: Date.now(), fileLastModified, availableLanguages: remaining }
+      : undefined;
+    return { merged, sourceFormat, metadata, replacesFolder: false };
+  }
+
+  const sourceFormat = uploadMetadata?.sourceFormat ?? "tra";
+  // Files of different formats can't be mixed per language — a format change
+  // replaces the folder instead of merging into it, as does any single-file format
+  const canMerge = mode !== "replace-folder"
+    && !SINGLE_FILE_FORMATS.includes(sourceFormat)
+    && (existingMeta?.sourceFormat ?? "tra") === sourceFormat;
+
+  // Languages whose stored file this upload replaces (or drops)
+  const replaced: Language[] = mode === "replace-languages"
+    ? [...new Set([...fileDataLanguages(newData), ...languages.filter(isLanguageCode)])]
+    : fileDataLanguages(newData);
+  const existing = canMerge ? await loadTraDataForFolder(folder) : null;
+  const merged: TraFileData = {};
+  for (const lang of Object.keys(existing ?? {}).filter(isLanguageCode)) {
+    if (!replaced.includes(lang)) merged[lang] = existing![lang];
+  }
+  // Empty slots are kept too: a String Catalog in one slot fills the others
+  for (const lang of Object.keys(newData).filter(isLanguageCode)) {
+    if (replaced.includes(lang)) merged[lang] = newData[lang];
+    else if (merged[lang] === undefined) merged[lang] = "";
+  }
+
+  // Kept languages from before, plus the ones this upload provides
+  let mergedLanguages: Language[] = [];
+  if (uploadMetadata) {
+    const kept = canMerge ? previousLanguages.filter(lang => !replaced.includes(lang)) : [];
+    const uploaded = (uploadMetadata.availableLanguages || []).filter(isLanguageCode);
+    mergedLanguages = [...new Set([...kept, ...uploaded])];
+    if (mode === "replace-languages" && mergedLanguages.length === 0) {
+      throw new Error(`Replacing ${languages.map(lang => lang.toUpperCase()).join(", ")} would leave ${folder} empty`);
+    }
+  }
+
+  const metadata = uploadMetadata ? { ...uploadMetadata, availableLanguages: mergedLanguages } : undefined;
+  const replacesFolder = !canMerge && mode !== "replace-folder" && previousLanguages.length > 0;
+  return { merged, sourceFormat, metadata, replacesFolder };
+}
+
+/** Linked nodes on the current page whose ID an upload adds, removes or rewords */
+function countAffectedNodes(languages: UploadDiff["languages"]): UploadDiff["affectedNodes"] {
+  const categories = { added: new Set<string>(), removed: new Set<string>(), reworded: new Set<string>() };
+  for (const diff of Object.values(languages) as UploadLanguageDiff[]) {
+    diff.added.forEach(id => categories.added.add(id));
+    diff.removed.forEach(id => categories.removed.add(id));
+    diff.reworded.forEach(id => categories.reworded.add(id));
+  }
+  const counts = { added: 0, removed: 0, reworded: 0 };
+  for (const node of getCachedPageNodes()) {
+    const multilanId = getMultilanId(node);
+    if (multilanId === null) continue;
+    if (categories.added.has(multilanId)) counts.added++;
+    if (categories.removed.has(multilanId)) counts.removed++;
+    if (categories.reworded.has(multilanId)) counts.reworded++;
+  }
+  return counts;
+}
+
+/**
+ * Compare an upload with the folder's stored data without storing it, and
+ * send the UI the per-language diff for review. The UI waits for an answer,
+ * so a preview that fails is answered with why.
+ */
+async function handlePreviewUpload(msg: PluginMessage): Promise<void> {
+  const fail = (diffError: string) =>
+    figma.ui.postMessage({ type: 'upload-diff-failed', folderName: msg.folderName, diffError });
+  if (!msg.folderName || !folderNames.includes(msg.folderName)) {
+    fail(msg.folderName ? `There is no folder named ${msg.folderName}` : 'No folder was given');
+    return;
+  }
+  if (!msg.traFileData) {
+    fail('The upload carries no files');
+    return;
+  }
+
+  try {
+    const [stored, storedMeta] = await Promise.all([
+      loadTraDataForFolder(msg.folderName),
+      loadFolderMetadata(msg.folderName),
+    ]);
+    const { merged, sourceFormat, metadata, replacesFolder } = await prepareUpload(
+      msg.folderName,
+      msg.traFileData as TraFileData,
+      msg.traUploadMetadata,
+      msg.uploadMode,
+      msg.uploadLanguages
+    );
+    const previous = stored
+      ? (await createAdapterForFormat(stored, storedMeta?.sourceFormat ?? "tra")).getTranslationMap()
+      : {};
+    const next = (await createAdapterForFormat(merged, sourceFormat)).getTranslationMap();
+    const compared = [...new Set([...(storedMeta?.availableLanguages ?? []), ...(metadata?.availableLanguages ?? [])])];
+    const languages = await diffTranslationMaps(previous, next, compared);
+
+    const uploadDiff: UploadDiff = { languages, affectedNodes: countAffectedNodes(languages), replacesFolder };
+    figma.ui.postMessage({ type: 'upload-diff', folderName: msg.folderName, uploadDiff });
+  } catch (err) {
+    console.error('handlePreviewUpload failed:', err);
+    fail(err instanceof Error ? err.message : String(err));
+  }
+}
+
+async function handleUploadTraFiles(msg: PluginMessage): Promise<void> {
+  if (!msg.folderName || !folderNames.includes(msg.folderName) || !msg.traFileData) return;
+  if (msg.overlay) {
+    await handleUploadOverlay(msg);
+    return;
+  }
+
+  try {
+    const newData = msg.traFileData as TraFileData;
+    // Read the uploaded files before storing anything, so unreadable uploads
+    // are refused and problems in readable ones can be reported back
+    const parseDiagnostics = msg.uploadMode === "remove-language"
+      ? []
+      : readParseDiagnostics(await createAdapterForFormat(newData, msg.traUploadMetadata?.sourceFormat ?? "tra"));
+    const { merged, sourceFormat, metadata: mergedMetadata } = await prepareUpload(
+      msg.folderName,
+      newData,
+      msg.traUploadMetadata,
+      msg.uploadMode,
+      msg.uploadLanguages
+    );
 
     // Compress and store merged data, evicting LRU folders if quota is hit
-    const mergedMetadata = msg.traUploadMetadata
-      ? { ...msg.traUploadMetadata, availableLanguages: mergedLanguages }
-      : undefined;
     const { evictedFolders } = await setFolderTraData(
       msg.folderName,
       compressTraData(merged),
       mergedMetadata,
-      FOLDER_NAMES,
+      folderNames,
     );
     if (evictedFolders.length > 0) {
       figma.notify(
@@ -677,10 +1198,8 @@ async function handleUploadTraFiles(msg: PluginMessage): Promise<void> {
 
     currentFolder = msg.folderName;
     await figma.clientStorage.setAsync('selectedFolder', currentFolder);
-    await initializeTraFileData(merged);
-
+    await reloadCurrentFolder(merged, sourceFormat, await loadOverlayForFolder(currentFolder));
     const translationCount = Object.keys(translationData).length;
-    await initialize();
 
     figma.ui.postMessage({
       type: 'upload-success',
@@ -689,6 +1208,7 @@ async function handleUploadTraFiles(msg: PluginMessage): Promise<void> {
       traUploadMetadata: mergedMetadata,
       folderDataStatus: await buildFolderDataStatus(),
       evictedFolders,
+      parseDiagnostics,
     });
   } catch (err) {
     console.error('handleUploadTraFiles failed:', err);
@@ -697,6 +1217,99 @@ async function handleUploadTraFiles(msg: PluginMessage): Promise<void> {
   }
 }
 
+/**
+ * Store uploaded files as the folder's draft overlay (replacing any previous
+ * one) and reload the folder with the overlay stacked on top.
+ */
+async function handleUploadOverlay(msg: PluginMessage): Promise<void> {
+  const folder = msg.folderName!;
+  try {
+    const traData = await loadTraDataForFolder(folder);
+    if (!traData) throw new Error(`${folder} has no translations to overlay — upload its files first`);
+
+    const overlayData = msg.traFileData as TraFileData;
+    const overlayFormat = msg.traUploadMetadata?.sourceFormat ?? "tra";
+    // Parse once up front so a broken overlay is refused instead of stored
+    const parseDiagnostics = readParseDiagnostics(await createAdapterForFormat(overlayData, overlayFormat));
+    await setFolderOverlay(folder, { data: compressTraData(overlayData), metadata: msg.traUploadMetadata });
+
+    currentFolder = folder;
+    await figma.clientStorage.setAsync('selectedFolder', currentFolder);
+    const meta = await loadFolderMetadata(folder);
+    await reloadCurrentFolder(traData, meta?.sourceFormat, await loadOverlayForFolder(folder));
+    const translationCount = Object.keys(translationData).length;
+
+    figma.ui.postMessage({
+      type: 'upload-success',
+      folderName: folder,
+      uploadedTranslationCount: translationCount,
+      traUploadMetadata: meta,
+      folderDataStatus: await buildFolderDataStatus(),
+      parseDiagnostics,
+    });
+  } catch (err) {
+    console.error('handleUploadOverlay failed:', err);
+    figma.notify('Upload failed: ' + (err instanceof Error ? err.message : String(err)), { error: true });
+    figma.ui.postMessage({ type: 'upload-failed', folderName: folder });
+  }
+}
+
+/**
+ * Restore one of the folder's previous uploads. The data it replaces is kept
+ * in the history, so the rollback can be undone the same way.
+ */
+async function handleRollbackUpload(msg: PluginMessage): Promise<void> {
+  if (!msg.folderName || !folderNames.includes(msg.folderName) || typeof msg.historyIndex !== "number") return;
+  const folder = msg.folderName;
+
+  try {
+    const { evictedFolders } = await rollbackFolder(folder, msg.historyIndex, folderNames);
+    const [traData, meta] = await Promise.all([loadTraDataForFolder(folder), loadFolderMetadata(folder)]);
+    if (!traData) throw new Error(`The restored ${folder} data couldn't be read`);
+
+    currentFolder = folder;
+    await figma.clientStorage.setAsync('selectedFolder', currentFolder);
+    await reloadCurrentFolder(traData, meta?.sourceFormat, await loadOverlayForFolder(folder));
+    const translationCount = Object.keys(translationData).length;
+
+    figma.notify(meta
+      ? `Rolled ${folder} back to the upload of ${new Date(meta.uploadTimestamp).toLocaleString()}`
+      : `Rolled ${folder} back to its previous upload`);
+    figma.ui.postMessage({
+      type: 'upload-success',
+      folderName: folder,
+      uploadedTranslationCount: translationCount,
+      traUploadMetadata: meta,
+      folderDataStatus: await buildFolderDataStatus(),
+      evictedFolders,
+    });
+  } catch (err) {
+    console.error('handleRollbackUpload failed:', err);
+    figma.notify('Rollback failed: ' + (err instanceof Error ? err.message : String(err)), { error: true });
+    figma.ui.postMessage({ type: 'upload-failed', folderName: folder });
+  }
+}
+
+async function handleRemoveOverlay(msg: PluginMessage): Promise<void> {
+  if (!msg.folderName || !folderNames.includes(msg.folderName)) return;
+
+  await clearFolderOverlay(msg.folderName);
+  if (msg.folderName === currentFolder) {
+    const traData = await loadTraDataForFolder(currentFolder);
+    if (traData) {
+      const meta = await loadFolderMetadata(currentFolder);
+      await reloadCurrentFolder(traData, meta?.sourceFormat);
+    }
+  }
+  figma.notify(`Removed the draft overlay from ${msg.folderName}`);
+  figma.ui.postMessage({
+    type: 'folder-data-status',
+    folderName: msg.folderName,
+    translationCount: Object.keys(translationData).length,
+    folderDataStatus: await buildFolderDataStatus(),
+  });
+}
+
 // ---- UI Setup & Event Wiring ----
 
 const UI_SIZE_STORAGE_KEY = "ui-size";
@@ -757,39 +1370,32 @@ figma.ui.onmessage = async (msg: PluginMessage) => {
     case "link-node":         await handleLinkNode(msg); break;
     case "unlink-node":       await handleUnlinkNode(msg); break;
     case "select-node":       if (msg.nodeId) await selectNode(msg.nodeId); break;
+    case "select-nodes":      if (msg.nodeIds) await selectNodes(msg.nodeIds); break;
     case "refresh":           await handleRefresh(msg); break;
     case "lookup-multilanId":
       if (msg.multilanId) {
-        const translations = getAllTranslations(translationData, msg.multilanId);
+        const entry = await getEntryAsync(activePort, translationData, metadataData, msg.multilanId);
+        const translations = entry?.translations ?? null;
         figma.ui.postMessage({ type: "lookup-result", multilanId: msg.multilanId, translations, found: translations !== null });
       }
       break;
     case "verify-multilan-id":
       if (msg.multilanId !== undefined && msg.nodeId) {
         const trimmed = msg.multilanId.trim();
-        const translations = trimmed ? getAllTranslations(translationData, trimmed) : null;
-        const metadata = trimmed && metadataData ? metadataData[trimmed] : undefined;
+        const entry = trimmed ? await getEntryAsync(activePort, translationData, metadataData, trimmed) : null;
         figma.ui.postMessage({
           type: "verify-multilan-id-result",
           nodeId: msg.nodeId,
           multilanId: trimmed,
-          found: translations !== null,
-          translations: translations || undefined,
-          metadata,
+          found: entry !== null,
+          translations: entry?.translations,
+          metadata: entry?.metadata,
         });
       }
       break;
     case "mark-as-placeholder": await handleMarkAsPlaceholder(msg); break;
     case "detect-match":      handleDetectMatch(msg); break;
-    case "get-unlinked-queue": {
-      const scope = msg.scope || "page";
-      const nodes = getTextNodesInScope(scope);
-      const unlinkedQueue = nodes
-        .filter(node => !getMultilanId(node) && node.characters.trim())
-        .map(node => ({ nodeId: node.id, nodeName: node.name, characters: node.characters }));
-      figma.ui.postMessage({ type: "unlinked-queue", unlinkedQueue });
-      break;
-    }
+    case "get-unlinked-queue": await handleGetUnlinkedQueue(msg); break;
     case "global-search":     handleGlobalSearch(msg); break;
     case "find-close-matches": handleFindCloseMatches(msg); break;
     case "create-linked-text":
@@ -805,6 +1411,13 @@ figma.ui.onmessage = async (msg: PluginMessage) => {
     case "clear-selection":   figma.currentPage.selection = []; break;
     case "switch-folder":     await handleSwitchFolder(msg); break;
     case "upload-tra-files":  await handleUploadTraFiles(msg); break;
+    case "remove-overlay":    await handleRemoveOverlay(msg); break;
+    case "preview-upload":    await handlePreviewUpload(msg); break;
+    case "rollback-upload":   await handleRollbackUpload(msg); break;
+    case "create-folder":     await handleCreateFolder(msg); break;
+    case "rename-folder":     await handleRenameFolder(msg); break;
+    case "delete-folder":     await handleDeleteFolder(msg); break;
+    case "reorder-folders":   await handleReorderFolders(msg); break;
     case "resize-ui":
       if (typeof msg.width === "number" && typeof msg.height === "number") {
         const w = Math.max(MIN_UI_WIDTH, Math.floor(msg.width));
@@ -819,6 +1432,24 @@ figma.ui.onmessage = async (msg: PluginMessage) => {
         }
       }
       break;
+    case "save-search-api-endpoint":
+      if (typeof msg.searchApiEndpoint === "string") {
+        await figma.clientStorage.setAsync(SEARCH_API_ENDPOINT_STORAGE_KEY, msg.searchApiEndpoint.trim())
+          .catch(() => { /* best-effort */ });
+      }
+      break;
+    case "save-fallback-languages":
+      if (Array.isArray(msg.fallbackLanguages)) {
+        await figma.clientStorage.setAsync(FALLBACK_LANGUAGES_STORAGE_KEY, msg.fallbackLanguages.filter(isLanguageCode))
+          .catch(() => { /* best-effort */ });
+      }
+      break;
+    case "save-scope":
+      if (isTextScope(msg.scope)) {
+        await figma.clientStorage.setAsync(SCOPE_STORAGE_KEY, msg.scope)
+          .catch(() => { /* best-effort */ });
+      }
+      break;
     case "close":             figma.closePlugin(); break;
   }
 };
@@ -3,7 +3,13 @@
 import {
   TranslationMap,
   TranslationEntry,
+  FallbackNodeInfo,
+  OverflowNodeInfo,
+  PageResult,
+  TextScope,
   Language,
+  baseLanguage,
+  localeFallbackChain,
 } from "../../shared/types";
 import {
   getTextNodeById,
@@ -18,23 +24,60 @@ import {
   updateNodeText,
   setExpectedText,
   clearExpectedText,
+  getVariableValues,
+  setVariableValues,
+  clearVariableValues,
+  setFallbackStatus,
+  setMissingStatus,
   addMultilanIdToName,
   removeMultilanIdFromName,
-  loadNodeFont,
+  getPageResult,
+  PageTextNodes,
 } from "./nodeService";
+import { createTextMeasurer, detectTextOverflow, setOverflowStatus, TextMeasurer } from "./overflowService";
+import { stripMarkup } from "./markupService";
 import {
   getTranslation,
+  resolveTranslation,
   extractVariableValues,
 } from "./translationService";
 
 /**
- * Link a text node to a multilanId and optionally update text with translation
+ * The values `text` shows for the ###variable### markers of one of the entry's
+ * templates, or null if it matches none. Markers shown as-is have no value.
+ */
+function findVariableValues(translations: TranslationEntry, text: string): Record<string, string> | null {
+  for (const template of Object.values(translations)) {
+    if (!template || !template.includes("###")) continue;
+    // The canvas shows templates without their markup
+    const extracted = extractVariableValues(stripMarkup(template), text);
+    if (!extracted) continue;
+    const values: Record<string, string> = {};
+    for (const name of Object.keys(extracted)) {
+      if (extracted[name] !== `###${name}###`) values[name] = extracted[name];
+    }
+    return values;
+  }
+  return null;
+}
+
+/**
+ * Write a translation to a node with its stored ###variable### values filled
+ * in after the markup is parsed, so markup in a value shows as typed. Returns
+ * the text written.
+ */
+export async function writeTranslation(node: TextNode, translation: string): Promise<string> {
+  return updateNodeText(node, translation, getVariableValues(node) ?? undefined);
+}
+
+/**
+ * Link a text node to a multilanId, keeping the values it shows for the
+ * ###variable### markers of the entry in `translationData`
  */
 export async function linkTextNode(
   nodeId: string,
   multilanId: string,
-  translationData?: TranslationMap,
-  language?: Language
+  translationData?: TranslationMap
 ): Promise<boolean> {
   const node = await getTextNodeById(nodeId);
   if (!node) return false;
@@ -45,6 +88,17 @@ export async function linkTextNode(
   }
 
   setMultilanId(node, multilanId);
+  setFallbackStatus(node, false);
+
+  // Keep the values the node shows for the entry's ###variable### markers, so
+  // they are filled into every language it switches to
+  const entry = translationData?.[multilanId];
+  const values = entry ? findVariableValues(entry, node.characters) : null;
+  if (values && Object.keys(values).length > 0) {
+    setVariableValues(node, values);
+  } else {
+    clearVariableValues(node);
+  }
 
   // Add multilanId to node name for visibility to viewers
   addMultilanIdToName(node, multilanId);
@@ -72,6 +126,8 @@ export async function unlinkTextNode(nodeId: string): Promise<boolean> {
 
   clearMultilanId(node);
   clearExpectedText(node);
+  clearVariableValues(node);
+  setFallbackStatus(node, false);
   return true;
 }
 
@@ -85,60 +141,161 @@ export async function markAsPlaceholder(
 ): Promise<void> {
   // Clear any existing link - placeholder is not linked to a translation
   clearMultilanId(node);
+  clearVariableValues(node);
   setPlaceholderStatus(node, true);
 
   // Set the text content with stars around it
   await updateNodeText(node, wrapWithStars(text));
 }
 
+export interface SwitchLanguageResult {
+  /** Nodes switched */
+  success: number;
+  /** IDs of the nodes without a translation, which keep their text */
+  missing: string[];
+  overflowNodes: OverflowNodeInfo[];
+  fallbackNodes: FallbackNodeInfo[];
+}
+
 /**
- * Switch language for all linked text nodes in scope.
- * Fonts must be preloaded (via initialize) for this to work synchronously.
+ * Switch language for all linked text nodes in scope, keeping each node's
+ * mixed styling (see writeStyledText) and ###variable### values.
+ * @param fallbackLanguages Languages whose text is used, in order, when `lang`
+ *   has none. Nodes showing it are marked as fallback and returned. Nodes
+ *   without text in any of them keep theirs, marked and returned as missing.
+ * Each switched node is checked for overflow; nodes whose new text no longer
+ * fits are marked and returned in `overflowNodes`.
  */
-export function switchLanguage(
+export async function switchLanguage(
+  translationData: TranslationMap,
+  lang: Language,
+  scope: Exclude<TextScope, "document">,
+  fallbackLanguages: readonly Language[] = []
+): Promise<SwitchLanguageResult> {
+  return switchNodesLanguage(translationData, lang, getTextNodesInScope(scope), fallbackLanguages);
+}
+
+/**
+ * Switch language for the linked nodes among `nodes`, as switchLanguage does.
+ * Overflow is measured with `measurer`, or one made for this call.
+ */
+export async function switchNodesLanguage(
+  translationData: TranslationMap,
+  lang: Language,
+  nodes: TextNode[],
+  fallbackLanguages: readonly Language[] = [],
+  measurer?: TextMeasurer
+): Promise<SwitchLanguageResult> {
+  const ownMeasurer = measurer ?? createTextMeasurer();
+  try {
+    return await switchNodes(translationData, lang, nodes, fallbackLanguages, ownMeasurer);
+  } finally {
+    if (!measurer) ownMeasurer.dispose();
+  }
+}
+
+async function switchNodes(
   translationData: TranslationMap,
   lang: Language,
-  scope: "page" | "selection"
-): { success: number; missing: string[]; overflow: string[] } {
-  const nodes = getTextNodesInScope(scope);
+  nodes: TextNode[],
+  fallbackLanguages: readonly Language[],
+  measurer: TextMeasurer
+): Promise<SwitchLanguageResult> {
   let success = 0;
   const missing: string[] = [];
-  const overflow: string[] = [];
+  const overflowNodes: OverflowNodeInfo[] = [];
+  const fallbackNodes: FallbackNodeInfo[] = [];
+  // A regional locale falls back to its language (fr-BE → fr); another
+  // language's text is only used through the configured fallback chain
+  const ownChain = localeFallbackChain(lang).filter(locale => baseLanguage(locale) === baseLanguage(lang));
+  const chain = [...ownChain, ...fallbackLanguages.filter(locale => !ownChain.includes(locale))];
 
   for (const node of nodes) {
     const multilanId = getMultilanId(node);
     if (!multilanId) continue;
 
-    let translation = getTranslation(translationData, multilanId, lang);
+    const resolved = resolveTranslation(translationData, multilanId, chain);
+    const fallbackLanguage = resolved && !ownChain.includes(resolved.language) ? resolved.language : null;
+    const translation = resolved?.text;
 
+    // Keep the node's text rather than write a placeholder into the design
     if (!translation) {
+      setMissingStatus(node);
       missing.push(node.id);
-      translation = "*Multilan not available*";
+      continue;
     }
 
     try {
-      node.characters = translation;
-      setExpectedText(node, translation);
+      setExpectedText(node, await writeTranslation(node, translation));
+      setFallbackStatus(node, fallbackLanguage !== null);
+      if (fallbackLanguage) {
+        fallbackNodes.push({ nodeId: node.id, name: node.name, multilanId, language: lang, fallbackLanguage });
+      }
       success++;
     } catch (err) {
       console.error(`Failed to switch node ${node.id}:`, err);
+      continue;
+    }
+
+    try {
+      const kind = detectTextOverflow(node, measurer);
+      setOverflowStatus(node, kind);
+      if (kind) overflowNodes.push({ nodeId: node.id, name: node.name, multilanId, kind });
+    } catch (err) {
+      console.error(`Failed to check node ${node.id} for overflow:`, err);
     }
   }
 
-  return { success, missing, overflow };
+  return { success, missing, overflowNodes, fallbackNodes };
 }
 
 /**
- * Rewrite linked nodes whose text was previously interpolated (e.g. "Hello, John")
- * back to the canonical raw template with `###variable###` markers visible.
- * Idempotent: nodes already in template form are left alone aside from refreshing
- * expectedText. Returns the count of nodes that were actually rewritten.
+ * Switch language for the linked nodes on every page (see getTextNodesByPage),
+ * with what the switch did on each page in `pageResults`
  */
-export async function rewriteInterpolatedNodesToTemplate(
+export async function switchDocumentLanguage(
+  translationData: TranslationMap,
+  lang: Language,
+  pages: PageTextNodes[],
+  fallbackLanguages: readonly Language[] = []
+): Promise<SwitchLanguageResult & { pageResults: PageResult[] }> {
+  const result: SwitchLanguageResult = { success: 0, missing: [], overflowNodes: [], fallbackNodes: [] };
+  const pageResults: PageResult[] = [];
+  // One measuring node for every page
+  const measurer = createTextMeasurer();
+
+  try {
+    for (const page of pages) {
+      const pageResult = await switchNodesLanguage(translationData, lang, page.nodes, fallbackLanguages, measurer);
+      result.success += pageResult.success;
+      result.missing.push(...pageResult.missing);
+      result.overflowNodes.push(...pageResult.overflowNodes);
+      result.fallbackNodes.push(...pageResult.fallbackNodes);
+      pageResults.push({
+        ...getPageResult(page),
+        switched: pageResult.success,
+        missing: pageResult.missing.length,
+      });
+    }
+  } finally {
+    measurer.dispose();
+  }
+
+  return { ...result, pageResults };
+}
+
+/**
+ * Store the ###variable### values shown by linked nodes whose text is one of
+ * their entry's templates filled in (e.g. "Hello, John!"), and take that text
+ * as expected so auto-unlink doesn't see it as an edit. Covers nodes linked
+ * before values were stored and values edited on the canvas. Returns the count
+ * of nodes whose stored values changed.
+ */
+export function captureInterpolatedValues(
   nodes: TextNode[],
   getTranslations: (multilanId: string) => TranslationEntry | null,
-): Promise<number> {
-  let rewritten = 0;
+): number {
+  let captured = 0;
 
   for (const node of nodes) {
     const multilanId = getMultilanId(node);
@@ -147,35 +304,18 @@ export async function rewriteInterpolatedNodesToTemplate(
     const translations = getTranslations(multilanId);
     if (!translations) continue;
 
-    let matchedTemplate: string | null = null;
-    for (const template of Object.values(translations)) {
-      if (!template || !template.includes("###")) continue;
-      if (template === node.characters) {
-        matchedTemplate = template;
-        break;
-      }
-      const vars = extractVariableValues(template, node.characters);
-      if (vars && Object.keys(vars).length > 0) {
-        matchedTemplate = template;
-        break;
-      }
-    }
-    if (!matchedTemplate) continue;
-
-    if (node.characters !== matchedTemplate) {
-      try {
-        await loadNodeFont(node);
-        node.characters = matchedTemplate;
-        rewritten++;
-      } catch (err) {
-        console.error(`Failed to rewrite node ${node.id} to template:`, err);
-        continue;
-      }
+    const values = findVariableValues(translations, node.characters);
+    if (!values) continue;
+
+    const stored = getVariableValues(node) ?? {};
+    if (Object.keys(values).some(name => stored[name] !== values[name])) {
+      setVariableValues(node, { ...stored, ...values });
+      captured++;
     }
-    setExpectedText(node, matchedTemplate);
+    setExpectedText(node, node.characters);
   }
 
-  return rewritten;
+  return captured;
 }
 
 /**
@@ -196,8 +336,8 @@ export async function createLinkedTextNode(
   // Load default font
   await figma.loadFontAsync({ family: "Inter", style: "Regular" });
 
-  // Set text
-  textNode.characters = translation;
+  // Set text, applying any markup
+  const written = await updateNodeText(textNode, translation);
 
   // Link to multilanId
   setMultilanId(textNode, multilanId);
@@ -206,7 +346,7 @@ export async function createLinkedTextNode(
   addMultilanIdToName(textNode, multilanId);
 
   // Store expected text for modification detection
-  setExpectedText(textNode, translation);
+  setExpectedText(textNode, written);
 
   // Position near viewport center or current selection
   const selection = figma.currentPage.selection;
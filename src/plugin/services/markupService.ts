@@ -0,0 +1,146 @@
+// Markup service - the inline markup translations may carry: <b>/<strong>,
+// <i>/<em>, <u> and <a href="..."> for formatting, and numbered style markers
+// (<1>…</1>) that reuse a node's own styled segments. The canvas only ever
+// shows the text without the tags.
+
+export type MarkupFormat = "bold" | "italic" | "underline";
+
+/** A tagged range of the text without tags, `end` exclusive */
+export type MarkupSpan =
+  | { kind: MarkupFormat; start: number; end: number }
+  | { kind: "link"; start: number; end: number; href: string }
+  | { kind: "segment"; start: number; end: number; index: number };
+
+export interface ParsedMarkup {
+  /** The text without its tags */
+  text: string;
+  spans: MarkupSpan[];
+}
+
+interface Tag {
+  name: string;
+  closing: boolean;
+  start: number;
+  end: number;
+  href: string | null;
+}
+
+const TAG = /<(\/?)(b|strong|i|em|u|a|\d+)((?:\s+[a-z-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*>/gi;
+const HREF = /\bhref\s*=\s*(?:"([^"]*)"|'([^']*)')/i;
+
+const TAG_FORMATS: Record<string, MarkupFormat> = {
+  b: "bold",
+  strong: "bold",
+  i: "italic",
+  em: "italic",
+  u: "underline",
+  // A link without a target is only underlined
+  a: "underline",
+};
+
+function findTags(text: string): Tag[] {
+  const tags: Tag[] = [];
+  TAG.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG.exec(text)) !== null) {
+    const href = match[3] ? HREF.exec(match[3]) : null;
+    tags.push({
+      name: match[2].toLowerCase(),
+      closing: match[1] === "/",
+      start: match.index,
+      end: match.index + match[0].length,
+      href: href ? href[1] ?? href[2] ?? null : null,
+    });
+  }
+  return tags;
+}
+
+function toSpan(open: Tag, start: number, end: number): MarkupSpan {
+  if (/^\d+$/.test(open.name)) return { kind: "segment", start, end, index: Number(open.name) };
+  if (open.name === "a" && open.href) return { kind: "link", start, end, href: open.href };
+  return { kind: TAG_FORMATS[open.name], start, end };
+}
+
+/**
+ * Split text into the text to show and its tagged ranges. Each closing tag
+ * pairs with the nearest open tag of the same name; tags that don't pair up
+ * are kept as text.
+ */
+export function parseMarkup(text: string): ParsedMarkup {
+  if (!text.includes("<")) return { text, spans: [] };
+
+  const open: Tag[] = [];
+  const pairs: [Tag, Tag][] = [];
+  for (const tag of findTags(text)) {
+    if (!tag.closing) {
+      open.push(tag);
+      continue;
+    }
+    for (let i = open.length - 1; i >= 0; i--) {
+      if (open[i].name === tag.name) {
+        pairs.push([open[i], tag]);
+        open.splice(i, 1);
+        break;
+      }
+    }
+  }
+  if (pairs.length === 0) return { text, spans: [] };
+
+  const removed: Tag[] = [];
+  for (const [openTag, closeTag] of pairs) removed.push(openTag, closeTag);
+  removed.sort((a, b) => a.start - b.start);
+
+  // Offset of each removed tag in the text without tags
+  const offsets = new Map<Tag, number>();
+  let plain = "";
+  let last = 0;
+  for (const tag of removed) {
+    plain += text.slice(last, tag.start);
+    offsets.set(tag, plain.length);
+    last = tag.end;
+  }
+  plain += text.slice(last);
+
+  const spans = pairs
+    .map(([openTag, closeTag]) => toSpan(openTag, offsets.get(openTag)!, offsets.get(closeTag)!))
+    .filter(span => span.end > span.start)
+    .sort((a, b) => a.start - b.start);
+  return { text: plain, spans };
+}
+
+/** The text as the canvas shows it, without markup tags */
+export function stripMarkup(text: string): string {
+  return parseMarkup(text).text;
+}
+
+const VARIABLE = /###([^#]+)###/g;
+
+/**
+ * Fill the ###variable### markers of parsed text with their values, moving
+ * its spans along; markers without a value are kept. Filling in after parsing
+ * keeps a value's own `<` as text, so a value never adds formatting.
+ */
+export function fillMarkupVariables(parsed: ParsedMarkup, values: Record<string, string>): ParsedMarkup {
+  const fills: { start: number; end: number; length: number }[] = [];
+  const text = parsed.text.replace(VARIABLE, (marker, name: string, offset: number) => {
+    if (!Object.prototype.hasOwnProperty.call(values, name)) return marker;
+    fills.push({ start: offset, end: offset + marker.length, length: values[name].length });
+    return values[name];
+  });
+  if (fills.length === 0) return parsed;
+
+  // A position inside a marker keeps its place inside the value, at most its end
+  const move = (position: number): number => {
+    let shift = 0;
+    for (const fill of fills) {
+      if (position <= fill.start) break;
+      if (position < fill.end) return fill.start + shift + Math.min(position - fill.start, fill.length);
+      shift += fill.length - (fill.end - fill.start);
+    }
+    return position + shift;
+  };
+  const spans = parsed.spans
+    .map(span => ({ ...span, start: move(span.start), end: move(span.end) }))
+    .filter(span => span.end > span.start);
+  return { text, spans };
+}
@@ -6,7 +6,17 @@ import {
   PLUGIN_DATA_KEY,
   PLACEHOLDER_KEY,
   EXPECTED_TEXT_KEY,
+  TEXT_SOURCE_KEY,
+  VARIABLE_VALUES_KEY,
+  TextScope,
+  PageResult,
 } from "../../shared/types";
+import { getOverflowStatus } from "./overflowService";
+import { writeStyledText } from "./textStyleService";
+import { yieldToEventLoop } from "./translationService";
+
+/** Pages walked between yields to the event loop on the "document" scope */
+const PAGE_CHUNK_SIZE = 5;
 
 /**
  * Get multilanId from a text node
@@ -64,6 +74,34 @@ export function clearPlaceholderStatus(node: TextNode): void {
   setPlaceholderStatus(node, false);
 }
 
+/**
+ * Check if a node shows a fallback language's text
+ */
+export function isFallbackText(node: TextNode): boolean {
+  return node.getPluginData(TEXT_SOURCE_KEY) === "fallback";
+}
+
+/**
+ * Mark a node as showing a fallback language's text, or clear the mark
+ */
+export function setFallbackStatus(node: TextNode, isFallback: boolean): void {
+  node.setPluginData(TEXT_SOURCE_KEY, isFallback ? "fallback" : "");
+}
+
+/**
+ * Check if a node kept its previous text for want of a translation
+ */
+export function isMissingText(node: TextNode): boolean {
+  return node.getPluginData(TEXT_SOURCE_KEY) === "missing";
+}
+
+/**
+ * Mark a node as keeping its previous text for want of a translation
+ */
+export function setMissingStatus(node: TextNode): void {
+  node.setPluginData(TEXT_SOURCE_KEY, "missing");
+}
+
 /**
  * Get expected text from a text node
  */
@@ -85,6 +123,33 @@ export function clearExpectedText(node: TextNode): void {
   node.setPluginData(EXPECTED_TEXT_KEY, "");
 }
 
+/**
+ * Get the ###variable### values stored on a text node
+ */
+export function getVariableValues(node: TextNode): Record<string, string> | null {
+  const stored = node.getPluginData(VARIABLE_VALUES_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as Record<string, string>;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store the ###variable### values shown on a text node
+ */
+export function setVariableValues(node: TextNode, values: Record<string, string>): void {
+  node.setPluginData(VARIABLE_VALUES_KEY, JSON.stringify(values));
+}
+
+/**
+ * Clear the ###variable### values from a text node
+ */
+export function clearVariableValues(node: TextNode): void {
+  node.setPluginData(VARIABLE_VALUES_KEY, "");
+}
+
 /**
  * Check if a linked node's text has been modified from expected
  */
@@ -137,13 +202,33 @@ export function isEffectivelyVisible(node: SceneNode): boolean {
 }
 
 /**
- * Get all text nodes in scope (page or selection)
+ * The top-level frames containing the current selection: each selected node's
+ * outermost ancestor below the page, or below the section it sits in. Each
+ * frame is listed once, in selection order.
  */
-export function getTextNodesInScope(scope: "page" | "selection"): TextNode[] {
+export function getSelectionTopLevelFrames(): SceneNode[] {
+  const frames: SceneNode[] = [];
+  for (const node of figma.currentPage.selection) {
+    let frame: SceneNode = node;
+    while (frame.parent && frame.parent.type !== "PAGE" && frame.parent.type !== "SECTION") {
+      frame = frame.parent as SceneNode;
+    }
+    if (!frames.includes(frame)) frames.push(frame);
+  }
+  return frames;
+}
+
+/**
+ * Get all text nodes in scope (selection, its top-level frames, or page).
+ * Without a selection, "selection" and "frame" cover the page. The "document"
+ * scope needs its pages loaded first, see getTextNodesByPage.
+ */
+export function getTextNodesInScope(scope: Exclude<TextScope, "document">): TextNode[] {
   const nodes: TextNode[] = [];
 
-  if (scope === "selection" && figma.currentPage.selection.length > 0) {
-    for (const node of figma.currentPage.selection) {
+  if (scope !== "page" && figma.currentPage.selection.length > 0) {
+    const roots = scope === "frame" ? getSelectionTopLevelFrames() : figma.currentPage.selection;
+    for (const node of roots) {
       if (node.type === "TEXT") {
         nodes.push(node);
       } else if ("findAll" in node) {
@@ -159,6 +244,42 @@ export function getTextNodesInScope(scope: "page" | "selection"): TextNode[] {
   return nodes;
 }
 
+export interface PageTextNodes {
+  page: PageNode;
+  nodes: TextNode[];
+}
+
+/**
+ * Text nodes of every page in the file, grouped by page. With dynamic page
+ * access only the current page is loaded, so all pages are loaded first; they
+ * are then walked a few at a time, yielding in between so large files don't
+ * freeze the UI.
+ */
+export async function getTextNodesByPage(): Promise<PageTextNodes[]> {
+  await figma.loadAllPagesAsync();
+  const pages = figma.root.children;
+  const result: PageTextNodes[] = [];
+  for (let i = 0; i < pages.length; i += PAGE_CHUNK_SIZE) {
+    for (const page of pages.slice(i, i + PAGE_CHUNK_SIZE)) {
+      result.push({ page, nodes: page.findAll((n) => n.type === "TEXT") as TextNode[] });
+    }
+    if (i + PAGE_CHUNK_SIZE < pages.length) await yieldToEventLoop();
+  }
+  return result;
+}
+
+/**
+ * Counts for a page's entry in a "document" scope result
+ */
+export function getPageResult({ page, nodes }: PageTextNodes): PageResult {
+  return {
+    pageId: page.id,
+    pageName: page.name,
+    textCount: nodes.length,
+    linked: nodes.filter((node) => getMultilanId(node) !== null).length,
+  };
+}
+
 /**
  * Build text node info for UI
  */
@@ -175,7 +296,7 @@ export function buildTextNodeInfo(
     characters: node.characters,
     multilanId,
     translations,
-    hasOverflow: false, // TODO: Implement overflow detection
+    hasOverflow: getOverflowStatus(node) !== null,
     isPlaceholder: isPlaceholder(node),
   };
 }
@@ -187,10 +308,19 @@ export function buildTextNodeInfo(
  * misleading, since they belong to a different screen/state).
  */
 export function getAllTextNodesInfo(
-  scope: "page" | "selection",
+  scope: Exclude<TextScope, "document">,
+  getTranslations: (multilanId: string) => TranslationEntry | null
+): TextNodeInfo[] {
+  return getTextNodesInfo(getTextNodesInScope(scope), getTranslations);
+}
+
+/**
+ * Text node info for UI for the visible nodes among `nodes`
+ */
+export function getTextNodesInfo(
+  nodes: TextNode[],
   getTranslations: (multilanId: string) => TranslationEntry | null
 ): TextNodeInfo[] {
-  const nodes = getTextNodesInScope(scope);
   return nodes
     .filter((node) => isEffectivelyVisible(node))
     .map((node) => buildTextNodeInfo(node, getTranslations));
@@ -218,11 +348,12 @@ export async function loadNodeFont(node: TextNode): Promise<void> {
 }
 
 /**
- * Update text node content
+ * Update text node content, keeping its mixed styling (see writeStyledText).
+ * Returns the text written, which drops any style markers and fills
+ * ###variable### markers from `values`.
  */
-export async function updateNodeText(node: TextNode, text: string): Promise<void> {
-  await loadNodeFont(node);
-  node.characters = text;
+export async function updateNodeText(node: TextNode, text: string, values?: Record<string, string>): Promise<string> {
+  return writeStyledText(node, text, values);
 }
 
 /**
@@ -235,16 +366,53 @@ export async function getTextNodeById(nodeId: string): Promise<TextNode | null>
 }
 
 /**
- * Select a node in the canvas
+ * The page a node is on, or null for a page, the document or a removed node
+ */
+export function getNodePage(node: BaseNode): PageNode | null {
+  let current: BaseNode | null = node.parent;
+  while (current && current.type !== "PAGE") current = current.parent;
+  return current ? current as PageNode : null;
+}
+
+/**
+ * Make a node's page the current page, so it can be selected
+ */
+async function showNodePage(node: SceneNode): Promise<void> {
+  const page = getNodePage(node);
+  if (page && page !== figma.currentPage) await figma.setCurrentPageAsync(page);
+}
+
+/**
+ * Select a node in the canvas, going to its page first
  */
 export async function selectNode(nodeId: string): Promise<void> {
   const node = await figma.getNodeByIdAsync(nodeId);
   if (node && "type" in node) {
+    await showNodePage(node as SceneNode);
     figma.currentPage.selection = [node as SceneNode];
     figma.viewport.scrollAndZoomIntoView([node as SceneNode]);
   }
 }
 
+/**
+ * Select several nodes in the canvas and zoom to fit them. Nodes that no
+ * longer exist are skipped. A selection can't span pages, so only the nodes
+ * on the first node's page are selected, going to that page first.
+ */
+export async function selectNodes(nodeIds: string[]): Promise<void> {
+  const nodes: SceneNode[] = [];
+  for (const nodeId of nodeIds) {
+    const node = await figma.getNodeByIdAsync(nodeId);
+    if (node && node.type !== "PAGE" && node.type !== "DOCUMENT") nodes.push(node as SceneNode);
+  }
+  if (nodes.length === 0) return;
+  const page = getNodePage(nodes[0]);
+  const onPage = nodes.filter(node => getNodePage(node) === page);
+  await showNodePage(onPage[0]);
+  figma.currentPage.selection = onPage;
+  figma.viewport.scrollAndZoomIntoView(onPage);
+}
+
 /**
  * Get info for currently selected text node
  */
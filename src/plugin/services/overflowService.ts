@@ -0,0 +1,171 @@
+// Overflow service - finds text that no longer fits its layout after its
+// content changed (e.g. a language switch to a longer language)
+
+import { EXPECTED_TEXT_KEY, OVERFLOW_KEY, TextOverflowKind } from "../../shared/types";
+
+/** Sub-pixel differences come from rounding, not overflow */
+const OVERFLOW_TOLERANCE = 0.5;
+
+// Containers whose children are positioned relative to them
+const FRAME_TYPES: NodeType[] = ["FRAME", "COMPONENT", "INSTANCE"];
+
+function isFrameLike(node: BaseNode | null): node is FrameNode | ComponentNode | InstanceNode {
+  return !!node && FRAME_TYPES.includes(node.type);
+}
+
+// Segment properties that change how much room text takes
+type LayoutField =
+  | "fontName"
+  | "fontSize"
+  | "letterSpacing"
+  | "lineHeight"
+  | "textCase"
+  | "paragraphSpacing"
+  | "paragraphIndent"
+  | "indentation"
+  | "listOptions"
+  | "listSpacing";
+
+const LAYOUT_FIELDS: LayoutField[] = [
+  "fontName",
+  "fontSize",
+  "letterSpacing",
+  "lineHeight",
+  "textCase",
+  "paragraphSpacing",
+  "paragraphIndent",
+  "indentation",
+  "listOptions",
+  "listSpacing",
+];
+
+// Far outside anything on the page, so the measuring node is never seen
+const OFF_CANVAS = -100000;
+
+/**
+ * Lays text out off-canvas to measure it. One measuring node serves every
+ * text of a switch, instead of a clone of each text on the page.
+ */
+export interface TextMeasurer {
+  /**
+   * Height `node`'s text needs at its width, with no fixed height, line limit
+   * or truncation. Fonts must be loaded.
+   */
+  contentHeight(node: TextNode): number;
+  /** Remove the measuring node, if one was made */
+  dispose(): void;
+}
+
+/** Give `to` the text of `from`, with its layout, at its width, growing in height */
+function copyTextLayout(from: TextNode, to: TextNode): void {
+  const segments = from.getStyledTextSegments(LAYOUT_FIELDS);
+  // Writing characters needs the font of the text it replaces loaded
+  to.fontName = segments[0]?.fontName ?? from.fontName as FontName;
+  to.characters = from.characters;
+  for (const { start, end, ...layout } of segments) {
+    to.setRangeFontName(start, end, layout.fontName);
+    to.setRangeFontSize(start, end, layout.fontSize);
+    to.setRangeLetterSpacing(start, end, layout.letterSpacing);
+    to.setRangeLineHeight(start, end, layout.lineHeight);
+    to.setRangeTextCase(start, end, layout.textCase);
+    to.setRangeParagraphSpacing(start, end, layout.paragraphSpacing);
+    to.setRangeParagraphIndent(start, end, layout.paragraphIndent);
+    to.setRangeIndentation(start, end, layout.indentation);
+    to.setRangeListOptions(start, end, layout.listOptions);
+    to.setRangeListSpacing(start, end, layout.listSpacing);
+  }
+  if (from.leadingTrim !== figma.mixed) to.leadingTrim = from.leadingTrim;
+  to.resize(from.width, to.height);
+  to.textAutoResize = "HEIGHT";
+}
+
+/**
+ * A measurer whose node is made on the current page when first needed; call
+ * dispose once the texts are measured
+ */
+export function createTextMeasurer(): TextMeasurer {
+  let measuringNode: TextNode | null = null;
+  return {
+    contentHeight(node) {
+      if (!measuringNode) {
+        measuringNode = figma.createText();
+        measuringNode.name = "Overflow check";
+        figma.currentPage.appendChild(measuringNode);
+        measuringNode.x = OFF_CANVAS;
+        measuringNode.y = OFF_CANVAS;
+      }
+      copyTextLayout(node, measuringNode);
+      return measuringNode.height;
+    },
+    dispose() {
+      measuringNode?.remove();
+      measuringNode = null;
+    },
+  };
+}
+
+/** Whether a child's bounds reach past its frame's */
+function exceedsFrame(child: SceneNode, frame: FrameNode | ComponentNode | InstanceNode): boolean {
+  return child.x < -OVERFLOW_TOLERANCE
+    || child.y < -OVERFLOW_TOLERANCE
+    || child.x + child.width > frame.width + OVERFLOW_TOLERANCE
+    || child.y + child.height > frame.height + OVERFLOW_TOLERANCE;
+}
+
+/**
+ * Whether the text, or an auto-layout frame that grew with it, now reaches
+ * past the frame that contains it. Hugging auto-layout frames grow with their
+ * content, so the check moves up through them to the first frame that doesn't.
+ */
+function exceedsContainer(node: TextNode): boolean {
+  let child: SceneNode = node;
+  let parent = node.parent;
+  while (isFrameLike(parent)) {
+    if (exceedsFrame(child, parent)) return true;
+    const hugs = parent.layoutMode !== "NONE"
+      && (parent.primaryAxisSizingMode === "AUTO" || parent.counterAxisSizingMode === "AUTO");
+    if (!hugs) return false;
+    child = parent;
+    parent = parent.parent;
+  }
+  return false;
+}
+
+/**
+ * How a text node overflows, or null when it fits:
+ * - "truncated": its text is cut off with an ellipsis or a line limit
+ * - "clipped": a fixed-size text box is too small for its text
+ * - "parent-overflow": the text, or an auto-layout frame that grew with it,
+ *   reaches past its containing frame
+ * Fonts must be loaded (see loadNodeFont). Pass a `measurer` when checking
+ * many nodes; without one, a measurer is made for this node alone.
+ */
+export function detectTextOverflow(node: TextNode, measurer?: TextMeasurer): TextOverflowKind | null {
+  const truncates = node.textTruncation === "ENDING" || node.textAutoResize === "TRUNCATE";
+  if (truncates || node.textAutoResize === "NONE") {
+    const ownMeasurer = measurer ?? createTextMeasurer();
+    try {
+      if (ownMeasurer.contentHeight(node) > node.height + OVERFLOW_TOLERANCE) {
+        return truncates ? "truncated" : "clipped";
+      }
+    } finally {
+      if (!measurer) ownMeasurer.dispose();
+    }
+  }
+  return exceedsContainer(node) ? "parent-overflow" : null;
+}
+
+/**
+ * Overflow recorded for a node by the last check, while its text is still
+ * the text that was checked (its expected text)
+ */
+export function getOverflowStatus(node: TextNode): TextOverflowKind | null {
+  const kind = node.getPluginData(OVERFLOW_KEY);
+  if (!kind || node.getPluginData(EXPECTED_TEXT_KEY) !== node.characters) return null;
+  return kind as TextOverflowKind;
+}
+
+/** Record how a node overflows with its current text, or clear the record */
+export function setOverflowStatus(node: TextNode, kind: TextOverflowKind | null): void {
+  node.setPluginData(OVERFLOW_KEY, kind ?? "");
+}
@@ -1,17 +1,45 @@
 // Storage service - LRU-aware writes to figma.clientStorage.
 //
 // Figma enforces a 5 MB total quota across all keys for a given plugin/user.
-// When a write would exceed it, evict the least-recently-used *other* folder
-// and retry, repeating until the write succeeds or no more folders can be freed.
+// When a write would exceed it, drop the oldest kept releases first (this
+// folder's, then other folders'), then evict the least-recently-used *other*
+// folder and retry, repeating until the write succeeds or nothing can be freed.
 
 const TRA_DATA_PREFIX = "traData_";
 const TRA_METADATA_PREFIX = "traMetadata_";
 const TRA_LAST_USED_PREFIX = "traLastUsed_";
+const TRA_OVERLAY_PREFIX = "traOverlay_";
+const TRA_HISTORY_PREFIX = "traHistory_";
+const FOLDER_NAMES_KEY = "folderNames";
+
+// Every per-folder key, for moving or clearing a folder as a whole
+const FOLDER_KEY_PREFIXES = [
+  TRA_DATA_PREFIX,
+  TRA_METADATA_PREFIX,
+  TRA_LAST_USED_PREFIX,
+  TRA_OVERLAY_PREFIX,
+  TRA_HISTORY_PREFIX,
+];
+
+/** Previous uploads kept per folder for rollback */
+export const FOLDER_HISTORY_LIMIT = 3;
 
 export interface SetFolderResult {
   evictedFolders: string[];
 }
 
+/** A previous upload of a folder: compressed data and its upload metadata */
+export interface StoredRelease {
+  data: unknown;
+  metadata: unknown;
+}
+
+/** A folder's draft overlay: compressed data and its upload metadata, stored under one key */
+export interface StoredOverlay {
+  data: unknown;
+  metadata: unknown;
+}
+
 /**
  * Identify Figma's clientStorage quota errors.
  * Figma surfaces messages like "in clientStorage" with "5 MB" or "quota".
@@ -24,11 +52,96 @@ export function isQuotaError(err: unknown): boolean {
 }
 
 export async function clearFolderCache(folder: string): Promise<void> {
-  await Promise.all([
-    figma.clientStorage.deleteAsync(TRA_DATA_PREFIX + folder).catch(() => undefined),
-    figma.clientStorage.deleteAsync(TRA_METADATA_PREFIX + folder).catch(() => undefined),
-    figma.clientStorage.deleteAsync(TRA_LAST_USED_PREFIX + folder).catch(() => undefined),
-  ]);
+  await Promise.all(
+    FOLDER_KEY_PREFIXES.map(prefix => figma.clientStorage.deleteAsync(prefix + folder).catch(() => undefined))
+  );
+}
+
+/**
+ * The user's folder list, in display order. `defaults` is returned until a
+ * list has been saved.
+ */
+export async function getFolderNames(defaults: readonly string[]): Promise<string[]> {
+  const stored = await figma.clientStorage.getAsync(FOLDER_NAMES_KEY).catch(() => null);
+  return Array.isArray(stored) && stored.length > 0 && stored.every(name => typeof name === "string")
+    ? (stored as string[])
+    : [...defaults];
+}
+
+export async function setFolderNames(names: readonly string[]): Promise<void> {
+  await figma.clientStorage.setAsync(FOLDER_NAMES_KEY, [...names]);
+}
+
+/**
+ * Move everything stored for folder `from` (data, metadata, overlay, history,
+ * last use) to folder `to`. Keys are copied before the old ones are deleted,
+ * so a failed write (e.g. the quota, as the folder is briefly stored twice)
+ * leaves the folder under its old name.
+ */
+export async function moveFolderData(from: string, to: string): Promise<void> {
+  const values = await Promise.all(
+    FOLDER_KEY_PREFIXES.map(prefix => figma.clientStorage.getAsync(prefix + from).catch(() => undefined))
+  );
+  try {
+    for (let i = 0; i < FOLDER_KEY_PREFIXES.length; i++) {
+      if (values[i] !== undefined && values[i] !== null) {
+        await figma.clientStorage.setAsync(FOLDER_KEY_PREFIXES[i] + to, values[i]);
+      }
+    }
+  } catch (err) {
+    await clearFolderCache(to);
+    throw err;
+  }
+  await clearFolderCache(from);
+}
+
+/** A folder's previous uploads, newest first */
+export async function getFolderHistory(folder: string): Promise<StoredRelease[]> {
+  const stored = await figma.clientStorage.getAsync(TRA_HISTORY_PREFIX + folder).catch(() => null);
+  return Array.isArray(stored) ? (stored as StoredRelease[]) : [];
+}
+
+async function writeFolderHistory(folder: string, history: StoredRelease[]): Promise<void> {
+  if (history.length === 0) {
+    await figma.clientStorage.deleteAsync(TRA_HISTORY_PREFIX + folder).catch(() => undefined);
+  } else {
+    await figma.clientStorage.setAsync(TRA_HISTORY_PREFIX + folder, history);
+  }
+}
+
+/**
+ * Drop the oldest kept release of any folder other than `excludeFolder` to
+ * free space. Returns false when no other folder keeps any.
+ */
+async function dropOldestRelease(allFolders: readonly string[], excludeFolder: string): Promise<boolean> {
+  for (const folder of allFolders) {
+    if (folder === excludeFolder) continue;
+    const history = await getFolderHistory(folder);
+    if (history.length === 0) continue;
+    // Free the space before writing the shorter list; if even that doesn't
+    // fit, the folder loses its whole history
+    await figma.clientStorage.deleteAsync(TRA_HISTORY_PREFIX + folder).catch(() => undefined);
+    await writeFolderHistory(folder, history.slice(0, -1)).catch(() => undefined);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Persist a folder's draft overlay, replacing any previous one. Overlays are
+ * small, so a quota error is surfaced instead of evicting other folders.
+ */
+export async function setFolderOverlay(folder: string, overlay: StoredOverlay): Promise<void> {
+  await figma.clientStorage.setAsync(TRA_OVERLAY_PREFIX + folder, overlay);
+}
+
+export async function getFolderOverlay(folder: string): Promise<StoredOverlay | null> {
+  const stored = await figma.clientStorage.getAsync(TRA_OVERLAY_PREFIX + folder).catch(() => null);
+  return stored && typeof stored === "object" && "data" in stored ? (stored as StoredOverlay) : null;
+}
+
+export async function clearFolderOverlay(folder: string): Promise<void> {
+  await figma.clientStorage.deleteAsync(TRA_OVERLAY_PREFIX + folder).catch(() => undefined);
 }
 
 export async function touchFolder(folder: string): Promise<void> {
@@ -67,37 +180,125 @@ export async function findLruFolder(
 }
 
 /**
- * Persist a folder's tra data + metadata. On quota errors, evict LRU folders
- * one at a time and retry, until either the write succeeds or there are no
- * more folders to evict.
+ * Persist a folder's tra data + metadata. The data it replaces is kept as the
+ * newest entry of the folder's history (up to `historyLimit` entries). On
+ * quota errors, drop kept releases — this folder's oldest first, then other
+ * folders' — and then evict LRU folders one at a time, retrying until either
+ * the write succeeds or nothing is left to free. If it never succeeds, the
+ * folder's data, metadata and history are put back as they were.
  */
 export async function setFolderTraData(
   folder: string,
   compressedData: unknown,
   metadata: unknown | undefined,
-  allFolders: readonly string[]
+  allFolders: readonly string[],
+  historyLimit = FOLDER_HISTORY_LIMIT
+): Promise<SetFolderResult> {
+  return writeFolderTraData(folder, compressedData, metadata, allFolders, undefined, historyLimit);
+}
+
+/** What a folder stored before a write, for putting it back if the write fails */
+interface FolderSnapshot {
+  data: unknown;
+  metadata: unknown;
+  history: StoredRelease[];
+}
+
+async function restoreFolder(folder: string, snapshot: FolderSnapshot): Promise<void> {
+  const restore = (key: string, value: unknown) =>
+    (value == null ? figma.clientStorage.deleteAsync(key) : figma.clientStorage.setAsync(key, value))
+      .catch(() => undefined);
+  await restore(TRA_DATA_PREFIX + folder, snapshot.data);
+  await restore(TRA_METADATA_PREFIX + folder, snapshot.metadata);
+  await writeFolderHistory(folder, snapshot.history).catch(() => undefined);
+}
+
+/**
+ * setFolderTraData with the folder's kept releases given rather than read, so
+ * a caller can change them; they are stored only along with the data
+ */
+async function writeFolderTraData(
+  folder: string,
+  compressedData: unknown,
+  metadata: unknown | undefined,
+  allFolders: readonly string[],
+  keptHistory?: StoredRelease[],
+  historyLimit = FOLDER_HISTORY_LIMIT
 ): Promise<SetFolderResult> {
   const evictedFolders: string[] = [];
 
-  // Bound retries to allFolders.length so we can never loop forever.
-  for (let attempt = 0; attempt <= allFolders.length; attempt++) {
-    try {
-      await figma.clientStorage.setAsync(TRA_DATA_PREFIX + folder, compressedData);
-      if (metadata !== undefined) {
-        await figma.clientStorage.setAsync(TRA_METADATA_PREFIX + folder, metadata);
+  const previous: FolderSnapshot = {
+    data: await figma.clientStorage.getAsync(TRA_DATA_PREFIX + folder).catch(() => null),
+    metadata: await figma.clientStorage.getAsync(TRA_METADATA_PREFIX + folder).catch(() => null),
+    history: await getFolderHistory(folder),
+  };
+  const history = [...(keptHistory ?? previous.history)];
+  if (previous.data) {
+    history.unshift({ data: previous.data, metadata: previous.metadata ?? null });
+  }
+  history.splice(Math.max(0, historyLimit));
+
+  try {
+    // Every retry frees something — a kept release or a whole folder — so this
+    // bound is never reached before the stores run out.
+    for (let attempt = 0; attempt <= allFolders.length * (historyLimit + 1) + history.length; attempt++) {
+      try {
+        await figma.clientStorage.setAsync(TRA_DATA_PREFIX + folder, compressedData);
+        if (metadata !== undefined) {
+          await figma.clientStorage.setAsync(TRA_METADATA_PREFIX + folder, metadata);
+        }
+        await writeFolderHistory(folder, history);
+        await figma.clientStorage.setAsync(TRA_LAST_USED_PREFIX + folder, Date.now());
+        return { evictedFolders };
+      } catch (err) {
+        if (!isQuotaError(err)) throw err;
+        if (history.length > 0) {
+          history.pop();
+          // Free the stored history's space; `previous` still holds it
+          await figma.clientStorage.deleteAsync(TRA_HISTORY_PREFIX + folder).catch(() => undefined);
+          continue;
+        }
+        if (await dropOldestRelease(allFolders, folder)) continue;
+        const victim = await findLruFolder(allFolders, folder);
+        if (!victim) throw err;
+        await clearFolderCache(victim);
+        evictedFolders.push(victim);
       }
-      await figma.clientStorage.setAsync(TRA_LAST_USED_PREFIX + folder, Date.now());
-      return { evictedFolders };
-    } catch (err) {
-      if (!isQuotaError(err)) throw err;
-      const victim = await findLruFolder(allFolders, folder);
-      if (!victim) throw err;
-      await clearFolderCache(victim);
-      evictedFolders.push(victim);
     }
+
+    throw new Error(
+      `clientStorage quota exceeded for "${folder}" after evicting ${evictedFolders.join(", ")}`
+    );
+  } catch (err) {
+    await restoreFolder(folder, previous);
+    throw err;
   }
+}
 
-  throw new Error(
-    `clientStorage quota exceeded for "${folder}" after evicting ${evictedFolders.join(", ")}`
+/**
+ * Make a kept release the folder's data again. The data it replaces goes to
+ * the front of the history, so a rollback can itself be rolled back. If the
+ * write fails, the folder is left as it was.
+ * @param index Position in the history, 0 being the most recent upload
+ * @throws Error when the folder keeps no release at `index`
+ */
+export async function rollbackFolder(
+  folder: string,
+  index: number,
+  allFolders: readonly string[]
+): Promise<StoredRelease & SetFolderResult> {
+  const history = await getFolderHistory(folder);
+  const release = history[index];
+  if (!release) {
+    throw new Error(`${folder} has no previous upload #${index + 1}`);
+  }
+  const remaining = history.filter((_, i) => i !== index);
+  const { evictedFolders } = await writeFolderTraData(
+    folder, release.data, release.metadata ?? undefined, allFolders, remaining
   );
+  if (!release.metadata) {
+    // Don't leave the replaced upload's metadata describing the restored data
+    await figma.clientStorage.deleteAsync(TRA_METADATA_PREFIX + folder).catch(() => undefined);
+  }
+  return { ...release, evictedFolders };
 }
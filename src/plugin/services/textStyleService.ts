@@ -0,0 +1,246 @@
+// Text style service - keeps a text node's mixed styling (a bold word, a
+// colored link) when its text is replaced. Writing `characters` gives the whole
+// text the first character's style, so the styled segments are captured first,
+// mapped onto the new text and applied again after the write. Markup in the
+// new text (see markupService) is stripped and applied on top.
+
+import { fillMarkupVariables, MarkupSpan, parseMarkup } from "./markupService";
+
+type StyleField =
+  | "fontName"
+  | "fontSize"
+  | "textDecoration"
+  | "textCase"
+  | "letterSpacing"
+  | "lineHeight"
+  | "fills"
+  | "hyperlink"
+  | "textStyleId"
+  | "fillStyleId";
+
+/** Segment properties captured before a write and restored after it */
+const STYLE_FIELDS: StyleField[] = [
+  "fontName",
+  "fontSize",
+  "textDecoration",
+  "textCase",
+  "letterSpacing",
+  "lineHeight",
+  "fills",
+  "hyperlink",
+  "textStyleId",
+  "fillStyleId",
+];
+
+export type TextSegmentStyle = Pick<StyledTextSegment, StyleField>;
+
+/** A range of text with one style, `end` exclusive */
+export interface StyledRange {
+  start: number;
+  end: number;
+  style: TextSegmentStyle;
+}
+
+/** The text to write, its styled ranges and the markup formatting on top */
+export interface MappedText {
+  text: string;
+  ranges: StyledRange[];
+  /** Bold, italic, underline and link spans */
+  formatting: MarkupSpan[];
+}
+
+// Weights already at least bold, kept when bold is applied
+const HEAVY_WEIGHT = /bold|black|heavy/i;
+// Bold weights to try, in order, for a family without "Bold"
+const BOLD_WEIGHTS = ["Bold", "SemiBold", "Semi Bold", "Semibold", "ExtraBold", "Extra Bold", "Black", "Heavy"];
+const ITALIC_WORD = /\s*\b(italic|oblique)\b\s*/i;
+
+/**
+ * The node's text split into runs of one style
+ */
+export function captureStyledRanges(node: TextNode): StyledRange[] {
+  return node.getStyledTextSegments(STYLE_FIELDS).map(({ start, end, ...style }) => ({ start, end, style }));
+}
+
+/** The style covering most of the text; text outside any marker takes it */
+function dominantStyle(ranges: StyledRange[]): TextSegmentStyle {
+  return ranges.reduce((best, range) =>
+    range.end - range.start > best.end - best.start ? range : best
+  ).style;
+}
+
+/**
+ * Each `<n>` style marker's text takes the style of the node's segment n
+ * (counting from 0, in text order); the rest takes the dominant style
+ */
+function mapBySegments(ranges: StyledRange[], text: string, markers: MarkupSpan[]): StyledRange[] {
+  const base = dominantStyle(ranges);
+  const styles: TextSegmentStyle[] = new Array(text.length).fill(base);
+  for (const marker of markers) {
+    const style = marker.kind === "segment" ? ranges[marker.index]?.style ?? base : base;
+    styles.fill(style, marker.start, marker.end);
+  }
+
+  const mapped: StyledRange[] = [];
+  styles.forEach((style, i) => {
+    const previous = mapped[mapped.length - 1];
+    if (previous && previous.style === style) previous.end = i + 1;
+    else mapped.push({ start: i, end: i + 1, style });
+  });
+  return mapped;
+}
+
+/** Scale each range to the new text's length, keeping their order */
+function mapProportionally(ranges: StyledRange[], text: string): StyledRange[] {
+  const scale = text.length / (ranges[ranges.length - 1].end || 1);
+  const mapped: StyledRange[] = [];
+  let start = 0;
+  ranges.forEach((range, i) => {
+    const end = i === ranges.length - 1
+      ? text.length
+      : Math.min(text.length, Math.max(start, Math.round(range.end * scale)));
+    if (end > start) mapped.push({ start, end, style: range.style });
+    start = end;
+  });
+  return mapped;
+}
+
+/**
+ * Map a node's styled ranges onto the text replacing it:
+ * - one style for the whole node: the new text takes it
+ * - style markers in the text (`Click <1>here</1>`): the text between them
+ *   takes the marked segment's style
+ * - otherwise: each range is scaled to the new text's length
+ * Markup tags are stripped from the text to write; its formatting spans are
+ * returned for applying on top. `values` fill the text's ###variable###
+ * markers once its markup is parsed.
+ */
+export function mapStyledRanges(ranges: StyledRange[], text: string, values?: Record<string, string>): MappedText {
+  const parsed = values ? fillMarkupVariables(parseMarkup(text), values) : parseMarkup(text);
+  const plain = parsed.text;
+  const markers = parsed.spans.filter(span => span.kind === "segment");
+  const formatting = parsed.spans.filter(span => span.kind !== "segment");
+
+  if (ranges.length === 0) return { text: plain, ranges: [], formatting };
+  if (markers.length > 0) return { text: plain, ranges: mapBySegments(ranges, plain, markers), formatting };
+  if (ranges.length === 1) {
+    return { text: plain, ranges: plain ? [{ start: 0, end: plain.length, style: ranges[0].style }] : [], formatting };
+  }
+  return { text: plain, ranges: mapProportionally(ranges, plain), formatting };
+}
+
+/**
+ * The font with bold and/or italic added, if the family has that style
+ * (e.g. Inter Regular → Inter Bold Italic); otherwise the font itself
+ */
+export function fontVariant(
+  font: FontName,
+  format: { bold: boolean; italic: boolean },
+  available: readonly FontName[]
+): FontName {
+  const styles = available.filter(f => f.family === font.family).map(f => f.style);
+  const italicMatch = font.style.match(ITALIC_WORD);
+  const weight = font.style.replace(ITALIC_WORD, " ").trim() || "Regular";
+  const weights = format.bold && !HEAVY_WEIGHT.test(weight) ? BOLD_WEIGHTS : [weight];
+  const italics = italicMatch ? [italicMatch[1]] : format.italic ? ["Italic", "Oblique"] : [""];
+
+  for (const w of weights) {
+    for (const italic of italics) {
+      const style = !italic ? w : w === "Regular" ? italic : `${w} ${italic}`;
+      if (styles.includes(style)) return { family: font.family, style };
+    }
+  }
+  return font;
+}
+
+// Listed once: the list is long and doesn't change while the plugin runs
+let availableFonts: Promise<FontName[]> | null = null;
+
+function listAvailableFonts(): Promise<FontName[]> {
+  if (!availableFonts) {
+    availableFonts = figma.listAvailableFontsAsync().then(fonts => fonts.map(font => font.fontName));
+    availableFonts.catch(() => { availableFonts = null; });
+  }
+  return availableFonts;
+}
+
+/**
+ * Apply markup formatting over the written ranges: bold and italic switch
+ * each run's font to its variant, links set a hyperlink, and links and <u>
+ * underline
+ */
+async function applyFormatting(node: TextNode, { text, ranges, formatting }: MappedText): Promise<void> {
+  const fontSpans = formatting.filter(span => span.kind === "bold" || span.kind === "italic");
+  if (fontSpans.length > 0) {
+    const available = await listAvailableFonts();
+    const bounds = new Set([0, text.length]);
+    for (const span of [...ranges, ...fontSpans]) {
+      bounds.add(span.start);
+      bounds.add(span.end);
+    }
+    const points = Array.from(bounds).sort((a, b) => a - b);
+    for (let i = 0; i < points.length - 1; i++) {
+      const [start, end] = [points[i], points[i + 1]];
+      const covers = (kind: MarkupSpan["kind"]) => fontSpans.some(s => s.kind === kind && s.start <= start && end <= s.end);
+      const format = { bold: covers("bold"), italic: covers("italic") };
+      if (!format.bold && !format.italic) continue;
+      const base = ranges.find(range => range.start <= start && start < range.end)?.style.fontName ?? node.fontName as FontName;
+      const font = fontVariant(base, format, available);
+      if (font === base) continue;
+      await figma.loadFontAsync(font);
+      node.setRangeFontName(start, end, font);
+    }
+  }
+
+  for (const span of formatting) {
+    if (span.kind === "link") node.setRangeHyperlink(span.start, span.end, { type: "URL", value: span.href });
+    if (span.kind === "link" || span.kind === "underline") {
+      node.setRangeTextDecoration(span.start, span.end, "UNDERLINE");
+    }
+  }
+}
+
+async function loadRangeFonts(node: TextNode, ranges: StyledRange[]): Promise<void> {
+  const fonts = ranges.length > 0 ? ranges.map(range => range.style.fontName) : [node.fontName as FontName];
+  const unique = new Map(fonts.map(font => [`${font.family}\u0000${font.style}`, font]));
+  await Promise.all(Array.from(unique.values()).map(font => figma.loadFontAsync(font)));
+}
+
+async function applyStyle(node: TextNode, { start, end, style }: StyledRange): Promise<void> {
+  if (style.textStyleId) {
+    await node.setRangeTextStyleIdAsync(start, end, style.textStyleId);
+  } else {
+    node.setRangeFontName(start, end, style.fontName);
+    node.setRangeFontSize(start, end, style.fontSize);
+    node.setRangeTextDecoration(start, end, style.textDecoration);
+    node.setRangeTextCase(start, end, style.textCase);
+    node.setRangeLetterSpacing(start, end, style.letterSpacing);
+    node.setRangeLineHeight(start, end, style.lineHeight);
+  }
+  if (style.fillStyleId) {
+    await node.setRangeFillStyleIdAsync(start, end, style.fillStyleId);
+  } else {
+    node.setRangeFills(start, end, style.fills);
+  }
+  node.setRangeHyperlink(start, end, style.hyperlink);
+}
+
+/**
+ * Replace a node's text, keeping its mixed styling (see mapStyledRanges) and
+ * applying its markup. Loads the font of every styled segment first. Returns
+ * the text written, which is `text` without its markup and with its
+ * ###variable### markers filled from `values`.
+ */
+export async function writeStyledText(node: TextNode, text: string, values?: Record<string, string>): Promise<string> {
+  const ranges = captureStyledRanges(node);
+  await loadRangeFonts(node, ranges);
+  const mapped = mapStyledRanges(ranges, text, values);
+
+  node.characters = mapped.text;
+  // A single style is already the one the write kept
+  if (ranges.length > 1) {
+    for (const range of mapped.ranges) await applyStyle(node, range);
+  }
+  await applyFormatting(node, mapped);
+  return mapped.text;
+}
@@ -6,11 +6,19 @@ import {
   TranslationEntry,
   SearchResult,
   Language,
-  SUPPORTED_LANGUAGES,
+  DEFAULT_LANGUAGES,
+  localeFallbackChain,
   MetadataMap,
   MultilanMetadata,
   MatchDetectionResult,
 } from "../../shared/types";
+import type {
+  TranslationDataPort,
+  TranslationPortEntry,
+  TranslationChunkHandler,
+  TranslationChangeEvent,
+} from "../../ports/translationPort";
+import { fillMarkupVariables, stripMarkup } from "./markupService";
 
 // ---- Scoring Constants ----
 
@@ -38,7 +46,7 @@ const MIN_LENGTH_RATIO = 0.3;
 /** Number of entries to process before yielding to the event loop */
 const CHUNK_SIZE = 500;
 
-function yieldToEventLoop(): Promise<void> {
+export function yieldToEventLoop(): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, 0));
 }
 
@@ -59,22 +67,128 @@ export function createCancellationToken(): CancellationToken {
 
 // ---- Basic Lookups ----
 
+// multilanIds can be arbitrary keys (i18next), so never resolve one through the
+// prototype chain — "constructor" must not look like a linked entry
+function ownEntry<T>(map: Record<string, T>, multilanId: string): T | null {
+  return Object.prototype.hasOwnProperty.call(map, multilanId) ? map[multilanId] : null;
+}
+
 export function getMetadata(metadataMap: MetadataMap, multilanId: string): MultilanMetadata | null {
-  return metadataMap[multilanId] || null;
+  return ownEntry(metadataMap, multilanId) || null;
+}
+
+/**
+ * Text of a multilan in `lang`, falling back along the locale's chain
+ * (fr-BE → fr → en) when that locale has no text.
+ * @param chain Locales to try instead of the default chain
+ */
+export function getTranslation(
+  translationData: TranslationMap,
+  multilanId: string,
+  lang: Language,
+  chain: readonly Language[] = localeFallbackChain(lang)
+): string | null {
+  return resolveTranslation(translationData, multilanId, chain)?.text ?? null;
 }
 
-export function getTranslation(translationData: TranslationMap, multilanId: string, lang: Language): string | null {
-  const entry = translationData[multilanId];
+/**
+ * The first locale of `chain` with text for a multilan, and that text.
+ * Returns null when none has text.
+ */
+export function resolveTranslation(
+  translationData: TranslationMap,
+  multilanId: string,
+  chain: readonly Language[]
+): { text: string; language: Language } | null {
+  const entry = ownEntry(translationData, multilanId);
   if (!entry) return null;
-  return entry[lang] || null;
+  for (const locale of chain) {
+    if (entry[locale]) return { text: entry[locale], language: locale };
+  }
+  return null;
 }
 
 export function getAllTranslations(translationData: TranslationMap, multilanId: string): TranslationEntry | null {
-  return translationData[multilanId] || null;
+  return ownEntry(translationData, multilanId) || null;
+}
+
+// ---- Lazy Port Access ----
+// A port may serve entries on demand (getEntry / searchText / iterateEntries)
+// instead of materializing its whole map. These helpers prefer those methods
+// and fall back to the materialized maps for ports without them.
+
+function cacheEntry(translationData: TranslationMap, metadataMap: MetadataMap, entry: TranslationPortEntry): void {
+  if (entry.multilanId === "__proto__") return;
+  translationData[entry.multilanId] = entry.translations;
+  if (entry.metadata) metadataMap[entry.multilanId] = entry.metadata;
 }
 
-export function isLanguage(lang: string | undefined): lang is Language {
-  return lang !== undefined && SUPPORTED_LANGUAGES.includes(lang as Language);
+/**
+ * Look up one entry, through the port's getEntry when it isn't in the map yet.
+ * A fetched entry is cached into the maps so sync lookups see it afterwards.
+ */
+export async function getEntryAsync(
+  port: TranslationDataPort | null,
+  translationData: TranslationMap,
+  metadataMap: MetadataMap,
+  multilanId: string
+): Promise<TranslationPortEntry | null> {
+  const translations = ownEntry(translationData, multilanId);
+  if (translations) {
+    return { multilanId, translations, metadata: getMetadata(metadataMap, multilanId) ?? undefined };
+  }
+  if (!port?.getEntry) return null;
+  const entry = await port.getEntry(multilanId);
+  if (entry) cacheEntry(translationData, metadataMap, entry);
+  return entry;
+}
+
+/**
+ * Fetch the given entries into the maps before sync code (language switch,
+ * node info) reads them. A no-op for ports without getEntry.
+ */
+export async function primeEntriesAsync(
+  port: TranslationDataPort | null,
+  translationData: TranslationMap,
+  metadataMap: MetadataMap,
+  multilanIds: string[]
+): Promise<void> {
+  const getEntry = port?.getEntry?.bind(port);
+  if (!getEntry) return;
+  const missing = Array.from(new Set(multilanIds)).filter(id => !ownEntry(translationData, id));
+  for (let i = 0; i < missing.length; i += CHUNK_SIZE) {
+    const entries = await Promise.all(missing.slice(i, i + CHUNK_SIZE).map(id => getEntry(id)));
+    for (const entry of entries) {
+      if (entry) cacheEntry(translationData, metadataMap, entry);
+    }
+  }
+}
+
+/**
+ * Walk every entry in chunks — through the port's iterateEntries when it has
+ * one, otherwise over the materialized map, yielding between chunks.
+ */
+export async function forEachEntryChunkAsync(
+  port: TranslationDataPort | null,
+  translationData: TranslationMap,
+  onChunk: TranslationChunkHandler,
+  chunkSize: number = CHUNK_SIZE
+): Promise<void> {
+  if (port?.iterateEntries) {
+    await port.iterateEntries(onChunk, chunkSize);
+    return;
+  }
+  const ids = Object.keys(translationData);
+  for (let i = 0; i < ids.length; i += chunkSize) {
+    const chunk = ids.slice(i, i + chunkSize).map(multilanId => ({ multilanId, translations: translationData[multilanId] }));
+    if (await onChunk(chunk) === false) return;
+    if (i + chunkSize < ids.length) await yieldToEventLoop();
+  }
+}
+
+/** Whether `lang` is one of `languages` — the loaded folder's, or the defaults */
+export function isLanguage(lang: string | undefined, languages: readonly Language[] = DEFAULT_LANGUAGES): lang is Language {
+  return lang !== undefined && languages.includes(lang);
 }
 
 /**
@@ -86,9 +200,12 @@ export function isLanguage(lang: string | undefined): lang is Language {
  *
  * Case is intentionally preserved: exact matching stays case-sensitive so
  * "Private" does not match "private" (see the text-to-ID map).
+ *
+ * Markup tags (<b>, <a href>, style markers) are stripped first: the canvas
+ * shows "Save now" for "<b>Save</b> now", so that is the text to match.
  */
 export function normalizeExactKey(text: string): string {
-  return text.normalize('NFC');
+  return stripMarkup(text).normalize('NFC');
 }
 
 /**
@@ -146,6 +263,15 @@ export function extractVariableValues(template: string, text: string): Record<st
   return result;
 }
 
+/**
+ * Fill a template's ###variable### markers with their values, keeping the
+ * markers of variables without one.
+ * E.g., template "Bonjour, ###name###!" + { name: "John" } → "Bonjour, John!"
+ */
+export function interpolateVariables(template: string, values: Record<string, string>): string {
+  return fillMarkupVariables({ text: template, spans: [] }, values).text;
+}
+
 // ---- Levenshtein & Scoring ----
 
 /**
@@ -371,23 +497,87 @@ export async function globalSearchTranslationsAsync(
   }));
 }
 
+/**
+ * Global search through the port's searchText when it has one, otherwise
+ * over the materialized map (globalSearchTranslationsAsync).
+ */
+export async function globalSearchAsync(
+  port: TranslationDataPort | null,
+  translationData: TranslationMap,
+  query: string,
+  limit: number = 30,
+  metadataMap?: MetadataMap,
+  cancellationToken?: CancellationToken
+): Promise<SearchResult[]> {
+  if (!port?.searchText) {
+    return globalSearchTranslationsAsync(translationData, query, limit, metadataMap, cancellationToken);
+  }
+  const entries = await port.searchText(query, { limit, includeIdMatch: true });
+  if (cancellationToken?.cancelled) return [];
+  return entries.map(({ multilanId, translations, metadata }) => ({ multilanId, translations, metadata }));
+}
+
+// Fuzzy pass for ports with searchText: the port picks candidates, we score them
+async function searchPortWithScoreAsync(
+  searchText: NonNullable<TranslationDataPort["searchText"]>,
+  query: string,
+  limit: number,
+  minScore: number
+): Promise<Array<SearchResult & { score: number }>> {
+  const entries = await searchText(query, { limit });
+  return entries
+    .map(({ multilanId, translations }) => {
+      let score = 0;
+      for (const text of Object.values(translations)) {
+        score = Math.max(score, calculateMatchScore(query, text, minScore));
+      }
+      return { multilanId, translations, score };
+    })
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Scored text search through the port's searchText when it has one (its
+ * candidates are scored here), otherwise over the materialized map
+ * (searchTranslationsWithScoreAsync).
+ */
+export async function searchWithScoreAsync(
+  port: TranslationDataPort | null,
+  translationData: TranslationMap,
+  query: string,
+  limit: number = 10,
+  cancellationToken?: CancellationToken,
+  minScore: number = 0
+): Promise<Array<SearchResult & { score: number }>> {
+  if (!port?.searchText) {
+    return searchTranslationsWithScoreAsync(translationData, query, limit, cancellationToken, minScore);
+  }
+  const results = await searchPortWithScoreAsync(port.searchText.bind(port), query, limit, minScore);
+  return cancellationToken?.cancelled ? [] : results;
+}
+
 /**
  * Detect match for selected text — tries exact match first (O(1)),
- * then falls back to fuzzy search for close matches.
+ * then falls back to fuzzy search for close matches. With a lazy `port` the
+ * exact-match map is built through iterateEntries and the fuzzy pass goes
+ * through searchText.
  */
 export async function detectMatchAsync(
   translationData: TranslationMap,
   text: string,
   metadataMap?: MetadataMap,
-  cancellationToken?: CancellationToken
+  cancellationToken?: CancellationToken,
+  port: TranslationDataPort | null = null
 ): Promise<MatchDetectionResult> {
   const trimmed = text.trim();
   if (!trimmed) return { status: 'none' };
 
   // Pass 1: Exact match (cached, O(1) after first build)
-  const textToIdMap = await getTextToIdMap(translationData);
+  const textToIdMap = await getTextToIdMap(translationData, port);
   const exactIds = textToIdMap.get(normalizeExactKey(trimmed));
   if (exactIds && exactIds.length > 0) {
+    await primeEntriesAsync(port, translationData, metadataMap ?? {}, exactIds);
     const exactMatches = exactIds.map(id => ({
       multilanId: id,
       translations: translationData[id],
@@ -407,8 +597,8 @@ export async function detectMatchAsync(
 
   // Pass 2: Fuzzy match (chunked, non-blocking). We only surface results at or
   // above CLOSE_MATCH_THRESHOLD, so scope the scorer to that bound up front.
-  const fuzzyResults = await searchTranslationsWithScoreAsync(
-    translationData, trimmed, 5, cancellationToken, CLOSE_MATCH_THRESHOLD
+  const fuzzyResults = await searchWithScoreAsync(
+    port, translationData, trimmed, 5, cancellationToken, CLOSE_MATCH_THRESHOLD
   );
   if (cancellationToken?.cancelled) return { status: 'none' };
 
@@ -426,34 +616,34 @@ export async function detectMatchAsync(
 
 // ---- Text-to-ID Map (Exact Match Cache) ----
 
-async function buildTextToIdMapAsync(translationData: TranslationMap): Promise<Map<string, string[]>> {
+async function buildTextToIdMapAsync(
+  translationData: TranslationMap,
+  port: TranslationDataPort | null
+): Promise<Map<string, string[]>> {
   const textToMultilanIds = new Map<string, string[]>();
-  const entries = Object.entries(translationData);
 
-  for (let i = 0; i < entries.length; i++) {
-    const [multilanId, langs] = entries[i];
-    // Dedupe IDs *within a single multilan entry* (same text in en + fr would
-    // otherwise add the ID twice), but keep duplicates *across multilan entries*.
-    const seenForThisEntry = new Set<string>();
-    for (const text of Object.values(langs)) {
-      // Key by the normalized text (case-sensitive, NFC) so "Private" only
-      // exact-matches an entry translated as "Private", not "private", while
-      // canonically-equivalent accents still match. Case-insensitive matches
-      // still surface via the fuzzy/close-match pass.
-      const key = normalizeExactKey(text);
-      if (seenForThisEntry.has(key)) continue;
-      seenForThisEntry.add(key);
-      const existing = textToMultilanIds.get(key);
-      if (existing) {
-        existing.push(multilanId);
-      } else {
-        textToMultilanIds.set(key, [multilanId]);
+  await forEachEntryChunkAsync(port, translationData, chunk => {
+    for (const { multilanId, translations: langs } of chunk) {
+      // Dedupe IDs *within a single multilan entry* (same text in en + fr would
+      // otherwise add the ID twice), but keep duplicates *across multilan entries*.
+      const seenForThisEntry = new Set<string>();
+      for (const text of Object.values(langs)) {
+        // Key by the normalized text (case-sensitive, NFC) so "Private" only
+        // exact-matches an entry translated as "Private", not "private", while
+        // canonically-equivalent accents still match. Case-insensitive matches
+        // still surface via the fuzzy/close-match pass.
+        const key = normalizeExactKey(text);
+        if (seenForThisEntry.has(key)) continue;
+        seenForThisEntry.add(key);
+        const existing = textToMultilanIds.get(key);
+        if (existing) {
+          existing.push(multilanId);
+        } else {
+          textToMultilanIds.set(key, [multilanId]);
+        }
       }
     }
-    if ((i + 1) % CHUNK_SIZE === 0) {
-      await yieldToEventLoop();
-    }
-  }
+  });
 
   return textToMultilanIds;
 }
@@ -462,8 +652,14 @@ let cachedTextToIdMap: Map<string, string[]> | null = null;
 let cachedTextToIdMapSource: TranslationMap | null = null;
 let textToIdBuildPromise: Promise<Map<string, string[]>> | null = null;
 
-/** Get or build the text-to-IDs map (async, cached, deduplicates concurrent builds). */
-export async function getTextToIdMap(translationData: TranslationMap): Promise<Map<string, string[]>> {
+/**
+ * Get or build the text-to-IDs map (async, cached, deduplicates concurrent builds).
+ * Pass the active port so a lazy source is walked through iterateEntries.
+ */
+export async function getTextToIdMap(
+  translationData: TranslationMap,
+  port: TranslationDataPort | null = null
+): Promise<Map<string, string[]>> {
   if (cachedTextToIdMap && cachedTextToIdMapSource === translationData) {
     return cachedTextToIdMap;
   }
@@ -471,7 +667,7 @@ export async function getTextToIdMap(translationData: TranslationMap): Promise<M
     return textToIdBuildPromise;
   }
   cachedTextToIdMapSource = translationData;
-  textToIdBuildPromise = buildTextToIdMapAsync(translationData);
+  textToIdBuildPromise = buildTextToIdMapAsync(translationData, port);
   const map = await textToIdBuildPromise;
   textToIdBuildPromise = null;
   cachedTextToIdMap = map;
@@ -485,6 +681,48 @@ export function invalidateTextToIdMapCache(): void {
   textToIdBuildPromise = null;
 }
 
+/**
+ * Patch the cached text-to-ID map after a source refresh instead of rebuilding
+ * it. `translationData` must already hold the new entries. A build still in
+ * flight can't be patched, so it is discarded and rebuilt on next use.
+ */
+export function updateTextToIdMapCache(translationData: TranslationMap, event: TranslationChangeEvent): void {
+  if (cachedTextToIdMapSource !== translationData) return;
+  if (!cachedTextToIdMap) {
+    invalidateTextToIdMapCache();
+    return;
+  }
+  const map = cachedTextToIdMap;
+
+  for (const multilanId of [...event.changed, ...event.removed]) {
+    const previous = event.previous[multilanId];
+    if (!previous) continue;
+    for (const key of new Set(Object.values(previous).map(normalizeExactKey))) {
+      const ids = map.get(key);
+      if (!ids) continue;
+      const remaining = ids.filter(id => id !== multilanId);
+      if (remaining.length > 0) {
+        map.set(key, remaining);
+      } else {
+        map.delete(key);
+      }
+    }
+  }
+
+  for (const multilanId of [...event.added, ...event.changed]) {
+    const entry = translationData[multilanId];
+    if (!entry) continue;
+    for (const key of new Set(Object.values(entry).map(normalizeExactKey))) {
+      const existing = map.get(key);
+      if (existing) {
+        existing.push(multilanId);
+      } else {
+        map.set(key, [multilanId]);
+      }
+    }
+  }
+}
+
 /** Fast exact-match lookup. Returns all multilanIds whose text equals `text`. */
 export async function exactMatchLookup(translationData: TranslationMap, text: string): Promise<string[]> {
   const trimmed = text.trim();
@@ -497,29 +735,33 @@ export async function exactMatchLookup(translationData: TranslationMap, text: st
 
 /**
  * Detect current language by comparing linked nodes' text with translations.
- * Returns the language that matches the most linked nodes.
+ * Returns the language of `languages` that matches the most linked nodes, or
+ * the first of them when none match.
  */
 export function detectLanguage(
   translationData: TranslationMap,
-  linkedNodes: Array<{ multilanId: string; characters: string }>
+  linkedNodes: Array<{ multilanId: string; characters: string }>,
+  languages: readonly Language[] = DEFAULT_LANGUAGES
 ): Language {
-  const languageCounts: Record<Language, number> = { en: 0, fr: 0, nl: 0, de: 0 };
+  const languageCounts: Record<Language, number> = {};
+  for (const lang of languages) languageCounts[lang] = 0;
 
   for (const node of linkedNodes) {
     const translations = translationData[node.multilanId];
     if (!translations) continue;
 
-    for (const lang of SUPPORTED_LANGUAGES) {
-      if (translations[lang] === node.characters) {
+    for (const lang of languages) {
+      const text = translations[lang];
+      if (text !== undefined && stripMarkup(text) === node.characters) {
         languageCounts[lang]++;
         break;
       }
     }
   }
 
-  let bestLang: Language = "en";
+  let bestLang: Language = languages[0] ?? "en";
   let bestCount = 0;
-  for (const lang of SUPPORTED_LANGUAGES) {
+  for (const lang of languages) {
     if (languageCounts[lang] > bestCount) {
       bestCount = languageCounts[lang];
       bestLang = lang;
@@ -1,7 +1,43 @@
 // Port interface for translation data sources
 // This defines the contract that all adapters must implement
 
-import { TranslationMap, MetadataMap } from "../shared/types";
+import { TranslationMap, MetadataMap, TranslationEntry, MultilanMetadata, TranslationChangeSet } from "../shared/types";
+
+/**
+ * One translation entry as served by the async port methods
+ */
+export interface TranslationPortEntry {
+  multilanId: string;
+  translations: TranslationEntry;
+  metadata?: MultilanMetadata;
+}
+
+/**
+ * Options for TranslationDataPort.searchText
+ */
+export interface TranslationSearchOptions {
+  /** Maximum number of entries to return, best matches first */
+  limit?: number;
+  /** Also match the query against multilan IDs, not just texts */
+  includeIdMatch?: boolean;
+}
+
+/**
+ * Receives one chunk of entries from TranslationDataPort.iterateEntries.
+ * Return false to stop the iteration early.
+ */
+export type TranslationChunkHandler = (chunk: TranslationPortEntry[]) => void | boolean | Promise<void | boolean>;
+
+/**
+ * Emitted by TranslationDataPort.subscribe after a refresh has been applied
+ * to the source's maps
+ */
+export interface TranslationChangeEvent extends TranslationChangeSet {
+  /** Entries of the changed and removed IDs as they were before the refresh */
+  previous: TranslationMap;
+}
+
+export type TranslationChangeListener = (event: TranslationChangeEvent) => void;
 
 /**
  * Port interface for accessing translation data.
@@ -28,4 +64,32 @@ export interface TranslationDataPort {
    * Get an identifier for the data source (e.g., "current-api", "future-api")
    */
   getSourceIdentifier(): string;
+
+  // Optional lazy access. A source that implements these (e.g. one backed by a
+  // remote API) need not download everything up front: its getTranslationMap()
+  // may return only the entries fetched so far. The plugin prefers these
+  // methods when present.
+
+  /**
+   * Fetch a single entry by multilanId, or null when it doesn't exist
+   */
+  getEntry?(multilanId: string): Promise<TranslationPortEntry | null>;
+
+  /**
+   * Search entries by text (and optionally ID), best matches first
+   */
+  searchText?(query: string, options?: TranslationSearchOptions): Promise<TranslationPortEntry[]>;
+
+  /**
+   * Walk every entry in chunks of about `chunkSize`, awaiting the handler
+   * between chunks so the caller can yield to the event loop
+   */
+  iterateEntries?(onChunk: TranslationChunkHandler, chunkSize?: number): Promise<void>;
+
+  /**
+   * Register a listener for changes to the source's data. Returns a function
+   * that unsubscribes it. Sources whose data never changes after creation
+   * need not implement this.
+   */
+  subscribe?(listener: TranslationChangeListener): () => void;
 }
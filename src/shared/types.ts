@@ -1,10 +1,96 @@
 // Shared types between plugin and UI
 
-// Supported languages
-export const SUPPORTED_LANGUAGES = ["en", "fr", "nl", "de"] as const;
-export type Language = (typeof SUPPORTED_LANGUAGES)[number];
+// A language is a BCP-47 locale tag in canonical case: a lower-case ISO 639
+// code, optionally followed by a script and a region ("en", "fr-BE",
+// "zh-Hant-TW"). The set isn't fixed: it comes from the uploaded files (see
+// TraUploadMetadata.availableLanguages)
+export type Language = string;
 
-export const FOLDER_NAMES: readonly string[] = ["EB", "EBB", "PCB"];
+// Languages offered before anything is uploaded, in the order the UI lists them
+export const DEFAULT_LANGUAGES: readonly Language[] = ["en", "fr", "nl", "de"];
+
+// Last language every fallback chain ends with
+export const ROOT_LANGUAGE: Language = "en";
+
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(?:-[A-Z][a-z]{3})?(?:-(?:[A-Z]{2}|\d{3}))?$/;
+
+export function isLanguageCode(code: unknown): code is Language {
+  return typeof code === "string" && LANGUAGE_CODE_PATTERN.test(code);
+}
+
+/**
+ * Canonical form of a locale tag as files and browsers write it: "fr_be",
+ * "FR-be" and "fr-BE" all give "fr-BE". Returns null for anything that isn't
+ * a language, script and region tag.
+ */
+export function normalizeLocale(tag: string): Language | null {
+  const [language, ...subtags] = tag.trim().split(/[-_]/);
+  const parts = [language.toLowerCase()];
+  for (const subtag of subtags) {
+    parts.push(subtag.length === 4
+      ? subtag.charAt(0).toUpperCase() + subtag.slice(1).toLowerCase()
+      : subtag.toUpperCase());
+  }
+  const locale = parts.join("-");
+  return isLanguageCode(locale) ? locale : null;
+}
+
+/** The ISO 639 code of a locale: "fr" for "fr-BE" */
+export function baseLanguage(locale: Language): Language {
+  return locale.split("-")[0];
+}
+
+/**
+ * Locales to look a translation up in, most specific first: each subtag is
+ * dropped in turn, then the root language — "fr-BE" gives fr-BE, fr, en.
+ */
+export function localeFallbackChain(locale: Language): Language[] {
+  const chain: Language[] = [];
+  const subtags = locale.split("-");
+  for (let i = subtags.length; i > 0; i--) {
+    chain.push(subtags.slice(0, i).join("-"));
+  }
+  if (!chain.includes(ROOT_LANGUAGE)) chain.push(ROOT_LANGUAGE);
+  return chain;
+}
+
+/**
+ * The available locale closest to `requested`: the first of its fallback
+ * chain that is available, else another region of the same language
+ * ("fr" → "fr-BE"), else the first available one.
+ */
+export function closestLocale(requested: Language, available: readonly Language[]): Language | undefined {
+  const base = baseLanguage(requested);
+  return localeFallbackChain(requested).find(locale => baseLanguage(locale) === base && available.includes(locale))
+    ?? available.find(locale => baseLanguage(locale) === base)
+    ?? available.find(locale => locale === ROOT_LANGUAGE)
+    ?? available[0];
+}
+
+/**
+ * Uploaded files' content per language code. An empty string means the
+ * language has no file; single-file formats keep their payload in "en".
+ */
+export interface LanguageFileData {
+  [language: string]: string;
+}
+
+/** Whether `data` is an object of file contents keyed by language code */
+export function isLanguageFileData(data: unknown): data is LanguageFileData {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) return false;
+  return Object.keys(data).every(key =>
+    isLanguageCode(key) && typeof (data as Record<string, unknown>)[key] === "string"
+  );
+}
+
+/** Languages of `data` that have a file */
+export function fileDataLanguages(data: LanguageFileData): Language[] {
+  return Object.keys(data).filter(lang => isLanguageCode(lang) && data[lang] !== "");
+}
+
+// Folders offered until the user edits the list (the list is stored per user)
+export const DEFAULT_FOLDER_NAMES: readonly string[] = ["EB", "EBB", "PCB"];
+export const MAX_FOLDER_NAME_LENGTH = 32;
 
 // Translation status values
 export type MultilanStatus =
@@ -25,6 +111,10 @@ export interface MultilanMetadata {
   modifiedAt?: string;
   modifiedBy?: string;
   sourceLanguageId?: string;
+  /** Free-text notes for translators/designers (e.g. gettext translator comments) */
+  notes?: string;
+  /** Layer of a composite source the entry came from (e.g. "draft"), when layered */
+  origin?: string;
 }
 
 // Internal translation format
@@ -41,6 +131,46 @@ export interface MetadataMap {
   [multilanId: string]: MultilanMetadata;
 }
 
+// A problem found while parsing an uploaded file
+export interface ParseDiagnostic {
+  /** Language slot of the file, when known */
+  language?: Language;
+  /** 1-based line the record starts on */
+  line: number;
+  reason: string;
+  /** The offending raw text, shortened */
+  snippet: string;
+  /** For a duplicate ID: the line of the earlier record, which was overridden */
+  duplicateOfLine?: number;
+}
+
+// IDs added, changed or removed when a data source refreshes
+export interface TranslationChangeSet {
+  added: string[];
+  changed: string[];
+  removed: string[];
+}
+
+// IDs an upload adds, removes or rewords in one language
+export interface UploadLanguageDiff {
+  added: string[];
+  removed: string[];
+  reworded: string[];
+}
+
+// What an upload would change in a folder's stored data, before it is stored
+export interface UploadDiff {
+  /** Only languages with at least one change are listed */
+  languages: Partial<Record<Language, UploadLanguageDiff>>;
+  /** Linked nodes on the current page whose ID falls in each category (in any language) */
+  affectedNodes: { added: number; removed: number; reworded: number };
+  /**
+   * The upload can't be merged into the stored data — its format differs, or
+   * is a single-file one — so it replaces the whole folder whatever the mode
+   */
+  replacesFolder: boolean;
+}
+
 // Text node information for UI
 export interface TextNodeInfo {
   id: string;
@@ -52,6 +182,64 @@ export interface TextNodeInfo {
   isPlaceholder: boolean;
 }
 
+/**
+ * A linked node whose language had no text, so it shows the text of a
+ * fallback language instead (see language-switched)
+ */
+export interface FallbackNodeInfo {
+  nodeId: string;
+  name: string;
+  multilanId: string;
+  /** Language the text was switched to */
+  language: Language;
+  /** Fallback language whose text the node shows */
+  fallbackLanguage: Language;
+}
+
+/**
+ * How a text node overflows after its text changed: cut off with an ellipsis
+ * or line limit, too big for its fixed-size box, or pushing itself or a
+ * growing auto-layout frame past the frame that contains it
+ */
+export type TextOverflowKind = "truncated" | "clipped" | "parent-overflow";
+
+/** A linked node whose text no longer fits (see language-switched) */
+export interface OverflowNodeInfo {
+  nodeId: string;
+  name: string;
+  multilanId: string;
+  kind: TextOverflowKind;
+}
+
+/**
+ * Text nodes an action covers: the current selection, the top-level frames
+ * containing it, the current page, or every page of the file. "selection" and
+ * "frame" cover the page when nothing is selected.
+ */
+export type TextScope = "selection" | "frame" | "page" | "document";
+
+export const TEXT_SCOPES: readonly TextScope[] = ["selection", "frame", "page", "document"];
+
+export function isTextScope(value: unknown): value is TextScope {
+  return TEXT_SCOPES.includes(value as TextScope);
+}
+
+/** What an action run on the "document" scope found or did on one page */
+export interface PageResult {
+  pageId: string;
+  pageName: string;
+  /** Text nodes on the page */
+  textCount: number;
+  /** Text nodes linked to a multilan ID */
+  linked: number;
+  /** language-switched: texts switched */
+  switched?: number;
+  /** language-switched: texts left without a translation */
+  missing?: number;
+  /** unlinked-queue: non-empty texts not linked to a multilan ID */
+  unlinked?: number;
+}
+
 // Search result
 export interface SearchResult {
   multilanId: string;
@@ -88,18 +276,56 @@ export interface FrameNodeMatchResult {
   matchResult: MatchDetectionResult;
 }
 
+// File format of an uploaded folder — decides which adapter parses it
+export type SourceFormat =
+  | "tra"
+  | "xliff"
+  | "po"
+  | "i18next"
+  | "spreadsheet"
+  | "android"
+  | "apple"
+  | "search-api"
+  | "current-api";
+
 // Upload tracking metadata
 export interface TraUploadMetadata {
   uploadTimestamp: number;
-  fileLastModified: { en: number; fr: number; nl: number; de: number };
-  availableLanguages: string[];
+  /** Last-modified time of each language's file */
+  fileLastModified: { [language: string]: number };
+  /** Languages the folder holds, in upload order — the folder's language set */
+  availableLanguages: Language[];
   sourceZipName?: string;
   releaseDate?: number;
+  /** Format of the stored files; absent for uploads made before XLIFF support (= "tra") */
+  sourceFormat?: SourceFormat;
+  /** Search endpoint the data was fetched from, for live search-API loads */
+  sourceEndpoint?: string;
+}
+
+// How an upload combines with the folder's stored languages
+export type UploadMode = "merge" | "replace-folder" | "replace-languages" | "remove-language";
+
+// Options of an upload (see pluginBridge.uploadTraFiles)
+export interface UploadOptions {
+  /** Store the files as the folder's draft overlay instead of its data */
+  overlay?: boolean;
+  /** Defaults to "merge" */
+  mode?: UploadMode;
+  /** Languages to replace ("replace-languages") or drop ("remove-language") */
+  languages?: Language[];
 }
 
 // Folder data status for UI
 export interface FolderDataStatus {
-  [folder: string]: { hasData: boolean; metadata?: TraUploadMetadata };
+  [folder: string]: {
+    hasData: boolean;
+    metadata?: TraUploadMetadata;
+    /** Draft overlay stacked on top of the folder's data, if any */
+    overlay?: TraUploadMetadata;
+    /** Previous uploads kept for rollback, newest first */
+    history?: TraUploadMetadata[];
+  };
 }
 
 // Plugin message types (UI -> Plugin)
@@ -110,6 +336,7 @@ export type PluginMessageType =
   | "link-node"
   | "unlink-node"
   | "select-node"
+  | "select-nodes"
   | "refresh"
   | "lookup-multilanId"
   | "mark-as-placeholder"
@@ -124,6 +351,16 @@ export type PluginMessageType =
   | "upload-tra-files"
   | "verify-multilan-id"
   | "resize-ui"
+  | "save-search-api-endpoint"
+  | "save-fallback-languages"
+  | "save-scope"
+  | "remove-overlay"
+  | "preview-upload"
+  | "rollback-upload"
+  | "create-folder"
+  | "rename-folder"
+  | "delete-folder"
+  | "reorder-folders"
   | "close";
 
 // UI message types (Plugin -> UI)
@@ -144,14 +381,19 @@ export type UIMessageType =
   | "upload-success"
   | "upload-failed"
   | "verify-multilan-id-result"
-  | "folder-data-status";
+  | "folder-data-status"
+  | "translations-changed"
+  | "upload-diff"
+  | "upload-diff-failed"
+  | "folders-updated";
 
 // Combined message type for both directions
 export interface PluginMessage {
   type: PluginMessageType | UIMessageType;
   // UI -> Plugin fields
   language?: Language;
-  scope?: "page" | "selection";
+  /** Nodes an action covers; init and save-scope: the scope the user chose */
+  scope?: TextScope;
   nodeId?: string;
   multilanId?: string;
   searchQuery?: string;
@@ -159,11 +401,23 @@ export interface PluginMessage {
   highlight?: boolean;
   folderName?: string;
   folderNames?: string[];
-  traFileData?: { en: string; fr: string; nl: string; de: string };
+  /** rename-folder: the folder's new name */
+  newFolderName?: string;
+  traFileData?: LanguageFileData;
   traUploadMetadata?: TraUploadMetadata;
+  /** upload-tra-files: store the files as the folder's draft overlay instead of its data */
+  overlay?: boolean;
+  /** upload-tra-files / preview-upload: how the files combine with the stored ones (default "merge") */
+  uploadMode?: UploadMode;
+  /** upload-tra-files / preview-upload: languages for the "replace-languages" and "remove-language" modes */
+  uploadLanguages?: Language[];
+  /** rollback-upload: position in the folder's history, 0 being the most recent previous upload */
+  historyIndex?: number;
   // Plugin -> UI fields
   folderDataStatus?: FolderDataStatus;
   uploadedTranslationCount?: number;
+  /** upload-success: records in the uploaded files that couldn't be read */
+  parseDiagnostics?: ParseDiagnostic[];
   canEdit?: boolean;
   nodeInfo?: TextNodeInfo;
   textNodes?: TextNodeInfo[];
@@ -172,12 +426,24 @@ export interface PluginMessage {
   translationCount?: number;
   buildTimestamp?: string;
   detectedLanguage?: Language;
+  /** init: the current folder's languages */
+  languages?: Language[];
   success?: number;
   missing?: string[];
+  /** select-nodes: nodes to select and zoom to */
+  nodeIds?: string[];
+  /** language-switched: nodes whose text no longer fits */
+  overflowNodes?: OverflowNodeInfo[];
+  /** language-switched: nodes showing fallback text */
+  fallbackNodes?: FallbackNodeInfo[];
+  /** init and save-fallback-languages: languages tried, in order, when a language has no text */
+  fallbackLanguages?: Language[];
   results?: SearchResult[];
   matchResult?: MatchDetectionResult;
   frameMatchResults?: FrameNodeMatchResult[];
   unlinkedQueue?: UnlinkedQueueItem[];
+  /** language-switched, unlinked-queue and text-nodes-updated on the "document" scope: results per page */
+  pageResults?: PageResult[];
   hasSelection?: boolean;
   // verify-multilan-id flow
   found?: boolean;
@@ -188,9 +454,23 @@ export interface PluginMessage {
   height?: number;
   /** When true, allow resizing below the normal minimum height (collapse to header). */
   collapsed?: boolean;
+  // search API endpoint (init + save-search-api-endpoint)
+  searchApiEndpoint?: string;
+  // translations-changed flow (textNodes carries only the affected linked nodes)
+  translationChanges?: TranslationChangeSet;
+  // preview-upload flow (answered with upload-diff, or upload-diff-failed and why)
+  uploadDiff?: UploadDiff;
+  diffError?: string;
 }
 
 // Constants
 export const PLUGIN_DATA_KEY = "multilanId";
 export const PLACEHOLDER_KEY = "isPlaceholder";
 export const EXPECTED_TEXT_KEY = "expectedText";
+// "fallback" while a node shows another language's text, "missing" while it
+// keeps its previous text because no language it falls back to has any
+export const TEXT_SOURCE_KEY = "textSource";
+// TextOverflowKind found for the node's expected text, or ""
+export const OVERFLOW_KEY = "overflow";
+// JSON object of the values shown for the node's ###variable### markers
+export const VARIABLE_VALUES_KEY = "variableValues";
@@ -0,0 +1,78 @@
+// Fallback panel - the languages a language switch falls back to when a
+// language has no text, and the nodes the last switch filled with fallback
+// text, each with a link that selects it on the canvas.
+
+import type { Language } from '../../shared/types';
+import { normalizeLocale } from '../../shared/types';
+import { store } from '../state/store';
+import { pluginBridge } from '../services/pluginBridge';
+import { escapeHtml, getElementById } from '../utils/dom';
+
+/** Read "en → fr", "en -> fr", "en, fr" or "en fr" as a list of locales */
+export function parseFallbackLanguages(text: string): Language[] {
+  const languages: Language[] = [];
+  for (const part of text.split(/->|[\s,>→]+/)) {
+    const locale = part ? normalizeLocale(part) : null;
+    if (locale && !languages.includes(locale)) languages.push(locale);
+  }
+  return languages;
+}
+
+function formatFallbackLanguages(languages: readonly Language[]): string {
+  return languages.join(' → ');
+}
+
+export function initFallbackPanel(): void {
+  const input = getElementById<HTMLInputElement>('fallbackLanguagesInput');
+  input.addEventListener('change', () => {
+    const fallbackLanguages = parseFallbackLanguages(input.value);
+    input.value = formatFallbackLanguages(fallbackLanguages);
+    store.setState({ fallbackLanguages });
+    pluginBridge.saveFallbackLanguages(fallbackLanguages);
+  });
+  input.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') input.blur();
+  });
+
+  const report = getElementById('fallbackReport');
+  report.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.closest('.switch-report-close')) {
+      store.setState({ fallbackNodes: [] });
+      renderFallbackReport();
+      return;
+    }
+    const link = target.closest<HTMLButtonElement>('.switch-report-link');
+    if (link?.dataset.nodeId) pluginBridge.selectNode(link.dataset.nodeId);
+  });
+}
+
+/** Show the configured fallback languages in the settings field */
+export function renderFallbackLanguages(): void {
+  getElementById<HTMLInputElement>('fallbackLanguagesInput').value =
+    formatFallbackLanguages(store.getState().fallbackLanguages);
+}
+
+/** List the nodes the last language switch filled with fallback text */
+export function renderFallbackReport(): void {
+  const report = getElementById('fallbackReport');
+  const { fallbackNodes } = store.getState();
+  if (fallbackNodes.length === 0) {
+    report.style.display = 'none';
+    report.innerHTML = '';
+    return;
+  }
+
+  const items = fallbackNodes.map(node => `
+      <li class="switch-report-item">
+        <button class="switch-report-link" data-node-id="${escapeHtml(node.nodeId)}" title="Select and zoom to it">${escapeHtml(node.name || node.multilanId)}</button>
+        <span class="switch-report-detail">${escapeHtml(node.fallbackLanguage.toUpperCase())} for ${escapeHtml(node.language.toUpperCase())}</span>
+      </li>`).join('');
+  report.innerHTML = `
+    <div class="switch-report-header">
+      <span>${fallbackNodes.length} text${fallbackNodes.length === 1 ? ' shows' : 's show'} fallback text</span>
+      <button class="switch-report-close" title="Dismiss">&times;</button>
+    </div>
+    <ul class="switch-report-list">${items}</ul>`;
+  report.style.display = '';
+}
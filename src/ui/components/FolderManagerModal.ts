@@ -0,0 +1,146 @@
+// Folder manager - create, rename, delete and reorder the folders translations
+// are uploaded to. Changes go to the plugin, which validates and stores the
+// list and answers with folders-updated; the modal then re-renders from the store.
+
+import { MAX_FOLDER_NAME_LENGTH } from '../../shared/types';
+import { store } from '../state/store';
+import { pluginBridge } from '../services/pluginBridge';
+import { escapeHtml } from '../utils/dom';
+
+let modalEl: HTMLDivElement | null = null;
+// Folder whose delete button was clicked once and now asks for confirmation
+let confirmingDelete: string | null = null;
+
+function renderFolderRows(): string {
+  const { folderNames, folderDataStatus } = store.getState();
+  return folderNames.map((folder, i) => {
+    const name = escapeHtml(folder);
+    const hasData = folderDataStatus[folder]?.hasData || false;
+    const confirming = confirmingDelete === folder;
+    return `
+      <div class="folder-manager-row" data-folder="${name}">
+        <input type="text" class="variable-prompt-input folder-manager-name" value="${name}" maxlength="${MAX_FOLDER_NAME_LENGTH}" spellcheck="false" />
+        <button class="btn-sm btn-sm-outline folder-manager-move" data-offset="-1" title="Move up"${i === 0 ? ' disabled' : ''}>&uarr;</button>
+        <button class="btn-sm btn-sm-outline folder-manager-move" data-offset="1" title="Move down"${i === folderNames.length - 1 ? ' disabled' : ''}>&darr;</button>
+        <button class="btn-sm btn-sm-outline folder-manager-delete${confirming ? ' folder-manager-confirm' : ''}"
+          title="${hasData ? 'Deletes the folder and its stored translations' : 'Deletes the folder'}"${folderNames.length <= 1 ? ' disabled' : ''}>${confirming ? 'Confirm' : 'Delete'}</button>
+      </div>`;
+  }).join('');
+}
+
+function renderList(): void {
+  if (!modalEl) return;
+  modalEl.querySelector('.folder-manager-list')!.innerHTML = renderFolderRows();
+}
+
+function rowFolder(target: HTMLElement): string | undefined {
+  return (target.closest('.folder-manager-row') as HTMLElement | null)?.dataset.folder;
+}
+
+function moveFolder(folder: string, offset: number): void {
+  const order = [...store.getState().folderNames];
+  const from = order.indexOf(folder);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= order.length) return;
+  order.splice(from, 1);
+  order.splice(to, 0, folder);
+  pluginBridge.reorderFolders(order);
+}
+
+function createFolder(input: HTMLInputElement): void {
+  const name = input.value.trim();
+  if (!name) return;
+  pluginBridge.createFolder(name);
+  input.value = '';
+}
+
+export function showFolderManager(): void {
+  hideFolderManager();
+
+  modalEl = document.createElement('div');
+  modalEl.className = 'variable-prompt-overlay';
+  modalEl.innerHTML = `
+    <div class="variable-prompt-modal folder-manager-modal">
+      <div class="variable-prompt-title">Manage folders</div>
+      <div class="tra-upload-hint">Each folder keeps its own uploaded translations. Renaming a folder keeps its data; deleting it removes the data too.</div>
+      <div class="folder-manager-list"></div>
+      <div class="folder-manager-add">
+        <input type="text" class="variable-prompt-input folder-manager-new" placeholder="New folder name" maxlength="${MAX_FOLDER_NAME_LENGTH}" spellcheck="false" />
+        <button class="btn-sm btn-sm-outline folder-manager-create">Add</button>
+      </div>
+      <div class="variable-prompt-actions">
+        <button class="btn-sm btn-sm-success folder-manager-done">Done</button>
+      </div>
+    </div>
+  `;
+  document.body.appendChild(modalEl);
+  renderList();
+
+  const list = modalEl.querySelector<HTMLDivElement>('.folder-manager-list')!;
+  list.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    const folder = rowFolder(target);
+    if (!folder) return;
+
+    const moveBtn = target.closest('.folder-manager-move') as HTMLButtonElement | null;
+    if (moveBtn) {
+      moveFolder(folder, Number(moveBtn.dataset.offset));
+      return;
+    }
+    if (target.closest('.folder-manager-delete')) {
+      // Deleting drops the folder's data, so it takes a second click
+      if (confirmingDelete === folder) {
+        confirmingDelete = null;
+        pluginBridge.deleteFolder(folder);
+      } else {
+        confirmingDelete = folder;
+        renderList();
+      }
+    }
+  });
+
+  // Renames are sent when the name field is committed (Enter or blur)
+  list.addEventListener('change', (e) => {
+    const input = e.target as HTMLInputElement;
+    if (!input.classList.contains('folder-manager-name')) return;
+    const folder = rowFolder(input);
+    const name = input.value.trim();
+    if (!folder) return;
+    if (name && name !== folder) {
+      pluginBridge.renameFolder(folder, name);
+    } else {
+      input.value = folder;
+    }
+  });
+  list.addEventListener('keydown', (e) => {
+    const input = e.target as HTMLInputElement;
+    if (e.key === 'Enter' && input.classList.contains('folder-manager-name')) input.blur();
+  });
+
+  const newInput = modalEl.querySelector<HTMLInputElement>('.folder-manager-new')!;
+  modalEl.querySelector('.folder-manager-create')!.addEventListener('click', () => createFolder(newInput));
+  newInput.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') createFolder(newInput);
+  });
+
+  modalEl.querySelector('.folder-manager-done')!.addEventListener('click', () => hideFolderManager());
+  modalEl.addEventListener('click', (e) => {
+    if (e.target === modalEl) hideFolderManager();
+  });
+}
+
+/** Re-render the folder list after the plugin reports a change */
+export function refreshFolderManager(): void {
+  if (confirmingDelete && !store.getState().folderNames.includes(confirmingDelete)) {
+    confirmingDelete = null;
+  }
+  renderList();
+}
+
+export function hideFolderManager(): void {
+  confirmingDelete = null;
+  if (modalEl) {
+    modalEl.remove();
+    modalEl = null;
+  }
+}
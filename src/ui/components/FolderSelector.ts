@@ -1,8 +1,9 @@
 import type { FolderDataStatus, TraUploadMetadata } from '../../shared/types';
 import { store } from '../state/store';
 import { pluginBridge } from '../services/pluginBridge';
-import { getElementById } from '../utils/dom';
+import { escapeHtml, getElementById } from '../utils/dom';
 import { showTraUploadModal } from './TraUploadModal';
+import { showFolderManager } from './FolderManagerModal';
 
 function formatDateShort(timestamp: number): string {
   const d = new Date(timestamp);
@@ -13,6 +14,10 @@ function formatDateShort(timestamp: number): string {
 export function initFolderSelector(): void {
   const folderBar = getElementById('folderBar');
   folderBar.addEventListener('click', (e) => {
+    if ((e.target as HTMLElement).closest('.folder-manage-btn')) {
+      showFolderManager();
+      return;
+    }
     const btn = (e.target as HTMLElement).closest('.folder-btn') as HTMLButtonElement | null;
     if (!btn) return;
     const folder = btn.dataset.folder;
@@ -42,7 +47,8 @@ export function renderFolderButtons(folders: string[], active: string | null, fo
   const section = getElementById('folderSelectorSection');
   const folderBar = getElementById('folderBar');
 
-  if (folders.length <= 1) {
+  // Shown even for a single folder, so more can be added from the manage button
+  if (folders.length === 0) {
     section.style.display = 'none';
     return;
   }
@@ -53,10 +59,11 @@ export function renderFolderButtons(folders: string[], active: string | null, fo
     const isActive = f === active;
     const hasData = status[f]?.hasData || false;
     const metadata: TraUploadMetadata | undefined = status[f]?.metadata;
+    const kept = status[f]?.history?.length ?? 0;
     const tooltip = hasData && metadata
       ? `Last uploaded: ${formatDateShort(metadata.uploadTimestamp)}${
           metadata.sourceZipName ? ` (from ${metadata.sourceZipName})` : ''
-        }`
+        }${kept > 0 ? ` · ${kept} previous upload${kept === 1 ? '' : 's'} kept` : ''}`
       : 'Click to upload .tra files';
     const classes = [
       'folder-btn',
@@ -64,8 +71,9 @@ export function renderFolderButtons(folders: string[], active: string | null, fo
       hasData ? 'folder-btn-has-data' : 'folder-btn-empty',
     ].filter(Boolean).join(' ');
 
-    return `<button class="${classes}" data-folder="${f}" title="${tooltip}">${f}${hasData ? '<span class="folder-btn-dot"></span>' : ''}</button>`;
-  }).join('');
+    const name = escapeHtml(f);
+    return `<button class="${classes}" data-folder="${name}" title="${escapeHtml(tooltip)}">${name}${hasData ? '<span class="folder-btn-dot"></span>' : ''}</button>`;
+  }).join('') + '<button class="folder-manage-btn" title="Manage folders">&#9881;</button>';
 
   section.style.display = '';
 }
@@ -1,5 +1,4 @@
 import type { FrameNodeMatchResult, SearchResult, TranslationEntry } from '../../shared/types';
-import { SUPPORTED_LANGUAGES } from '../../shared/types';
 import { store } from '../state/store';
 import { pluginBridge } from '../services/pluginBridge';
 import { escapeHtml, copyToClipboard } from '../utils/dom';
@@ -49,7 +48,7 @@ export function showSearchBar(): void {
 }
 
 function renderTranslations(translations: Record<string, string>, currentLang: string): string {
-  return SUPPORTED_LANGUAGES.map(lang => {
+  return store.getState().languages.map(lang => {
     const text = translations[lang];
     if (text) {
       return `<div class="translation-row ">
@@ -64,6 +63,15 @@ function renderTranslations(translations: Record<string, string>, currentLang: s
   }).join('');
 }
 
+/**
+ * Names the data-source layer an entry came from when the folder has a draft
+ * overlay. Entries from a single source carry no origin and get no badge.
+ */
+export function renderOriginBadge(origin?: string): string {
+  if (!origin) return '';
+  return `<span class="origin-badge origin-badge-${escapeHtml(origin)}" title="From the ${escapeHtml(origin)} layer">${escapeHtml(origin)}</span>`;
+}
+
 function renderNodeBubble(characters: string): string {
   return `
     <div class="selected-node-bubble">
@@ -82,6 +90,7 @@ function renderLinkedCard(item: FrameNodeMatchResult, currentLang: string, canEd
           <div class="frame-node-id-row">
             <span class="frame-node-id">${escapeHtml(mr.multilanId || '')}</span>
             <button class="copy-btn icon-btn" data-text="${escapeHtml(mr.multilanId || '')}" title="Copy ID">${copyIconSvg}</button>
+            ${renderOriginBadge(mr.metadata?.origin)}
             <span class="match-badge match-badge-linked">Linked</span>
           </div>
           ${mr.translations ? `<div class="translations-preview">${renderTranslations(mr.translations, currentLang)}</div>` : ''}
@@ -126,6 +135,7 @@ function renderExactSlide(nodeId: string, match: SearchResult, index: number, to
       <div class="frame-node-id-row">
         <span class="frame-node-id">${escapeHtml(match.multilanId)}</span>
         <button class="copy-btn icon-btn" data-text="${escapeHtml(match.multilanId)}" title="Copy ID">${copyIconSvg}</button>
+        ${renderOriginBadge(match.metadata?.origin)}
         <span class="match-badge match-badge-exact" style="margin-left:auto">Match${total > 1 ? ` ${index + 1}/${total}` : ''}</span>
       </div>
       ${match.translations ? `<div class="translations-preview">${renderTranslations(match.translations, currentLang)}</div>` : ''}
@@ -171,6 +181,7 @@ function renderSuggestionSlide(nodeId: string, suggestion: SearchResult & { scor
       <div class="frame-node-id-row">
         <span class="frame-node-id">${escapeHtml(suggestion.multilanId)}</span>
         <button class="copy-btn icon-btn" data-text="${escapeHtml(suggestion.multilanId)}" title="Copy ID">${copyIconSvg}</button>
+        ${renderOriginBadge(suggestion.metadata?.origin)}
         <span class="frame-score" style="margin-left:auto">${scorePercent}%</span>
         <span class="match-badge match-badge-close" style="margin-left:0">Close Match</span>
       </div>
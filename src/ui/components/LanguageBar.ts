@@ -1,40 +1,37 @@
 import type { Language } from '../../shared/types';
+import { DEFAULT_LANGUAGES, baseLanguage } from '../../shared/types';
 import { store } from '../state/store';
 import { pluginBridge } from '../services/pluginBridge';
 import { querySelectorAll, getElementById } from '../utils/dom';
 import { renderGlobalSearchResults } from './SearchPanel';
 
-const LANGUAGES: Language[] = ['en', 'fr', 'nl', 'de'];
-
 export function hideLanguageBar(): void {
   const section = getElementById('languageBarSection');
   section.style.display = 'none';
 }
 
 export function initLanguageBar(): void {
-  const langBtns = querySelectorAll<HTMLButtonElement>('.lang-btn');
-
-  langBtns.forEach(btn => {
-    btn.addEventListener('click', () => {
-      const state = store.getState();
-      const lang = btn.dataset.lang as Language;
+  // Delegated: the buttons are re-rendered when the folder's languages change
+  const bar = document.querySelector<HTMLElement>('.lang-bar');
+  bar?.addEventListener('click', (e) => {
+    const btn = (e.target as HTMLElement).closest<HTMLButtonElement>('.lang-btn');
+    if (!btn || btn.disabled) return;
+    const state = store.getState();
+    const lang = btn.dataset.lang as Language;
 
-      // Update UI immediately
-      langBtns.forEach(b => b.classList.remove('active'));
-      btn.classList.add('active');
-      store.setState({ currentLang: lang });
+    // Update UI immediately
+    setActiveLanguage(lang);
+    store.setState({ currentLang: lang });
 
-      if (!state.canEdit) {
-        // Dev seat: preview mode only - re-render to highlight new language
-        renderGlobalSearchResults();
-        return;
-      }
+    if (!state.canEdit) {
+      // Dev seat: preview mode only - re-render to highlight new language
+      renderGlobalSearchResults();
+      return;
+    }
 
-      // For designers: auto-detect scope based on selection
-      // If anything is selected in Figma, use 'selection' scope to only change selected frame/nodes
-      const effectiveScope = state.hasSelection ? 'selection' : 'page';
-      pluginBridge.switchLanguage(lang, effectiveScope);
-    });
+    // For designers: the chosen scope; selection and frame cover the page
+    // when nothing is selected
+    pluginBridge.switchLanguage(lang, state.scope);
   });
 }
 
@@ -45,20 +42,56 @@ export function setActiveLanguage(lang: Language): void {
   });
 }
 
-export function updateLanguageAvailability(availableLanguages?: string[]): void {
-  const langBtns = querySelectorAll<HTMLButtonElement>('.lang-btn');
-  langBtns.forEach(btn => {
-    const lang = btn.dataset.lang;
-    if (!availableLanguages || availableLanguages.length === 0) {
-      btn.disabled = true;
-    } else {
-      btn.disabled = !availableLanguages.includes(lang!);
+/**
+ * Locales to list: each default language, or in its place the regional
+ * variants the folder has (FR-BE, FR-FR), then any other language the folder
+ * has (e.g. LB), grouped by language.
+ */
+export function listedLanguages(available: readonly Language[]): Language[] {
+  const languages: Language[] = [];
+  const addGroup = (base: Language, keepBase: boolean) => {
+    const variants = available.filter(lang => baseLanguage(lang) === base && lang !== base);
+    if (keepBase || available.includes(base)) languages.push(base);
+    languages.push(...variants);
+  };
+  for (const lang of DEFAULT_LANGUAGES) {
+    addGroup(lang, !available.some(locale => baseLanguage(locale) === lang));
+  }
+  for (const lang of available) {
+    const base = baseLanguage(lang);
+    if (!DEFAULT_LANGUAGES.includes(base) && !languages.some(listed => baseLanguage(listed) === base)) {
+      addGroup(base, false);
     }
+  }
+  return languages;
+}
+
+/**
+ * Show a button per locale: the defaults, regional variants and any other
+ * language the folder has (see listedLanguages). Locales without uploaded data
+ * are disabled.
+ */
+export function updateLanguageAvailability(availableLanguages?: string[]): void {
+  const available = availableLanguages ?? [];
+  const languages = listedLanguages(available);
+  store.setState({ languages });
+
+  const bar = document.querySelector<HTMLElement>('.lang-bar');
+  if (bar) {
+    querySelectorAll<HTMLButtonElement>('.lang-btn', bar).forEach(btn => btn.remove());
+    bar.insertAdjacentHTML('afterbegin', renderLanguageBar(languages));
+  }
+
+  const currentLang = store.getState().currentLang;
+  querySelectorAll<HTMLButtonElement>('.lang-btn').forEach(btn => {
+    const lang = btn.dataset.lang!;
+    btn.disabled = !available.includes(lang);
+    btn.classList.toggle('active', lang === currentLang);
   });
 }
 
-export function renderLanguageBar(): string {
-  return LANGUAGES.map(lang =>
+export function renderLanguageBar(languages: readonly Language[] = DEFAULT_LANGUAGES): string {
+  return languages.map(lang =>
     `<button class="lang-btn" data-lang="${lang}">${lang.toUpperCase()}</button>`
   ).join('');
 }
@@ -92,11 +92,11 @@ export function renderManualLinkWidget(nodeId: string): string {
           <div class="manual-link-row">
             <input
               type="text"
-              inputmode="numeric"
+              spellcheck="false"
               class="manual-link-input"
               data-node-id="${safeNode}"
               value="${draft}"
-              placeholder="Paste multilanId (e.g. 10042)"
+              placeholder="Paste multilanId or key (e.g. 10042)"
             />
             <button class="manual-link-verify btn-sm btn-sm-brand" data-node-id="${safeNode}">Verify</button>
             <button class="manual-link-cancel btn-sm btn-sm-outline" data-node-id="${safeNode}">Cancel</button>
@@ -176,16 +176,11 @@ export function wireManualLinkWidget(
   container.querySelectorAll<HTMLInputElement>('.manual-link-input').forEach(input => {
     input.addEventListener('input', () => {
       const nodeId = input.dataset.nodeId!;
-      const cleaned = input.value.replace(/\D+/g, '');
-      if (cleaned !== input.value) {
-        const caret = input.selectionStart ?? cleaned.length;
-        input.value = cleaned;
-        const newCaret = Math.min(caret, cleaned.length);
-        input.setSelectionRange(newCaret, newCaret);
-      }
+      // IDs aren't always numeric (i18next keys like "checkout.submit"), so keep
+      // the raw text — triggerVerify trims it
       const current = getState(nodeId);
       if (current.kind === 'expanded' || current.kind === 'not-found') {
-        setState(nodeId, { kind: 'expanded', draft: cleaned });
+        setState(nodeId, { kind: 'expanded', draft: input.value });
       }
     });
     input.addEventListener('keydown', (e) => {
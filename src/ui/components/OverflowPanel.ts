@@ -0,0 +1,56 @@
+// Overflow panel - the nodes whose text no longer fits after the last
+// language switch, each with a link that selects and zooms to it.
+
+import type { TextOverflowKind } from '../../shared/types';
+import { store } from '../state/store';
+import { pluginBridge } from '../services/pluginBridge';
+import { escapeHtml, getElementById } from '../utils/dom';
+
+const OVERFLOW_KIND_LABELS: Record<TextOverflowKind, string> = {
+  truncated: 'Truncated',
+  clipped: 'Text box too small',
+  'parent-overflow': 'Past its frame',
+};
+
+export function initOverflowPanel(): void {
+  const report = getElementById('overflowReport');
+  report.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.closest('.switch-report-close')) {
+      store.setState({ overflowNodes: [] });
+      renderOverflowReport();
+      return;
+    }
+    if (target.closest('.overflow-select-all')) {
+      pluginBridge.selectNodes(store.getState().overflowNodes.map(node => node.nodeId));
+      return;
+    }
+    const link = target.closest<HTMLButtonElement>('.switch-report-link');
+    if (link?.dataset.nodeId) pluginBridge.selectNode(link.dataset.nodeId);
+  });
+}
+
+/** List the nodes whose text overflows after the last language switch */
+export function renderOverflowReport(): void {
+  const report = getElementById('overflowReport');
+  const { overflowNodes } = store.getState();
+  if (overflowNodes.length === 0) {
+    report.style.display = 'none';
+    report.innerHTML = '';
+    return;
+  }
+
+  const items = overflowNodes.map(node => `
+      <li class="switch-report-item">
+        <button class="switch-report-link" data-node-id="${escapeHtml(node.nodeId)}" title="Select and zoom to it">${escapeHtml(node.name || node.multilanId)}</button>
+        <span class="switch-report-detail">${OVERFLOW_KIND_LABELS[node.kind]}</span>
+      </li>`).join('');
+  report.innerHTML = `
+    <div class="switch-report-header">
+      <span>${overflowNodes.length} text${overflowNodes.length === 1 ? ' overflows' : 's overflow'}</span>
+      <button class="btn-sm btn-sm-outline overflow-select-all" title="Select them all and zoom to fit">Select all</button>
+      <button class="switch-report-close" title="Dismiss">&times;</button>
+    </div>
+    <ul class="switch-report-list">${items}</ul>`;
+  report.style.display = '';
+}
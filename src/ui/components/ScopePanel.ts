@@ -0,0 +1,70 @@
+// Scope panel - which nodes a language switch covers (the selection, its
+// top-level frames, the current page or the whole file), kept per user by the
+// plugin, and what the last whole-file switch did on each page.
+
+import type { PageResult } from '../../shared/types';
+import { isTextScope } from '../../shared/types';
+import { store } from '../state/store';
+import { pluginBridge } from '../services/pluginBridge';
+import { escapeHtml, getElementById, querySelectorAll } from '../utils/dom';
+
+function describePageResult(result: PageResult): string {
+  if (result.switched !== undefined) {
+    return result.missing ? `${result.switched} switched, ${result.missing} missing` : `${result.switched} switched`;
+  }
+  if (result.unlinked !== undefined) return `${result.unlinked} unlinked`;
+  return `${result.linked} of ${result.textCount} linked`;
+}
+
+export function initScopePanel(): void {
+  getElementById('scopeOptions').addEventListener('click', (e) => {
+    const btn = (e.target as HTMLElement).closest<HTMLButtonElement>('.scope-btn');
+    const scope = btn?.dataset.scope;
+    if (!isTextScope(scope) || scope === store.getState().scope) return;
+    store.setState({ scope });
+    renderScopeOptions();
+    pluginBridge.saveScope(scope);
+  });
+
+  const report = getElementById('pageReport');
+  report.addEventListener('click', (e) => {
+    if ((e.target as HTMLElement).closest('.switch-report-close')) {
+      store.setState({ pageResults: [] });
+      renderPageReport();
+    }
+  });
+}
+
+/** Mark the chosen scope's button */
+export function renderScopeOptions(): void {
+  const { scope } = store.getState();
+  querySelectorAll<HTMLButtonElement>('.scope-btn').forEach(btn => {
+    const active = btn.dataset.scope === scope;
+    btn.classList.toggle('active', active);
+    btn.setAttribute('aria-pressed', String(active));
+  });
+}
+
+/** List what the last whole-file action did on each page */
+export function renderPageReport(): void {
+  const report = getElementById('pageReport');
+  const { pageResults } = store.getState();
+  if (pageResults.length === 0) {
+    report.style.display = 'none';
+    report.innerHTML = '';
+    return;
+  }
+
+  const items = pageResults.map(result => `
+      <li class="switch-report-item">
+        <span class="page-report-name">${escapeHtml(result.pageName)}</span>
+        <span class="switch-report-detail">${describePageResult(result)}</span>
+      </li>`).join('');
+  report.innerHTML = `
+    <div class="switch-report-header">
+      <span>${pageResults.length} page${pageResults.length === 1 ? '' : 's'}</span>
+      <button class="switch-report-close" title="Dismiss">&times;</button>
+    </div>
+    <ul class="switch-report-list">${items}</ul>`;
+  report.style.display = '';
+}
@@ -1,8 +1,7 @@
-import type { SearchResult, MultilanStatus } from '../../shared/types';
-import { SUPPORTED_LANGUAGES } from '../../shared/types';
+import type { SearchResult, MultilanStatus, TranslationChangeSet } from '../../shared/types';
 import { store } from '../state/store';
 import { pluginBridge } from '../services/pluginBridge';
-import { showSearchBar } from './FramePanel';
+import { showSearchBar, renderOriginBadge } from './FramePanel';
 import { getElementById } from '../utils/dom';
 import { escapeHtml, copyToClipboard, debounce } from '../utils/dom';
 import { renderManualLinkWidget, wireManualLinkWidget, clearAllManualLinkState } from './ManualLinkWidget';
@@ -29,6 +28,12 @@ function formatDate(dateStr?: string): string {
   return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
 }
 
+/** Translator notes (e.g. gettext comments) shown under the translations, one line per note. */
+function renderNotes(notes?: string): string {
+  if (!notes) return '';
+  return `<div class="search-result-notes">${notes.split('\n').map(line => `<div class="search-result-note">${escapeHtml(line)}</div>`).join('')}</div>`;
+}
+
 function getMetadataJson(result: SearchResult): string {
   if (!result.metadata) return '';
   return JSON.stringify(result.metadata);
@@ -154,11 +159,14 @@ export function initSearchPanel(): void {
     highlightBtn.innerHTML = newMode ? 'Hide<br>unlinked' : 'Highlight<br>unlinked';
     highlightBtn.title = newMode ? 'Hide unlinked text nodes' : 'Show unlinked text nodes on canvas';
 
+    // Highlighting needs a selection; the frame scope widens it to the
+    // frames containing it
+    const scope = state.scope === 'frame' ? 'frame' : 'selection';
     if (newMode) {
-      pluginBridge.highlightUnlinked(true, 'selection');
-      pluginBridge.getUnlinkedQueue('selection');
+      pluginBridge.highlightUnlinked(true, scope);
+      pluginBridge.getUnlinkedQueue(scope);
     } else {
-      pluginBridge.highlightUnlinked(false, 'selection');
+      pluginBridge.highlightUnlinked(false, scope);
       pluginBridge.clearSelection();
       resetAfterHighlight();
     }
@@ -309,12 +317,13 @@ function renderResultCard(
           <span class="search-result-id">${escapeHtml(result.multilanId)}</span>
           <button class="copy-btn icon-btn" data-text="${escapeHtml(result.multilanId)}" title="Copy ID">${copyIconSvg}</button>
           ${getStatusBadge(result.metadata?.status)}
+          ${renderOriginBadge(result.metadata?.origin)}
           ${result.score !== undefined && result.score < 1 ? `<span class="frame-score" style="margin-left:auto">${Math.round(result.score * 100)}%</span>` : ''}
           ${!options.showCornerBadge && matchBadge ? `<span class="match-badge ${matchBadge.css} match-badge-inline" ${result.score !== undefined ? 'style="margin-left:0"' : ''}>${matchBadge.label}</span>` : ''}
         </div>
       </div>
       <div class="translations-preview">
-        ${SUPPORTED_LANGUAGES.map(lang => {
+        ${store.getState().languages.map(lang => {
           const text = result.translations[lang];
           if (text) {
             return `
@@ -331,6 +340,7 @@ function renderResultCard(
             </div>`;
         }).join('')}
       </div>
+      ${renderNotes(result.metadata?.notes)}
       <div class="search-result-actions">
         ${options.canEdit && options.hasSelection && !options.isCurrentLink ? `<button class="btn-link-result btn-sm btn-sm-success" data-id="${escapeHtml(result.multilanId)}">Link</button>` : ''}
         ${options.isCurrentLink && options.canEdit ? `<button class="btn-unlink-result btn-sm btn-sm-danger" data-id="${escapeHtml(result.multilanId)}">Unlink</button>` : ''}
@@ -369,7 +379,7 @@ function renderCloseMatchCard(
         <span class="match-badge ${badgeCss}" ${scorePercent !== null ? 'style="margin-left:0"' : 'style="margin-left:auto"'}>${badgeLabel}</span>
       </div>
       <div class="translations-preview">
-        ${SUPPORTED_LANGUAGES.map(lang => {
+        ${store.getState().languages.map(lang => {
           const text = result.translations[lang];
           if (text) {
             return `<div class="translation-row">
@@ -716,6 +726,19 @@ function initSearchResultDelegation(): void {
   });
 }
 
+/**
+ * Re-run the current search after a data refresh when its results may be
+ * stale: a shown result changed or was removed, or new entries could match.
+ */
+export function refreshSearchForChanges(changes: TranslationChangeSet): void {
+  const query = getElementById<HTMLTextAreaElement>('globalSearchInput').value.trim();
+  if (!query) return;
+  const stale = new Set([...changes.changed, ...changes.removed]);
+  const affected = changes.added.length > 0
+    || store.getState().globalSearchResults.some(r => stale.has(r.multilanId));
+  if (affected) pluginBridge.globalSearch(query);
+}
+
 export function clearSearch(): void {
   const globalSearchInput = getElementById<HTMLTextAreaElement>('globalSearchInput');
   globalSearchInput.value = '';
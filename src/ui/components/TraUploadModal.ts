@@ -1,41 +1,158 @@
-import type { TraUploadMetadata } from '../../shared/types';
+import type {
+  TraUploadMetadata,
+  SourceFormat,
+  ParseDiagnostic,
+  UploadDiff,
+  UploadLanguageDiff,
+  UploadMode,
+  UploadOptions,
+} from '../../shared/types';
 import { pluginBridge } from '../services/pluginBridge';
 import { showToast } from './Toast';
 import { unzipSync } from 'fflate';
+import { readXliffLanguages } from '../../adapters/types/xliff.types';
+import { parsePo, PO_SOURCE_LANGUAGE } from '../../adapters/types/po.types';
+import {
+  parseCsvRows,
+  guessColumnMapping,
+  guessColumnRole,
+  isSpreadsheetField,
+  mappedLanguages,
+  toCanonicalSheet,
+  SPREADSHEET_SLOT,
+} from '../../adapters/types/spreadsheet.types';
+import type {
+  SpreadsheetColumnMapping,
+  SpreadsheetColumnRole,
+  SpreadsheetField,
+} from '../../adapters/types/spreadsheet.types';
+import { isXcstringsContent, readXcstringsLanguages } from '../../adapters/types/appleStrings.types';
+import { createAdapter, mergeSearchApiResponses, sniffFormat } from '../../adapters';
+import type { AdapterType, SearchApiResponse, TraFileData } from '../../adapters';
+import { readXlsxRows } from '../utils/xlsx';
+import { escapeHtml } from '../utils/dom';
+import { fetchAllSearchApiPages } from '../services/searchApiClient';
+import { store } from '../state/store';
+import { listedLanguages } from './LanguageBar';
+import { validateUpload } from '../../adapters/uploadValidation';
+import type { UploadIssueKind, UploadValidationReport } from '../../adapters/uploadValidation';
 
 let modalEl: HTMLDivElement | null = null;
 
+import { baseLanguage, isLanguageCode, normalizeLocale } from '../../shared/types';
 import type { Language } from '../../shared/types';
 
-const LANGUAGES: { code: Language; label: string }[] = [
-  { code: 'en', label: 'EN (English)' },
-  { code: 'fr', label: 'FR (French)' },
-  { code: 'nl', label: 'NL (Dutch)' },
-  { code: 'de', label: 'DE (German)' },
-];
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  fr: 'French',
+  nl: 'Dutch',
+  de: 'German',
+  lb: 'Luxembourgish',
+  it: 'Italian',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  pl: 'Polish',
+};
+
+function languageLabel(code: Language): string {
+  const name = LANGUAGE_NAMES[baseLanguage(code)];
+  return name ? `${code.toUpperCase()} (${name})` : code.toUpperCase();
+}
+
+/**
+ * Locale named by a resource directory: "fr" / "fr-be" (locales/fr-BE/translation.json),
+ * "values-fr" / "values-fr-rbe" (Android), "fr.lproj" / "fr-be.lproj" (Apple).
+ * Android's default "values" and Apple's "base.lproj" hold the EN source strings.
+ */
+function detectLanguageFromDirectory(segment: string): Language | null {
+  if (segment === 'values' || segment === 'base.lproj') return 'en';
+  const android = segment.match(/^values-([a-z]{2})(?:-r([a-z]{2}))?$/);
+  if (android) return normalizeLocale(android[2] ? `${android[1]}-${android[2]}` : android[1]);
+  const match = segment.match(/^([a-z]{2}(?:[-_][a-z0-9]+)*)(?:\.lproj)?$/);
+  return match ? normalizeLocale(match[1]) : null;
+}
+
+// Locale tags in a filename: "lb-LU", "fr_BE", "zh-Hant-TW", "de" — a whole
+// dot-separated part of the name, or a prefix ("fr-BE-release") or suffix ("app_lb_LU")
+const FILENAME_LOCALE = /^[a-z]{2,3}(?:[-_][a-z]{4})?(?:[-_](?:[a-z]{2}|\d{3}))?$/;
+const FILENAME_LOCALE_PREFIX = /^([a-z]{2}[-_][a-z]{2})(?:[-_]|$)/;
+const FILENAME_LOCALE_SUFFIX = /[-_]([a-z]{2}[-_][a-z]{2})$/;
 
-// Map filenames to language codes
+// Map filenames to locales, keeping the region: fr-BE.tra and fr-FR.tra are
+// different locales. Resource bundles are usually laid out by directory
+// (locales/fr/…, values-fr/…, fr.lproj/…), so the path counts too.
 function detectLanguageFromFilename(filename: string): Language | null {
-  const lower = filename.toLowerCase();
-  if (lower.includes('en-') || lower.startsWith('en.') || lower === 'en.tra') return 'en';
-  if (lower.includes('fr-') || lower.startsWith('fr.') || lower === 'fr.tra') return 'fr';
-  if (lower.includes('nl-') || lower.startsWith('nl.') || lower === 'nl.tra') return 'nl';
-  if (lower.includes('de-') || lower.startsWith('de.') || lower === 'de.tra') return 'de';
-  return null;
+  const segments = filename.toLowerCase().split(/[/:]/); // older File impls turn '/' into ':'
+  const parts = (segments.pop() || '').split('.');
+  const fromDirectory = segments.map(detectLanguageFromDirectory).filter(Boolean).pop();
+  if (parts.length > 1) parts.pop(); // extension
+  for (const part of parts) {
+    const locale = FILENAME_LOCALE.test(part) ? normalizeLocale(part) : null;
+    // Three-letter parts are only codes with a region ("lux" alone is a name)
+    if (locale && (baseLanguage(locale).length === 2 || locale.includes('-'))) return locale;
+  }
+  for (const part of parts) {
+    const affix = part.match(FILENAME_LOCALE_PREFIX) ?? part.match(FILENAME_LOCALE_SUFFIX);
+    const locale = affix ? normalizeLocale(affix[1]) : null;
+    if (locale) return locale;
+  }
+  return fromDirectory ?? null;
 }
 
-function readFileAsText(file: File): Promise<string> {
+const FORMAT_LABELS: Record<SourceFormat, string> = {
+  tra: '.tra',
+  xliff: 'XLIFF',
+  po: 'PO',
+  i18next: 'JSON',
+  spreadsheet: 'Spreadsheet',
+  android: 'Android XML',
+  apple: 'Apple strings',
+  'search-api': 'Search API JSON',
+  'current-api': 'Multilan API JSON',
+};
+
+// API exports hold every language in one payload; several payloads are merged on upload
+const API_FORMATS: SourceFormat[] = ['search-api', 'current-api'];
+// Formats whose language usually lives in the directory name inside a .zip
+const PATH_LANGUAGE_FORMATS: SourceFormat[] = ['i18next', 'android', 'apple'];
+
+/**
+ * XLIFF and PO files declare their language in the file itself — prefer that
+ * over the filename, which vendors and teams don't name consistently.
+ * A .pot template has no language; its msgids are the EN source texts.
+ */
+async function detectLanguageFromContent(file: File, format: SourceFormat): Promise<Language | null> {
+  const content = await readFileAsText(file);
+  const declared = format === 'xliff'
+    ? readXliffLanguages(content).targetLanguage
+    : parsePo(content).language;
+  const declaredLocale = declared ? normalizeLocale(declared) : null;
+  if (declaredLocale) {
+    return declaredLocale;
+  }
+  const fromName = detectLanguageFromFilename(file.name);
+  if (!fromName && format === 'po' && file.name.toLowerCase().endsWith('.pot')) {
+    return PO_SOURCE_LANGUAGE as Language;
+  }
+  return fromName;
+}
+
+/**
+ * Read a file as UTF-8, falling back to windows-1252 when it isn't valid
+ * UTF-8. `fallback` tells whether the fallback was used.
+ */
+function readFileAsTextWithEncoding(file: File): Promise<{ text: string; fallback: boolean }> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => {
       const text = reader.result as string;
       if (text.includes('\uFFFD')) {
         const reader2 = new FileReader();
-        reader2.onload = () => resolve(reader2.result as string);
+        reader2.onload = () => resolve({ text: reader2.result as string, fallback: true });
         reader2.onerror = () => reject(reader2.error);
         reader2.readAsText(file, 'windows-1252');
       } else {
-        resolve(text);
+        resolve({ text, fallback: false });
       }
     };
     reader.onerror = () => reject(reader.error);
@@ -43,6 +160,19 @@ function readFileAsText(file: File): Promise<string> {
   });
 }
 
+async function readFileAsText(file: File): Promise<string> {
+  return (await readFileAsTextWithEncoding(file)).text;
+}
+
+function readFileAsBytes(file: File): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+}
+
 function formatDate(timestamp: number): string {
   const d = new Date(timestamp);
   return d.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })
@@ -52,6 +182,99 @@ function formatDate(timestamp: number): string {
 // Tracked files mapped to languages
 const languageFileMap: Map<Language, File> = new Map();
 let sourceZipName: string | null = null;
+// Format of the files in languageFileMap — one upload never mixes formats
+let uploadFormat: SourceFormat | null = null;
+// Every API export selected, in drop order — they are merged into one payload on upload
+const apiFiles: File[] = [];
+// In-flight live search-API load, aborted when the modal closes
+let searchApiAbort: AbortController | null = null;
+/**
+ * An upload held back for review: its validation report and, once the plugin
+ * answers, its diff. A language removal has no files, metadata or report.
+ */
+interface PendingUpload {
+  folder: string;
+  data: TraFileData;
+  metadata?: TraUploadMetadata;
+  options: UploadOptions;
+  report: UploadValidationReport | null;
+  diff: UploadDiff | null;
+  awaitingDiff: boolean;
+  /** Why the plugin couldn't compare the upload with the stored data */
+  diffError: string | null;
+}
+
+// Upload shown for review; sent when the user confirms
+let pendingUpload: PendingUpload | null = null;
+// A spreadsheet upload is a single file holding every language; its columns are
+// mapped to roles before upload instead of filling languageFileMap
+let selectedSheet: {
+  name: string;
+  lastModified: number;
+  rows: string[][];
+  mapping: SpreadsheetColumnMapping;
+} | null = null;
+
+const FIELD_LABELS: Record<SpreadsheetField, string> = {
+  id: 'Multilan ID',
+  status: 'Status (optional)',
+  notes: 'Notes (optional)',
+};
+
+function isSheetMappingComplete(mapping: SpreadsheetColumnMapping): boolean {
+  return mapping.id !== undefined && mappedLanguages(mapping).length > 0;
+}
+
+/**
+ * Roles the mapping step offers: the ID, the default languages or the
+ * locales the header names in their place, any other locale it names, then
+ * status and notes
+ */
+function sheetColumnRoles(headers: string[]): SpreadsheetColumnRole[] {
+  const locales = headers
+    .map(guessColumnRole)
+    .filter((role): role is Language => role !== null && !isSpreadsheetField(role));
+  return ['id', ...listedLanguages(locales), 'status', 'notes'];
+}
+
+function columnRoleLabel(role: SpreadsheetColumnRole): string {
+  return isSpreadsheetField(role) ? FIELD_LABELS[role] : languageLabel(role);
+}
+
+function renderColumnMapping(sheet: NonNullable<typeof selectedSheet>): string {
+  const headers = sheet.rows[0] ?? [];
+  const items = sheetColumnRoles(headers).map(role => {
+    const options = headers.map((header, index) => {
+      const label = header.trim() || `Column ${index + 1}`;
+      const selected = sheet.mapping[role] === index ? ' selected' : '';
+      return `<option value="${index}"${selected}>${escapeHtml(label)}</option>`;
+    }).join('');
+    return `<div class="tra-column-map-item">
+      <span class="tra-file-lang">${escapeHtml(columnRoleLabel(role))}</span>
+      <select class="tra-column-select" data-role="${escapeHtml(role)}">
+        <option value="">&mdash; not mapped &mdash;</option>${options}
+      </select>
+    </div>`;
+  }).join('');
+
+  const rowCount = Math.max(0, sheet.rows.length - 1);
+  const languages = mappedLanguages(sheet.mapping);
+  const validationText = sheet.mapping.id === undefined
+    ? '<span class="tra-validation-warn">Map the column holding the multilan IDs</span>'
+    : languages.length === 0
+      ? '<span class="tra-validation-warn">Map at least one language column</span>'
+      : `<span class="tra-validation-ok">${rowCount} rows &middot; ${languages.map(l => l.toUpperCase()).join(', ')}</span>`;
+
+  return `<div class="tra-file-list">
+      <div class="tra-file-item tra-file-item-ok">
+        <span class="tra-file-check">&#10003;</span>
+        <span class="tra-file-name">${escapeHtml(sheet.name)}</span>
+        <span class="tra-file-lang">Spreadsheet</span>
+      </div>
+    </div>
+    <div class="tra-column-map">${items}</div>
+    <div class="tra-validation">${validationText}</div>`;
+}
 
 function parseReleaseDateFromZipName(name: string): number | undefined {
   try {
@@ -74,82 +297,447 @@ function parseReleaseDateFromZipName(name: string): number | undefined {
 }
 
 function renderFileList(): string {
-  const items = LANGUAGES.map(lang => {
-    const file = languageFileMap.get(lang.code);
+  if (selectedSheet) return renderColumnMapping(selectedSheet);
+
+  // The default languages are listed until a file provides one of their
+  // locales; any other locale once a file provides it
+  const languages = listedLanguages([...languageFileMap.keys()]);
+  const items = languages.map(lang => {
+    const file = languageFileMap.get(lang);
     if (file) {
+      const name = uploadFormat && API_FORMATS.includes(uploadFormat) && apiFiles.length > 1
+        ? `${apiFiles.length} exports`
+        : file.name;
       return `<div class="tra-file-item tra-file-item-ok">
         <span class="tra-file-check">&#10003;</span>
-        <span class="tra-file-name">${file.name}</span>
-        <span class="tra-file-lang">${lang.label}</span>
+        <span class="tra-file-name">${escapeHtml(name)}</span>
+        <span class="tra-file-format">${uploadFormat ? FORMAT_LABELS[uploadFormat] : ''}</span>
+        <span class="tra-file-lang">${escapeHtml(languageLabel(lang))}</span>
       </div>`;
     }
     return `<div class="tra-file-item tra-file-item-missing">
       <span class="tra-file-check">&#8226;</span>
-      <span class="tra-file-lang">${lang.label}</span>
+      <span class="tra-file-lang">${escapeHtml(languageLabel(lang))}</span>
       <span class="tra-file-name">not selected</span>
     </div>`;
   }).join('');
 
   const count = languageFileMap.size;
-  const missing = LANGUAGES.filter(l => !languageFileMap.has(l.code)).map(l => l.code.toUpperCase());
-  const validationText = count === 4
-    ? '<span class="tra-validation-ok">All 4 languages selected</span>'
+  const validationText = count === languages.length
+    ? `<span class="tra-validation-ok">All ${count} languages selected</span>`
     : count > 0
-      ? `<span class="tra-validation-info">${count} of 4 languages selected</span>`
+      ? `<span class="tra-validation-info">${count} of ${languages.length} languages selected</span>`
       : '';
 
   return `<div class="tra-file-list">${items}</div><div class="tra-validation">${validationText}</div>`;
 }
 
-function extractTraFilesFromZip(file: File): Promise<File[]> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      try {
-        const zipData = new Uint8Array(reader.result as ArrayBuffer);
-        const entries = unzipSync(zipData);
-        const traFiles: File[] = [];
-        for (const [path, data] of Object.entries(entries)) {
-          const name = path.split('/').pop() || path;
-          if (name.toLowerCase().endsWith('.tra')) {
-            traFiles.push(new File([data], name, { lastModified: file.lastModified }));
-          }
-        }
-        resolve(traFiles);
-      } catch (err) {
-        reject(err);
-      }
+/**
+ * Sniff the entries of a dropped .zip and keep the translation files. Entries
+ * that aren't translation files (readmes, folders, macOS metadata) are skipped.
+ */
+function extractTranslationFilesFromZip(
+  zipFile: File,
+  entries: Record<string, Uint8Array>
+): { file: File; format: SourceFormat }[] {
+  const translationFiles: { file: File; format: SourceFormat }[] = [];
+  for (const [path, data] of Object.entries(entries)) {
+    if (path.endsWith('/') || path.startsWith('__MACOSX/')) continue;
+    const sniffed = sniffFormat(data);
+    if (!sniffed.format || sniffed.format === 'zip') continue;
+    const fileName = path.split('/').pop() || path;
+    // Resource bundles keep their path — the language may only be in the directory name
+    const name = PATH_LANGUAGE_FORMATS.includes(sniffed.format) ? path : fileName;
+    translationFiles.push({
+      file: new File([data], name, { lastModified: zipFile.lastModified }),
+      format: sniffed.format,
+    });
+  }
+  return translationFiles;
+}
+
+/** Languages an API export has translations for, read through its adapter */
+async function readApiLanguages(content: string, format: SourceFormat): Promise<string[]> {
+  const adapter = await createAdapter(JSON.parse(content), format as AdapterType);
+  const languages = new Set<string>();
+  for (const translations of Object.values(adapter.getTranslationMap())) {
+    for (const lang of Object.keys(translations)) languages.add(lang);
+  }
+  return [...languages];
+}
+
+/**
+ * Assign a translation file of a sniffed format to its language slot(s).
+ * Returns the reason when the file can't be added, or null.
+ */
+async function addTranslationFile(file: File, format: SourceFormat, bytes?: Uint8Array): Promise<string | null> {
+  if (uploadFormat && uploadFormat !== format && (languageFileMap.size > 0 || selectedSheet)) {
+    return `${file.name} is ${FORMAT_LABELS[format]}, but the selected files are ${FORMAT_LABELS[uploadFormat]} — formats can't be mixed in one upload`;
+  }
+
+  if (format === 'spreadsheet') {
+    // One sheet per upload — a newly dropped sheet replaces the previous one
+    let rows: string[][];
+    try {
+      rows = bytes ? readXlsxRows(bytes) : parseCsvRows(await readFileAsText(file));
+    } catch (error) {
+      console.error('Failed to read spreadsheet:', error);
+      return `${file.name}: could not be read as a spreadsheet`;
+    }
+    selectedSheet = {
+      name: file.name,
+      lastModified: file.lastModified,
+      rows,
+      mapping: guessColumnMapping(rows[0] ?? []),
     };
-    reader.onerror = () => reject(reader.error);
-    reader.readAsArrayBuffer(file);
-  });
+    uploadFormat = format;
+    return null;
+  }
+
+  const content = await readFileAsText(file);
+  if (API_FORMATS.includes(format) || (format === 'apple' && isXcstringsContent(content))) {
+    // A String Catalog or API export holds every language — it fills each slot it has strings for
+    let languages: string[];
+    try {
+      languages = format === 'apple' ? readXcstringsLanguages(content) : await readApiLanguages(content, format);
+    } catch (error) {
+      console.error('Failed to read translation file:', error);
+      return `${file.name}: could not be read as ${FORMAT_LABELS[format]}`;
+    }
+    const slots = languages.filter(isLanguageCode);
+    if (slots.length === 0) return `${file.name}: no translations found`;
+    if (API_FORMATS.includes(format)) {
+      // Several API exports (e.g. one per page) share the slots and are merged on upload
+      if (!apiFiles.includes(file)) apiFiles.push(file);
+      for (const lang of slots) {
+        if (!languageFileMap.has(lang)) languageFileMap.set(lang, file);
+      }
+    } else {
+      for (const lang of slots) languageFileMap.set(lang, file);
+    }
+    uploadFormat = format;
+    return null;
+  }
+
+  const lang = format === 'xliff' || format === 'po'
+    ? await detectLanguageFromContent(file, format)
+    : detectLanguageFromFilename(file.name);
+  if (!lang) return `${file.name}: could not tell its language from the file name or content`;
+  languageFileMap.set(lang, file);
+  uploadFormat = format;
+  return null;
 }
 
+/**
+ * Add dropped files by their sniffed format. A .zip is opened and its entries
+ * sniffed in turn; an .xlsx workbook is itself a zip and is recognised by its
+ * workbook part.
+ */
 async function processFiles(files: FileList | File[]): Promise<void> {
-  const incoming = Array.from(files);
-  const rejected = incoming.filter(f => !f.name.toLowerCase().endsWith('.zip'));
-  for (const file of incoming) {
-    if (!file.name.toLowerCase().endsWith('.zip')) continue;
-    const traFiles = await extractTraFilesFromZip(file);
-    for (const traFile of traFiles) {
-      const lang = detectLanguageFromFilename(traFile.name);
-      if (lang) languageFileMap.set(lang, traFile);
+  const problems: string[] = [];
+  for (const file of Array.from(files)) {
+    const bytes = await readFileAsBytes(file);
+    const sniffed = sniffFormat(bytes);
+    if (!sniffed.format) {
+      problems.push(`${file.name}: ${sniffed.reason}`);
+      continue;
+    }
+    if (sniffed.format === 'tra') {
+      problems.push(`${file.name}: please upload the original .zip file, not the individual .tra files`);
+      continue;
+    }
+    if (sniffed.format !== 'zip') {
+      const problem = await addTranslationFile(file, sniffed.format);
+      if (problem) problems.push(problem);
+      continue;
+    }
+
+    let entries: Record<string, Uint8Array>;
+    try {
+      entries = unzipSync(bytes);
+    } catch (error) {
+      console.error('Failed to unzip:', error);
+      problems.push(`${file.name}: corrupt .zip archive`);
+      continue;
+    }
+    if (entries['xl/workbook.xml']) {
+      const problem = await addTranslationFile(file, 'spreadsheet', bytes);
+      if (problem) problems.push(problem);
+      continue;
+    }
+    const translationFiles = extractTranslationFilesFromZip(file, entries);
+    if (translationFiles.length === 0) {
+      problems.push(`${file.name}: no translation files found in the archive`);
+      continue;
     }
-    sourceZipName = file.name;
+    const before = problems.length;
+    for (const { file: translationFile, format } of translationFiles) {
+      const problem = await addTranslationFile(translationFile, format);
+      if (problem) problems.push(problem);
+    }
+    if (problems.length < before + translationFiles.length) sourceZipName = file.name;
   }
-  if (rejected.length > 0) {
-    const hasTra = rejected.some(f => f.name.toLowerCase().endsWith('.tra'));
-    const message = hasTra
-      ? 'Please upload the original .zip file, not the individual .tra files.'
-      : 'Only .zip files are supported.';
-    showRejectionWarning(message);
-    showToast(message, 'error');
+
+  if (problems.length > 0) {
+    showRejectionWarning(problems.join('\n'));
+    showToast(problems.length === 1 ? problems[0] : `${problems.length} files were not added`, 'error');
   } else {
     showRejectionWarning(null);
   }
   updateModalState();
 }
 
+/**
+ * Page through the configured multilan:search endpoint and upload the merged
+ * result as a search-API folder. Progress is shown under the endpoint field.
+ */
+async function loadFromSearchApi(folder: string): Promise<void> {
+  if (!modalEl) return;
+  const endpointInput = modalEl.querySelector<HTMLInputElement>('.tra-api-endpoint')!;
+  const fetchBtn = modalEl.querySelector<HTMLButtonElement>('.tra-api-fetch')!;
+  const progressEl = modalEl.querySelector<HTMLDivElement>('.tra-api-progress')!;
+  const endpoint = endpointInput.value.trim();
+  if (!/^https?:\/\//i.test(endpoint)) {
+    showRejectionWarning('Enter the http(s) URL of the multilan:search endpoint.');
+    return;
+  }
+  if (endpoint !== store.getState().searchApiEndpoint) {
+    store.setState({ searchApiEndpoint: endpoint });
+    pluginBridge.saveSearchApiEndpoint(endpoint);
+  }
+
+  showRejectionWarning(null);
+  fetchBtn.disabled = true;
+  progressEl.style.display = '';
+  progressEl.textContent = 'Fetching page 1…';
+  const abort = new AbortController();
+  searchApiAbort = abort;
+
+  try {
+    const response = await fetchAllSearchApiPages(endpoint, {
+      signal: abort.signal,
+      onProgress: ({ page, totalPages, loaded, totalElements }) => {
+        progressEl.textContent = `Fetched page ${page} of ${totalPages} · ${loaded} of ${totalElements} multilans`;
+      },
+    });
+    const payload = JSON.stringify(response);
+    const apiLanguages = await readApiLanguages(payload, 'search-api');
+    const availableLanguages = apiLanguages.filter(isLanguageCode);
+    if (availableLanguages.length === 0) {
+      throw new Error('The search API returned no translations');
+    }
+
+    const uploadTimestamp = Date.now();
+    const fileLastModified: TraUploadMetadata['fileLastModified'] = {};
+    for (const lang of availableLanguages) fileLastModified[lang] = uploadTimestamp;
+    progressEl.textContent = `Checking ${response.resultList.length} multilans…`;
+    const sent = await reviewUpload(folder, { en: payload }, {
+      uploadTimestamp,
+      fileLastModified,
+      availableLanguages,
+      sourceFormat: 'search-api',
+      sourceEndpoint: endpoint,
+    });
+    if (sent) {
+      progressEl.textContent = `Loading ${response.resultList.length} multilans…`;
+    } else {
+      progressEl.style.display = 'none';
+      fetchBtn.disabled = false;
+    }
+    // Don't close modal here — wait for 'upload-success' message
+  } catch (error) {
+    if (abort.signal.aborted) return;
+    console.error('Failed to load from the search API:', error);
+    const message = error instanceof TypeError
+      ? `Could not reach ${endpoint} — check the URL and that the server allows this plugin`
+      : error instanceof Error ? error.message : String(error);
+    showRejectionWarning(message);
+    progressEl.style.display = 'none';
+    fetchBtn.disabled = false;
+  } finally {
+    if (searchApiAbort === abort) searchApiAbort = null;
+  }
+}
+
+// Issues listed per kind in the validation report; the rest are counted
+const MAX_LISTED_ISSUES = 20;
+
+const ISSUE_KIND_LABELS: Record<UploadIssueKind, string> = {
+  parse: 'Unreadable records',
+  'duplicate-id': 'Duplicate IDs',
+  'missing-language': 'Missing in some languages',
+  'empty-wording': 'Empty wordings',
+  'placeholder-mismatch': 'Variables differ between languages',
+  mojibake: 'Possibly garbled characters',
+};
+
+const DIFF_CATEGORIES: { key: keyof UploadLanguageDiff; label: string }[] = [
+  { key: 'added', label: 'Added' },
+  { key: 'removed', label: 'Removed' },
+  { key: 'reworded', label: 'Reworded' },
+];
+
+function renderUploadDiff(diff: UploadDiff): string {
+  const replacing = diff.replacesFolder
+    ? `<div class="tra-upload-replaces">This upload can't be merged into the stored data (another or a single-file format), so it replaces the whole folder — languages it doesn't provide are removed.</div>`
+    : '';
+  const languages = Object.keys(diff.languages).filter(code => diff.languages[code]);
+  if (languages.length === 0) {
+    return `<div class="tra-upload-diff">${replacing}<div class="tra-upload-hint">Same translations as the stored data.</div></div>`;
+  }
+  const rows = languages.map(lang => {
+    const langDiff = diff.languages[lang]!;
+    return `<tr><th>${lang.toUpperCase()}</th>${DIFF_CATEGORIES.map(({ key }) => `<td>${langDiff[key].length}</td>`).join('')}</tr>`;
+  }).join('');
+  const details = languages.map(lang => DIFF_CATEGORIES
+    .filter(({ key }) => diff.languages[lang]![key].length > 0)
+    .map(({ key, label }) => {
+      const ids = diff.languages[lang]![key];
+      const listed = ids.slice(0, MAX_LISTED_ISSUES);
+      const more = ids.length - listed.length;
+      return `
+        <details class="tra-validation-group" data-lang="${lang}" data-category="${key}">
+          <summary>${lang.toUpperCase()} ${label.toLowerCase()} <span class="tra-validation-count">${ids.length}</span></summary>
+          <div class="tra-diff-ids">${listed.map(escapeHtml).join(', ')}${more > 0 ? ` …and ${more} more` : ''}</div>
+        </details>`;
+    })
+    .join('')).join('');
+  return `
+    <div class="tra-upload-diff">
+      ${replacing}
+      <div class="tra-upload-diff-title">Changes from the stored data</div>
+      <table class="tra-diff-table">
+        <thead><tr><th></th>${DIFF_CATEGORIES.map(({ label }) => `<th>${label}</th>`).join('')}</tr></thead>
+        <tbody>${rows}</tbody>
+        <tfoot><tr><th>Linked on this page</th>${DIFF_CATEGORIES.map(({ key }) => `<td>${diff.affectedNodes[key]}</td>`).join('')}</tr></tfoot>
+      </table>
+      ${details}
+    </div>`;
+}
+
+function renderValidationReport(report: UploadValidationReport): string {
+  if (report.issues.length === 0) {
+    return `<div class="tra-upload-hint">${report.translationCount} translations read. No issues found.</div>`;
+  }
+  const byKind = new Map<UploadIssueKind, string[]>();
+  for (const issue of report.issues) {
+    const messages = byKind.get(issue.kind) ?? [];
+    messages.push(issue.message);
+    byKind.set(issue.kind, messages);
+  }
+  const groups = (Object.keys(ISSUE_KIND_LABELS) as UploadIssueKind[])
+    .filter(kind => byKind.has(kind))
+    .map(kind => {
+      const messages = byKind.get(kind)!;
+      const listed = messages.slice(0, MAX_LISTED_ISSUES);
+      const more = messages.length - listed.length;
+      return `
+        <details class="tra-validation-group" data-kind="${kind}">
+          <summary>${ISSUE_KIND_LABELS[kind]} <span class="tra-validation-count">${messages.length}</span></summary>
+          <ul class="tra-diagnostics">
+            ${listed.map(message => `<li class="tra-diagnostic">${escapeHtml(message)}</li>`).join('')}
+          </ul>
+          ${more > 0 ? `<div class="tra-diagnostics-more">…and ${more} more</div>` : ''}
+        </details>`;
+    })
+    .join('');
+  return `
+    <div class="tra-upload-hint">${report.translationCount} translations read. ${report.issues.length} issue${
+      report.issues.length === 1 ? '' : 's'
+    } found — nothing has been stored yet.</div>
+    ${groups}`;
+}
+
+/** Swap the form for the review of a pending upload, or back when `review` is null */
+function showUploadReview(review: PendingUpload | null): void {
+  if (!modalEl) return;
+  const formEl = modalEl.querySelector<HTMLDivElement>('.tra-upload-form')!;
+  const reportEl = modalEl.querySelector<HTMLDivElement>('.tra-validation')!;
+  const submitBtn = modalEl.querySelector<HTMLButtonElement>('.tra-upload-submit')!;
+  const cancelBtn = modalEl.querySelector<HTMLButtonElement>('.tra-upload-cancel')!;
+  formEl.style.display = review ? 'none' : '';
+  reportEl.style.display = review ? '' : 'none';
+  cancelBtn.textContent = review ? 'Back' : 'Cancel';
+  if (!review) {
+    reportEl.innerHTML = '';
+    submitBtn.textContent = 'Upload';
+    updateModalState();
+    return;
+  }
+  const removing = review.options.mode === 'remove-language';
+  const intro = removing
+    ? `<div class="tra-upload-hint">Remove ${(review.options.languages ?? []).map(l => l.toUpperCase()).join(', ')} from ${escapeHtml(review.folder)}?</div>`
+    : review.report ? renderValidationReport(review.report) : '';
+  reportEl.innerHTML = intro + (review.awaitingDiff
+    ? '<div class="tra-upload-hint tra-upload-diff-loading">Comparing with the stored data…</div>'
+    : review.diffError !== null
+      ? `<div class="tra-upload-diff-error">Couldn't compare with the stored data: ${escapeHtml(review.diffError)}</div>`
+      : review.diff ? renderUploadDiff(review.diff) : '');
+  // Without a diff, going ahead has to be chosen knowingly
+  submitBtn.textContent = review.diffError !== null
+    ? removing ? 'Remove without diff' : 'Upload without diff'
+    : removing ? 'Remove' : review.report && review.report.issues.length > 0 ? 'Upload anyway' : 'Upload';
+  submitBtn.disabled = review.awaitingDiff;
+}
+
+function sendUpload(upload: PendingUpload): void {
+  if (upload.options.mode === 'remove-language') {
+    pluginBridge.removeLanguages(upload.folder, upload.options.languages ?? []);
+  } else {
+    pluginBridge.uploadTraFiles(upload.folder, upload.data, upload.metadata!, upload.options);
+  }
+}
+
+/** Overlay flag, mode and languages chosen in the form */
+function readUploadOptions(): UploadOptions {
+  if (isOverlayUpload()) return { overlay: true };
+  const mode = (modalEl?.querySelector<HTMLInputElement>('.tra-mode-option:checked')?.value ?? 'merge') as UploadMode;
+  if (mode !== 'replace-languages') return { mode };
+  const languages = Array.from(modalEl!.querySelectorAll<HTMLInputElement>('.tra-mode-language:checked'))
+    .map(input => input.value as Language);
+  return { mode, languages };
+}
+
+/**
+ * Validate an upload before it is sent. A clean upload to an empty folder is
+ * sent straight away; otherwise the upload is held for review — with its
+ * validation report, and its diff against the folder's stored data (requested
+ * from the plugin) — until the user confirms. Returns whether it was sent.
+ */
+async function reviewUpload(
+  folder: string,
+  data: TraFileData,
+  metadata: TraUploadMetadata,
+  fallbackLanguages: Language[] = []
+): Promise<boolean> {
+  const options = readUploadOptions();
+  const languages = (metadata.availableLanguages ?? []) as Language[];
+  const report = await validateUpload(data, metadata.sourceFormat ?? 'tra', languages, { fallbackLanguages });
+  if (!modalEl) return false;
+  // Overlays are stacked on the stored data rather than replacing it, so there is nothing to diff
+  const compare = !!store.getState().folderDataStatus[folder]?.hasData && !options.overlay;
+  const upload: PendingUpload = {
+    folder, data, metadata, options, report, diff: null, awaitingDiff: compare, diffError: null,
+  };
+  if (report.issues.length === 0 && !compare) {
+    sendUpload(upload);
+    return true;
+  }
+  pendingUpload = upload;
+  showUploadReview(pendingUpload);
+  if (compare) pluginBridge.previewUpload(folder, data, metadata, options);
+  return false;
+}
+
+/** Show what dropping `languages` from the folder changes before doing it */
+function reviewLanguageRemoval(folder: string, languages: Language[]): void {
+  const options: UploadOptions = { mode: 'remove-language', languages };
+  const data: TraFileData = {};
+  pendingUpload = { folder, data, options, report: null, diff: null, awaitingDiff: true, diffError: null };
+  showUploadReview(pendingUpload);
+  pluginBridge.previewUpload(folder, data, undefined, options);
+}
+
 function showRejectionWarning(message: string | null): void {
   if (!modalEl) return;
   const warnEl = modalEl.querySelector<HTMLDivElement>('.tra-drop-warning');
@@ -162,6 +750,18 @@ function updateModalState(): void {
   if (!modalEl) return;
   const listEl = modalEl.querySelector('.tra-file-status')!;
   listEl.innerHTML = renderFileList();
+  listEl.querySelectorAll<HTMLSelectElement>('.tra-column-select').forEach(select => {
+    select.addEventListener('change', () => {
+      if (!selectedSheet) return;
+      const role = select.dataset.role as SpreadsheetColumnRole;
+      if (select.value === '') {
+        delete selectedSheet.mapping[role];
+      } else {
+        selectedSheet.mapping[role] = Number(select.value);
+      }
+      updateModalState();
+    });
+  });
 
   const selectedEl = modalEl.querySelector<HTMLDivElement>('.tra-selected-zip');
   if (selectedEl) {
@@ -169,40 +769,164 @@ function updateModalState(): void {
     selectedEl.style.display = sourceZipName ? '' : 'none';
   }
 
+  const languagesEl = modalEl.querySelector<HTMLDivElement>('.tra-mode-languages');
+  if (languagesEl) {
+    // Languages new to the folder get a box once a file provides them
+    const listed = Array.from(languagesEl.querySelectorAll<HTMLInputElement>('.tra-mode-language')).map(box => box.value);
+    for (const lang of languageFileMap.keys()) {
+      if (!listed.includes(lang)) languagesEl.insertAdjacentHTML('beforeend', renderModeLanguage(lang));
+    }
+  }
+  const options = readUploadOptions();
+  if (languagesEl) languagesEl.style.display = options.mode === 'replace-languages' ? '' : 'none';
+
   const submitBtn = modalEl.querySelector<HTMLButtonElement>('.tra-upload-submit')!;
-  submitBtn.disabled = languageFileMap.size < 1;
+  submitBtn.disabled = (selectedSheet
+    ? !isSheetMappingComplete(selectedSheet.mapping)
+    : languageFileMap.size < 1)
+    || (options.mode === 'replace-languages' && (options.languages ?? []).length === 0);
+}
+
+/** Whether the "upload as draft overlay" box is ticked */
+function isOverlayUpload(): boolean {
+  return !!modalEl?.querySelector<HTMLInputElement>('.tra-overlay-toggle')?.checked;
+}
+
+const UPLOAD_MODES: { mode: UploadMode; label: string }[] = [
+  { mode: 'merge', label: 'Merge — uploaded languages replace theirs, the others are kept' },
+  { mode: 'replace-folder', label: 'Replace the folder — keep only the uploaded languages' },
+  { mode: 'replace-languages', label: 'Replace selected languages — as Merge, and a selected language without a file is removed' },
+];
+
+function renderModeLanguage(lang: Language): string {
+  return `
+            <label><input type="checkbox" class="tra-mode-language" value="${lang}" /> ${lang.toUpperCase()}</label>`;
+}
+
+/**
+ * How a re-upload combines with the folder's stored languages, and removal of
+ * a stored language — only offered once the folder has data.
+ */
+function renderModeSection(folder: string): string {
+  const status = store.getState().folderDataStatus[folder];
+  if (!status?.hasData) return '';
+  const stored = status.metadata?.availableLanguages ?? [];
+  const removal = stored.length > 1
+    ? `
+        <div class="tra-remove-language">
+          Remove a language:
+          <select class="tra-remove-language-select">
+            ${stored.map(lang => `<option value="${lang}">${lang.toUpperCase()}</option>`).join('')}
+          </select>
+          <button class="btn-sm btn-sm-outline tra-remove-language-btn">Remove…</button>
+        </div>`
+    : '';
+  return `
+      <div class="tra-upload-modes">
+        ${UPLOAD_MODES.map(({ mode, label }) => `
+          <label class="tra-mode-label">
+            <input type="radio" name="traUploadMode" class="tra-mode-option" value="${mode}"${mode === 'merge' ? ' checked' : ''} />
+            ${label}
+          </label>`).join('')}
+        <div class="tra-mode-languages" style="display:none">
+          ${listedLanguages(stored).map(renderModeLanguage).join('')}
+        </div>
+        ${removal}
+      </div>`;
+}
+
+/**
+ * Draft overlay controls — only offered once the folder has its own data,
+ * since an overlay is stacked on top of it.
+ */
+function renderOverlaySection(folder: string): string {
+  const status = store.getState().folderDataStatus[folder];
+  if (!status?.hasData) return '';
+  const overlay = status.overlay;
+  const current = overlay
+    ? `<div class="tra-overlay-current">Draft overlay from ${formatDate(overlay.uploadTimestamp)}${
+        overlay.sourceZipName ? ` &middot; ${escapeHtml(overlay.sourceZipName)}` : ''
+      } <button class="btn-sm btn-sm-outline tra-overlay-remove">Remove</button></div>`
+    : '';
+  return `
+      <div class="tra-overlay">
+        <label class="tra-overlay-label">
+          <input type="checkbox" class="tra-overlay-toggle" />
+          Upload as a draft overlay — its strings take precedence over the folder's data
+        </label>
+        ${current}
+      </div>`;
+}
+
+/**
+ * The folder's previous uploads, newest first, each with a button to make it
+ * the folder's data again.
+ */
+function renderHistorySection(folder: string): string {
+  const history = store.getState().folderDataStatus[folder]?.history ?? [];
+  if (history.length === 0) return '';
+  return `
+      <details class="tra-history">
+        <summary>Previous uploads <span class="tra-validation-count">${history.length}</span></summary>
+        <ul class="tra-history-list">
+          ${history.map((release, index) => `
+            <li class="tra-history-item">
+              <span class="tra-history-label">${release ? formatDate(release.uploadTimestamp) : 'Unknown date'}${
+                release?.sourceZipName ? ` &middot; ${escapeHtml(release.sourceZipName)}` : ''
+              }${release?.availableLanguages?.length ? ` &middot; ${release.availableLanguages.map(l => l.toUpperCase()).join(', ')}` : ''}</span>
+              <button class="btn-sm btn-sm-outline tra-history-rollback" data-index="${index}">Roll back</button>
+            </li>`).join('')}
+        </ul>
+      </details>`;
 }
 
 export function showTraUploadModal(folder: string, metadata?: TraUploadMetadata): void {
   hideTraUploadModal();
   languageFileMap.clear();
+  apiFiles.length = 0;
   sourceZipName = null;
+  uploadFormat = null;
+  selectedSheet = null;
 
   const lastUploadedHtml = metadata
     ? `<div class="tra-upload-last">Last uploaded: ${formatDate(metadata.uploadTimestamp)}${
         metadata.sourceZipName ? ` &middot; from ${metadata.sourceZipName}` : ''
-      }</div>`
+      }${metadata.sourceEndpoint ? ` &middot; from ${escapeHtml(metadata.sourceEndpoint)}` : ''}</div>`
     : '';
 
   modalEl = document.createElement('div');
   modalEl.className = 'variable-prompt-overlay';
   modalEl.innerHTML = `
     <div class="variable-prompt-modal tra-upload-modal">
-      <div class="variable-prompt-title">Upload .zip of .tra files for ${folder}</div>
+      <div class="variable-prompt-title">Upload translations for ${escapeHtml(folder)}</div>
       ${lastUploadedHtml}
-      <div class="tra-upload-hint">Drop a .zip file containing the .tra files</div>
+      <div class="tra-upload-form">
+      ${renderHistorySection(folder)}
+      <div class="tra-upload-hint">Drop a .zip file containing the .tra files, .xlf/.xliff, .po or .json locale files, Android strings.xml or Apple .strings/.xcstrings files, a .csv/.xlsx sheet with one column per language, or multilan API exports. The format is detected from each file's content.</div>
       <div class="tra-drop-zone" id="traDropZone">
         <div class="tra-drop-icon">&#128194;</div>
-        <div class="tra-drop-text">Drop .zip file here</div>
+        <div class="tra-drop-text">Drop translation files or a .zip here</div>
         <div class="tra-drop-or">or</div>
         <label class="btn-sm btn-sm-outline tra-drop-btn">
-          Choose .zip file
-          <input type="file" accept=".zip" class="tra-drop-file-input" />
+          Choose files
+          <input type="file" accept=".zip,.xlf,.xliff,.po,.pot,.json,.csv,.xlsx,.xml,.strings,.xcstrings" multiple class="tra-drop-file-input" />
         </label>
       </div>
+      <div class="tra-api-source">
+        <div class="tra-drop-or">or load live from the search API</div>
+        <div class="tra-api-row">
+          <input type="url" class="variable-prompt-input tra-api-endpoint" placeholder="https://…/multilan:search" spellcheck="false" value="${escapeHtml(store.getState().searchApiEndpoint)}" />
+          <button class="btn-sm btn-sm-outline tra-api-fetch">Fetch</button>
+        </div>
+        <div class="tra-api-progress" style="display:none"></div>
+      </div>
+      ${renderModeSection(folder)}
+      ${renderOverlaySection(folder)}
       <div class="tra-drop-warning" style="display:none; color:#d73a49; font-size:12px; margin-top:8px;"></div>
       <div class="tra-selected-zip" style="display:none"></div>
       <div class="tra-file-status">${renderFileList()}</div>
+      </div>
+      <div class="tra-validation" style="display:none"></div>
       <div class="variable-prompt-actions">
         <button class="btn-sm btn-sm-outline tra-upload-cancel">Cancel</button>
         <button class="btn-sm btn-sm-success tra-upload-submit" disabled>Upload</button>
@@ -239,8 +963,48 @@ export function showTraUploadModal(folder: string, metadata?: TraUploadMetadata)
     }
   });
 
-  // Cancel
+  // Live search-API load
+  modalEl.querySelector('.tra-api-fetch')!.addEventListener('click', () => {
+    loadFromSearchApi(folder);
+  });
+
+  modalEl.querySelectorAll<HTMLButtonElement>('.tra-history-rollback').forEach(btn => {
+    btn.addEventListener('click', () => {
+      modalEl?.querySelectorAll<HTMLButtonElement>('.tra-history-rollback').forEach(b => { b.disabled = true; });
+      btn.textContent = 'Rolling back…';
+      pluginBridge.rollbackUpload(folder, Number(btn.dataset.index));
+    });
+  });
+
+  modalEl.querySelectorAll<HTMLInputElement>('.tra-mode-option').forEach(input => {
+    input.addEventListener('change', () => {
+      if (input.value === 'replace-languages') {
+        // Start from the languages that have a file in this upload
+        modalEl?.querySelectorAll<HTMLInputElement>('.tra-mode-language').forEach(box => {
+          box.checked = languageFileMap.has(box.value as Language);
+        });
+      }
+      updateModalState();
+    });
+  });
+  modalEl.querySelector('.tra-mode-languages')?.addEventListener('change', () => updateModalState());
+  modalEl.querySelector('.tra-remove-language-btn')?.addEventListener('click', () => {
+    const select = modalEl?.querySelector<HTMLSelectElement>('.tra-remove-language-select');
+    if (select) reviewLanguageRemoval(folder, [select.value as Language]);
+  });
+
+  modalEl.querySelector('.tra-overlay-remove')?.addEventListener('click', (e) => {
+    (e.currentTarget as HTMLButtonElement).disabled = true;
+    pluginBridge.removeOverlay(folder);
+  });
+
+  // Cancel, or back to the form from the validation report
   modalEl.querySelector('.tra-upload-cancel')!.addEventListener('click', () => {
+    if (pendingUpload) {
+      pendingUpload = null;
+      showUploadReview(null);
+      return;
+    }
     hideTraUploadModal();
   });
   modalEl.addEventListener('click', (e) => {
@@ -249,23 +1013,60 @@ export function showTraUploadModal(folder: string, metadata?: TraUploadMetadata)
 
   // Submit
   submitBtn.addEventListener('click', async () => {
-    if (languageFileMap.size < 1) return;
+    if (pendingUpload) {
+      submitBtn.disabled = true;
+      submitBtn.textContent = pendingUpload.options.mode === 'remove-language' ? 'Removing...' : 'Uploading...';
+      sendUpload(pendingUpload);
+      pendingUpload = null;
+      // Don't close modal here — wait for 'upload-success' message
+      return;
+    }
+    if (selectedSheet ? !isSheetMappingComplete(selectedSheet.mapping) : languageFileMap.size < 1) return;
     submitBtn.disabled = true;
-    submitBtn.textContent = 'Uploading...';
+    submitBtn.textContent = 'Checking...';
 
     try {
-      const traFileData: { en: string; fr: string; nl: string; de: string } = { en: '', fr: '', nl: '', de: '' };
-      const fileLastModified: { en: number; fr: number; nl: number; de: number } = { en: 0, fr: 0, nl: 0, de: 0 };
+      const traFileData: TraFileData = {};
+      const fileLastModified: TraUploadMetadata['fileLastModified'] = {};
 
-      for (const [lang, file] of languageFileMap.entries()) {
-        traFileData[lang] = await readFileAsText(file);
-        fileLastModified[lang] = file.lastModified;
+      let availableLanguages: Language[];
+      const fallbackLanguages: Language[] = [];
+      if (selectedSheet) {
+        traFileData[SPREADSHEET_SLOT] = toCanonicalSheet(selectedSheet.rows, selectedSheet.mapping);
+        availableLanguages = mappedLanguages(selectedSheet.mapping);
+        for (const lang of availableLanguages) fileLastModified[lang] = selectedSheet.lastModified;
+      } else if (uploadFormat && API_FORMATS.includes(uploadFormat)) {
+        // API exports are stored as one payload in the EN slot, like a spreadsheet
+        const payloads = await Promise.all(apiFiles.map(async file => JSON.parse(await readFileAsText(file))));
+        traFileData.en = JSON.stringify(uploadFormat === 'search-api'
+          ? mergeSearchApiResponses(payloads as SearchApiResponse[])
+          : ([] as unknown[]).concat(...payloads));
+        availableLanguages = Array.from(languageFileMap.keys());
+        const lastModified = Math.max(...apiFiles.map(file => file.lastModified));
+        for (const lang of availableLanguages) fileLastModified[lang] = lastModified;
+      } else {
+        // A String Catalog covers several slots but is stored once; its other
+        // slots stay empty so the adapter still reads those languages from it
+        const storedFiles = new Set<File>();
+        for (const [lang, file] of languageFileMap.entries()) {
+          if (!storedFiles.has(file)) {
+            const { text, fallback } = await readFileAsTextWithEncoding(file);
+            traFileData[lang] = text;
+            if (fallback) fallbackLanguages.push(lang);
+          } else {
+            traFileData[lang] = '';
+          }
+          storedFiles.add(file);
+          fileLastModified[lang] = file.lastModified;
+        }
+        availableLanguages = Array.from(languageFileMap.keys());
       }
 
       const uploadMetadata: TraUploadMetadata = {
         uploadTimestamp: Date.now(),
         fileLastModified,
-        availableLanguages: Array.from(languageFileMap.keys()),
+        availableLanguages,
+        sourceFormat: uploadFormat ?? 'tra',
       };
       if (sourceZipName) {
         uploadMetadata.sourceZipName = sourceZipName;
@@ -273,21 +1074,84 @@ export function showTraUploadModal(folder: string, metadata?: TraUploadMetadata)
         if (parsed !== undefined) uploadMetadata.releaseDate = parsed;
       }
 
-      pluginBridge.uploadTraFiles(folder, traFileData, uploadMetadata);
+      if (await reviewUpload(folder, traFileData, uploadMetadata, fallbackLanguages)) {
+        submitBtn.textContent = 'Uploading...';
+      }
       // Don't close modal here — wait for 'upload-success' message
     } catch (error) {
       submitBtn.textContent = 'Upload';
       submitBtn.disabled = false;
-      console.error('Failed to read .tra files:', error);
+      console.error('Failed to read translation files:', error);
+      showRejectionWarning(error instanceof Error ? error.message : String(error));
     }
   });
 }
 
+// Diagnostics listed after an upload; the rest are summarized
+const MAX_LISTED_DIAGNOSTICS = 100;
+
+/**
+ * After an upload whose files had unreadable records, replace the modal's
+ * form with the list of problems (line, reason and the raw text).
+ */
+export function showUploadDiagnostics(folder: string, count: number, diagnostics: ParseDiagnostic[]): void {
+  if (!modalEl) {
+    modalEl = document.createElement('div');
+    modalEl.className = 'variable-prompt-overlay';
+    document.body.appendChild(modalEl);
+  }
+
+  const listed = diagnostics.slice(0, MAX_LISTED_DIAGNOSTICS);
+  const more = diagnostics.length - listed.length;
+  modalEl.innerHTML = `
+    <div class="variable-prompt-modal tra-upload-modal">
+      <div class="variable-prompt-title">Loaded ${count} translations for ${escapeHtml(folder)}</div>
+      <div class="tra-upload-hint">${diagnostics.length} problem${diagnostics.length === 1 ? '' : 's'} found in the files. Records that couldn't be read were skipped — fix them and upload again.</div>
+      <ul class="tra-diagnostics">
+        ${listed.map(d => `
+          <li class="tra-diagnostic">
+            <span class="tra-diagnostic-where">${d.language ? `${d.language.toUpperCase()} ` : ''}line ${d.line}</span>
+            <span class="tra-diagnostic-reason">${escapeHtml(d.reason)}</span>
+            ${d.snippet ? `<code class="tra-diagnostic-snippet">${escapeHtml(d.snippet)}</code>` : ''}
+          </li>`).join('')}
+      </ul>
+      ${more > 0 ? `<div class="tra-diagnostics-more">…and ${more} more</div>` : ''}
+      <div class="variable-prompt-actions">
+        <button class="btn-sm btn-sm-success tra-upload-done">Done</button>
+      </div>
+    </div>
+  `;
+  modalEl.querySelector('.tra-upload-done')!.addEventListener('click', () => hideTraUploadModal());
+}
+
+/** Show the plugin's diff for the upload under review */
+export function showUploadDiff(folder: string, diff: UploadDiff): void {
+  if (!pendingUpload || pendingUpload.folder !== folder || !pendingUpload.awaitingDiff) return;
+  pendingUpload.diff = diff;
+  pendingUpload.awaitingDiff = false;
+  showUploadReview(pendingUpload);
+}
+
+/** Show why the plugin couldn't diff the upload under review */
+export function showUploadDiffError(folder: string | undefined, error: string): void {
+  if (!pendingUpload || !pendingUpload.awaitingDiff) return;
+  if (folder !== undefined && pendingUpload.folder !== folder) return;
+  pendingUpload.diffError = error;
+  pendingUpload.awaitingDiff = false;
+  showUploadReview(pendingUpload);
+}
+
 export function hideTraUploadModal(): void {
+  searchApiAbort?.abort();
+  searchApiAbort = null;
+  pendingUpload = null;
   if (modalEl) {
     modalEl.remove();
     modalEl = null;
   }
   languageFileMap.clear();
+  apiFiles.length = 0;
   sourceZipName = null;
+  uploadFormat = null;
+  selectedSheet = null;
 }
@@ -5,4 +5,8 @@ export { initSearchPanel, renderGlobalSearchResults, clearSearch, updateSearchHi
 export { initStatusBar, setStatus, setViewMode } from './StatusBar';
 export { renderFramePanel, isFrameMode, showSearchBar } from './FramePanel';
 export { showTraUploadModal, hideTraUploadModal } from './TraUploadModal';
+export { showFolderManager, refreshFolderManager } from './FolderManagerModal';
 export { showToast } from './Toast';
+export { initFallbackPanel, renderFallbackLanguages, renderFallbackReport } from './FallbackPanel';
+export { initOverflowPanel, renderOverflowReport } from './OverflowPanel';
+export { initScopePanel, renderScopeOptions, renderPageReport } from './ScopePanel';
@@ -1,5 +1,5 @@
 import type { Language, PluginMessage } from '../shared/types';
-import { SUPPORTED_LANGUAGES, FOLDER_NAMES } from '../shared/types';
+import { closestLocale, normalizeLocale, DEFAULT_FOLDER_NAMES } from '../shared/types';
 import { store } from './state/store';
 import { pluginBridge } from './services/pluginBridge';
 import {
@@ -20,26 +20,30 @@ import {
   renderFramePanel,
   isFrameMode,
   showSearchBar,
-  updateLanguageAvailability
+  updateLanguageAvailability,
+  refreshFolderManager,
+  initFallbackPanel,
+  renderFallbackLanguages,
+  renderFallbackReport,
+  initOverflowPanel,
+  renderOverflowReport,
+  initScopePanel,
+  renderScopeOptions,
+  renderPageReport
 } from './components';
 import { handleFrameMatchResult, clearCloseMatchSearchState } from './components/FramePanel';
-import { handleUnlinkedQueue, advanceQueue, exitHighlightModePublic, resetSingleNodeSearchState, handleSingleNodeFuzzyResult } from './components/SearchPanel';
-import { showTraUploadModal, hideTraUploadModal } from './components/TraUploadModal';
+import { handleUnlinkedQueue, advanceQueue, exitHighlightModePublic, resetSingleNodeSearchState, handleSingleNodeFuzzyResult, refreshSearchForChanges } from './components/SearchPanel';
+import { showTraUploadModal, hideTraUploadModal, showUploadDiagnostics, showUploadDiff, showUploadDiffError } from './components/TraUploadModal';
 import { showToast } from './components/Toast';
 import { handleVerifyResult } from './components/ManualLinkWidget';
 
 /**
  * Get user's preferred language from browser settings
- * Maps browser locale to our supported languages
+ * Maps the browser locale ("fr-BE") to its language code
  */
 function getBrowserLanguage(): Language {
   const browserLang = navigator.language || (navigator as { userLanguage?: string }).userLanguage || 'en';
-  const langCode = browserLang.split('-')[0].toLowerCase();
-
-  if (SUPPORTED_LANGUAGES.includes(langCode as Language)) {
-    return langCode as Language;
-  }
-  return 'en';
+  return normalizeLocale(browserLang) ?? 'en';
 }
 
 function handlePluginMessage(msg: PluginMessage): void {
@@ -65,8 +69,13 @@ function handlePluginMessage(msg: PluginMessage): void {
         translationCount: msg.translationCount || 0,
         folderNames,
         currentFolder,
-        folderDataStatus
+        folderDataStatus,
+        searchApiEndpoint: msg.searchApiEndpoint || '',
+        fallbackLanguages: msg.fallbackLanguages || [],
+        scope: msg.scope || 'selection'
       });
+      renderFallbackLanguages();
+      renderScopeOptions();
 
       if (!msg.canEdit) {
         setViewMode(true);
@@ -77,9 +86,9 @@ function handlePluginMessage(msg: PluginMessage): void {
       renderFolderButtons(folderNames, hasTranslations ? currentFolder : null, folderDataStatus);
       const availableLangs = folderDataStatus[currentFolder]?.metadata?.availableLanguages;
       updateLanguageAvailability(hasTranslations ? availableLangs : undefined);
-      // If current language not available, switch to first available
+      // If current language not available, switch to the closest available locale
       if (availableLangs && availableLangs.length > 0 && !availableLangs.includes(initialLang)) {
-        const fallbackLang = availableLangs[0] as Language;
+        const fallbackLang = closestLocale(initialLang, availableLangs)!;
         setActiveLanguage(fallbackLang);
         store.setState({ currentLang: fallbackLang });
       } else {
@@ -225,8 +234,18 @@ function handlePluginMessage(msg: PluginMessage): void {
     }
 
     case 'language-switched': {
+      const fallbackNodes = msg.fallbackNodes || [];
+      const overflowNodes = msg.overflowNodes || [];
+      store.setState({ fallbackNodes, overflowNodes, pageResults: msg.pageResults || [] });
+      renderFallbackReport();
+      renderOverflowReport();
+      renderPageReport();
       if (msg.missing && msg.missing.length > 0) {
-        setStatus(`${msg.missing.length} missing translations (using English fallback)`);
+        setStatus(`${msg.missing.length} missing translations (texts left unchanged)`);
+      } else if (fallbackNodes.length > 0) {
+        setStatus(`${fallbackNodes.length} translations missing — fallback text used`);
+      } else if (overflowNodes.length > 0) {
+        setStatus(`${overflowNodes.length} texts no longer fit`);
       } else if (msg.success === 0) {
         setStatus('No linked texts to update');
       }
@@ -298,10 +317,26 @@ function handlePluginMessage(msg: PluginMessage): void {
         submitBtn.textContent = 'Upload';
         submitBtn.disabled = false;
       }
+      const fetchBtn = document.querySelector<HTMLButtonElement>('.tra-api-fetch');
+      if (fetchBtn) fetchBtn.disabled = false;
+      document.querySelectorAll<HTMLButtonElement>('.tra-history-rollback').forEach(btn => {
+        btn.disabled = false;
+        btn.textContent = 'Roll back';
+      });
       showToast('Upload failed — see plugin console for details');
       break;
     }
 
+    case 'upload-diff':
+      if (msg.folderName && msg.uploadDiff) {
+        showUploadDiff(msg.folderName, msg.uploadDiff);
+      }
+      break;
+
+    case 'upload-diff-failed':
+      showUploadDiffError(msg.folderName, msg.diffError ?? 'unknown error');
+      break;
+
     case 'upload-success': {
       const folder = msg.folderName!;
       const count = msg.uploadedTranslationCount || 0;
@@ -320,16 +355,63 @@ function handlePluginMessage(msg: PluginMessage): void {
       // Auto-switch language if current one is not available
       const currentLang = store.getState().currentLang;
       if (uploadedLangs && uploadedLangs.length > 0 && !uploadedLangs.includes(currentLang)) {
-        const fallback = uploadedLangs[0] as Language;
+        const fallback = closestLocale(currentLang, uploadedLangs)!;
         setActiveLanguage(fallback);
         store.setState({ currentLang: fallback });
       }
-      hideTraUploadModal();
-      showToast(`Loaded ${count} translations for ${folder}`);
+      const diagnostics = msg.parseDiagnostics || [];
+      if (diagnostics.length > 0) {
+        showUploadDiagnostics(folder, count, diagnostics);
+        showToast(`Loaded ${count} translations for ${folder} — ${diagnostics.length} problem${diagnostics.length === 1 ? '' : 's'} in the files`);
+      } else {
+        hideTraUploadModal();
+        showToast(`Loaded ${count} translations for ${folder}`);
+      }
       setStatus(`${count} translations loaded`);
       break;
     }
 
+    case 'translations-changed': {
+      // Incremental refresh — patch the affected nodes instead of re-initializing
+      const updated = new Map((msg.textNodes || []).map(n => [n.id, n]));
+      const state = store.getState();
+      store.batch(() => {
+        store.setState({
+          textNodes: state.textNodes.map(n => updated.get(n.id) || n),
+          translationCount: msg.translationCount ?? state.translationCount,
+        });
+        if (state.selectedNode && updated.has(state.selectedNode.id)) {
+          store.setState({ selectedNode: updated.get(state.selectedNode.id)! });
+        }
+      });
+      setStatus(`${store.getState().translationCount} translations loaded`);
+      if (msg.translationChanges) refreshSearchForChanges(msg.translationChanges);
+      if (!isFrameMode()) renderGlobalSearchResults();
+      break;
+    }
+
+    case 'folder-data-status': {
+      const newStatus = msg.folderDataStatus || store.getState().folderDataStatus;
+      store.setState({ folderDataStatus: newStatus });
+      if (msg.folderName === store.getState().currentFolder && msg.translationCount !== undefined) {
+        store.setState({ translationCount: msg.translationCount });
+        setStatus(`${msg.translationCount} translations loaded`);
+      }
+      renderFolderButtons(store.getState().folderNames, store.getState().currentFolder, newStatus);
+      hideTraUploadModal();
+      break;
+    }
+
+    case 'folders-updated': {
+      const folderNames = msg.folderNames || store.getState().folderNames;
+      const currentFolder = msg.folderName || folderNames[0];
+      const folderDataStatus = msg.folderDataStatus || store.getState().folderDataStatus;
+      store.setState({ folderNames, currentFolder, folderDataStatus });
+      renderFolderButtons(folderNames, store.getState().translationCount > 0 ? currentFolder : null, folderDataStatus);
+      refreshFolderManager();
+      break;
+    }
+
     case 'verify-multilan-id-result': {
       if (msg.nodeId && msg.multilanId !== undefined && typeof msg.found === 'boolean') {
         const consumed = handleVerifyResult(
@@ -359,11 +441,15 @@ function init(): void {
   initTabs();
   initSearchPanel();
   initStatusBar();
-
-  // Render folder buttons immediately from the shared constant so the bar is
-  // visible from frame one — the init message arrives later (after plugin font
-  // preload + clientStorage reads) and just fills in the active/has-data state.
-  renderFolderButtons([...FOLDER_NAMES], null);
+  initFallbackPanel();
+  initOverflowPanel();
+  initScopePanel();
+
+  // Render the default folder buttons immediately so the bar is visible from
+  // frame one — the init message arrives later (after plugin font preload +
+  // clientStorage reads) and replaces them with the user's folders and their
+  // active/has-data state.
+  renderFolderButtons([...DEFAULT_FOLDER_NAMES], null);
 
   // Wire the bottom-right drag handle so the user can resize the plugin window
   // (handy when working across two monitors).
@@ -1,4 +1,8 @@
-import type { Language, PluginMessage, TraUploadMetadata } from '../../shared/types';
+import type { Language, LanguageFileData, PluginMessage, TextScope, TraUploadMetadata, UploadOptions } from '../../shared/types';
+
+type TraFileData = LanguageFileData;
+
+const NO_FILES: TraFileData = {};
 
 type MessageHandler = (message: PluginMessage) => void;
 
@@ -27,11 +31,11 @@ class PluginBridge {
     this.send({ type: 'init' });
   }
 
-  refresh(scope: 'page' | 'selection'): void {
+  refresh(scope: TextScope): void {
     this.send({ type: 'refresh', scope });
   }
 
-  switchLanguage(language: Language, scope: 'page' | 'selection'): void {
+  switchLanguage(language: Language, scope: TextScope): void {
     this.send({
       type: 'switch-language',
       language,
@@ -77,6 +81,13 @@ class PluginBridge {
     });
   }
 
+  selectNodes(nodeIds: string[]): void {
+    this.send({
+      type: 'select-nodes',
+      nodeIds
+    });
+  }
+
   createLinkedText(multilanId: string, text: string, language: Language): void {
     this.send({
       type: 'create-linked-text',
@@ -100,14 +111,14 @@ class PluginBridge {
     });
   }
 
-  getUnlinkedQueue(scope: 'page' | 'selection'): void {
+  getUnlinkedQueue(scope: TextScope): void {
     this.send({
       type: 'get-unlinked-queue',
       scope
     });
   }
 
-  highlightUnlinked(highlight: boolean, scope: 'page' | 'selection'): void {
+  highlightUnlinked(highlight: boolean, scope: TextScope): void {
     this.send({
       type: 'highlight-unlinked',
       highlight,
@@ -119,8 +130,74 @@ class PluginBridge {
     this.send({ type: 'switch-folder', folderName });
   }
 
-  uploadTraFiles(folderName: string, traFileData: { en: string; fr: string; nl: string; de: string }, traUploadMetadata: TraUploadMetadata): void {
-    this.send({ type: 'upload-tra-files', folderName, traFileData, traUploadMetadata });
+  /**
+   * With `overlay`, the files become the folder's draft overlay instead of
+   * replacing its data; `mode` decides how they combine with the stored languages.
+   */
+  uploadTraFiles(folderName: string, traFileData: TraFileData, traUploadMetadata: TraUploadMetadata, options: UploadOptions = {}): void {
+    this.send(this.uploadMessage('upload-tra-files', folderName, traFileData, traUploadMetadata, options));
+  }
+
+  /** Drop languages from a folder's stored data */
+  removeLanguages(folderName: string, languages: Language[]): void {
+    this.send(this.uploadMessage('upload-tra-files', folderName, NO_FILES, undefined, { mode: 'remove-language', languages }));
+  }
+
+  /** Ask for the diff an upload (or a removal, with no files) would make — answered with upload-diff */
+  previewUpload(folderName: string, traFileData: TraFileData, traUploadMetadata: TraUploadMetadata | undefined, options: UploadOptions = {}): void {
+    this.send(this.uploadMessage('preview-upload', folderName, traFileData, traUploadMetadata, options));
+  }
+
+  private uploadMessage(
+    type: 'upload-tra-files' | 'preview-upload',
+    folderName: string,
+    traFileData: TraFileData,
+    traUploadMetadata: TraUploadMetadata | undefined,
+    { overlay, mode, languages }: UploadOptions
+  ): PluginMessage {
+    const message: PluginMessage = { type, folderName, traFileData };
+    if (traUploadMetadata) message.traUploadMetadata = traUploadMetadata;
+    if (overlay) message.overlay = true;
+    if (mode && mode !== 'merge') message.uploadMode = mode;
+    if (languages && languages.length > 0) message.uploadLanguages = languages;
+    return message;
+  }
+
+  rollbackUpload(folderName: string, historyIndex: number): void {
+    this.send({ type: 'rollback-upload', folderName, historyIndex });
+  }
+
+  createFolder(folderName: string): void {
+    this.send({ type: 'create-folder', folderName });
+  }
+
+  /** Rename a folder; its stored translations move with it */
+  renameFolder(folderName: string, newFolderName: string): void {
+    this.send({ type: 'rename-folder', folderName, newFolderName });
+  }
+
+  deleteFolder(folderName: string): void {
+    this.send({ type: 'delete-folder', folderName });
+  }
+
+  reorderFolders(folderNames: string[]): void {
+    this.send({ type: 'reorder-folders', folderNames });
+  }
+
+  removeOverlay(folderName: string): void {
+    this.send({ type: 'remove-overlay', folderName });
+  }
+
+  saveSearchApiEndpoint(endpoint: string): void {
+    this.send({ type: 'save-search-api-endpoint', searchApiEndpoint: endpoint });
+  }
+
+  saveFallbackLanguages(fallbackLanguages: Language[]): void {
+    this.send({ type: 'save-fallback-languages', fallbackLanguages });
+  }
+
+  saveScope(scope: TextScope): void {
+    this.send({ type: 'save-scope', scope });
   }
 
   findCloseMatches(nodeId: string, text: string): void {
@@ -0,0 +1,78 @@
+// Search API client - pages through the multilan:search endpoint from the UI
+// iframe (the plugin sandbox has no fetch) and merges the pages into one
+// response for SearchApiAdapter.
+
+import { isSearchApiFormat } from '../../adapters/types/searchApi.types';
+import type { SearchApiRequest, SearchApiResponse } from '../../adapters/types/searchApi.types';
+import { mergeSearchApiResponses } from '../../adapters/implementations/searchApiAdapter';
+
+export const SEARCH_API_PAGE_SIZE = 500;
+// Guards against an endpoint that never reports its last page
+const MAX_SEARCH_API_PAGES = 1000;
+
+export interface SearchApiProgress {
+  /** Pages fetched so far */
+  page: number;
+  totalPages: number;
+  /** Multilans fetched so far */
+  loaded: number;
+  totalElements: number;
+}
+
+export interface FetchSearchApiOptions {
+  pageSize?: number;
+  sorting?: SearchApiRequest['sorting'];
+  searchText?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: SearchApiProgress) => void;
+}
+
+async function fetchSearchApiPage(
+  endpoint: string,
+  request: SearchApiRequest,
+  signal?: AbortSignal
+): Promise<SearchApiResponse> {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Search API request failed: HTTP ${response.status} on page ${request.pagination.page}`);
+  }
+  const data: unknown = await response.json();
+  if (!isSearchApiFormat(data)) {
+    throw new Error(`Search API returned an unexpected response on page ${request.pagination.page}`);
+  }
+  return data;
+}
+
+/**
+ * Fetch every page of a search, one request at a time, and merge them.
+ * Pages are zero-based; paging stops at `isLastPage` or `totalPages`.
+ * @throws Error on a non-2xx status or a body that isn't a search response;
+ * an AbortError when `signal` is aborted
+ */
+export async function fetchAllSearchApiPages(
+  endpoint: string,
+  options: FetchSearchApiOptions = {}
+): Promise<SearchApiResponse> {
+  const { pageSize = SEARCH_API_PAGE_SIZE, sorting = { field: 'id', direction: 'ASC' }, signal, onProgress } = options;
+  const pages: SearchApiResponse[] = [];
+  let loaded = 0;
+
+  for (let page = 0; page < MAX_SEARCH_API_PAGES; page++) {
+    const request: SearchApiRequest = { pagination: { page, pageSize }, sorting };
+    if (options.searchText) request.searchText = options.searchText;
+
+    const response = await fetchSearchApiPage(endpoint, request, signal);
+    pages.push(response);
+    loaded += response.resultList.length;
+    onProgress?.({ page: page + 1, totalPages: response.totalPages, loaded, totalElements: response.totalElements });
+
+    if (response.isLastPage || page + 1 >= response.totalPages || response.resultList.length === 0) break;
+  }
+
+  return mergeSearchApiResponses(pages);
+}
@@ -1,9 +1,13 @@
-import type { Language, TextNodeInfo, SearchResult, MatchDetectionResult, UnlinkedQueueItem, FrameNodeMatchResult, FolderDataStatus } from '../../shared/types';
+import { DEFAULT_LANGUAGES } from '../../shared/types';
+import type { Language, FallbackNodeInfo, OverflowNodeInfo, PageResult, TextScope, TextNodeInfo, SearchResult, MatchDetectionResult, UnlinkedQueueItem, FrameNodeMatchResult, FolderDataStatus } from '../../shared/types';
 
 export interface UIState {
   canEdit: boolean;
   currentLang: Language;
-  scope: 'page' | 'selection';
+  /** Languages the language bar and translation previews list */
+  languages: Language[];
+  /** Nodes a language switch covers, as the user last chose */
+  scope: TextScope;
   textNodes: TextNodeInfo[];
   selectedNode: TextNodeInfo | null;
   hasSelection: boolean;
@@ -19,6 +23,15 @@ export interface UIState {
   currentFolder: string;
   folderNames: string[];
   folderDataStatus: FolderDataStatus;
+  searchApiEndpoint: string;
+  /** Languages a language switch uses, in order, when a language has no text */
+  fallbackLanguages: Language[];
+  /** Nodes the last language switch filled with fallback text */
+  fallbackNodes: FallbackNodeInfo[];
+  /** Nodes whose text no longer fits after the last language switch */
+  overflowNodes: OverflowNodeInfo[];
+  /** What the last whole-file language switch did on each page */
+  pageResults: PageResult[];
 }
 
 type StateListener = (state: UIState) => void;
@@ -27,7 +40,8 @@ class Store {
   private state: UIState = {
     canEdit: true,
     currentLang: 'en',
-    scope: 'page',
+    languages: [...DEFAULT_LANGUAGES],
+    scope: 'selection',
     textNodes: [],
     selectedNode: null,
     hasSelection: false,
@@ -42,7 +56,12 @@ class Store {
     translationCount: 0,
     currentFolder: 'EB',
     folderNames: [],
-    folderDataStatus: {}
+    folderDataStatus: {},
+    searchApiEndpoint: '',
+    fallbackLanguages: ['en'],
+    fallbackNodes: [],
+    overflowNodes: [],
+    pageResults: []
   };
 
   private listeners: Set<StateListener> = new Set();
@@ -0,0 +1,101 @@
+// Minimal XLSX reader — just enough to turn the first worksheet of a workbook
+// into rows of cell text for the spreadsheet import. Formulas contribute their
+// cached value; styling, dates and other sheets are ignored.
+
+import { unzipSync, strFromU8 } from 'fflate';
+import { decodeXmlEntities } from '../../adapters/types/xliff.types';
+
+/** Concatenated text of all <t> elements (rich-text runs) in a fragment */
+function textRuns(xml: string): string {
+  let text = '';
+  const re = /<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(xml)) !== null) {
+    text += decodeXmlEntities(match[1]);
+  }
+  return text;
+}
+
+function readSharedStrings(xml: string | undefined): string[] {
+  if (!xml) return [];
+  const strings: string[] = [];
+  const re = /<si>([\s\S]*?)<\/si>/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(xml)) !== null) {
+    // Phonetic hints (<rPh>) aren't part of the displayed text
+    strings.push(textRuns(match[1].replace(/<rPh[\s\S]*?<\/rPh>/g, '')));
+  }
+  return strings;
+}
+
+/** "B" → 1, "AA" → 26 */
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/)?.[0] ?? 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/** Path of the first worksheet in workbook order, falling back to sheet1.xml */
+function firstSheetPath(files: Record<string, Uint8Array>): string | undefined {
+  const workbook = files['xl/workbook.xml'] && strFromU8(files['xl/workbook.xml']);
+  const rels = files['xl/_rels/workbook.xml.rels'] && strFromU8(files['xl/_rels/workbook.xml.rels']);
+  const relId = workbook?.match(/<sheet\s[^>]*r:id="([^"]+)"/)?.[1];
+  if (relId && rels) {
+    const rel = rels.match(new RegExp(`<Relationship\\s[^>]*Id="${relId}"[^>]*>`))?.[0];
+    const target = rel?.match(/Target="([^"]+)"/)?.[1];
+    if (target) {
+      const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+      if (files[path]) return path;
+    }
+  }
+  if (files['xl/worksheets/sheet1.xml']) return 'xl/worksheets/sheet1.xml';
+  return Object.keys(files).find(p => p.startsWith('xl/worksheets/') && p.endsWith('.xml'));
+}
+
+/**
+ * Read the first worksheet of an .xlsx file as rows of cell text.
+ * @throws Error when the file is not a readable workbook
+ */
+export function readXlsxRows(bytes: Uint8Array): string[][] {
+  const files = unzipSync(bytes);
+  const sheetPath = firstSheetPath(files);
+  if (!sheetPath) {
+    throw new Error('Invalid workbook: no worksheet found');
+  }
+  const shared = readSharedStrings(
+    files['xl/sharedStrings.xml'] && strFromU8(files['xl/sharedStrings.xml']),
+  );
+  const sheet = strFromU8(files[sheetPath]);
+
+  const rows: string[][] = [];
+  const rowRe = /<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g;
+  const cellRe = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+  let rowMatch: RegExpExecArray | null;
+  while ((rowMatch = rowRe.exec(sheet)) !== null) {
+    const cells: string[] = [];
+    let cellMatch: RegExpExecArray | null;
+    cellRe.lastIndex = 0;
+    while ((cellMatch = cellRe.exec(rowMatch[1] ?? '')) !== null) {
+      const attrs = cellMatch[1];
+      const inner = cellMatch[2] ?? '';
+      const ref = attrs.match(/\br="([A-Z]+)\d+"/)?.[1];
+      const type = attrs.match(/\bt="([^"]+)"/)?.[1];
+      const value = inner.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let text = '';
+      if (type === 's') text = shared[Number(value)] ?? '';
+      else if (type === 'inlineStr') text = textRuns(inner);
+      else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+      else if (value !== undefined) text = decodeXmlEntities(value);
+
+      const index = ref ? columnIndex(ref) : cells.length;
+      while (cells.length < index) cells.push('');
+      cells[index] = text;
+    }
+    if (cells.some(cell => cell !== '')) rows.push(cells);
+  }
+  return rows;
+}
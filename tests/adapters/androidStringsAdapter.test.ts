@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { AndroidStringsAdapter } from "../../src/adapters/implementations/androidStringsAdapter";
+import { createAdapter, detectAdapterType } from "../../src/adapters";
+import {
+  parseAndroidStrings,
+  unescapeAndroidString,
+  isAndroidStringsFileData,
+} from "../../src/adapters/types/androidStrings.types";
+
+const valuesEn = `<?xml version="1.0" encoding="utf-8"?>
+<resources xmlns:xliff="urn:oasis:names:tc:xliff:document:1.2">
+    <string name="checkout_submit">Submit</string>
+    <string name="welcome">Hello, <xliff:g id="name">%1$s</xliff:g>!</string>
+    <string name="apostrophe">Don\\'t   panic</string>
+    <string name="quoted">"  keep   spaces  "</string>
+    <string name="html"><![CDATA[<b>Bold</b> &amp; more]]></string>
+    <!-- <string name="commented_out">Gone</string> -->
+    <plurals name="cart_items">
+        <item quantity="one">%d item</item>
+        <item quantity="other">%d items</item>
+    </plurals>
+    <string-array name="steps">
+        <item>Cart</item>
+        <item>Pay</item>
+    </string-array>
+</resources>`;
+
+const valuesFr = `<resources>
+    <string name="checkout_submit">Soumettre</string>
+    <plurals name="cart_items">
+        <item quantity="one">%d article</item>
+        <item quantity="many">%d d\\u2019articles</item>
+        <item quantity="other">%d articles</item>
+    </plurals>
+</resources>`;
+
+describe("androidStrings.types", () => {
+  describe("parseAndroidStrings", () => {
+    it("should read strings keyed by resource name and flatten inline tags", () => {
+      const strings = parseAndroidStrings(valuesEn);
+      expect(strings.get("checkout_submit")).toBe("Submit");
+      expect(strings.get("welcome")).toBe("Hello, %1$s!");
+      expect(strings.get("html")).toBe("<b>Bold</b> &amp; more");
+      expect(strings.has("commented_out")).toBe(false);
+    });
+
+    it("should flatten plurals by quantity and string-arrays by index", () => {
+      const strings = parseAndroidStrings(valuesEn);
+      expect(strings.get("cart_items.one")).toBe("%d item");
+      expect(strings.get("cart_items.other")).toBe("%d items");
+      expect(strings.get("steps.0")).toBe("Cart");
+      expect(strings.get("steps.1")).toBe("Pay");
+    });
+
+    it("should throw without a <resources> root", () => {
+      expect(() => parseAndroidStrings('10001,"Submit"')).toThrow("Invalid Android resources");
+    });
+  });
+
+  describe("unescapeAndroidString", () => {
+    it("should resolve escapes, collapse whitespace and honour quotes", () => {
+      expect(unescapeAndroidString("Don\\'t   panic")).toBe("Don't panic");
+      expect(unescapeAndroidString('"  keep   spaces  "')).toBe("keep   spaces");
+      expect(unescapeAndroidString("Line\\nbreak \\u00e9 \\@home")).toBe("Line\nbreak é @home");
+    });
+  });
+
+  describe("isAndroidStringsFileData", () => {
+    it("should accept per-language data with at least one strings.xml", () => {
+      expect(isAndroidStringsFileData({ en: valuesEn, fr: "", nl: "", de: "" })).toBe(true);
+    });
+
+    it("should reject .tra data, XLIFF and non-objects", () => {
+      expect(isAndroidStringsFileData({ en: '10001,"Submit"', fr: "", nl: "", de: "" })).toBe(false);
+      expect(isAndroidStringsFileData({ en: '<xliff version="1.2"></xliff>', fr: "", nl: "", de: "" })).toBe(false);
+      expect(isAndroidStringsFileData(null)).toBe(false);
+    });
+  });
+});
+
+describe("AndroidStringsAdapter", () => {
+  const data = { en: valuesEn, fr: valuesFr, nl: "", de: "" };
+
+  it("should build translations keyed by resource name", async () => {
+    const adapter = await AndroidStringsAdapter.createAsync(data);
+    const map = adapter.getTranslationMap();
+
+    expect(map["checkout_submit"]).toEqual({ en: "Submit", fr: "Soumettre" });
+    expect(map["cart_items.many"]).toEqual({ fr: "%d d’articles" });
+    expect(map["steps.1"]).toEqual({ en: "Pay" });
+  });
+
+  it("should return empty metadata and android-strings identifier", async () => {
+    const adapter = await AndroidStringsAdapter.createAsync(data);
+    expect(adapter.getMetadataMap()).toEqual({});
+    expect(adapter.getSourceIdentifier()).toBe("android-strings");
+  });
+
+  it("should throw for non-Android data", async () => {
+    await expect(AndroidStringsAdapter.createAsync({ en: "a", fr: "b", nl: "c", de: "d" })).rejects.toThrow(
+      "Invalid data format"
+    );
+  });
+
+  it("should be detected and created through the registry", async () => {
+    expect(detectAdapterType(data)).toBe("android-strings");
+    const adapter = await createAdapter(data);
+    expect(adapter).toBeInstanceOf(AndroidStringsAdapter);
+  });
+});
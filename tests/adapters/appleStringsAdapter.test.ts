@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import { AppleStringsAdapter } from "../../src/adapters/implementations/appleStringsAdapter";
+import { createAdapter, detectAdapterType } from "../../src/adapters";
+import {
+  parseAppleStrings,
+  parseXcstrings,
+  readXcstringsLanguages,
+  xcstringsStateToStatus,
+  isAppleStringsFileData,
+} from "../../src/adapters/types/appleStrings.types";
+
+const localizableNl = `/* Checkout button */
+"checkout.submit" = "Indienen";
+// Greeting
+"welcome" = "Hallo, \\"%@\\"\\nwelkom";
+bare_key = "Kaal";
+`;
+
+const catalog = JSON.stringify({
+  sourceLanguage: "en",
+  version: "1.0",
+  strings: {
+    "checkout.submit": {
+      comment: "Checkout button",
+      localizations: {
+        en: { stringUnit: { state: "translated", value: "Submit" } },
+        "fr-BE": { stringUnit: { state: "translated", value: "Soumettre" } },
+        de: { stringUnit: { state: "needs_review", value: "Einreichen" } },
+        ja: { stringUnit: { state: "translated", value: "送信" } },
+      },
+    },
+    "Cancel": {
+      localizations: {
+        fr: { stringUnit: { state: "new", value: "Annuler" } },
+      },
+    },
+    "cart_items": {
+      localizations: {
+        en: { variations: { plural: {
+          one: { stringUnit: { state: "translated", value: "%lld item" } },
+          other: { stringUnit: { state: "translated", value: "%lld items" } },
+        } } },
+      },
+    },
+  },
+});
+
+describe("appleStrings.types", () => {
+  describe("parseAppleStrings", () => {
+    it("should read quoted and bare keys, skipping comments and resolving escapes", () => {
+      const strings = parseAppleStrings(localizableNl);
+      expect(strings.get("checkout.submit")).toBe("Indienen");
+      expect(strings.get("welcome")).toBe('Hallo, "%@"\nwelkom');
+      expect(strings.get("bare_key")).toBe("Kaal");
+      expect(strings.size).toBe(3);
+    });
+  });
+
+  describe("parseXcstrings", () => {
+    it("should emit one entry per key and language with state and comment", () => {
+      const { sourceLanguage, entries } = parseXcstrings(catalog);
+      expect(sourceLanguage).toBe("en");
+      expect(entries).toContainEqual({
+        key: "checkout.submit", language: "fr-BE", value: "Soumettre", state: "translated", comment: "Checkout button",
+      });
+    });
+
+    it("should use the key as source text when the source language is missing", () => {
+      const { entries } = parseXcstrings(catalog);
+      expect(entries).toContainEqual({ key: "Cancel", language: "en", value: "Cancel", comment: undefined });
+    });
+
+    it("should flatten plural variations", () => {
+      const { entries } = parseXcstrings(catalog);
+      expect(entries.find(e => e.key === "cart_items.other")?.value).toBe("%lld items");
+      expect(entries.some(e => e.key === "cart_items")).toBe(false);
+    });
+  });
+
+  describe("readXcstringsLanguages", () => {
+    it("should list the catalog languages, source first", () => {
+      expect(readXcstringsLanguages(catalog)).toEqual(["en", "fr-BE", "de", "ja", "fr"]);
+    });
+
+    it("should keep regional variants of a language apart", () => {
+      const regional = JSON.stringify({
+        sourceLanguage: "en",
+        strings: {
+          "checkout.submit": {
+            localizations: {
+              "fr-BE": { stringUnit: { state: "translated", value: "Soumettre" } },
+              "fr-FR": { stringUnit: { state: "translated", value: "Valider" } },
+            },
+          },
+        },
+      });
+      expect(readXcstringsLanguages(regional)).toEqual(["en", "fr-BE", "fr-FR"]);
+    });
+  });
+
+  describe("xcstringsStateToStatus", () => {
+    it("should map catalog states onto MultilanStatus", () => {
+      expect(xcstringsStateToStatus("new")).toBe("TO_TRANSLATE_EXTERNALLY");
+      expect(xcstringsStateToStatus("needs_review")).toBe("FOUR_EYES_CHECK");
+      expect(xcstringsStateToStatus("translated")).toBe("FINAL");
+      expect(xcstringsStateToStatus(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("isAppleStringsFileData", () => {
+    it("should accept .strings files and String Catalogs", () => {
+      expect(isAppleStringsFileData({ en: "", fr: "", nl: localizableNl, de: "" })).toBe(true);
+      expect(isAppleStringsFileData({ en: catalog, fr: "", nl: "", de: "" })).toBe(true);
+    });
+
+    it("should reject .tra data, plain JSON bundles and non-objects", () => {
+      expect(isAppleStringsFileData({ en: '10001,"Submit"', fr: "", nl: "", de: "" })).toBe(false);
+      expect(isAppleStringsFileData({ en: '{"a": "b"}', fr: "", nl: "", de: "" })).toBe(false);
+      expect(isAppleStringsFileData(null)).toBe(false);
+    });
+  });
+});
+
+describe("AppleStringsAdapter", () => {
+  it("should fill every supported language from a String Catalog", async () => {
+    const adapter = await AppleStringsAdapter.createAsync({ en: catalog, "fr-BE": "", fr: "", nl: "", de: "" });
+    const map = adapter.getTranslationMap();
+
+    expect(map["checkout.submit"]).toEqual({ en: "Submit", "fr-BE": "Soumettre", de: "Einreichen" });
+    expect(map["Cancel"]).toEqual({ fr: "Annuler", en: "Cancel" });
+    expect(map["cart_items.one"]).toEqual({ en: "%lld item" });
+  });
+
+  it("should keep regional .strings files of a language apart", async () => {
+    const adapter = await AppleStringsAdapter.createAsync({
+      "fr-BE": '"checkout.submit" = "Soumettre";',
+      "fr-FR": '"checkout.submit" = "Valider";',
+    });
+    expect(adapter.getTranslationMap()["checkout.submit"]).toEqual({ "fr-BE": "Soumettre", "fr-FR": "Valider" });
+  });
+
+  it("should keep the least advanced translation state and the comment", async () => {
+    const adapter = await AppleStringsAdapter.createAsync({ en: catalog, fr: "", nl: "", de: "" });
+    const metadata = adapter.getMetadataMap();
+
+    expect(metadata["checkout.submit"]).toEqual({
+      sourceLanguageId: "en",
+      notes: "Checkout button",
+      status: "FOUR_EYES_CHECK",
+    });
+    expect(metadata["Cancel"].status).toBe("TO_TRANSLATE_EXTERNALLY");
+  });
+
+  it("should combine a catalog with a per-language .strings file", async () => {
+    const adapter = await AppleStringsAdapter.createAsync({ en: catalog, fr: "", nl: localizableNl, de: "" });
+    expect(adapter.getTranslationMap()["checkout.submit"].nl).toBe("Indienen");
+    expect(adapter.getSourceIdentifier()).toBe("apple-strings");
+  });
+
+  it("should throw for non-Apple data", async () => {
+    await expect(AppleStringsAdapter.createAsync({ en: "a", fr: "b", nl: "c", de: "d" })).rejects.toThrow(
+      "Invalid data format"
+    );
+  });
+
+  it("should be detected and created through the registry", async () => {
+    const data = { en: "", fr: "", nl: localizableNl, de: "" };
+    expect(detectAdapterType(data)).toBe("apple-strings");
+    expect(detectAdapterType({ en: catalog, fr: "", nl: "", de: "" })).toBe("apple-strings");
+    const adapter = await createAdapter(data);
+    expect(adapter).toBeInstanceOf(AppleStringsAdapter);
+  });
+});
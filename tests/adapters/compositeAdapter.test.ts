@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from "vitest";
+import { CompositeAdapter } from "../../src/adapters/implementations/compositeAdapter";
+import { TraFileAdapter } from "../../src/adapters/implementations/traFileAdapter";
+import type { TranslationDataPort, TranslationPortEntry } from "../../src/ports/translationPort";
+
+async function traPort(en: string, fr = "") {
+  return TraFileAdapter.createAsync({ en, fr, nl: "", de: "" });
+}
+
+/** A port that serves `entries` on demand and materializes nothing */
+function lazyPort(entries: TranslationPortEntry[]) {
+  return {
+    getTranslationMap: () => ({}),
+    getMetadataMap: () => ({}),
+    getTranslationCount: () => entries.length,
+    getSourceIdentifier: () => "lazy",
+    getEntry: vi.fn(async (id: string) => entries.find(e => e.multilanId === id) ?? null),
+    searchText: vi.fn(async (query: string) =>
+      entries.filter(e => Object.values(e.translations).some(text => text.includes(query)))
+    ),
+    iterateEntries: vi.fn(async (onChunk: (chunk: TranslationPortEntry[]) => unknown) => {
+      for (const entry of entries) {
+        if (await onChunk([entry]) === false) return;
+      }
+    }),
+  } satisfies TranslationDataPort;
+}
+
+describe("CompositeAdapter", () => {
+  it("should take each entry from the highest-precedence layer that has it", async () => {
+    const official = await traPort('10001,"Submit"\n10002,"Cancel"\n', '10001,"Soumettre"\n10002,"Annuler"\n');
+    const draft = await traPort('10002,"Dismiss"\n10003,"Place order"\n');
+    const adapter = await CompositeAdapter.createAsync([
+      { name: "draft", port: draft },
+      { name: "official", port: official },
+    ]);
+
+    const map = adapter.getTranslationMap();
+    expect(adapter.getTranslationCount()).toBe(3);
+    expect(map["10001"]).toEqual({ en: "Submit", fr: "Soumettre" });
+    // The whole entry comes from the draft — no FR falls through from below
+    expect(map["10002"]).toEqual({ en: "Dismiss" });
+    expect(map["10003"]).toEqual({ en: "Place order" });
+  });
+
+  it("should record each entry's layer as its origin", async () => {
+    const adapter = await CompositeAdapter.createAsync([
+      { name: "draft", port: await traPort('2,"Draft"\n') },
+      { name: "official", port: await traPort('1,"Official"\n2,"Old"\n') },
+    ]);
+
+    const metadata = adapter.getMetadataMap();
+    expect(metadata["1"].origin).toBe("official");
+    expect(metadata["2"].origin).toBe("draft");
+    expect(adapter.getSourceIdentifier()).toBe("composite(draft,official)");
+  });
+
+  it("should keep the layer's own metadata", async () => {
+    const base = await traPort('1,"Hi"\n');
+    base.getMetadataMap()["1"] = { status: "FINAL" };
+    const adapter = await CompositeAdapter.createAsync([{ name: "official", port: base }]);
+    expect(adapter.getMetadataMap()["1"]).toEqual({ status: "FINAL", origin: "official" });
+  });
+
+  it("should refuse no layers or duplicate layer names", async () => {
+    const port = await traPort('1,"Hi"\n');
+    await expect(CompositeAdapter.createAsync([])).rejects.toThrow("at least one layer");
+    await expect(CompositeAdapter.createAsync([
+      { name: "draft", port },
+      { name: "draft", port },
+    ])).rejects.toThrow('duplicate layer name "draft"');
+  });
+
+  describe("lazy layers", () => {
+    const remote: TranslationPortEntry[] = [
+      { multilanId: "2", translations: { en: "Remote cancel" } },
+      { multilanId: "3", translations: { en: "Remote submit" }, metadata: { status: "FINAL" } },
+    ];
+
+    it("should offer no lazy methods when no layer has them", async () => {
+      const adapter = await CompositeAdapter.createAsync([{ name: "official", port: await traPort('1,"Hi"\n') }]);
+      expect(adapter.getEntry).toBeUndefined();
+      expect(adapter.searchText).toBeUndefined();
+      expect(adapter.iterateEntries).toBeUndefined();
+    });
+
+    it("should get an entry from the first layer that has it", async () => {
+      const remotePort = lazyPort(remote);
+      const adapter = await CompositeAdapter.createAsync([
+        { name: "draft", port: await traPort('2,"Draft cancel"\n') },
+        { name: "official", port: remotePort },
+      ]);
+
+      expect(await adapter.getEntry!("2")).toEqual({
+        multilanId: "2", translations: { en: "Draft cancel" }, metadata: { origin: "draft" },
+      });
+      expect(await adapter.getEntry!("3")).toEqual({
+        multilanId: "3", translations: { en: "Remote submit" }, metadata: { status: "FINAL", origin: "official" },
+      });
+      expect(await adapter.getEntry!("4")).toBeNull();
+      expect(remotePort.getEntry.mock.calls.map(call => call[0])).toEqual(["3", "4"]);
+    });
+
+    it("should search every layer when they all can, resolving each ID by precedence", async () => {
+      const adapter = await CompositeAdapter.createAsync([
+        { name: "draft", port: lazyPort([{ multilanId: "3", translations: { en: "Submit now" } }]) },
+        { name: "official", port: lazyPort(remote) },
+      ]);
+
+      const results = await adapter.searchText!("Remote");
+      expect(results.map(r => [r.multilanId, r.translations.en])).toEqual([
+        ["2", "Remote cancel"],
+        ["3", "Submit now"],
+      ]);
+      expect(await adapter.searchText!("Remote", { limit: 1 })).toHaveLength(1);
+    });
+
+    it("should not search when a layer can't", async () => {
+      const adapter = await CompositeAdapter.createAsync([
+        { name: "draft", port: await traPort('2,"Draft"\n') },
+        { name: "official", port: lazyPort(remote) },
+      ]);
+      expect(adapter.searchText).toBeUndefined();
+    });
+
+    it("should iterate the layers in order without repeating shadowed IDs, and stop when asked", async () => {
+      const adapter = await CompositeAdapter.createAsync([
+        { name: "draft", port: await traPort('2,"Draft cancel"\n') },
+        { name: "official", port: lazyPort(remote) },
+      ]);
+
+      const seen: string[] = [];
+      await adapter.iterateEntries!(chunk => {
+        seen.push(...chunk.map(e => `${e.multilanId}:${e.metadata?.origin}`));
+      });
+      expect(seen).toEqual(["2:draft", "3:official"]);
+
+      const first: string[] = [];
+      await adapter.iterateEntries!(chunk => {
+        first.push(...chunk.map(e => e.multilanId));
+        return false;
+      });
+      expect(first).toEqual(["2"]);
+    });
+  });
+});
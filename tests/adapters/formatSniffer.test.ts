@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { zipSync, strToU8 } from "fflate";
+import { sniffFormat } from "../../src/adapters/formatSniffer";
+
+function sniffText(text: string) {
+  return sniffFormat(strToU8(text));
+}
+
+const searchApiPayload = {
+  resultList: [{ multilan: { id: 1, multilanTextList: [{ id: 11, languageId: 1, wording: "Hi" }] } }],
+  isLastPage: true,
+  numberOfElements: 1,
+  totalElements: 1,
+  totalPages: 1,
+};
+
+const currentApiPayload = [{ id: 1, multilanTextList: [{ id: 11, languageId: "en", wording: "Hi" }] }];
+
+describe("sniffFormat", () => {
+  it("should recognise a zip archive by its signature", () => {
+    expect(sniffFormat(zipSync({ "en.tra": strToU8('1,"Hi"') }))).toEqual({ format: "zip" });
+  });
+
+  it("should recognise .tra content", () => {
+    expect(sniffText('10001,"Submit","All"\n10002,"Cancel","All"\n')).toEqual({ format: "tra" });
+  });
+
+  it("should tell the JSON formats apart", () => {
+    expect(sniffText(JSON.stringify(searchApiPayload))).toEqual({ format: "search-api" });
+    expect(sniffText(JSON.stringify(currentApiPayload))).toEqual({ format: "current-api" });
+    expect(sniffText('{"checkout": {"submit": "Submit"}}')).toEqual({ format: "i18next" });
+    expect(sniffText('{"sourceLanguage": "en", "strings": {}}')).toEqual({ format: "apple" });
+  });
+
+  it("should recognise XML and gettext formats", () => {
+    expect(sniffText('<?xml version="1.0"?><xliff version="1.2"><file target-language="fr"/></xliff>'))
+      .toEqual({ format: "xliff" });
+    expect(sniffText('<resources><string name="submit">Submit</string></resources>')).toEqual({ format: "android" });
+    expect(sniffText('msgid ""\nmsgstr "Language: fr\\n"\n\nmsgid "Submit"\nmsgstr "Soumettre"\n'))
+      .toEqual({ format: "po" });
+  });
+
+  it("should recognise Apple .strings, including UTF-16 files", () => {
+    const strings = '/* Checkout */\n"checkout.submit" = "Submit";\n';
+    expect(sniffText(strings)).toEqual({ format: "apple" });
+
+    const utf16 = new Uint8Array(2 + strings.length * 2);
+    utf16.set([0xff, 0xfe]);
+    for (let i = 0; i < strings.length; i++) utf16[2 + i * 2] = strings.charCodeAt(i);
+    expect(sniffFormat(utf16)).toEqual({ format: "apple" });
+  });
+
+  it("should recognise a spreadsheet export", () => {
+    expect(sniffText("ID;English;French\n1;Hi;Salut\n")).toEqual({ format: "spreadsheet" });
+  });
+
+  it("should judge a truncated JSON sample by its opening", () => {
+    const big = JSON.stringify({ ...searchApiPayload, padding: "x".repeat(70 * 1024) });
+    expect(sniffText(big)).toEqual({ format: "search-api" });
+  });
+
+  it("should give a reason for content it can't load", () => {
+    expect(sniffFormat(new Uint8Array(0))).toEqual({ format: null, reason: "empty file" });
+    expect(sniffFormat(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]))).toEqual({
+      format: null,
+      reason: "binary file",
+    });
+    expect(sniffText("{not json")).toEqual({ format: null, reason: "invalid JSON" });
+    expect(sniffText('[{"name": "x"}]')).toMatchObject({ format: null });
+    expect(sniffText("<html><body/></html>")).toMatchObject({ format: null });
+    expect(sniffText("Just some notes\nabout the release")).toEqual({ format: null, reason: "unrecognized content" });
+  });
+});
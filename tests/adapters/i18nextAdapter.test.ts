@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { I18nextAdapter } from "../../src/adapters/implementations/i18nextAdapter";
+import { createAdapter, detectAdapterType } from "../../src/adapters";
+import {
+  flattenI18nextBundle,
+  parseI18nextBundle,
+  isI18nextFileData,
+} from "../../src/adapters/types/i18next.types";
+
+const enJson = JSON.stringify({
+  checkout: { submit: "Submit", cancel: "Cancel" },
+  "home.title": "Welcome, {{name}}",
+  steps: ["Cart", "Pay"],
+});
+
+const frJson = JSON.stringify({
+  checkout: { submit: "Soumettre" },
+  home: { title: "Bienvenue, {{name}}" },
+});
+
+describe("i18next.types", () => {
+  describe("flattenI18nextBundle", () => {
+    it("should join nested keys with dots and keep flat dotted keys", () => {
+      const flat = flattenI18nextBundle(JSON.parse(enJson));
+      expect(flat.get("checkout.submit")).toBe("Submit");
+      expect(flat.get("checkout.cancel")).toBe("Cancel");
+      expect(flat.get("home.title")).toBe("Welcome, {{name}}");
+    });
+
+    it("should index arrays, stringify scalars and drop nulls", () => {
+      const flat = flattenI18nextBundle({ steps: ["Cart", "Pay"], count: 3, on: true, gone: null, empty: {} });
+      expect(Object.fromEntries(flat)).toEqual({ "steps.0": "Cart", "steps.1": "Pay", count: "3", on: "true" });
+    });
+
+    it("should skip __proto__ keys", () => {
+      const flat = parseI18nextBundle('{"__proto__": {"polluted": "yes"}, "ok": "fine"}');
+      expect(Object.fromEntries(flat)).toEqual({ ok: "fine" });
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+  });
+
+  describe("parseI18nextBundle", () => {
+    it("should throw for JSON that is not an object", () => {
+      expect(() => parseI18nextBundle("[1, 2]")).toThrow("Invalid i18next bundle");
+      expect(() => parseI18nextBundle("{oops")).toThrow();
+    });
+  });
+
+  describe("isI18nextFileData", () => {
+    it("should accept per-language data with at least one JSON object", () => {
+      expect(isI18nextFileData({ en: enJson, fr: "", nl: "", de: "" })).toBe(true);
+    });
+
+    it("should reject .tra data and non-objects", () => {
+      expect(isI18nextFileData({ en: '10001,"Submit"', fr: "", nl: "", de: "" })).toBe(false);
+      expect(isI18nextFileData(null)).toBe(false);
+    });
+  });
+});
+
+describe("I18nextAdapter", () => {
+  const data = { en: enJson, fr: frJson, nl: "", de: "" };
+
+  it("should key translations by flattened dotted keys", async () => {
+    const adapter = await I18nextAdapter.createAsync(data);
+    const map = adapter.getTranslationMap();
+
+    expect(map["checkout.submit"]).toEqual({ en: "Submit", fr: "Soumettre" });
+    expect(map["home.title"]).toEqual({ en: "Welcome, {{name}}", fr: "Bienvenue, {{name}}" });
+    expect(map["steps.1"]).toEqual({ en: "Pay" });
+    expect(adapter.getTranslationCount()).toBe(5);
+  });
+
+  it("should return empty metadata and i18next identifier", async () => {
+    const adapter = await I18nextAdapter.createAsync(data);
+    expect(adapter.getMetadataMap()).toEqual({});
+    expect(adapter.getSourceIdentifier()).toBe("i18next");
+  });
+
+  it("should name the language of a malformed bundle", async () => {
+    await expect(I18nextAdapter.createAsync({ en: enJson, fr: "{ broken }", nl: "", de: "" })).rejects.toThrow(
+      "FR bundle is not valid JSON"
+    );
+  });
+
+  it("should throw for non-JSON data", async () => {
+    await expect(I18nextAdapter.createAsync({ en: "a", fr: "b", nl: "c", de: "d" })).rejects.toThrow(
+      "Invalid data format"
+    );
+  });
+
+  it("should be detected and created through the registry", async () => {
+    expect(detectAdapterType(data)).toBe("i18next");
+    const adapter = await createAdapter(data);
+    expect(adapter).toBeInstanceOf(I18nextAdapter);
+  });
+});
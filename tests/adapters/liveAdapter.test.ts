@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from "vitest";
+import { LiveAdapter } from "../../src/adapters/implementations/liveAdapter";
+import { TraFileAdapter } from "../../src/adapters/implementations/traFileAdapter";
+import type { TranslationChangeEvent, TranslationDataPort } from "../../src/ports/translationPort";
+
+async function traPort(en: string, fr = "") {
+  return TraFileAdapter.createAsync({ en, fr, nl: "", de: "" });
+}
+
+describe("LiveAdapter", () => {
+  it("should serve the wrapped port's data", async () => {
+    const adapter = await LiveAdapter.createAsync(await traPort('1,"Submit"\n', '1,"Soumettre"\n'));
+    expect(adapter.getTranslationMap()["1"]).toEqual({ en: "Submit", fr: "Soumettre" });
+    expect(adapter.getTranslationCount()).toBe(1);
+    expect(adapter.getSourceIdentifier()).toBe("tra-files");
+  });
+
+  it("should report added, changed and removed IDs on replace", async () => {
+    const adapter = await LiveAdapter.createAsync(await traPort('1,"Submit"\n2,"Cancel"\n3,"Back"\n'));
+    const events: TranslationChangeEvent[] = [];
+    adapter.subscribe(event => events.push(event));
+
+    await adapter.replaceAsync(await traPort('1,"Submit"\n2,"Dismiss"\n4,"Next"\n'));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toEqual({
+      added: ["4"],
+      changed: ["2"],
+      removed: ["3"],
+      previous: { "2": { en: "Cancel" }, "3": { en: "Back" } },
+    });
+  });
+
+  it("should patch its maps in place", async () => {
+    const adapter = await LiveAdapter.createAsync(await traPort('1,"Submit"\n2,"Cancel"\n'));
+    const map = adapter.getTranslationMap();
+
+    await adapter.replaceAsync(await traPort('2,"Dismiss"\n'));
+
+    expect(adapter.getTranslationMap()).toBe(map);
+    expect(map).toEqual({ "2": { en: "Dismiss" } });
+  });
+
+  it("should count a metadata-only difference as a change", async () => {
+    const base = await traPort('1,"Submit"\n');
+    const adapter = await LiveAdapter.createAsync(base);
+    const next = await traPort('1,"Submit"\n');
+    next.getMetadataMap()["1"] = { status: "FINAL" };
+
+    const event = await adapter.replaceAsync(next);
+    expect(event.changed).toEqual(["1"]);
+    expect(adapter.getMetadataMap()["1"]).toEqual({ status: "FINAL" });
+  });
+
+  it("should not notify when nothing changed, nor after unsubscribing", async () => {
+    const adapter = await LiveAdapter.createAsync(await traPort('1,"Submit"\n'));
+    const listener = vi.fn();
+    const unsubscribe = adapter.subscribe(listener);
+
+    await adapter.replaceAsync(await traPort('1,"Submit"\n'));
+    expect(listener).not.toHaveBeenCalled();
+
+    unsubscribe();
+    await adapter.replaceAsync(await traPort('1,"Send"\n'));
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should forward the current port's lazy methods, and drop them when the new port has none", async () => {
+    const entry = { multilanId: "9", translations: { en: "Remote" } };
+    const lazy: TranslationDataPort = {
+      getTranslationMap: () => ({}),
+      getMetadataMap: () => ({}),
+      getTranslationCount: () => 1,
+      getSourceIdentifier: () => "lazy",
+      getEntry: vi.fn(async () => entry),
+      searchText: vi.fn(async () => [entry]),
+      iterateEntries: vi.fn(async onChunk => { await onChunk([entry]); }),
+    };
+    const adapter = await LiveAdapter.createAsync(lazy);
+
+    expect(await adapter.getEntry?.("9")).toBe(entry);
+    expect(await adapter.searchText?.("Rem", { limit: 5 })).toEqual([entry]);
+    expect(lazy.searchText).toHaveBeenCalledWith("Rem", { limit: 5 });
+    const chunks: unknown[] = [];
+    await adapter.iterateEntries?.(chunk => { chunks.push(chunk); });
+    expect(chunks).toEqual([[entry]]);
+
+    await adapter.replaceAsync(await traPort('1,"Submit"\n'));
+    expect(adapter.getEntry).toBeUndefined();
+    expect(adapter.searchText).toBeUndefined();
+    expect(adapter.iterateEntries).toBeUndefined();
+  });
+});
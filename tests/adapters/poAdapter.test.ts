@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import { PoAdapter } from "../../src/adapters/implementations/poAdapter";
+import { createAdapter, detectAdapterType } from "../../src/adapters";
+import { parsePo, isPoFileData, getPoEntryKey } from "../../src/adapters/types/po.types";
+
+const poFr = `# French translation
+msgid ""
+msgstr ""
+"Language: fr_BE\\n"
+"Content-Type: text/plain; charset=UTF-8\\n"
+
+# Checkout button label
+#: src/checkout.ts:12
+msgctxt "10001"
+msgid "Submit"
+msgstr "Soumettre"
+
+# Keep it short
+#, fuzzy, c-format
+msgctxt "10002"
+msgid "Say \\"Hello\\""
+msgstr ""
+"Dites "
+"\\"Bonjour\\""
+
+msgctxt "10003"
+msgid "One file"
+msgid_plural "###count### files"
+msgstr[0] "Un fichier"
+msgstr[1] "###count### fichiers"
+
+msgid "Untranslated"
+msgstr ""
+
+#~ msgctxt "99999"
+#~ msgid "Old"
+#~ msgstr "Ancien"
+`;
+
+const poNl = `msgid ""
+msgstr ""
+"Language: nl\\n"
+
+# Checkout button label
+msgctxt "10001"
+msgid "Submit"
+msgstr "Indienen"
+# Different comment
+msgctxt "10002"
+msgid "Say \\"Hello\\""
+msgstr "Zeg \\"Hallo\\""
+`;
+
+describe("po.types", () => {
+  describe("parsePo", () => {
+    it("should read the Language header and skip the header entry", () => {
+      const doc = parsePo(poFr);
+      expect(doc.language).toBe("fr-BE");
+      expect(doc.entries.map(getPoEntryKey)).toEqual(["10001", "10002", "10003", "Untranslated"]);
+    });
+
+    it("should keep regional variants of a language apart", () => {
+      expect(parsePo(poFr.replace("Language: fr_BE", "Language: fr_FR@euro")).language).toBe("fr-FR");
+    });
+
+    it("should keep translator comments but not reference comments", () => {
+      const doc = parsePo(poFr);
+      expect(doc.entries[0]).toEqual({
+        msgctxt: "10001",
+        msgid: "Submit",
+        msgidPlural: undefined,
+        msgstr: "Soumettre",
+        fuzzy: false,
+        translatorComments: ["Checkout button label"],
+      });
+    });
+
+    it("should join continuation lines, unescape quotes and read the fuzzy flag", () => {
+      const entry = parsePo(poFr).entries[1];
+      expect(entry.msgid).toBe('Say "Hello"');
+      expect(entry.msgstr).toBe('Dites "Bonjour"');
+      expect(entry.fuzzy).toBe(true);
+    });
+
+    it("should use msgstr[0] for plural entries", () => {
+      const entry = parsePo(poFr).entries[2];
+      expect(entry.msgidPlural).toBe("###count### files");
+      expect(entry.msgstr).toBe("Un fichier");
+    });
+
+    it("should start a new entry on a comment without a blank line", () => {
+      const doc = parsePo(poNl);
+      expect(doc.entries).toHaveLength(2);
+      expect(doc.entries[1].translatorComments).toEqual(["Different comment"]);
+    });
+  });
+
+  describe("isPoFileData", () => {
+    it("should accept per-language data with at least one PO file", () => {
+      expect(isPoFileData({ en: "", fr: poFr, nl: "", de: "" })).toBe(true);
+    });
+
+    it("should reject .tra data and non-objects", () => {
+      expect(isPoFileData({ en: '10001,"Submit"', fr: "", nl: "", de: "" })).toBe(false);
+      expect(isPoFileData(null)).toBe(false);
+    });
+  });
+});
+
+describe("PoAdapter", () => {
+  const data = { en: "", fr: poFr, nl: poNl, de: "" };
+
+  it("should build translations from msgstr and fill EN from msgid", async () => {
+    const adapter = await PoAdapter.createAsync(data);
+    const map = adapter.getTranslationMap();
+
+    expect(map["10001"]).toEqual({ fr: "Soumettre", nl: "Indienen", en: "Submit" });
+    expect(map["Untranslated"]).toEqual({ en: "Untranslated" });
+    expect(adapter.getTranslationCount()).toBe(4);
+  });
+
+  it("should mark fuzzy entries as DRAFT and collect translator comments as notes", async () => {
+    const adapter = await PoAdapter.createAsync(data);
+    const metadata = adapter.getMetadataMap();
+
+    expect(metadata["10001"]).toEqual({ sourceLanguageId: "en", notes: "Checkout button label" });
+    expect(metadata["10002"]).toEqual({
+      sourceLanguageId: "en",
+      status: "DRAFT",
+      notes: "Keep it short\nDifferent comment",
+    });
+  });
+
+  it("should let an uploaded EN file win over msgids", async () => {
+    const poEn = 'msgctxt "10001"\nmsgid "Submit"\nmsgstr "Send"\n';
+    const adapter = await PoAdapter.createAsync({ ...data, en: poEn });
+    expect(adapter.getTranslationMap()["10001"].en).toBe("Send");
+  });
+
+  it("should return po identifier", async () => {
+    const adapter = await PoAdapter.createAsync(data);
+    expect(adapter.getSourceIdentifier()).toBe("po");
+  });
+
+  it("should throw for non-PO data", async () => {
+    await expect(PoAdapter.createAsync({ en: "a", fr: "b", nl: "c", de: "d" })).rejects.toThrow(
+      "Invalid data format"
+    );
+  });
+
+  it("should be detected and created through the registry", async () => {
+    expect(detectAdapterType(data)).toBe("po");
+    const adapter = await createAdapter(data);
+    expect(adapter).toBeInstanceOf(PoAdapter);
+  });
+});
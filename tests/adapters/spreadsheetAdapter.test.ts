@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import { SpreadsheetAdapter } from "../../src/adapters/implementations/spreadsheetAdapter";
+import { createAdapter, detectAdapterType } from "../../src/adapters";
+import {
+  parseCsvRows,
+  guessColumnMapping,
+  toCanonicalSheet,
+  parseSpreadsheet,
+  parseSpreadsheetStatus,
+  isSpreadsheetFileData,
+} from "../../src/adapters/types/spreadsheet.types";
+
+const canonicalSheet = `id,en,fr,nl,de,status,notes
+10001,Submit,Soumettre,Indienen,Einreichen,FINAL,Checkout button
+checkout.cancel,Cancel,Annuler,,,Four eyes check,
+10003,"Say ""Hi""
+twice",,,,unknown,`;
+
+describe("spreadsheet.types", () => {
+  describe("parseCsvRows", () => {
+    it("should handle quotes, escaped quotes, embedded newlines and CRLF", () => {
+      const rows = parseCsvRows('id,en\r\n1,"a, ""b""\nc"\r\n\r\n2,d');
+      expect(rows).toEqual([["id", "en"], ["1", 'a, "b"\nc'], ["2", "d"]]);
+    });
+
+    it("should detect semicolon-delimited exports and strip a BOM", () => {
+      expect(parseCsvRows("﻿ID;English\n1;Hi")).toEqual([["ID", "English"], ["1", "Hi"]]);
+    });
+  });
+
+  describe("guessColumnMapping", () => {
+    it("should recognise common header names", () => {
+      expect(guessColumnMapping(["Multilan ID", "English", "fr-BE", "Comment", "State", "Dutch"])).toEqual({
+        id: 0, en: 1, "fr-BE": 2, notes: 3, status: 4, nl: 5,
+      });
+    });
+
+    it("should take any locale code as a language column", () => {
+      expect(guessColumnMapping(["ID", "ES", "pt_br", "zh-Hant-TW", "Ref", "Text"])).toEqual({
+        id: 0, es: 1, "pt-BR": 2, "zh-Hant-TW": 3,
+      });
+    });
+  });
+
+  describe("toCanonicalSheet", () => {
+    it("should keep mapped columns under canonical names and drop rows without ID", () => {
+      const rows = [["Key", "Ignored", "Text NL"], ["a", "x", "Hallo"], ["", "y", "Orphan"]];
+      expect(toCanonicalSheet(rows, { id: 0, nl: 2 })).toBe("id,nl\na,Hallo");
+    });
+
+    it("should name language columns by locale code, in column order", () => {
+      const rows = [["Notes", "Key", "Portuguese (BR)", "Spanish"], ["n", "a", "Olá", "Hola"]];
+      expect(toCanonicalSheet(rows, { notes: 0, id: 1, "pt-BR": 2, es: 3 })).toBe("id,pt-BR,es,notes\na,Olá,Hola,n");
+    });
+  });
+
+  describe("parseSpreadsheetStatus", () => {
+    it("should accept enum names in any case and spacing", () => {
+      expect(parseSpreadsheetStatus("final")).toBe("FINAL");
+      expect(parseSpreadsheetStatus("Four eyes check")).toBe("FOUR_EYES_CHECK");
+      expect(parseSpreadsheetStatus("to-translate-externally")).toBe("TO_TRANSLATE_EXTERNALLY");
+      expect(parseSpreadsheetStatus("done")).toBeUndefined();
+    });
+  });
+
+  describe("parseSpreadsheet", () => {
+    it("should read translations, status and notes per row", () => {
+      const rows = parseSpreadsheet(canonicalSheet);
+      expect(rows[0]).toEqual({
+        id: "10001",
+        translations: { en: "Submit", fr: "Soumettre", nl: "Indienen", de: "Einreichen" },
+        status: "FINAL",
+        notes: "Checkout button",
+      });
+      expect(rows[1]).toEqual({
+        id: "checkout.cancel",
+        translations: { en: "Cancel", fr: "Annuler" },
+        status: "FOUR_EYES_CHECK",
+      });
+      expect(rows[2]).toEqual({ id: "10003", translations: { en: 'Say "Hi"\ntwice' } });
+    });
+
+    it("should read columns of any locale", () => {
+      const rows = parseSpreadsheet("id,en,es,pt-BR\n1,Submit,Enviar,Enviar\n2,Cancel,Cancelar,");
+      expect(rows).toEqual([
+        { id: "1", translations: { en: "Submit", es: "Enviar", "pt-BR": "Enviar" } },
+        { id: "2", translations: { en: "Cancel", es: "Cancelar" } },
+      ]);
+    });
+
+    it("should throw when the header has no ID or no language column", () => {
+      expect(() => parseSpreadsheet("en,fr\nHi,Salut")).toThrow("no ID column");
+      expect(() => parseSpreadsheet("id,status\n1,FINAL")).toThrow("no language column");
+    });
+  });
+
+  describe("isSpreadsheetFileData", () => {
+    it("should accept a sheet in the en slot", () => {
+      expect(isSpreadsheetFileData({ en: canonicalSheet, fr: "", nl: "", de: "" })).toBe(true);
+    });
+
+    it("should accept a sheet without any of the default languages", () => {
+      expect(isSpreadsheetFileData({ en: "id,es,pt-BR\n1,Hola,Olá" })).toBe(true);
+    });
+
+    it("should reject .tra data and non-objects", () => {
+      expect(isSpreadsheetFileData({ en: '10001,"Submit","All"', fr: "", nl: "", de: "" })).toBe(false);
+      expect(isSpreadsheetFileData(null)).toBe(false);
+    });
+  });
+});
+
+describe("SpreadsheetAdapter", () => {
+  const data = { en: canonicalSheet, fr: "", nl: "", de: "" };
+
+  it("should build translations for every language column", async () => {
+    const adapter = await SpreadsheetAdapter.createAsync(data);
+    const map = adapter.getTranslationMap();
+
+    expect(map["10001"]).toEqual({ en: "Submit", fr: "Soumettre", nl: "Indienen", de: "Einreichen" });
+    expect(map["checkout.cancel"]).toEqual({ en: "Cancel", fr: "Annuler" });
+    expect(adapter.getTranslationCount()).toBe(3);
+  });
+
+  it("should feed status and notes into metadata", async () => {
+    const adapter = await SpreadsheetAdapter.createAsync(data);
+    const metadata = adapter.getMetadataMap();
+
+    expect(metadata["10001"]).toEqual({ status: "FINAL", notes: "Checkout button" });
+    expect(metadata["checkout.cancel"]).toEqual({ status: "FOUR_EYES_CHECK" });
+    expect(metadata["10003"]).toBeUndefined();
+  });
+
+  it("should let a repeated ID fill in missing languages without overriding", async () => {
+    const sheet = "id,en,fr\n1,Hi,\n1,Hello,Salut";
+    const adapter = await SpreadsheetAdapter.createAsync({ en: sheet, fr: "", nl: "", de: "" });
+    expect(adapter.getTranslationMap()["1"]).toEqual({ en: "Hi", fr: "Salut" });
+  });
+
+  it("should build translations for locales beyond the defaults", async () => {
+    const adapter = await SpreadsheetAdapter.createAsync({ en: "id,es,pt-BR\n10001,Enviar,Enviar agora" });
+    expect(adapter.getTranslationMap()["10001"]).toEqual({ es: "Enviar", "pt-BR": "Enviar agora" });
+  });
+
+  it("should keep regional variants of a language apart", async () => {
+    const sheet = toCanonicalSheet(
+      [["ID", "fr_BE", "FR-fr"], ["10001", "Soumettre", "Valider"]],
+      guessColumnMapping(["ID", "fr_BE", "FR-fr"])
+    );
+    const adapter = await SpreadsheetAdapter.createAsync({ en: sheet });
+    expect(adapter.getTranslationMap()["10001"]).toEqual({ "fr-BE": "Soumettre", "fr-FR": "Valider" });
+  });
+
+  it("should return spreadsheet identifier", async () => {
+    const adapter = await SpreadsheetAdapter.createAsync(data);
+    expect(adapter.getSourceIdentifier()).toBe("spreadsheet");
+  });
+
+  it("should throw for data without a sheet header", async () => {
+    await expect(SpreadsheetAdapter.createAsync({ en: "a", fr: "b", nl: "c", de: "d" })).rejects.toThrow(
+      "Invalid data format"
+    );
+  });
+
+  it("should be detected and created through the registry", async () => {
+    expect(detectAdapterType(data)).toBe("spreadsheet");
+    const adapter = await createAdapter(data);
+    expect(adapter).toBeInstanceOf(SpreadsheetAdapter);
+  });
+});
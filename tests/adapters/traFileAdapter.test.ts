@@ -1,6 +1,13 @@
 import { describe, it, expect } from "vitest";
 import { TraFileAdapter } from "../../src/adapters/implementations/traFileAdapter";
-import { parseTraLine, parseTraFile, isTraFileData } from "../../src/adapters/types/traFile.types";
+import {
+  parseTraLine,
+  parseTraFile,
+  parseTraFileDetailed,
+  parseTraFileDetailedAsync,
+  TraRecordParser,
+  isTraFileData,
+} from "../../src/adapters/types/traFile.types";
 
 describe("traFile.types", () => {
   describe("parseTraLine", () => {
@@ -33,6 +40,16 @@ describe("traFile.types", () => {
       const result = parseTraLine('10004,"Just text"');
       expect(result).toEqual({ id: "10004", text: "Just text" });
     });
+
+    it("should accept non-numeric keys as ids", () => {
+      expect(parseTraLine('checkout.submit,"Submit","All"')).toEqual({ id: "checkout.submit", text: "Submit" });
+      expect(parseTraLine("home_title,Welcome")).toEqual({ id: "home_title", text: "Welcome" });
+    });
+
+    it("should return null for lines without an id", () => {
+      expect(parseTraLine('"Submit","All"')).toBeNull();
+      expect(parseTraLine("just some text")).toBeNull();
+    });
   });
 
   describe("parseTraFile", () => {
@@ -65,6 +82,80 @@ describe("traFile.types", () => {
     });
   });
 
+  describe("parseTraFileDetailed", () => {
+    it("should keep line breaks inside quoted values", () => {
+      const { entries, diagnostics } = parseTraFileDetailed('1,"First line\nsecond line","All"\r\n2,"Two\r\nlines"\n3,"Three"');
+      expect(entries.get("1")).toBe("First line\nsecond line");
+      expect(entries.get("2")).toBe("Two\nlines");
+      expect(entries.get("3")).toBe("Three");
+      expect(diagnostics).toEqual([]);
+    });
+
+    it("should unescape doubled quotes, including around line breaks", () => {
+      const { entries } = parseTraFileDetailed('1,"Say ""Hi""\n""there""","All"');
+      expect(entries.get("1")).toBe('Say "Hi"\n"there"');
+    });
+
+    it("should accept CR-only line endings and a byte-order mark", () => {
+      const { entries } = parseTraFileDetailed('\ufeff1,"One"\r2,"Two"');
+      expect([...entries.keys()]).toEqual(["1", "2"]);
+    });
+
+    it("should report records it can't read with their line and text", () => {
+      const content = [
+        '1,"Fine"',
+        '"Submit","All"',
+        "just some text",
+        'bad id,"Text"',
+        '2,"Multi',
+        'line","All"',
+        '3,"Trailing"junk,"All"',
+        '4,"Never closed',
+      ].join("\n");
+      const { entries, diagnostics, records, skipped } = parseTraFileDetailed(content);
+
+      expect([...entries.keys()]).toEqual(["1", "2", "3"]);
+      expect(entries.get("3")).toBe("Trailing");
+      expect(records).toBe(7);
+      expect(skipped).toBe(4);
+      expect(diagnostics).toEqual([
+        { line: 2, reason: "missing multilanId", snippet: '"Submit","All"' },
+        { line: 3, reason: 'no comma — expected multilanId,"text"', snippet: "just some text" },
+        { line: 4, reason: 'invalid multilanId "bad id"', snippet: 'bad id,"Text"' },
+        { line: 7, reason: "unexpected text after a closing quote", snippet: '3,"Trailing"j' },
+        { line: 8, reason: "unterminated quoted value — the closing quote is missing", snippet: '4,"Never closed' },
+      ]);
+    });
+
+    it("should report duplicate IDs and keep the later record", () => {
+      const { entries, diagnostics } = parseTraFileDetailed('1,"First"\n2,"Two"\n1,"Second"');
+      expect(entries.get("1")).toBe("Second");
+      expect(diagnostics).toEqual([{
+        line: 3,
+        reason: 'duplicate multilanId "1" — this record replaces the one on line 1',
+        snippet: '1,"Second"',
+        duplicateOfLine: 1,
+      }]);
+    });
+
+    it("should shorten long snippets", () => {
+      const { diagnostics } = parseTraFileDetailed(`,"${"x".repeat(100)}"`);
+      expect(diagnostics[0].snippet).toHaveLength(61);
+      expect(diagnostics[0].snippet.endsWith("…")).toBe(true);
+    });
+
+    it("should give the same result however the input is split", async () => {
+      const content = '1,"Say ""Hi""\r\nagain","All"\r\n2,"Two"\r\n"bad",x\r\n3,"C:\\"';
+      const whole = parseTraFileDetailed(content);
+
+      const parser = new TraRecordParser();
+      for (const ch of content) parser.write(ch);
+      expect(parser.end()).toEqual(whole);
+      expect(await parseTraFileDetailedAsync(content, 3)).toEqual(whole);
+      expect(whole.entries.get("1")).toBe('Say "Hi"\nagain');
+    });
+  });
+
   describe("isTraFileData", () => {
     it("should return true for valid TraFileData", () => {
       const data = {
@@ -76,14 +167,14 @@ describe("traFile.types", () => {
       expect(isTraFileData(data)).toBe(true);
     });
 
-    it("should return false for missing language", () => {
-      const data = {
-        en: "content",
-        fr: "contenu",
-        nl: "inhoud",
-        // de is missing
-      };
-      expect(isTraFileData(data)).toBe(false);
+    it("should accept any set of languages", () => {
+      expect(isTraFileData({ en: "content", lb: "inhalt" })).toBe(true);
+      expect(isTraFileData({ fr: "contenu" })).toBe(true);
+    });
+
+    it("should return false for keys that aren't language codes", () => {
+      expect(isTraFileData({ en: "content", English: "content" })).toBe(false);
+      expect(isTraFileData({ fr_BE: "contenu" })).toBe(false);
     });
 
     it("should return false for non-string values", () => {
@@ -153,6 +244,14 @@ describe("TraFileAdapter", () => {
       });
     });
 
+    it("should read languages beyond the default four", async () => {
+      const adapter = await TraFileAdapter.createAsync({
+        en: `10001,"Submit","All"`,
+        lb: `10001,"Ofschécken","All"`,
+      });
+      expect(adapter.getTranslationMap()["10001"]).toEqual({ en: "Submit", lb: "Ofschécken" });
+    });
+
     it("should handle missing translations in some languages", async () => {
       const partialData = {
         en: `10001,"Submit","All"`,
@@ -171,6 +270,27 @@ describe("TraFileAdapter", () => {
     });
   });
 
+  describe("getDiagnostics", () => {
+    it("should report unreadable records per language", async () => {
+      const adapter = await TraFileAdapter.createAsync({
+        en: '10001,"Submit"\n10002,"Cancel',
+        fr: '10001,"Soumettre"',
+        nl: "oops",
+        de: "",
+      });
+      expect(adapter.getTranslationCount()).toBe(1);
+      expect(adapter.getDiagnostics()).toEqual([
+        { language: "en", line: 2, reason: "unterminated quoted value — the closing quote is missing", snippet: '10002,"Cancel' },
+        { language: "nl", line: 1, reason: 'no comma — expected multilanId,"text"', snippet: "oops" },
+      ]);
+    });
+
+    it("should be empty for clean files", async () => {
+      const adapter = await TraFileAdapter.createAsync(sampleTraData);
+      expect(adapter.getDiagnostics()).toEqual([]);
+    });
+  });
+
   describe("getMetadataMap", () => {
     it("should return empty metadata map", async () => {
       const adapter = await TraFileAdapter.createAsync(sampleTraData);
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { diffTranslationMaps } from "../../src/adapters/uploadDiff";
+import { DEFAULT_LANGUAGES } from "../../src/shared/types";
+
+describe("diffTranslationMaps", () => {
+  it("should sort changed IDs into added, removed and reworded per language", async () => {
+    const previous = {
+      "1": { en: "Submit", fr: "Soumettre" },
+      "2": { en: "Cancel", fr: "Annuler" },
+      "3": { en: "Old" },
+    };
+    const next = {
+      "1": { en: "Send", fr: "Soumettre" },
+      "2": { en: "Cancel" },
+      "4": { en: "New", fr: "Nouveau" },
+    };
+
+    const diff = await diffTranslationMaps(previous, next, DEFAULT_LANGUAGES);
+    expect(diff).toEqual({
+      en: { added: ["4"], removed: ["3"], reworded: ["1"] },
+      fr: { added: ["4"], removed: ["2"], reworded: [] },
+    });
+  });
+
+  it("should leave out languages without changes", async () => {
+    const map = { "1": { en: "Hi", nl: "Hoi" } };
+    expect(await diffTranslationMaps(map, { "1": { en: "Hi", nl: "Hallo" } }, DEFAULT_LANGUAGES)).toEqual({
+      nl: { added: [], removed: [], reworded: ["1"] },
+    });
+    expect(await diffTranslationMaps(map, map, DEFAULT_LANGUAGES)).toEqual({});
+  });
+
+  it("should report everything as added when nothing was stored", async () => {
+    const diff = await diffTranslationMaps({}, { a: { de: "Hallo" }, b: { de: "Tschüss" } }, DEFAULT_LANGUAGES);
+    expect(diff).toEqual({ de: { added: ["a", "b"], removed: [], reworded: [] } });
+  });
+
+  it("should only compare the given languages", async () => {
+    const diff = await diffTranslationMaps({ "1": { en: "A", fr: "A" } }, { "1": { en: "B", fr: "B" } }, ["fr"]);
+    expect(Object.keys(diff)).toEqual(["fr"]);
+  });
+});
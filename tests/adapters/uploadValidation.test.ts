@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { validateUpload } from "../../src/adapters/uploadValidation";
+import type { UploadIssue } from "../../src/adapters/uploadValidation";
+
+function kinds(issues: UploadIssue[]) {
+  return issues.map(issue => issue.kind);
+}
+
+describe("validateUpload", () => {
+  it("should report nothing for consistent files", async () => {
+    const report = await validateUpload(
+      {
+        en: '1,"Hello ###name###"\n2,"Bye"\n',
+        fr: '1,"Bonjour ###name###"\n2,"Au revoir"\n',
+        nl: "",
+        de: "",
+      },
+      "tra",
+      ["en", "fr"]
+    );
+    expect(report.translationCount).toBe(2);
+    expect(report.issues).toEqual([]);
+  });
+
+  it("should report duplicate IDs with the line of the earlier record", async () => {
+    const report = await validateUpload({ en: '1,"A"\n2,"B"\n1,"C"\n', fr: "", nl: "", de: "" }, "tra", ["en"]);
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0]).toMatchObject({ kind: "duplicate-id", language: "en", line: 3 });
+    expect(report.issues[0].message).toContain("line 1");
+  });
+
+  it("should report unreadable records as parse issues", async () => {
+    const report = await validateUpload({ en: '1,"A"\njust some text\n', fr: "", nl: "", de: "" }, "tra", ["en"]);
+    expect(kinds(report.issues)).toEqual(["parse"]);
+    expect(report.issues[0].line).toBe(2);
+  });
+
+  it("should report IDs missing from some uploaded languages", async () => {
+    const report = await validateUpload({ en: '1,"A"\n2,"B"\n', fr: '1,"A fr"\n', nl: "", de: "" }, "tra", ["en", "fr"]);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ kind: "missing-language", multilanId: "2", message: "2 has no FR text" }),
+    ]);
+  });
+
+  it("should report empty wordings", async () => {
+    const report = await validateUpload({ en: '1,"A"\n2,"  "\n', fr: "", nl: "", de: "" }, "tra", ["en"]);
+    expect(report.issues).toEqual([expect.objectContaining({ kind: "empty-wording", multilanId: "2", language: "en" })]);
+  });
+
+  it("should report variable sets that differ between languages", async () => {
+    const report = await validateUpload(
+      { en: '1,"Hi ###first### ###last###"\n', fr: '1,"Salut ###first###"\n', nl: "", de: "" },
+      "tra",
+      ["en", "fr"]
+    );
+    expect(kinds(report.issues)).toEqual(["placeholder-mismatch"]);
+    expect(report.issues[0].message).toContain("EN ###first### ###last### · FR ###first###");
+  });
+
+  it("should ignore the order of variables", async () => {
+    const report = await validateUpload(
+      { en: '1,"###a### and ###b###"\n', fr: '1,"###b### et ###a###"\n', nl: "", de: "" },
+      "tra",
+      ["en", "fr"]
+    );
+    expect(report.issues).toEqual([]);
+  });
+
+  it("should flag text that looks like UTF-8 read as windows-1252", async () => {
+    const report = await validateUpload(
+      { en: '1,"Caf\u00c3\u00a9"\n2,"Don\u00e2\u20ac\u2122t"\n3,"D\u00e9j\u00e0 vu"\n', fr: "", nl: "", de: "" },
+      "tra",
+      ["en"]
+    );
+    expect(report.issues.map(issue => issue.multilanId)).toEqual(["1", "2"]);
+    expect(kinds(report.issues)).toEqual(["mojibake", "mojibake"]);
+  });
+
+  it("should report files read with the windows-1252 fallback", async () => {
+    const report = await validateUpload({ en: '1,"A"\n', fr: "", nl: "", de: "" }, "tra", ["en"], {
+      fallbackLanguages: ["en"],
+    });
+    expect(report.issues).toEqual([expect.objectContaining({ kind: "mojibake", language: "en" })]);
+  });
+
+  it("should validate other formats through their adapter", async () => {
+    const payload = JSON.stringify({
+      totalElements: 1,
+      resultList: [
+        {
+          multilan: {
+            id: 1,
+            multilanTextList: [
+              { id: 11, languageId: 3, wording: "Hi" },
+              { id: 12, languageId: 2, wording: "" },
+            ],
+          },
+        },
+      ],
+    });
+    const report = await validateUpload({ en: payload, fr: "", nl: "", de: "" }, "search-api", ["en", "fr"]);
+    expect(report.translationCount).toBe(1);
+    // The search-API adapter drops empty wordings, so FR reads as missing
+    expect(report.issues).toEqual([expect.objectContaining({ kind: "missing-language", message: "1 has no FR text" })]);
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect } from "vitest";
+import { XliffAdapter } from "../../src/adapters/implementations/xliffAdapter";
+import { createAdapter, detectAdapterType } from "../../src/adapters";
+import {
+  parseXliff,
+  readXliffLanguages,
+  xliffStateToStatus,
+  isXliffFileData,
+} from "../../src/adapters/types/xliff.types";
+
+const xliff12Fr = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file source-language="en-BE" target-language="fr-BE" datatype="plaintext" original="app">
+    <body>
+      <trans-unit id="10001" approved="yes">
+        <source>Submit</source>
+        <target>Soumettre</target>
+      </trans-unit>
+      <trans-unit id="10002">
+        <source>Say &quot;Hello&quot; &amp; wave</source>
+        <target state="needs-review-translation">Dites &quot;Bonjour&quot; &amp; saluez</target>
+        <alt-trans><target>Ignored TM suggestion</target></alt-trans>
+      </trans-unit>
+      <trans-unit id="10003">
+        <source>Hello <g id="1">###name###</g>!</source>
+        <target state="new"/>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>`;
+
+const xliff20Nl = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en" trgLang="nl">
+  <file id="f1">
+    <unit id="10001">
+      <segment state="final">
+        <source>Submit</source>
+        <target>Indienen</target>
+      </segment>
+    </unit>
+    <unit id="10002">
+      <segment state="translated">
+        <source>First sentence.</source>
+        <target>Eerste zin.</target>
+      </segment>
+      <ignorable>
+        <source> </source>
+        <target> </target>
+      </ignorable>
+      <segment>
+        <source>Second.</source>
+        <target><![CDATA[Tweede <b>zin</b>.]]></target>
+      </segment>
+    </unit>
+  </file>
+</xliff>`;
+
+describe("xliff.types", () => {
+  describe("parseXliff", () => {
+    it("should parse XLIFF 1.2 trans-units with languages from <file>", () => {
+      const doc = parseXliff(xliff12Fr);
+
+      expect(doc.version).toBe("1.2");
+      expect(doc.sourceLanguage).toBe("en-BE");
+      expect(doc.targetLanguage).toBe("fr-BE");
+      expect(doc.units).toHaveLength(3);
+      expect(doc.units[0]).toEqual({
+        id: "10001", source: "Submit", target: "Soumettre", state: undefined, approved: true,
+      });
+    });
+
+    it("should decode entities and ignore alt-trans targets", () => {
+      const doc = parseXliff(xliff12Fr);
+      expect(doc.units[1].source).toBe('Say "Hello" & wave');
+      expect(doc.units[1].target).toBe('Dites "Bonjour" & saluez');
+      expect(doc.units[1].state).toBe("needs-review-translation");
+    });
+
+    it("should flatten inline tags and treat self-closing targets as empty", () => {
+      const doc = parseXliff(xliff12Fr);
+      expect(doc.units[2].source).toBe("Hello ###name###!");
+      expect(doc.units[2].target).toBe("");
+      expect(doc.units[2].state).toBe("new");
+    });
+
+    it("should parse XLIFF 2.0 units, joining segments and keeping CDATA verbatim", () => {
+      const doc = parseXliff(xliff20Nl);
+
+      expect(doc.version).toBe("2.0");
+      expect(doc.sourceLanguage).toBe("en");
+      expect(doc.targetLanguage).toBe("nl");
+      expect(doc.units[0]).toMatchObject({ id: "10001", target: "Indienen", state: "final" });
+      expect(doc.units[1].source).toBe("First sentence. Second.");
+      expect(doc.units[1].target).toBe("Eerste zin. Tweede <b>zin</b>.");
+    });
+
+    it("should throw for content without an <xliff> root", () => {
+      expect(() => parseXliff('10001,"Submit","All"')).toThrow("Invalid XLIFF");
+    });
+  });
+
+  describe("readXliffLanguages", () => {
+    it("should read 1.2 and 2.0 language attributes", () => {
+      expect(readXliffLanguages(xliff12Fr)).toEqual({ sourceLanguage: "en-BE", targetLanguage: "fr-BE" });
+      expect(readXliffLanguages(xliff20Nl)).toEqual({ sourceLanguage: "en", targetLanguage: "nl" });
+    });
+
+    it("should keep the region and canonicalize its case", () => {
+      const frFr = xliff12Fr.replace('target-language="fr-BE"', 'target-language="fr_fr"');
+      expect(readXliffLanguages(frFr).targetLanguage).toBe("fr-FR");
+    });
+  });
+
+  describe("xliffStateToStatus", () => {
+    it("should map 1.2 and 2.0 states onto MultilanStatus", () => {
+      expect(xliffStateToStatus("new")).toBe("TO_TRANSLATE_EXTERNALLY");
+      expect(xliffStateToStatus("initial")).toBe("TO_TRANSLATE_EXTERNALLY");
+      expect(xliffStateToStatus("translated")).toBe("IN_TRANSLATION");
+      expect(xliffStateToStatus("needs-review-l10n")).toBe("FOUR_EYES_CHECK");
+      expect(xliffStateToStatus("reviewed")).toBe("FOUR_EYES_CHECK");
+      expect(xliffStateToStatus("signed-off")).toBe("FINAL");
+      expect(xliffStateToStatus("final")).toBe("FINAL");
+    });
+
+    it("should treat approved units without state as FINAL", () => {
+      expect(xliffStateToStatus(undefined, true)).toBe("FINAL");
+      expect(xliffStateToStatus(undefined, false)).toBeUndefined();
+      expect(xliffStateToStatus("x-custom")).toBeUndefined();
+    });
+  });
+
+  describe("isXliffFileData", () => {
+    it("should accept per-language data with at least one XLIFF document", () => {
+      expect(isXliffFileData({ en: "", fr: xliff12Fr, nl: "", de: "" })).toBe(true);
+    });
+
+    it("should reject .tra data and non-objects", () => {
+      expect(isXliffFileData({ en: '10001,"Submit"', fr: "", nl: "", de: "" })).toBe(false);
+      expect(isXliffFileData({ en: "", fr: "", nl: "", de: "" })).toBe(false);
+      expect(isXliffFileData(null)).toBe(false);
+    });
+  });
+});
+
+describe("XliffAdapter", () => {
+  const data = { en: "", fr: xliff12Fr, nl: xliff20Nl, de: "" };
+
+  it("should build translations from targets and fill the source language", async () => {
+    const adapter = await XliffAdapter.createAsync(data);
+    const map = adapter.getTranslationMap();
+
+    expect(map["10001"]).toEqual({ en: "Submit", fr: "Soumettre", nl: "Indienen" });
+    expect(map["10003"]).toEqual({ en: "Hello ###name###!" });
+    expect(adapter.getTranslationCount()).toBe(3);
+  });
+
+  it("should let an uploaded source-language file win over XLIFF sources", async () => {
+    const enFile = xliff12Fr
+      .replace('target-language="fr-BE"', 'target-language="en-GB"')
+      .replace("<target>Soumettre</target>", "<target>Send</target>");
+    const adapter = await XliffAdapter.createAsync({ en: enFile, fr: xliff12Fr, nl: "", de: "" });
+
+    expect(adapter.getTranslationMap()["10001"].en).toBe("Send");
+  });
+
+  it("should keep regional variants of a language apart", async () => {
+    const frFr = xliff12Fr
+      .replace('target-language="fr-BE"', 'target-language="fr-FR"')
+      .replace("<target>Soumettre</target>", "<target>Valider</target>");
+    const adapter = await XliffAdapter.createAsync({ "fr-BE": xliff12Fr, "fr-FR": frFr });
+
+    expect(adapter.getTranslationMap()["10001"]).toEqual({ "fr-BE": "Soumettre", "fr-FR": "Valider", en: "Submit" });
+    expect(adapter.getMetadataMap()["10001"].sourceLanguageId).toBe("en");
+  });
+
+  it("should fill sources into the uploaded locale of the source language", async () => {
+    const enGb = xliff12Fr
+      .replace('target-language="fr-BE"', 'target-language="en-GB"')
+      .replace("<target>Soumettre</target>", "<target>Send</target>");
+    const adapter = await XliffAdapter.createAsync({ fr: xliff12Fr, "en-GB": enGb });
+    const map = adapter.getTranslationMap();
+
+    expect(map["10001"]).toEqual({ fr: "Soumettre", "en-GB": "Send" });
+    expect(map["10003"]).toEqual({ "en-GB": "Hello ###name###!" });
+  });
+
+  it("should keep the least advanced status across language files", async () => {
+    const adapter = await XliffAdapter.createAsync(data);
+    const metadata = adapter.getMetadataMap();
+
+    // FINAL in fr (approved) and nl (final)
+    expect(metadata["10001"]).toEqual({ status: "FINAL", sourceLanguageId: "en" });
+    // FOUR_EYES_CHECK in fr, IN_TRANSLATION in nl
+    expect(metadata["10002"].status).toBe("IN_TRANSLATION");
+    expect(metadata["10003"].status).toBe("TO_TRANSLATE_EXTERNALLY");
+  });
+
+  it("should return xliff identifier", async () => {
+    const adapter = await XliffAdapter.createAsync(data);
+    expect(adapter.getSourceIdentifier()).toBe("xliff");
+  });
+
+  it("should throw for non-XLIFF data", async () => {
+    await expect(XliffAdapter.createAsync({ en: "a", fr: "b", nl: "c", de: "d" })).rejects.toThrow(
+      "Invalid data format"
+    );
+  });
+
+  it("should be detected and created through the registry", async () => {
+    expect(detectAdapterType(data)).toBe("xliff");
+    const adapter = await createAdapter(data);
+    expect(adapter).toBeInstanceOf(XliffAdapter);
+  });
+});
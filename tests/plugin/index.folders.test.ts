@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { loadPlugin, type LoadedPlugin } from "./setup";
+import type { PluginMessage } from "../../src/shared/types";
+
+function upload(folderName: string, en: string): PluginMessage {
+  return {
+    type: "upload-tra-files",
+    folderName,
+    traFileData: { en },
+    traUploadMetadata: { uploadTimestamp: 1, fileLastModified: { en: 1 }, availableLanguages: ["en"] },
+  };
+}
+
+describe("plugin folder handlers", () => {
+  let plugin: LoadedPlugin;
+
+  beforeEach(async () => {
+    plugin = await loadPlugin();
+    await plugin.send(upload("EB", '1,"Submit"\n'));
+    await plugin.send(upload("EBB", '1,"Send"\n2,"Close"\n'));
+  });
+
+  describe("rename-folder", () => {
+    it("should move the folder's data to its new name", async () => {
+      await plugin.send({ type: "rename-folder", folderName: "EBB", newFolderName: "Checkout" });
+
+      expect(plugin.stored("folderNames")).toEqual(["EB", "Checkout", "PCB"]);
+      expect(plugin.stored("traData_Checkout")).toBeDefined();
+      expect(plugin.stored("traData_EBB")).toBeUndefined();
+      expect(plugin.lastPosted("folders-updated")?.folderNames).toEqual(["EB", "Checkout", "PCB"]);
+    });
+
+    it("should refuse a name another folder has, whatever its case", async () => {
+      const data = plugin.stored("traData_EBB");
+
+      await plugin.send({ type: "rename-folder", folderName: "EBB", newFolderName: "eb" });
+
+      expect(plugin.figma.notify).toHaveBeenCalledWith("There is already a folder named eb", { error: true });
+      expect(plugin.lastPosted("folders-updated")?.folderNames).toEqual(["EB", "EBB", "PCB"]);
+      expect(plugin.stored("traData_EBB")).toBe(data);
+      expect(plugin.stored("traData_eb")).toBeUndefined();
+    });
+
+    it("should keep the current folder selected under its new name", async () => {
+      await plugin.send({ type: "switch-folder", folderName: "EB" });
+
+      await plugin.send({ type: "rename-folder", folderName: "EB", newFolderName: "Main" });
+
+      expect(plugin.stored("selectedFolder")).toBe("Main");
+      expect(plugin.lastPosted("folders-updated")?.folderName).toBe("Main");
+    });
+  });
+
+  describe("delete-folder", () => {
+    it("should switch to the first remaining folder and load it when the current one is deleted", async () => {
+      await plugin.send({ type: "switch-folder", folderName: "EB" });
+      const inits = plugin.posted("init").length;
+
+      await plugin.send({ type: "delete-folder", folderName: "EB" });
+
+      expect(plugin.stored("folderNames")).toEqual(["EBB", "PCB"]);
+      expect(plugin.stored("selectedFolder")).toBe("EBB");
+      expect(plugin.stored("traData_EB")).toBeUndefined();
+      expect(plugin.posted("init")).toHaveLength(inits + 1);
+      expect(plugin.lastPosted("init")).toMatchObject({ folderName: "EBB", translationCount: 2 });
+      expect(plugin.lastPosted("folders-updated")?.folderName).toBe("EBB");
+    });
+
+    it("should load an empty first folder without asking for an upload", async () => {
+      await plugin.send({ type: "reorder-folders", folderNames: ["EB", "PCB", "EBB"] });
+      await plugin.send({ type: "switch-folder", folderName: "EB" });
+
+      await plugin.send({ type: "delete-folder", folderName: "EB" });
+
+      expect(plugin.lastPosted("init")).toMatchObject({ folderName: "PCB", translationCount: 0 });
+      expect(plugin.posted("tra-upload-needed")).toHaveLength(0);
+    });
+
+    it("should keep the selection when another folder is deleted", async () => {
+      await plugin.send({ type: "switch-folder", folderName: "EB" });
+
+      await plugin.send({ type: "delete-folder", folderName: "EBB" });
+
+      expect(plugin.stored("selectedFolder")).toBe("EB");
+      expect(plugin.lastPosted("folders-updated")).toMatchObject({ folderNames: ["EB", "PCB"], folderName: "EB" });
+    });
+
+    it("should keep the last folder", async () => {
+      await plugin.send({ type: "delete-folder", folderName: "EBB" });
+      await plugin.send({ type: "delete-folder", folderName: "PCB" });
+
+      await plugin.send({ type: "delete-folder", folderName: "EB" });
+
+      expect(plugin.figma.notify).toHaveBeenCalledWith("The last folder can't be deleted", { error: true });
+      expect(plugin.stored("folderNames")).toEqual(["EB"]);
+    });
+  });
+
+  describe("reorder-folders", () => {
+    it("should store the new order so it survives a restart", async () => {
+      await plugin.send({ type: "reorder-folders", folderNames: ["PCB", "EB", "EBB"] });
+
+      expect(plugin.stored("folderNames")).toEqual(["PCB", "EB", "EBB"]);
+      expect(plugin.lastPosted("folders-updated")?.folderNames).toEqual(["PCB", "EB", "EBB"]);
+
+      const restarted = await loadPlugin(Object.fromEntries(plugin.figma.clientStorage.store));
+      expect(restarted.lastPosted("init")?.folderNames).toEqual(["PCB", "EB", "EBB"]);
+    });
+
+    it("should ignore an order that isn't a permutation of the folders", async () => {
+      await plugin.send({ type: "reorder-folders", folderNames: ["PCB", "EB"] });
+      await plugin.send({ type: "reorder-folders", folderNames: ["PCB", "EB", "Other"] });
+
+      expect(plugin.stored("folderNames")).toBeUndefined();
+      expect(plugin.posted("folders-updated")).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { loadPlugin, type LoadedPlugin } from "./setup";
+import type { PluginMessage, SourceFormat, TraUploadMetadata, UploadMode } from "../../src/shared/types";
+
+const FILES: Record<string, string> = {
+  en: '1,"Submit"\n2,"Cancel"\n',
+  fr: '1,"Soumettre"\n2,"Annuler"\n',
+  nl: '1,"Indienen"\n2,"Annuleren"\n',
+  de: '1,"Einreichen"\n2,"Abbrechen"\n',
+};
+
+const SHEET = "id,en,fr\n1,Submit,Soumettre\n2,Cancel,Annuler\n";
+
+function metadata(languages: string[], sourceFormat: SourceFormat = "tra"): TraUploadMetadata {
+  return {
+    uploadTimestamp: Date.now(),
+    fileLastModified: Object.fromEntries(languages.map(lang => [lang, 1])),
+    availableLanguages: languages,
+    sourceFormat,
+  };
+}
+
+function upload(
+  files: Record<string, string>,
+  options: { mode?: UploadMode; languages?: string[]; sourceFormat?: SourceFormat } = {}
+): PluginMessage {
+  const languages = options.sourceFormat === "spreadsheet" ? ["en", "fr"] : Object.keys(files);
+  return {
+    type: "upload-tra-files",
+    folderName: "EB",
+    traFileData: files,
+    traUploadMetadata: metadata(languages, options.sourceFormat),
+    uploadMode: options.mode,
+    uploadLanguages: options.languages,
+  };
+}
+
+function traFiles(...languages: string[]): Record<string, string> {
+  return Object.fromEntries(languages.map(lang => [lang, FILES[lang]]));
+}
+
+describe("plugin upload modes", () => {
+  let plugin: LoadedPlugin;
+
+  /** The folder's language set and the language slots it stores */
+  function storedLanguages() {
+    return {
+      available: (plugin.stored("traMetadata_EB") as TraUploadMetadata).availableLanguages,
+      files: Object.keys(plugin.stored("traData_EB") as object).sort(),
+    };
+  }
+
+  async function lookup(multilanId: string) {
+    await plugin.send({ type: "lookup-multilanId", multilanId });
+    return plugin.lastPosted("lookup-result")?.translations;
+  }
+
+  beforeEach(async () => {
+    plugin = await loadPlugin();
+    await plugin.send(upload(traFiles("en", "fr")));
+  });
+
+  describe("merge", () => {
+    it("should add uploaded languages to the folder's and keep the others", async () => {
+      await plugin.send(upload(traFiles("nl")));
+
+      expect(storedLanguages()).toEqual({ available: ["en", "fr", "nl"], files: ["en", "fr", "nl"] });
+      expect(plugin.lastPosted("upload-success")?.traUploadMetadata?.availableLanguages).toEqual(["en", "fr", "nl"]);
+      expect(await lookup("1")).toEqual({ en: "Submit", fr: "Soumettre", nl: "Indienen" });
+    });
+
+    it("should replace a language uploaded again", async () => {
+      await plugin.send(upload({ fr: '1,"Valider"\n2,"Annuler"\n' }));
+
+      expect(storedLanguages().available).toEqual(["en", "fr"]);
+      expect(await lookup("1")).toEqual({ en: "Submit", fr: "Valider" });
+    });
+  });
+
+  describe("replace-folder", () => {
+    it("should keep only the uploaded languages", async () => {
+      await plugin.send(upload(traFiles("nl", "de"), { mode: "replace-folder" }));
+
+      expect(storedLanguages()).toEqual({ available: ["nl", "de"], files: ["de", "nl"] });
+      expect(await lookup("1")).toEqual({ nl: "Indienen", de: "Einreichen" });
+    });
+  });
+
+  describe("replace-languages", () => {
+    it("should replace the chosen languages with their files, drop those without one and keep the rest", async () => {
+      await plugin.send(upload(traFiles("nl")));
+      await plugin.send(upload({ fr: '1,"Valider"\n' }, { mode: "replace-languages", languages: ["fr", "nl"] }));
+
+      expect(storedLanguages()).toEqual({ available: ["en", "fr"], files: ["en", "fr"] });
+      expect(await lookup("1")).toEqual({ en: "Submit", fr: "Valider" });
+      expect(await lookup("2")).toEqual({ en: "Cancel" });
+    });
+
+    it("should also store uploaded languages that weren't chosen", async () => {
+      await plugin.send(upload(traFiles("fr", "nl"), { mode: "replace-languages", languages: ["fr"] }));
+
+      expect(storedLanguages()).toEqual({ available: ["en", "fr", "nl"], files: ["en", "fr", "nl"] });
+    });
+
+    it("should keep the uploaded language when every stored one is chosen", async () => {
+      await plugin.send(upload(traFiles("de"), { mode: "replace-languages", languages: ["en", "fr"] }));
+
+      expect(storedLanguages()).toEqual({ available: ["de"], files: ["de"] });
+      expect(await lookup("1")).toEqual({ de: "Einreichen" });
+    });
+
+    it("should refuse to leave the folder empty and store nothing", async () => {
+      const before = plugin.stored("traData_EB");
+
+      await plugin.send(upload({}, { mode: "replace-languages", languages: ["en", "fr"] }));
+
+      expect(plugin.lastPosted("upload-failed")).toEqual({ type: "upload-failed", folderName: "EB" });
+      expect(plugin.figma.notify).toHaveBeenCalledWith(expect.stringContaining("would leave EB empty"), { error: true });
+      expect(plugin.stored("traData_EB")).toBe(before);
+      expect(storedLanguages().available).toEqual(["en", "fr"]);
+    });
+  });
+
+  describe("remove-language", () => {
+    it("should drop the chosen languages and keep the others", async () => {
+      await plugin.send(upload(traFiles("nl")));
+      await plugin.send(upload({}, { mode: "remove-language", languages: ["fr"] }));
+
+      expect(storedLanguages()).toEqual({ available: ["en", "nl"], files: ["en", "nl"] });
+      expect(plugin.lastPosted("upload-success")?.traUploadMetadata?.availableLanguages).toEqual(["en", "nl"]);
+      expect(await lookup("1")).toEqual({ en: "Submit", nl: "Indienen" });
+    });
+
+    it("should refuse to remove the last remaining language and store nothing", async () => {
+      await plugin.send(upload({}, { mode: "remove-language", languages: ["fr"] }));
+      const before = plugin.stored("traData_EB");
+
+      await plugin.send(upload({}, { mode: "remove-language", languages: ["en"] }));
+
+      expect(plugin.lastPosted("upload-failed")).toEqual({ type: "upload-failed", folderName: "EB" });
+      expect(plugin.figma.notify).toHaveBeenCalledWith(expect.stringContaining("would leave EB empty"), { error: true });
+      expect(plugin.stored("traData_EB")).toBe(before);
+      expect(storedLanguages().available).toEqual(["en"]);
+    });
+
+    it("should refuse an empty folder", async () => {
+      await plugin.send({ ...upload({}, { mode: "remove-language", languages: ["fr"] }), folderName: "EBB" });
+
+      expect(plugin.lastPosted("upload-failed")?.folderName).toBe("EBB");
+      expect(plugin.figma.notify).toHaveBeenCalledWith(expect.stringContaining("EBB has no translations"), { error: true });
+    });
+  });
+
+  describe("preview-upload", () => {
+    it("should answer with why the upload can't be compared", async () => {
+      await plugin.send({ ...upload({}, { mode: "remove-language", languages: ["en", "fr"] }), type: "preview-upload" });
+
+      expect(plugin.lastPosted("upload-diff-failed")).toEqual({
+        type: "upload-diff-failed",
+        folderName: "EB",
+        diffError: "Removing EN, FR would leave EB empty",
+      });
+      expect(plugin.posted("upload-failed")).toHaveLength(0);
+    });
+
+    it("should answer a preview for a folder that doesn't exist", async () => {
+      await plugin.send({ ...upload(traFiles("nl")), type: "preview-upload", folderName: "Gone" });
+
+      expect(plugin.lastPosted("upload-diff-failed")?.diffError).toBe("There is no folder named Gone");
+    });
+  });
+
+  describe("single-file formats", () => {
+    it("should replace the folder instead of merging into it", async () => {
+      await plugin.send(upload({ en: SHEET }, { sourceFormat: "spreadsheet" }));
+
+      expect(storedLanguages()).toEqual({ available: ["en", "fr"], files: ["en"] });
+      expect((plugin.stored("traMetadata_EB") as TraUploadMetadata).sourceFormat).toBe("spreadsheet");
+      expect(await lookup("2")).toEqual({ en: "Cancel", fr: "Annuler" });
+    });
+
+    it("should load a sheet's columns for any locale", async () => {
+      await plugin.send({
+        ...upload({ en: "id,es,pt-BR\n1,Enviar,Enviar agora\n" }, { sourceFormat: "spreadsheet" }),
+        traUploadMetadata: metadata(["es", "pt-BR"], "spreadsheet"),
+      });
+
+      expect(storedLanguages()).toEqual({ available: ["es", "pt-BR"], files: ["en"] });
+      expect(await lookup("1")).toEqual({ es: "Enviar", "pt-BR": "Enviar agora" });
+    });
+
+    it("should replace a sheet with per-language files rather than merge them", async () => {
+      await plugin.send(upload({ en: SHEET }, { sourceFormat: "spreadsheet" }));
+      await plugin.send(upload(traFiles("nl")));
+
+      expect(storedLanguages()).toEqual({ available: ["nl"], files: ["nl"] });
+    });
+
+    it("should tell the review that a merge in another format replaces the folder", async () => {
+      await plugin.send({ ...upload({ en: SHEET }, { sourceFormat: "spreadsheet" }), type: "preview-upload" });
+
+      expect(plugin.lastPosted("upload-diff")?.uploadDiff?.replacesFolder).toBe(true);
+      expect(storedLanguages().available).toEqual(["en", "fr"]);
+
+      await plugin.send({ ...upload(traFiles("nl")), type: "preview-upload" });
+
+      expect(plugin.lastPosted("upload-diff")?.uploadDiff?.replacesFolder).toBe(false);
+    });
+
+    it("should refuse to remove a language from a sheet", async () => {
+      await plugin.send(upload({ en: SHEET }, { sourceFormat: "spreadsheet" }));
+      await plugin.send(upload({}, { mode: "remove-language", languages: ["fr"] }));
+
+      expect(plugin.lastPosted("upload-failed")?.folderName).toBe("EB");
+      expect(plugin.figma.notify).toHaveBeenCalledWith(
+        expect.stringContaining("Languages can't be removed from spreadsheet data"), { error: true }
+      );
+      expect(storedLanguages().available).toEqual(["en", "fr"]);
+    });
+  });
+});
@@ -1,8 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { createMockTextNode, setupFigmaMock } from "../../setup";
-import { rewriteInterpolatedNodesToTemplate } from "../../../src/plugin/services/linkingService";
-import { setMultilanId, setExpectedText } from "../../../src/plugin/services/nodeService";
-import { EXPECTED_TEXT_KEY, type TranslationEntry } from "../../../src/shared/types";
+import { captureInterpolatedValues } from "../../../src/plugin/services/linkingService";
+import { setMultilanId, setExpectedText, isTextModified } from "../../../src/plugin/services/nodeService";
+import { EXPECTED_TEXT_KEY, VARIABLE_VALUES_KEY, type TranslationEntry } from "../../../src/shared/types";
 
 function makeNode(text: string, multilanId: string | null) {
   const node = createMockTextNode({ characters: text });
@@ -10,162 +10,157 @@ function makeNode(text: string, multilanId: string | null) {
   return node;
 }
 
-describe("rewriteInterpolatedNodesToTemplate", () => {
+function storedValues(node: TextNode) {
+  const stored = node.getPluginData(VARIABLE_VALUES_KEY);
+  return stored ? JSON.parse(stored) : null;
+}
+
+describe("captureInterpolatedValues", () => {
   beforeEach(() => {
     setupFigmaMock();
   });
 
-  it("rewrites an interpolated node to its raw template", async () => {
+  it("stores an interpolated node's values and keeps its text", () => {
     const translations: TranslationEntry = {
       en: "Hello, ###username###!",
       fr: "Bonjour, ###username###!",
     };
     const node = makeNode("Hello, John!", "M-1");
-    setExpectedText(node, "Hello, John!");
+    setExpectedText(node, "Hello, ###username###!");
 
-    const count = await rewriteInterpolatedNodesToTemplate(
-      [node],
-      () => translations,
-    );
+    const count = captureInterpolatedValues([node], () => translations);
 
     expect(count).toBe(1);
-    expect(node.characters).toBe("Hello, ###username###!");
+    expect(node.characters).toBe("Hello, John!");
+    expect(storedValues(node)).toEqual({ username: "John" });
   });
 
-  it("uses the language whose template matches the node text", async () => {
+  it("uses the language whose template matches the node text", () => {
     const translations: TranslationEntry = {
       en: "Hello, ###name###!",
       fr: "Bonjour, ###name###!",
     };
     const node = makeNode("Bonjour, Marie!", "M-1");
 
-    await rewriteInterpolatedNodesToTemplate([node], () => translations);
+    captureInterpolatedValues([node], () => translations);
 
-    expect(node.characters).toBe("Bonjour, ###name###!");
+    expect(storedValues(node)).toEqual({ name: "Marie" });
   });
 
-  it("leaves a node alone if it is already in raw template form (idempotent)", async () => {
+  it("takes the interpolated text as expected so it isn't seen as modified", () => {
+    const translations: TranslationEntry = {
+      en: "Page ###n### of ###total###",
+    };
+    const node = makeNode("Page 3 of 10", "M-1");
+    setExpectedText(node, "Page ###n### of ###total###");
+
+    captureInterpolatedValues([node], () => translations);
+
+    expect(node.getPluginData(EXPECTED_TEXT_KEY)).toBe("Page 3 of 10");
+    expect(isTextModified(node)).toBe(false);
+  });
+
+  it("stores nothing for a node showing the raw template", () => {
     const translations: TranslationEntry = {
       en: "Hello, ###user###!",
     };
     const node = makeNode("Hello, ###user###!", "M-1");
 
-    const count = await rewriteInterpolatedNodesToTemplate(
-      [node],
-      () => translations,
-    );
+    const count = captureInterpolatedValues([node], () => translations);
 
-    // Already in template form → not counted as rewritten
     expect(count).toBe(0);
-    expect(node.characters).toBe("Hello, ###user###!");
+    expect(storedValues(node)).toBeNull();
+    expect(node.getPluginData(EXPECTED_TEXT_KEY)).toBe("Hello, ###user###!");
+  });
+
+  it("does not count values that are already stored", () => {
+    const translations: TranslationEntry = {
+      en: "Hello, ###name###!",
+    };
+    const node = makeNode("Hello, John!", "M-1");
+    node.setPluginData(VARIABLE_VALUES_KEY, JSON.stringify({ name: "John" }));
+
+    expect(captureInterpolatedValues([node], () => translations)).toBe(0);
   });
 
-  it("does not touch nodes whose multilanId is not templated", async () => {
+  it("updates values edited on the canvas and keeps values the text doesn't show", () => {
+    const translations: TranslationEntry = {
+      en: "Hello, ###name###!",
+      fr: "Bonjour, ###name### (###role###)",
+    };
+    const node = makeNode("Hello, Marie!", "M-1");
+    node.setPluginData(VARIABLE_VALUES_KEY, JSON.stringify({ name: "John", role: "admin" }));
+
+    const count = captureInterpolatedValues([node], () => translations);
+
+    expect(count).toBe(1);
+    expect(storedValues(node)).toEqual({ name: "Marie", role: "admin" });
+  });
+
+  it("matches templates without their markup", () => {
+    const translations: TranslationEntry = {
+      en: "Hello, <b>###name###</b>!",
+    };
+    const node = makeNode("Hello, John!", "M-1");
+
+    captureInterpolatedValues([node], () => translations);
+
+    expect(storedValues(node)).toEqual({ name: "John" });
+  });
+
+  it("does not touch nodes whose multilanId is not templated", () => {
     const translations: TranslationEntry = {
       en: "Submit",
       fr: "Soumettre",
-      nl: "Indienen",
-      de: "Einreichen",
     };
     const node = makeNode("Submit", "M-1");
 
-    const count = await rewriteInterpolatedNodesToTemplate(
-      [node],
-      () => translations,
-    );
+    const count = captureInterpolatedValues([node], () => translations);
 
     expect(count).toBe(0);
-    expect(node.characters).toBe("Submit");
+    expect(node.setPluginData).not.toHaveBeenCalledWith(EXPECTED_TEXT_KEY, expect.anything());
   });
 
-  it("skips nodes that have no multilanId", async () => {
+  it("skips nodes that have no multilanId", () => {
     const node = makeNode("Hello, John!", null);
     const getTranslations = vi.fn();
 
-    const count = await rewriteInterpolatedNodesToTemplate(
-      [node],
-      getTranslations,
-    );
+    const count = captureInterpolatedValues([node], getTranslations);
 
     expect(count).toBe(0);
     expect(getTranslations).not.toHaveBeenCalled();
   });
 
-  it("skips nodes whose multilanId has no entry in translation data", async () => {
+  it("skips nodes whose multilanId has no entry in translation data", () => {
     const node = makeNode("Hello, John!", "M-MISSING");
 
-    const count = await rewriteInterpolatedNodesToTemplate(
-      [node],
-      () => null,
-    );
-
-    expect(count).toBe(0);
-    expect(node.characters).toBe("Hello, John!");
+    expect(captureInterpolatedValues([node], () => null)).toBe(0);
+    expect(storedValues(node)).toBeNull();
   });
 
-  it("leaves text alone when current text matches no template (genuine drift)", async () => {
+  it("leaves a node alone when its text matches no template (genuine drift)", () => {
     const translations: TranslationEntry = {
       en: "Hello, ###name###!",
     };
     // Designer hand-edited the text to something neither raw nor a valid interpolation
     const node = makeNode("Totally unrelated copy", "M-1");
+    setExpectedText(node, "Hello, John!");
 
-    const count = await rewriteInterpolatedNodesToTemplate(
-      [node],
-      () => translations,
-    );
+    const count = captureInterpolatedValues([node], () => translations);
 
     expect(count).toBe(0);
-    expect(node.characters).toBe("Totally unrelated copy");
+    expect(storedValues(node)).toBeNull();
+    expect(isTextModified(node)).toBe(true);
   });
 
-  it("updates expectedText to the raw template after rewrite", async () => {
-    const translations: TranslationEntry = {
-      en: "Page ###n### of ###total###",
-    };
-    const node = makeNode("Page 3 of 10", "M-1");
-    setExpectedText(node, "Page 3 of 10");
-
-    await rewriteInterpolatedNodesToTemplate([node], () => translations);
-
-    const stored = node.getPluginData(EXPECTED_TEXT_KEY);
-    expect(stored).toBe("Page ###n### of ###total###");
-  });
-
-  it("processes multiple nodes independently and returns the rewrite count", async () => {
-    const translations: Record<string, TranslationEntry> = {
-      "M-1": { en: "Hello, ###name###!" },
-      "M-2": { en: "Submit" },
-      "M-3": { en: "###count### items" },
-    };
-    const interpolated = makeNode("Hello, John!", "M-1");
-    const literal = makeNode("Submit", "M-2");
-    const alreadyTemplate = makeNode("###count### items", "M-3");
-
-    const count = await rewriteInterpolatedNodesToTemplate(
-      [interpolated, literal, alreadyTemplate],
-      (id) => translations[id] || null,
-    );
-
-    expect(count).toBe(1); // only the interpolated node was actually rewritten
-    expect(interpolated.characters).toBe("Hello, ###name###!");
-    expect(literal.characters).toBe("Submit");
-    expect(alreadyTemplate.characters).toBe("###count### items");
-  });
-
-  it("ignores empty-string templates and matches against the next language", async () => {
+  it("ignores empty-string templates and matches against the next language", () => {
     const translations: TranslationEntry = {
       en: "",
       fr: "Bonjour, ###name###!",
     };
     const node = makeNode("Bonjour, Sophie!", "M-1");
 
-    const count = await rewriteInterpolatedNodesToTemplate(
-      [node],
-      () => translations,
-    );
-
-    expect(count).toBe(1);
-    expect(node.characters).toBe("Bonjour, ###name###!");
+    expect(captureInterpolatedValues([node], () => translations)).toBe(1);
+    expect(storedValues(node)).toEqual({ name: "Sophie" });
   });
 });
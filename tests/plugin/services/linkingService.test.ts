@@ -1,6 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { createMockTextNode, setupFigmaMock, sampleTranslationMap } from "../../setup";
-import { PLUGIN_DATA_KEY, PLACEHOLDER_KEY } from "../../../src/shared/types";
+import { createMockMeasuringNode, createMockTextNode, setupFigmaMock, sampleTranslationMap } from "../../setup";
+import {
+  PLUGIN_DATA_KEY,
+  PLACEHOLDER_KEY,
+  TEXT_SOURCE_KEY,
+  OVERFLOW_KEY,
+  EXPECTED_TEXT_KEY,
+  VARIABLE_VALUES_KEY,
+} from "../../../src/shared/types";
 
 // We need to mock the figma global before importing the service
 let mockFigma: ReturnType<typeof setupFigmaMock>;
@@ -45,6 +52,34 @@ describe("linkingService", () => {
       // Should clear placeholder status
       expect(mockNode.setPluginData).toHaveBeenCalledWith(PLACEHOLDER_KEY, "");
     });
+
+    it("should store the values the node shows for the entry's variables", async () => {
+      const { linkTextNode } = await import("../../../src/plugin/services/linkingService");
+
+      const mockNode = createMockTextNode({ id: "node-1", characters: "Bonjour, Marie ! Vous avez 3 messages" });
+      mockFigma.getNodeByIdAsync.mockResolvedValue(mockNode);
+
+      await linkTextNode("node-1", "1", {
+        "1": {
+          en: "Hello, ###name###! You have ###count### messages",
+          fr: "Bonjour, <b>###name###</b> ! Vous avez ###count### messages",
+        },
+      });
+
+      expect(JSON.parse(mockNode.getPluginData(VARIABLE_VALUES_KEY))).toEqual({ name: "Marie", count: "3" });
+    });
+
+    it("should not store markers shown as-is as values", async () => {
+      const { linkTextNode } = await import("../../../src/plugin/services/linkingService");
+
+      const mockNode = createMockTextNode({ id: "node-1", characters: "Hello, ###name###!" });
+      mockNode.setPluginData(VARIABLE_VALUES_KEY, JSON.stringify({ name: "John" }));
+      mockFigma.getNodeByIdAsync.mockResolvedValue(mockNode);
+
+      await linkTextNode("node-1", "1", { "1": { en: "Hello, ###name###!" } });
+
+      expect(mockNode.getPluginData(VARIABLE_VALUES_KEY)).toBe("");
+    });
   });
 
   describe("unlinkTextNode", () => {
@@ -59,6 +94,7 @@ describe("linkingService", () => {
 
       expect(result).toBe(true);
       expect(mockNode.setPluginData).toHaveBeenCalledWith(PLUGIN_DATA_KEY, "");
+      expect(mockNode.setPluginData).toHaveBeenCalledWith(VARIABLE_VALUES_KEY, "");
     });
 
     it("should return false for non-existent node", async () => {
@@ -148,7 +184,7 @@ describe("linkingService", () => {
       expect(result.success).toBe(0);
     });
 
-    it("should report missing and show placeholder when translation unavailable", async () => {
+    it("should report and mark a node without a translation and keep its text", async () => {
       const { switchLanguage } = await import("../../../src/plugin/services/linkingService");
 
       // Use a translation that only has English (no French)
@@ -161,15 +197,144 @@ describe("linkingService", () => {
         characters: "Test",
       });
       mockNode.setPluginData(PLUGIN_DATA_KEY, "99999");
+      mockNode.setPluginData(EXPECTED_TEXT_KEY, "Test");
       (mockNode as unknown as { width: number }).width = 100;
 
       mockFigma.currentPage.findAll.mockReturnValue([mockNode]);
 
       const result = await switchLanguage(limitedTranslations, "fr", "page");
 
-      expect(result.success).toBe(1);
-      expect(result.missing).toContain("node-1");
-      expect(mockNode.characters).toBe("*Multilan not available*");
+      expect(result.success).toBe(0);
+      expect(result.missing).toEqual(["node-1"]);
+      expect(mockNode.characters).toBe("Test");
+      expect(mockNode.getPluginData(EXPECTED_TEXT_KEY)).toBe("Test");
+      expect(mockNode.getPluginData(TEXT_SOURCE_KEY)).toBe("missing");
+    });
+
+    it("should fall back from a regional locale to its language only", async () => {
+      const { switchLanguage } = await import("../../../src/plugin/services/linkingService");
+
+      const translations = {
+        "1": { en: "Submit", fr: "Soumettre", "fr-BE": "Envoyer" },
+        "2": { en: "Cancel", fr: "Annuler" },
+        "3": { en: "English only" },
+      };
+      const nodes = ["1", "2", "3"].map(id => {
+        const node = createMockTextNode({ id: `node-${id}`, characters: "Test" });
+        node.setPluginData(PLUGIN_DATA_KEY, id);
+        return node;
+      });
+      mockFigma.currentPage.findAll.mockReturnValue(nodes);
+
+      const result = await switchLanguage(translations, "fr-BE", "page");
+
+      expect(nodes.map(node => node.characters)).toEqual(["Envoyer", "Annuler", "Test"]);
+      expect(result.missing).toEqual(["node-3"]);
+    });
+
+    it("should write fallback text and mark and return the nodes using it", async () => {
+      const { switchLanguage } = await import("../../../src/plugin/services/linkingService");
+
+      const translations = {
+        "1": { en: "Submit", nl: "Indienen" },
+        "2": { en: "Cancel" },
+      };
+      const nodes = ["1", "2"].map(id => {
+        const node = createMockTextNode({ id: `node-${id}`, name: `Label ${id}`, characters: "Test" });
+        node.setPluginData(PLUGIN_DATA_KEY, id);
+        node.setPluginData(TEXT_SOURCE_KEY, "fallback");
+        return node;
+      });
+      mockFigma.currentPage.findAll.mockReturnValue(nodes);
+
+      const result = await switchLanguage(translations, "nl", "page", ["en"]);
+
+      expect(nodes.map(node => node.characters)).toEqual(["Indienen", "Cancel"]);
+      expect(result.missing).toEqual([]);
+      expect(result.fallbackNodes).toEqual([
+        { nodeId: "node-2", name: "Label 2", multilanId: "2", language: "nl", fallbackLanguage: "en" },
+      ]);
+      expect(nodes[0].getPluginData(TEXT_SOURCE_KEY)).toBe("");
+      expect(nodes[1].getPluginData(TEXT_SOURCE_KEY)).toBe("fallback");
+    });
+
+    it("should write translations without their markup and expect that text", async () => {
+      const { switchLanguage } = await import("../../../src/plugin/services/linkingService");
+
+      const node = createMockTextNode({ id: "node-1", characters: "Submit" });
+      node.setPluginData(PLUGIN_DATA_KEY, "1");
+      Object.assign(node, { setRangeTextDecoration: vi.fn() });
+      mockFigma.currentPage.findAll.mockReturnValue([node]);
+
+      await switchLanguage({ "1": { en: "Submit", fr: "<u>Soumettre</u>" } }, "fr", "page");
+
+      expect(node.characters).toBe("Soumettre");
+      expect(node.getPluginData(EXPECTED_TEXT_KEY)).toBe("Soumettre");
+      expect(node.setRangeTextDecoration).toHaveBeenCalledWith(0, 9, "UNDERLINE");
+    });
+
+    it("should fill the node's variable values into the new language and expect that text", async () => {
+      const { switchLanguage } = await import("../../../src/plugin/services/linkingService");
+
+      const node = createMockTextNode({ id: "node-1", characters: "Hello, John!" });
+      node.setPluginData(PLUGIN_DATA_KEY, "1");
+      node.setPluginData(VARIABLE_VALUES_KEY, JSON.stringify({ name: "John" }));
+      mockFigma.currentPage.findAll.mockReturnValue([node]);
+
+      await switchLanguage({ "1": { en: "Hello, ###name###!", fr: "Bonjour, ###name### ! (###role###)" } }, "fr", "page");
+
+      expect(node.characters).toBe("Bonjour, John ! (###role###)");
+      expect(node.getPluginData(EXPECTED_TEXT_KEY)).toBe("Bonjour, John ! (###role###)");
+    });
+
+    it("should show markup in a variable value as typed", async () => {
+      const { switchLanguage } = await import("../../../src/plugin/services/linkingService");
+
+      const node = createMockTextNode({ id: "node-1", characters: "Hello, <b>John</b>!" });
+      node.setPluginData(PLUGIN_DATA_KEY, "1");
+      node.setPluginData(VARIABLE_VALUES_KEY, JSON.stringify({ name: "<b>John</b>" }));
+      Object.assign(node, { setRangeTextDecoration: vi.fn(), setRangeFontName: vi.fn() });
+      mockFigma.currentPage.findAll.mockReturnValue([node]);
+
+      await switchLanguage({ "1": { en: "Hello, ###name###!", fr: "<u>Bonjour</u>, ###name### !" } }, "fr", "page");
+
+      expect(node.characters).toBe("Bonjour, <b>John</b> !");
+      expect(node.getPluginData(EXPECTED_TEXT_KEY)).toBe("Bonjour, <b>John</b> !");
+      expect(node.setRangeTextDecoration).toHaveBeenCalledTimes(1);
+      expect(node.setRangeTextDecoration).toHaveBeenCalledWith(0, 7, "UNDERLINE");
+      expect(node.setRangeFontName).not.toHaveBeenCalled();
+    });
+
+    it("should try the fallback languages in order", async () => {
+      const { switchLanguage } = await import("../../../src/plugin/services/linkingService");
+
+      const node = createMockTextNode({ id: "node-1", characters: "Test" });
+      node.setPluginData(PLUGIN_DATA_KEY, "1");
+      mockFigma.currentPage.findAll.mockReturnValue([node]);
+
+      const result = await switchLanguage({ "1": { en: "Submit", fr: "Soumettre" } }, "lb", "page", ["fr", "en"]);
+
+      expect(node.characters).toBe("Soumettre");
+      expect(result.fallbackNodes[0].fallbackLanguage).toBe("fr");
+    });
+
+    it("should return and mark nodes whose new text overflows", async () => {
+      const { switchLanguage } = await import("../../../src/plugin/services/linkingService");
+
+      const frame = { type: "FRAME", x: 0, y: 0, width: 100, height: 40, layoutMode: "NONE", parent: null };
+      const fits = createMockTextNode({ id: "node-1", x: 0, width: 60, parent: frame } as Partial<TextNode>);
+      const overflows = createMockTextNode({ id: "node-2", name: "Button label", x: 50, width: 80, parent: frame } as Partial<TextNode>);
+      fits.setPluginData(PLUGIN_DATA_KEY, "10001");
+      overflows.setPluginData(PLUGIN_DATA_KEY, "10002");
+      mockFigma.currentPage.findAll.mockReturnValue([fits, overflows]);
+
+      const result = await switchLanguage(sampleTranslationMap, "de", "page");
+
+      expect(result.overflowNodes).toEqual([
+        { nodeId: "node-2", name: "Button label", multilanId: "10002", kind: "parent-overflow" },
+      ]);
+      expect(overflows.getPluginData(OVERFLOW_KEY)).toBe("parent-overflow");
+      expect(fits.getPluginData(OVERFLOW_KEY)).toBe("");
     });
 
     it("should skip nodes that fail to update and not count them", async () => {
@@ -200,6 +365,56 @@ describe("linkingService", () => {
     });
   });
 
+  describe("switchDocumentLanguage", () => {
+    it("should switch every page and report each page's results", async () => {
+      const { switchDocumentLanguage } = await import("../../../src/plugin/services/linkingService");
+
+      const linked = createMockTextNode({ id: "node-1", characters: "Submit" });
+      linked.setPluginData(PLUGIN_DATA_KEY, "10001");
+      const missing = createMockTextNode({ id: "node-2", characters: "Gone" });
+      missing.setPluginData(PLUGIN_DATA_KEY, "99999");
+      const unlinked = createMockTextNode({ id: "node-3", characters: "Free text" });
+      const pages = [
+        { page: { id: "0:1", name: "Home" } as PageNode, nodes: [linked, unlinked] },
+        { page: { id: "0:2", name: "Archive" } as PageNode, nodes: [missing] },
+      ];
+
+      const result = await switchDocumentLanguage(sampleTranslationMap, "fr", pages);
+
+      expect(linked.characters).toBe("Soumettre");
+      expect(missing.characters).toBe("Gone");
+      expect(result.success).toBe(1);
+      expect(result.missing).toEqual(["node-2"]);
+      expect(result.pageResults).toEqual([
+        { pageId: "0:1", pageName: "Home", textCount: 2, linked: 1, switched: 1, missing: 0 },
+        { pageId: "0:2", pageName: "Archive", textCount: 1, linked: 1, switched: 0, missing: 1 },
+      ]);
+    });
+
+    it("should measure fixed-size texts on every page in one measuring node", async () => {
+      const { switchDocumentLanguage } = await import("../../../src/plugin/services/linkingService");
+
+      const measuring = createMockMeasuringNode({ Einreichen: 40 });
+      mockFigma.createText.mockReturnValue(measuring as unknown as TextNode);
+      (mockFigma.currentPage as unknown as { appendChild: ReturnType<typeof vi.fn> }).appendChild = vi.fn();
+      const fixed = (id: string, multilanId: string) => {
+        const node = createMockTextNode({ id, textAutoResize: "NONE", height: 20 } as Partial<TextNode>);
+        node.setPluginData(PLUGIN_DATA_KEY, multilanId);
+        return node;
+      };
+      const pages = [
+        { page: { id: "0:1", name: "Home" } as PageNode, nodes: [fixed("node-1", "10001"), fixed("node-2", "10002")] },
+        { page: { id: "0:2", name: "Archive" } as PageNode, nodes: [fixed("node-3", "10001")] },
+      ];
+
+      const result = await switchDocumentLanguage(sampleTranslationMap, "de", pages);
+
+      expect(result.overflowNodes.map(node => node.nodeId)).toEqual(["node-1", "node-3"]);
+      expect(mockFigma.createText).toHaveBeenCalledTimes(1);
+      expect(measuring.remove).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("createLinkedTextNode", () => {
     it("should create a text node linked to multilanId", async () => {
       const { createLinkedTextNode } = await import("../../../src/plugin/services/linkingService");
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { fillMarkupVariables, parseMarkup, stripMarkup } from "../../../src/plugin/services/markupService";
+
+describe("markupService", () => {
+  describe("parseMarkup", () => {
+    it("should leave text without tags alone", () => {
+      expect(parseMarkup("a < b and c > d")).toEqual({ text: "a < b and c > d", spans: [] });
+    });
+
+    it("should read bold, italic, underline, links and style markers", () => {
+      const parsed = parseMarkup("<strong>Hi</strong> <em>you</em>, <u>see</u> <a href='https://x.be'>this</a> <2>now</2>");
+
+      expect(parsed.text).toBe("Hi you, see this now");
+      expect(parsed.spans).toEqual([
+        { kind: "bold", start: 0, end: 2 },
+        { kind: "italic", start: 3, end: 6 },
+        { kind: "underline", start: 8, end: 11 },
+        { kind: "link", start: 12, end: 16, href: "https://x.be" },
+        { kind: "segment", start: 17, end: 20, index: 2 },
+      ]);
+    });
+
+    it("should pair nested and crossing tags by name, ignoring case", () => {
+      const parsed = parseMarkup("<B>bold <i>both</B> italic</i>");
+
+      expect(parsed.text).toBe("bold both italic");
+      expect(parsed.spans).toEqual([
+        { kind: "bold", start: 0, end: 9 },
+        { kind: "italic", start: 5, end: 16 },
+      ]);
+    });
+
+    it("should keep tags that don't pair up as text", () => {
+      expect(parseMarkup("<b>Open</i> and </u>")).toEqual({ text: "<b>Open</i> and </u>", spans: [] });
+      expect(parseMarkup("<b>x</b> <i>y")).toEqual({ text: "x <i>y", spans: [{ kind: "bold", start: 0, end: 1 }] });
+    });
+
+    it("should underline a link without a target", () => {
+      expect(parseMarkup("<a>here</a>").spans).toEqual([{ kind: "underline", start: 0, end: 4 }]);
+    });
+  });
+
+  describe("stripMarkup", () => {
+    it("should return the text the canvas shows", () => {
+      expect(stripMarkup('Click <a href="https://x.be">here</a> to <b>save</b>')).toBe("Click here to save");
+    });
+  });
+
+  describe("fillMarkupVariables", () => {
+    it("should fill values in as text and move the spans after them", () => {
+      const parsed = parseMarkup("Hi <u>###name###</u>, <b>###count###</b> new");
+
+      expect(fillMarkupVariables(parsed, { name: "<b>John</b>", count: "3" })).toEqual({
+        text: "Hi <b>John</b>, 3 new",
+        spans: [
+          { kind: "underline", start: 3, end: 14 },
+          { kind: "bold", start: 16, end: 17 },
+        ],
+      });
+    });
+
+    it("should keep markers without a value", () => {
+      const parsed = parseMarkup("<i>###name###</i> (###role###)");
+
+      expect(fillMarkupVariables(parsed, { role: "<a href='x'>admin</a>" })).toEqual({
+        text: "###name### (<a href='x'>admin</a>)",
+        spans: [{ kind: "italic", start: 0, end: 10 }],
+      });
+    });
+  });
+});
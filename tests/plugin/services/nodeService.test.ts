@@ -10,8 +10,13 @@ import {
   wrapWithStars,
   unwrapStars,
   clearPlaceholderStatus,
+  getVariableValues,
+  setVariableValues,
   getTextNodesInScope,
+  getSelectionTopLevelFrames,
   getAllTextNodesInfo,
+  getTextNodesByPage,
+  getPageResult,
   getSelectedTextNodeInfo,
   getTextNodeById,
   selectNode,
@@ -20,7 +25,7 @@ import {
   createTextNode,
   isEffectivelyVisible,
 } from "../../../src/plugin/services/nodeService";
-import { PLUGIN_DATA_KEY, PLACEHOLDER_KEY } from "../../../src/shared/types";
+import { PLUGIN_DATA_KEY, PLACEHOLDER_KEY, VARIABLE_VALUES_KEY } from "../../../src/shared/types";
 
 describe("nodeService", () => {
   beforeEach(() => {
@@ -228,6 +233,23 @@ describe("nodeService", () => {
     });
   });
 
+  describe("getVariableValues", () => {
+    it("should return the values stored with setVariableValues", () => {
+      const node = createMockTextNode();
+      setVariableValues(node, { name: "John", count: "3" });
+
+      expect(getVariableValues(node)).toEqual({ name: "John", count: "3" });
+    });
+
+    it("should return null when nothing or something unreadable is stored", () => {
+      const node = createMockTextNode();
+      expect(getVariableValues(node)).toBeNull();
+
+      node.setPluginData(VARIABLE_VALUES_KEY, "{not json");
+      expect(getVariableValues(node)).toBeNull();
+    });
+  });
+
   describe("getTextNodesInScope", () => {
     it("should return all text nodes from page", () => {
       const mockNode1 = createMockTextNode({ id: "node-1" });
@@ -267,6 +289,79 @@ describe("nodeService", () => {
     });
   });
 
+  describe("frame scope", () => {
+    const page = { type: "PAGE", parent: null };
+
+    it("should resolve the top-level frames containing the selection, once each", () => {
+      const frame = { id: "frame", type: "FRAME", parent: page };
+      const group = { id: "group", type: "GROUP", parent: frame };
+      const first = createMockTextNode({ id: "a", parent: group as unknown as GroupNode });
+      const second = createMockTextNode({ id: "b", parent: frame as unknown as FrameNode });
+      (figma.currentPage.selection as unknown) = [first, second];
+
+      expect(getSelectionTopLevelFrames()).toEqual([frame]);
+    });
+
+    it("should stop at a section and take the frame inside it", () => {
+      const section = { id: "section", type: "SECTION", parent: page };
+      const frame = { id: "frame", type: "FRAME", parent: section };
+      (figma.currentPage.selection as unknown) = [createMockTextNode({ parent: frame as unknown as FrameNode })];
+
+      expect(getSelectionTopLevelFrames()).toEqual([frame]);
+    });
+
+    it("should return every text node of the frames containing the selection", () => {
+      const siblings = [createMockTextNode({ id: "title" }), createMockTextNode({ id: "body" })];
+      const frame = { id: "frame", type: "FRAME", parent: page, findAll: vi.fn().mockReturnValue(siblings) };
+      (figma.currentPage.selection as unknown) = [createMockTextNode({ id: "title", parent: frame as unknown as FrameNode })];
+
+      expect(getTextNodesInScope("frame").map(node => node.id)).toEqual(["title", "body"]);
+    });
+
+    it("should cover the page when nothing is selected", () => {
+      (figma.currentPage.findAll as ReturnType<typeof vi.fn>).mockReturnValue([createMockTextNode({ id: "on-page" })]);
+
+      expect(getTextNodesInScope("frame").map(node => node.id)).toEqual(["on-page"]);
+    });
+  });
+
+  describe("getTextNodesByPage", () => {
+    function mockPages(count: number) {
+      const pages = Array.from({ length: count }, (_, i) => ({
+        id: `page-${i}`,
+        name: `Page ${i}`,
+        type: "PAGE",
+        findAll: vi.fn(() => [createMockTextNode({ id: `text-${i}` })]),
+      }));
+      Object.assign(figma, {
+        root: { children: pages },
+        loadAllPagesAsync: vi.fn().mockResolvedValue(undefined),
+      });
+      return pages;
+    }
+
+    it("should load every page and group its text nodes by page", async () => {
+      const pages = mockPages(7);
+
+      const result = await getTextNodesByPage();
+
+      expect(figma.loadAllPagesAsync).toHaveBeenCalled();
+      expect(result).toHaveLength(7);
+      expect(result[6].page).toBe(pages[6]);
+      expect(result[6].nodes.map(node => node.id)).toEqual(["text-6"]);
+    });
+
+    it("should count a page's text nodes and linked ones", async () => {
+      mockPages(1);
+      const [page] = await getTextNodesByPage();
+      const linked = createMockTextNode({ id: "linked" });
+      linked.setPluginData(PLUGIN_DATA_KEY, "10001");
+      page.nodes.push(linked);
+
+      expect(getPageResult(page)).toEqual({ pageId: "page-0", pageName: "Page 0", textCount: 2, linked: 1 });
+    });
+  });
+
   describe("getAllTextNodesInfo", () => {
     it("should return info for all text nodes", () => {
       const mockNode1 = createMockTextNode({ id: "node-1", characters: "Text 1" });
@@ -372,6 +467,22 @@ describe("nodeService", () => {
 
       await expect(selectNode("non-existent")).resolves.not.toThrow();
     });
+
+    it("should go to the node's page when it is on another page", async () => {
+      const otherPage = { type: "PAGE", selection: [], parent: null };
+      const frame = { type: "FRAME", parent: otherPage };
+      const mockNode = createMockTextNode({ id: "node-456", parent: frame as unknown as FrameNode });
+      (figma.getNodeByIdAsync as ReturnType<typeof vi.fn>).mockResolvedValue(mockNode);
+      const setCurrentPageAsync = vi.fn(async (page: PageNode) => {
+        (figma as unknown as { currentPage: PageNode }).currentPage = page;
+      });
+      Object.assign(figma, { setCurrentPageAsync });
+
+      await selectNode("node-456");
+
+      expect(setCurrentPageAsync).toHaveBeenCalledWith(otherPage);
+      expect(otherPage.selection).toEqual([mockNode]);
+    });
   });
 
   describe("loadNodeFont", () => {
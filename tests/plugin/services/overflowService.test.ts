@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createMockMeasuringNode, createMockTextNode, setupFigmaMock } from "../../setup";
+import { EXPECTED_TEXT_KEY, OVERFLOW_KEY } from "../../../src/shared/types";
+import {
+  createTextMeasurer,
+  detectTextOverflow,
+  getOverflowStatus,
+  setOverflowStatus,
+} from "../../../src/plugin/services/overflowService";
+
+let mockFigma: ReturnType<typeof setupFigmaMock>;
+let appendChild: ReturnType<typeof vi.fn>;
+// Height each text needs once it may grow
+let contentHeights: Record<string, number>;
+
+beforeEach(() => {
+  mockFigma = setupFigmaMock();
+  appendChild = vi.fn();
+  (mockFigma.currentPage as unknown as { appendChild: typeof appendChild }).appendChild = appendChild;
+  contentHeights = {};
+  mockFigma.createText.mockImplementation(() => createMockMeasuringNode(contentHeights) as unknown as TextNode);
+});
+
+/** A text node whose text needs `contentHeight` once it may grow */
+function textNode(overrides: Record<string, unknown>, contentHeight = 20): TextNode {
+  const node = createMockTextNode({ textAutoResize: "WIDTH_AND_HEIGHT", textTruncation: "DISABLED", ...overrides } as Partial<TextNode>);
+  contentHeights[node.characters] = contentHeight;
+  return node;
+}
+
+function measuringNodes(): ReturnType<typeof createMockMeasuringNode>[] {
+  return mockFigma.createText.mock.results.map(result => result.value);
+}
+
+function frame(overrides: Record<string, unknown>) {
+  return {
+    type: "FRAME",
+    x: 0,
+    y: 0,
+    width: 200,
+    height: 100,
+    layoutMode: "NONE",
+    primaryAxisSizingMode: "FIXED",
+    counterAxisSizingMode: "FIXED",
+    parent: null,
+    ...overrides,
+  };
+}
+
+describe("overflowService", () => {
+  describe("detectTextOverflow", () => {
+    it("should report a fixed-size text box that is too small", () => {
+      const node = textNode({ textAutoResize: "NONE", height: 20 }, 40);
+      expect(detectTextOverflow(node)).toBe("clipped");
+    });
+
+    it("should report truncated text", () => {
+      expect(detectTextOverflow(textNode({ textAutoResize: "HEIGHT", textTruncation: "ENDING", height: 20 }, 60))).toBe("truncated");
+      expect(detectTextOverflow(textNode({ textAutoResize: "TRUNCATE", height: 20 }, 60))).toBe("truncated");
+    });
+
+    it("should measure off-canvas at the node's width and remove the measuring node", () => {
+      const node = textNode({ textAutoResize: "NONE", width: 120, height: 20 }, 20);
+      expect(detectTextOverflow(node)).toBeNull();
+
+      const [measuring] = measuringNodes();
+      expect(appendChild).toHaveBeenCalledWith(measuring);
+      expect(measuring).toMatchObject({ x: -100000, y: -100000, characters: node.characters });
+      expect(measuring.resize).toHaveBeenCalledWith(120, expect.any(Number));
+      expect(measuring.setRangeFontName).toHaveBeenCalledWith(0, node.characters.length, node.fontName);
+      expect(measuring.remove).toHaveBeenCalled();
+    });
+
+    it("should not measure text that grows with its content", () => {
+      const node = textNode({ textAutoResize: "WIDTH_AND_HEIGHT" });
+      expect(detectTextOverflow(node)).toBeNull();
+      expect(mockFigma.createText).not.toHaveBeenCalled();
+    });
+
+    it("should measure every node in one measuring node until disposed", () => {
+      const measurer = createTextMeasurer();
+      const nodes = [
+        textNode({ characters: "Einreichen", textAutoResize: "NONE", height: 20 }, 40),
+        textNode({ characters: "OK", textAutoResize: "NONE", height: 20 }, 20),
+        textNode({ characters: "Abbrechen", textAutoResize: "TRUNCATE", height: 20 }, 40),
+      ];
+
+      expect(nodes.map(node => detectTextOverflow(node, measurer))).toEqual(["clipped", null, "truncated"]);
+      expect(mockFigma.createText).toHaveBeenCalledTimes(1);
+      expect(measuringNodes()[0].remove).not.toHaveBeenCalled();
+
+      measurer.dispose();
+      expect(measuringNodes()[0].remove).toHaveBeenCalled();
+    });
+
+    it("should not make a measuring node when nothing is measured", () => {
+      const measurer = createTextMeasurer();
+      detectTextOverflow(textNode({}), measurer);
+      measurer.dispose();
+
+      expect(mockFigma.createText).not.toHaveBeenCalled();
+    });
+
+    it("should report text that grew past its frame", () => {
+      const node = textNode({ x: 150, width: 80, parent: frame({}) });
+      expect(detectTextOverflow(node)).toBe("parent-overflow");
+    });
+
+    it("should report hugging auto-layout frames that grew past their frame", () => {
+      const screen = frame({ width: 300 });
+      const button = frame({ x: 200, width: 120, layoutMode: "HORIZONTAL", primaryAxisSizingMode: "AUTO", parent: screen });
+      const node = textNode({ x: 10, width: 100, parent: button });
+      expect(detectTextOverflow(node)).toBe("parent-overflow");
+    });
+
+    it("should stop at frames that don't grow", () => {
+      const screen = frame({ width: 100 });
+      const card = frame({ x: 500, width: 150, parent: screen });
+      const node = textNode({ x: 10, width: 100, parent: card });
+      expect(detectTextOverflow(node)).toBeNull();
+    });
+  });
+
+  describe("overflow status", () => {
+    it("should hold while the node shows the text that was checked", () => {
+      const node = createMockTextNode({ characters: "Einreichen" });
+      node.setPluginData(EXPECTED_TEXT_KEY, "Einreichen");
+      setOverflowStatus(node, "clipped");
+
+      expect(node.getPluginData(OVERFLOW_KEY)).toBe("clipped");
+      expect(getOverflowStatus(node)).toBe("clipped");
+
+      (node as { characters: string }).characters = "Edited by hand";
+      expect(getOverflowStatus(node)).toBeNull();
+    });
+
+    it("should clear", () => {
+      const node = createMockTextNode();
+      setOverflowStatus(node, "truncated");
+      setOverflowStatus(node, null);
+      expect(getOverflowStatus(node)).toBeNull();
+    });
+  });
+});
@@ -6,6 +6,14 @@ import {
   touchFolder,
   findLruFolder,
   setFolderTraData,
+  setFolderOverlay,
+  getFolderOverlay,
+  clearFolderOverlay,
+  getFolderHistory,
+  rollbackFolder,
+  getFolderNames,
+  setFolderNames,
+  moveFolderData,
 } from "../../../src/plugin/services/storageService";
 
 const FOLDERS = ["EB", "EBB", "PCB"] as const;
@@ -49,6 +57,22 @@ describe("storageService", () => {
       expect(await figma.clientStorage.getAsync("traLastUsed_EB")).toBeUndefined();
     });
 
+    it("removes the folder's draft overlay too", async () => {
+      await figma.clientStorage.setAsync("traOverlay_EB", { data: "d", metadata: {} });
+
+      await clearFolderCache("EB");
+
+      expect(await figma.clientStorage.getAsync("traOverlay_EB")).toBeUndefined();
+    });
+
+    it("removes the folder's upload history too", async () => {
+      await figma.clientStorage.setAsync("traHistory_EB", [{ data: "d", metadata: {} }]);
+
+      await clearFolderCache("EB");
+
+      expect(await figma.clientStorage.getAsync("traHistory_EB")).toBeUndefined();
+    });
+
     it("leaves other folders untouched", async () => {
       await figma.clientStorage.setAsync("traData_EB", "data-eb");
       await figma.clientStorage.setAsync("traData_PCB", "data-pcb");
@@ -196,6 +220,30 @@ describe("storageService", () => {
       ).rejects.toThrow(/quota/i);
     });
 
+    it("leaves the folder's data, metadata and history as they were when nothing can be freed", async () => {
+      await setFolderTraData("EB", "v1", { uploadTimestamp: 1 }, FOLDERS);
+      await setFolderTraData("EB", "v2", { uploadTimestamp: 2 }, FOLDERS);
+      await setFolderTraData("EB", "v3", { uploadTimestamp: 3 }, FOLDERS);
+
+      // The new data fits, but nothing else does while it's stored
+      const setAsync = figma.clientStorage.setAsync as ReturnType<typeof vi.fn>;
+      setAsync.mockImplementation(async (key: string, value: unknown) => {
+        if (key !== "traData_EB" && figma.clientStorage.store.get("traData_EB") === "v4") {
+          throw new Error("clientStorage quota exceeded");
+        }
+        figma.clientStorage.store.set(key, value);
+      });
+
+      await expect(setFolderTraData("EB", "v4", { uploadTimestamp: 4 }, FOLDERS)).rejects.toThrow(/quota/i);
+
+      expect(figma.clientStorage.store.get("traData_EB")).toBe("v3");
+      expect(figma.clientStorage.store.get("traMetadata_EB")).toEqual({ uploadTimestamp: 3 });
+      expect(figma.clientStorage.store.get("traHistory_EB")).toEqual([
+        { data: "v2", metadata: { uploadTimestamp: 2 } },
+        { data: "v1", metadata: { uploadTimestamp: 1 } },
+      ]);
+    });
+
     it("re-throws non-quota errors without evicting", async () => {
       await figma.clientStorage.setAsync("traData_EBB", "data");
       await figma.clientStorage.setAsync("traLastUsed_EBB", 1);
@@ -213,4 +261,175 @@ describe("storageService", () => {
       expect(figma.clientStorage.store.get("traData_EBB")).toBe("data");
     });
   });
+
+  describe("upload history", () => {
+    it("keeps the replaced upload as the newest history entry", async () => {
+      await setFolderTraData("EB", "v1", { uploadTimestamp: 1 }, FOLDERS);
+      await setFolderTraData("EB", "v2", { uploadTimestamp: 2 }, FOLDERS);
+      await setFolderTraData("EB", "v3", { uploadTimestamp: 3 }, FOLDERS);
+
+      expect(await figma.clientStorage.getAsync("traData_EB")).toBe("v3");
+      expect(await getFolderHistory("EB")).toEqual([
+        { data: "v2", metadata: { uploadTimestamp: 2 } },
+        { data: "v1", metadata: { uploadTimestamp: 1 } },
+      ]);
+    });
+
+    it("keeps at most historyLimit entries", async () => {
+      for (let version = 1; version <= 4; version++) {
+        await setFolderTraData("EB", `v${version}`, { uploadTimestamp: version }, FOLDERS, 2);
+      }
+      expect((await getFolderHistory("EB")).map(release => release.data)).toEqual(["v3", "v2"]);
+    });
+
+    it("drops this folder's history before evicting another folder", async () => {
+      await figma.clientStorage.setAsync("traData_EBB", "other");
+      await setFolderTraData("EB", "v1", { uploadTimestamp: 1 }, FOLDERS);
+
+      const setAsync = figma.clientStorage.setAsync as ReturnType<typeof vi.fn>;
+      setAsync.mockImplementation(async (key: string, value: unknown) => {
+        if (key === "traHistory_EB") throw new Error("quota exceeded");
+        figma.clientStorage.store.set(key, value);
+      });
+
+      const result = await setFolderTraData("EB", "v2", { uploadTimestamp: 2 }, FOLDERS);
+
+      expect(result.evictedFolders).toEqual([]);
+      expect(figma.clientStorage.store.get("traData_EB")).toBe("v2");
+      expect(figma.clientStorage.store.get("traData_EBB")).toBe("other");
+      expect(await getFolderHistory("EB")).toEqual([]);
+    });
+
+    it("drops other folders' kept uploads before evicting them", async () => {
+      await figma.clientStorage.setAsync("traData_EBB", "other");
+      await figma.clientStorage.setAsync("traHistory_EBB", [{ data: "b2", metadata: {} }, { data: "b1", metadata: {} }]);
+
+      const setAsync = figma.clientStorage.setAsync as ReturnType<typeof vi.fn>;
+      let failures = 0;
+      setAsync.mockImplementation(async (key: string, value: unknown) => {
+        if (key === "traData_PCB" && failures < 1) {
+          failures++;
+          throw new Error("quota exceeded");
+        }
+        figma.clientStorage.store.set(key, value);
+      });
+
+      const result = await setFolderTraData("PCB", "pcb-data", undefined, FOLDERS);
+
+      expect(result.evictedFolders).toEqual([]);
+      expect(figma.clientStorage.store.get("traData_EBB")).toBe("other");
+      expect((await getFolderHistory("EBB")).map(release => release.data)).toEqual(["b2"]);
+    });
+
+    it("rolls back to a kept upload and keeps the replaced one", async () => {
+      await setFolderTraData("EB", "v1", { uploadTimestamp: 1 }, FOLDERS);
+      await setFolderTraData("EB", "v2", { uploadTimestamp: 2 }, FOLDERS);
+      await setFolderTraData("EB", "v3", { uploadTimestamp: 3 }, FOLDERS);
+
+      const restored = await rollbackFolder("EB", 1, FOLDERS);
+
+      expect(restored.data).toBe("v1");
+      expect(await figma.clientStorage.getAsync("traData_EB")).toBe("v1");
+      expect(await figma.clientStorage.getAsync("traMetadata_EB")).toEqual({ uploadTimestamp: 1 });
+      expect((await getFolderHistory("EB")).map(release => release.data)).toEqual(["v3", "v2"]);
+    });
+
+    it("keeps the history as it was when the restored data can't be written", async () => {
+      await setFolderTraData("EB", "v1", { uploadTimestamp: 1 }, FOLDERS);
+      await setFolderTraData("EB", "v2", { uploadTimestamp: 2 }, FOLDERS);
+      await setFolderTraData("EB", "v3", { uploadTimestamp: 3 }, FOLDERS);
+
+      const setAsync = figma.clientStorage.setAsync as ReturnType<typeof vi.fn>;
+      setAsync.mockImplementation(async (key: string, value: unknown) => {
+        if (key === "traData_EB") throw new Error("disk unavailable");
+        figma.clientStorage.store.set(key, value);
+      });
+
+      await expect(rollbackFolder("EB", 1, FOLDERS)).rejects.toThrow("disk unavailable");
+
+      expect(figma.clientStorage.store.get("traData_EB")).toBe("v3");
+      expect((await getFolderHistory("EB")).map(release => release.data)).toEqual(["v2", "v1"]);
+    });
+
+    it("restores the history when the quota can't be met", async () => {
+      await setFolderTraData("EB", "v1", { uploadTimestamp: 1 }, FOLDERS);
+      await setFolderTraData("EB", "v2", { uploadTimestamp: 2 }, FOLDERS);
+
+      const setAsync = figma.clientStorage.setAsync as ReturnType<typeof vi.fn>;
+      setAsync.mockImplementation(async (key: string, value: unknown) => {
+        if (key === "traData_EB") throw new Error("quota exceeded");
+        figma.clientStorage.store.set(key, value);
+      });
+
+      await expect(rollbackFolder("EB", 0, FOLDERS)).rejects.toThrow("quota");
+
+      expect(figma.clientStorage.store.get("traData_EB")).toBe("v2");
+      expect((await getFolderHistory("EB")).map(release => release.data)).toEqual(["v1"]);
+    });
+
+    it("throws when there is no such kept upload", async () => {
+      await setFolderTraData("EB", "v1", { uploadTimestamp: 1 }, FOLDERS);
+      await expect(rollbackFolder("EB", 0, FOLDERS)).rejects.toThrow(/no previous upload/);
+    });
+  });
+
+  describe("folder overlays", () => {
+    it("round-trips an overlay and clears it", async () => {
+      await setFolderOverlay("EB", { data: { en: "x" }, metadata: { uploadTimestamp: 1 } });
+      expect(await getFolderOverlay("EB")).toEqual({ data: { en: "x" }, metadata: { uploadTimestamp: 1 } });
+      expect(await getFolderOverlay("PCB")).toBeNull();
+
+      await clearFolderOverlay("EB");
+      expect(await getFolderOverlay("EB")).toBeNull();
+    });
+  });
+
+  describe("folder list", () => {
+    it("returns the defaults until a list is saved", async () => {
+      expect(await getFolderNames(FOLDERS)).toEqual(["EB", "EBB", "PCB"]);
+
+      await setFolderNames(["Web", "EB"]);
+      expect(await getFolderNames(FOLDERS)).toEqual(["Web", "EB"]);
+    });
+
+    it("ignores a stored list that isn't a non-empty list of names", async () => {
+      await figma.clientStorage.setAsync("folderNames", []);
+      expect(await getFolderNames(FOLDERS)).toEqual(["EB", "EBB", "PCB"]);
+
+      await figma.clientStorage.setAsync("folderNames", ["EB", 3]);
+      expect(await getFolderNames(FOLDERS)).toEqual(["EB", "EBB", "PCB"]);
+    });
+  });
+
+  describe("moveFolderData", () => {
+    it("moves every key of the folder to the new name", async () => {
+      await setFolderTraData("EB", "v1", { uploadTimestamp: 1 }, FOLDERS);
+      await setFolderTraData("EB", "v2", { uploadTimestamp: 2 }, FOLDERS);
+      await setFolderOverlay("EB", { data: "draft", metadata: { uploadTimestamp: 3 } });
+
+      await moveFolderData("EB", "Web");
+
+      expect(await figma.clientStorage.getAsync("traData_Web")).toBe("v2");
+      expect(await figma.clientStorage.getAsync("traMetadata_Web")).toEqual({ uploadTimestamp: 2 });
+      expect((await getFolderHistory("Web")).map(release => release.data)).toEqual(["v1"]);
+      expect(await getFolderOverlay("Web")).toEqual({ data: "draft", metadata: { uploadTimestamp: 3 } });
+      for (const prefix of ["traData_", "traMetadata_", "traLastUsed_", "traOverlay_", "traHistory_"]) {
+        expect(await figma.clientStorage.getAsync(prefix + "EB")).toBeUndefined();
+      }
+    });
+
+    it("keeps the folder under its old name when a write fails", async () => {
+      await setFolderTraData("EB", "v1", { uploadTimestamp: 1 }, FOLDERS);
+      const setAsync = figma.clientStorage.setAsync.bind(figma.clientStorage);
+      vi.spyOn(figma.clientStorage, "setAsync").mockImplementation(async (key: string, value: unknown) => {
+        if (key === "traMetadata_Web") throw new Error("quota exceeded");
+        return setAsync(key, value);
+      });
+
+      await expect(moveFolderData("EB", "Web")).rejects.toThrow("quota exceeded");
+
+      expect(await figma.clientStorage.getAsync("traData_EB")).toBe("v1");
+      expect(await figma.clientStorage.getAsync("traData_Web")).toBeUndefined();
+    });
+  });
 });
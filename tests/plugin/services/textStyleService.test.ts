@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createMockTextNode, setupFigmaMock } from "../../setup";
+import { fontVariant, mapStyledRanges, writeStyledText } from "../../../src/plugin/services/textStyleService";
+import type { StyledRange, TextSegmentStyle } from "../../../src/plugin/services/textStyleService";
+
+function style(fontStyle: string): TextSegmentStyle {
+  return { fontName: { family: "Inter", style: fontStyle } } as TextSegmentStyle;
+}
+
+const regular = style("Regular");
+const bold = style("Bold");
+
+// "Press Submit now": "Submit" in bold
+const pressSubmitNow: StyledRange[] = [
+  { start: 0, end: 6, style: regular },
+  { start: 6, end: 12, style: bold },
+  { start: 12, end: 16, style: regular },
+];
+
+function spans(text: string, ranges: StyledRange[]): [string, string][] {
+  return ranges.map(range => [text.slice(range.start, range.end), range.style.fontName.style]);
+}
+
+describe("textStyleService", () => {
+  beforeEach(() => {
+    setupFigmaMock();
+  });
+
+  describe("mapStyledRanges", () => {
+    it("should give the whole new text a node's single style", () => {
+      const mapped = mapStyledRanges([{ start: 0, end: 5, style: bold }], "Annuler");
+      expect(mapped).toEqual({ text: "Annuler", ranges: [{ start: 0, end: 7, style: bold }], formatting: [] });
+    });
+
+    it("should strip style markers and give their text the marked segment's style", () => {
+      const mapped = mapStyledRanges(pressSubmitNow, "Appuyez maintenant sur <1>Soumettre</1>");
+
+      expect(mapped.text).toBe("Appuyez maintenant sur Soumettre");
+      expect(spans(mapped.text, mapped.ranges)).toEqual([
+        ["Appuyez maintenant sur ", "Regular"],
+        ["Soumettre", "Bold"],
+      ]);
+    });
+
+    it("should give text in an unknown marker the dominant style", () => {
+      const mapped = mapStyledRanges(pressSubmitNow, "<7>Hallo</7>");
+      expect(spans(mapped.text, mapped.ranges)).toEqual([["Hallo", "Regular"]]);
+    });
+
+    it("should scale the ranges to the new text without markers", () => {
+      const mapped = mapStyledRanges(pressSubmitNow, "Druk nu op Indienen!");
+
+      expect(mapped.text).toBe("Druk nu op Indienen!");
+      expect(mapped.ranges.map(range => [range.start, range.end])).toEqual([[0, 8], [8, 15], [15, 20]]);
+      expect(mapped.ranges.map(range => range.style)).toEqual([regular, bold, regular]);
+    });
+
+    it("should drop ranges that scale to nothing", () => {
+      const mapped = mapStyledRanges(pressSubmitNow, "OK");
+      expect(mapped.ranges.reduce((length, range) => length + range.end - range.start, 0)).toBe(2);
+      expect(mapped.ranges.every(range => range.end > range.start)).toBe(true);
+    });
+  });
+
+  describe("fontVariant", () => {
+    const inter = ["Regular", "Italic", "Bold", "Bold Italic"].map(style => ({ family: "Inter", style }));
+
+    it("should find the bold, italic and bold italic styles of the family", () => {
+      const regularFont = { family: "Inter", style: "Regular" };
+      expect(fontVariant(regularFont, { bold: true, italic: false }, inter)).toEqual({ family: "Inter", style: "Bold" });
+      expect(fontVariant(regularFont, { bold: false, italic: true }, inter)).toEqual({ family: "Inter", style: "Italic" });
+      expect(fontVariant(regularFont, { bold: true, italic: true }, inter)).toEqual({ family: "Inter", style: "Bold Italic" });
+      expect(fontVariant({ family: "Inter", style: "Italic" }, { bold: true, italic: false }, inter))
+        .toEqual({ family: "Inter", style: "Bold Italic" });
+    });
+
+    it("should fall back to another bold weight, or keep the font when the family has none", () => {
+      const roboto = [{ family: "Roboto", style: "Regular" }, { family: "Roboto", style: "SemiBold" }];
+      expect(fontVariant({ family: "Roboto", style: "Regular" }, { bold: true, italic: false }, roboto))
+        .toEqual({ family: "Roboto", style: "SemiBold" });
+
+      const mono = { family: "Mono", style: "Regular" };
+      expect(fontVariant(mono, { bold: true, italic: true }, inter)).toBe(mono);
+    });
+  });
+
+  describe("mapStyledRanges with markup", () => {
+    it("should strip formatting tags and return their spans", () => {
+      const mapped = mapStyledRanges([{ start: 0, end: 4, style: regular }], 'Lees <b>eerst</b> de <a href="https://x.be">voorwaarden</a>');
+
+      expect(mapped.text).toBe("Lees eerst de voorwaarden");
+      expect(mapped.ranges).toEqual([{ start: 0, end: 25, style: regular }]);
+      expect(mapped.formatting).toEqual([
+        { kind: "bold", start: 5, end: 10 },
+        { kind: "link", start: 14, end: 25, href: "https://x.be" },
+      ]);
+    });
+  });
+
+  describe("writeStyledText", () => {
+    function mixedNode() {
+      const node = createMockTextNode({ characters: "Press Submit now" });
+      (node.getStyledTextSegments as ReturnType<typeof vi.fn>).mockReturnValue(
+        pressSubmitNow.map(range => ({ start: range.start, end: range.end, ...range.style, fills: [], hyperlink: null }))
+      );
+      Object.assign(node, {
+        setRangeFontName: vi.fn(),
+        setRangeFontSize: vi.fn(),
+        setRangeTextDecoration: vi.fn(),
+        setRangeTextCase: vi.fn(),
+        setRangeLetterSpacing: vi.fn(),
+        setRangeLineHeight: vi.fn(),
+        setRangeFills: vi.fn(),
+        setRangeHyperlink: vi.fn(),
+        setRangeTextStyleIdAsync: vi.fn().mockResolvedValue(undefined),
+      });
+      return node;
+    }
+
+    it("should load every segment's font, write the text and restore each range", async () => {
+      const node = mixedNode();
+
+      const written = await writeStyledText(node, "Appuyez sur <1>Soumettre</1>");
+
+      expect(written).toBe("Appuyez sur Soumettre");
+      expect(node.characters).toBe("Appuyez sur Soumettre");
+      expect(figma.loadFontAsync).toHaveBeenCalledTimes(2);
+      expect(node.setRangeFontName).toHaveBeenCalledWith(0, 12, regular.fontName);
+      expect(node.setRangeFontName).toHaveBeenCalledWith(12, 21, bold.fontName);
+    });
+
+    it("should apply a segment's text style rather than its properties", async () => {
+      const node = mixedNode();
+      (node.getStyledTextSegments as ReturnType<typeof vi.fn>).mockReturnValue([
+        { start: 0, end: 5, fontName: regular.fontName, textStyleId: "S:body", fills: [], hyperlink: null },
+        { start: 5, end: 16, fontName: bold.fontName, textStyleId: "S:strong", fills: [], hyperlink: null },
+      ]);
+
+      await writeStyledText(node, "Hallo wereld");
+
+      expect(node.setRangeTextStyleIdAsync).toHaveBeenCalledWith(0, 4, "S:body");
+      expect(node.setRangeTextStyleIdAsync).toHaveBeenCalledWith(4, 12, "S:strong");
+      expect(node.setRangeFontName).not.toHaveBeenCalled();
+    });
+
+    it("should apply bold, italic, underline and links from markup", async () => {
+      const node = mixedNode();
+      (node.getStyledTextSegments as ReturnType<typeof vi.fn>).mockReturnValue([
+        { start: 0, end: 16, fontName: regular.fontName, fills: [], hyperlink: null },
+      ]);
+      Object.assign(figma, {
+        listAvailableFontsAsync: vi.fn().mockResolvedValue(
+          ["Regular", "Bold", "Italic", "Bold Italic"].map(style => ({ fontName: { family: "Inter", style } }))
+        ),
+      });
+
+      const written = await writeStyledText(node, '<b>Let <i>op</i></b>: <u>lees</u> <a href="https://x.be">dit</a>');
+
+      expect(written).toBe("Let op: lees dit");
+      expect(node.setRangeFontName).toHaveBeenCalledWith(0, 4, { family: "Inter", style: "Bold" });
+      expect(node.setRangeFontName).toHaveBeenCalledWith(4, 6, { family: "Inter", style: "Bold Italic" });
+      expect(node.setRangeTextDecoration).toHaveBeenCalledWith(8, 12, "UNDERLINE");
+      expect(node.setRangeTextDecoration).toHaveBeenCalledWith(13, 16, "UNDERLINE");
+      expect(node.setRangeHyperlink).toHaveBeenCalledWith(13, 16, { type: "URL", value: "https://x.be" });
+      expect(figma.loadFontAsync).toHaveBeenCalledWith({ family: "Inter", style: "Bold Italic" });
+    });
+
+    it("should only write the text of a node with one style", async () => {
+      const node = createMockTextNode({ characters: "Submit" });
+
+      expect(await writeStyledText(node, "Soumettre")).toBe("Soumettre");
+      expect(node.characters).toBe("Soumettre");
+      expect(figma.loadFontAsync).toHaveBeenCalledWith({ family: "Inter", style: "Regular" });
+    });
+  });
+});
@@ -5,7 +5,10 @@ import {
   exactMatchLookup,
   detectMatchAsync,
   invalidateTextToIdMapCache,
+  updateTextToIdMapCache,
 } from "../../../src/plugin/services/translationService";
+import { LiveAdapter } from "../../../src/adapters/implementations/liveAdapter";
+import { TraFileAdapter } from "../../../src/adapters/implementations/traFileAdapter";
 import type { TranslationMap } from "../../../src/shared/types";
 
 describe("exact-match handling with duplicate text", () => {
@@ -188,4 +191,33 @@ describe("exact-match handling with duplicate text", () => {
       expect(result.suggestions?.[0].multilanId).toBe("M-1");
     });
   });
+
+  describe("updateTextToIdMapCache", () => {
+    it("patches the cached map from a live source's change event", async () => {
+      const source = await LiveAdapter.createAsync(
+        await TraFileAdapter.createAsync({ en: '1,"Submit"\n2,"Cancel"\n3,"Submit"\n', fr: "", nl: "", de: "" })
+      );
+      const data = source.getTranslationMap();
+      const map = await getTextToIdMap(data);
+      source.subscribe(event => updateTextToIdMapCache(data, event));
+
+      await source.replaceAsync(
+        await TraFileAdapter.createAsync({ en: '1,"Send"\n2,"Cancel"\n4,"Close"\n', fr: "", nl: "", de: "" })
+      );
+
+      // Same map instance, patched rather than rebuilt
+      expect(await getTextToIdMap(data)).toBe(map);
+      expect(map.get("Submit")).toBeUndefined();
+      expect(map.get("Send")).toEqual(["1"]);
+      expect(map.get("Cancel")).toEqual(["2"]);
+      expect(map.get("Close")).toEqual(["4"]);
+    });
+
+    it("ignores events for data the cache wasn't built from", async () => {
+      const data: TranslationMap = { "1": { en: "Hi" } };
+      const map = await getTextToIdMap(data);
+      updateTextToIdMapCache({}, { added: ["2"], changed: [], removed: ["1"], previous: { "1": { en: "Hi" } } });
+      expect(map.get("Hi")).toEqual(["1"]);
+    });
+  });
 });
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  getEntryAsync,
+  primeEntriesAsync,
+  forEachEntryChunkAsync,
+  globalSearchAsync,
+  searchWithScoreAsync,
+  detectMatchAsync,
+  getTextToIdMap,
+  invalidateTextToIdMapCache,
+} from "../../../src/plugin/services/translationService";
+import { CompositeAdapter } from "../../../src/adapters/implementations/compositeAdapter";
+import { LiveAdapter } from "../../../src/adapters/implementations/liveAdapter";
+import type { TranslationDataPort, TranslationPortEntry } from "../../../src/ports/translationPort";
+import type { MetadataMap, TranslationMap } from "../../../src/shared/types";
+
+const REMOTE: TranslationPortEntry[] = [
+  { multilanId: "10001", translations: { en: "Submit", fr: "Soumettre" }, metadata: { status: "FINAL" } },
+  { multilanId: "10002", translations: { en: "Cancel", fr: "Annuler" } },
+  { multilanId: "10003", translations: { en: "Submit order" } },
+];
+
+/** A port that serves entries on demand and never materializes its map */
+function createLazyPort() {
+  const port = {
+    getTranslationMap: () => ({}),
+    getMetadataMap: () => ({}),
+    getTranslationCount: () => REMOTE.length,
+    getSourceIdentifier: () => "lazy-test",
+    getEntry: vi.fn(async (id: string) => REMOTE.find(e => e.multilanId === id) ?? null),
+    searchText: vi.fn(async (query: string, options?: { limit?: number }) =>
+      REMOTE.filter(e => Object.values(e.translations).some(t => t.includes(query))).slice(0, options?.limit)
+    ),
+    iterateEntries: vi.fn(async (onChunk: (chunk: TranslationPortEntry[]) => unknown, chunkSize = 2) => {
+      for (let i = 0; i < REMOTE.length; i += chunkSize) {
+        if (await onChunk(REMOTE.slice(i, i + chunkSize)) === false) return;
+      }
+    }),
+  };
+  return port satisfies TranslationDataPort;
+}
+
+describe("translationService lazy port access", () => {
+  let port: ReturnType<typeof createLazyPort>;
+  let translationData: TranslationMap;
+  let metadataMap: MetadataMap;
+
+  beforeEach(() => {
+    port = createLazyPort();
+    translationData = {};
+    metadataMap = {};
+    invalidateTextToIdMapCache();
+  });
+
+  describe("getEntryAsync", () => {
+    it("should fetch a missing entry through the port and cache it", async () => {
+      const entry = await getEntryAsync(port, translationData, metadataMap, "10001");
+      expect(entry?.translations.fr).toBe("Soumettre");
+      expect(translationData["10001"]).toEqual({ en: "Submit", fr: "Soumettre" });
+      expect(metadataMap["10001"]).toEqual({ status: "FINAL" });
+
+      await getEntryAsync(port, translationData, metadataMap, "10001");
+      expect(port.getEntry).toHaveBeenCalledTimes(1);
+    });
+
+    it("should read the map for ports without getEntry", async () => {
+      const data: TranslationMap = { "1": { en: "Hi" } };
+      expect(await getEntryAsync(null, data, {}, "1")).toEqual({ multilanId: "1", translations: { en: "Hi" } });
+      expect(await getEntryAsync(null, data, {}, "2")).toBeNull();
+    });
+  });
+
+  describe("primeEntriesAsync", () => {
+    it("should fetch only the entries not yet in the map", async () => {
+      translationData["10002"] = { en: "Cancel" };
+      await primeEntriesAsync(port, translationData, metadataMap, ["10001", "10002", "10001", "missing"]);
+      expect(port.getEntry.mock.calls.map(c => c[0])).toEqual(["10001", "missing"]);
+      expect(Object.keys(translationData).sort()).toEqual(["10001", "10002"]);
+    });
+  });
+
+  describe("forEachEntryChunkAsync", () => {
+    it("should walk the port in chunks and stop when the handler returns false", async () => {
+      const seen: string[][] = [];
+      await forEachEntryChunkAsync(port, translationData, chunk => {
+        seen.push(chunk.map(e => e.multilanId));
+        return false;
+      }, 2);
+      expect(seen).toEqual([["10001", "10002"]]);
+    });
+
+    it("should chunk the materialized map for ports without iterateEntries", async () => {
+      const data: TranslationMap = { a: { en: "A" }, b: { en: "B" }, c: { en: "C" } };
+      const sizes: number[] = [];
+      await forEachEntryChunkAsync(null, data, chunk => { sizes.push(chunk.length); }, 2);
+      expect(sizes).toEqual([2, 1]);
+    });
+  });
+
+  describe("globalSearchAsync", () => {
+    it("should search through the port's searchText", async () => {
+      const results = await globalSearchAsync(port, translationData, "Submit", 30);
+      expect(port.searchText).toHaveBeenCalledWith("Submit", { limit: 30, includeIdMatch: true });
+      expect(results.map(r => r.multilanId)).toEqual(["10001", "10003"]);
+    });
+  });
+
+  describe("searchWithScoreAsync", () => {
+    it("should score the port's searchText candidates", async () => {
+      const results = await searchWithScoreAsync(port, translationData, "Submit", 20);
+      expect(port.searchText).toHaveBeenCalledWith("Submit", { limit: 20 });
+      expect(results.map(r => r.multilanId)).toEqual(["10001", "10003"]);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+    });
+
+    it("should search the materialized map for ports without searchText", async () => {
+      const data: TranslationMap = { "1": { en: "Submit" }, "2": { en: "Cancel" } };
+      const results = await searchWithScoreAsync(null, data, "Submit", 20);
+      expect(results.map(r => r.multilanId)).toEqual(["1"]);
+    });
+  });
+
+  describe("through the plugin's wrappers", () => {
+    it("should reach a lazy port behind a live source and a draft overlay", async () => {
+      const composite = await CompositeAdapter.createAsync([
+        { name: "draft", port: createLazyPort() },
+        { name: "official", port: createLazyPort() },
+      ]);
+      const live = await LiveAdapter.createAsync(composite);
+      const data = live.getTranslationMap();
+      const metadata = live.getMetadataMap();
+
+      const entry = await getEntryAsync(live, data, metadata, "10002");
+      expect(entry?.translations).toEqual({ en: "Cancel", fr: "Annuler" });
+      expect(data["10002"]).toEqual({ en: "Cancel", fr: "Annuler" });
+      expect(metadata["10002"].origin).toBe("draft");
+
+      const results = await searchWithScoreAsync(live, data, "Submit", 20);
+      expect(results.map(r => r.multilanId)).toEqual(["10001", "10003"]);
+
+      const map = await getTextToIdMap(data, live);
+      expect(map.get("Submit order")).toEqual(["10003"]);
+    });
+  });
+
+  describe("detectMatchAsync with a lazy port", () => {
+    it("should find exact matches through iterateEntries and prime their entries", async () => {
+      const result = await detectMatchAsync(translationData, "Cancel", metadataMap, undefined, port);
+      expect(result.status).toBe("exact");
+      expect(result.multilanId).toBe("10002");
+      expect(result.translations).toEqual({ en: "Cancel", fr: "Annuler" });
+    });
+
+    it("should score close matches returned by searchText", async () => {
+      const result = await detectMatchAsync(translationData, "Submit orde", metadataMap, undefined, port);
+      expect(result.status).toBe("close");
+      expect(result.suggestions?.[0].multilanId).toBe("10003");
+    });
+
+    it("should build the text-to-ID map from the port", async () => {
+      const map = await getTextToIdMap(translationData, port);
+      expect(map.get("Submit")).toEqual(["10001"]);
+      expect(port.iterateEntries).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -8,7 +8,10 @@ import {
   searchTranslationsWithScoreAsync,
   globalSearchTranslationsAsync,
   getTextToIdMap,
+  exactMatchLookup,
+  normalizeExactKey,
   detectLanguage,
+  interpolateVariables,
 } from "../../../src/plugin/services/translationService";
 import { CurrentApiAdapter } from "../../../src/adapters/implementations/currentApiAdapter";
 import { sampleApiData, sampleTranslationMap } from "../../setup";
@@ -51,9 +54,20 @@ describe("translationService", () => {
       expect(result).toBeNull();
     });
 
-    it("should return null for non-existent language", () => {
+    it("should fall back to English for a language without text", () => {
       const result = getTranslation(sampleTranslationMap, "10003", "de");
-      expect(result).toBeNull();
+      expect(result).toBe(sampleTranslationMap["10003"].en);
+    });
+
+    it("should fall back from a regional locale to its language, then English", () => {
+      const translationData = { "1": { en: "Submit", fr: "Soumettre", "fr-BE": "Envoyer" }, "2": { en: "Cancel", fr: "Annuler" } };
+      expect(getTranslation(translationData, "1", "fr-BE")).toBe("Envoyer");
+      expect(getTranslation(translationData, "1", "fr-FR")).toBe("Soumettre");
+      expect(getTranslation(translationData, "2", "nl-BE")).toBe("Cancel");
+    });
+
+    it("should return null when no locale in the chain has text", () => {
+      expect(getTranslation({ "1": { fr: "Soumettre" } }, "1", "de")).toBeNull();
     });
   });
 
@@ -72,6 +86,11 @@ describe("translationService", () => {
       const result = getAllTranslations(sampleTranslationMap, "99999");
       expect(result).toBeNull();
     });
+
+    it("should not resolve keys through the prototype chain", () => {
+      expect(getAllTranslations(sampleTranslationMap, "constructor")).toBeNull();
+      expect(getTranslation(sampleTranslationMap, "toString", "en")).toBeNull();
+    });
   });
 
   describe("isLanguage", () => {
@@ -91,6 +110,11 @@ describe("translationService", () => {
     it("should return false for undefined", () => {
       expect(isLanguage(undefined)).toBe(false);
     });
+
+    it("should check against the given language list", () => {
+      expect(isLanguage("lb", ["en", "lb"])).toBe(true);
+      expect(isLanguage("fr", ["en", "lb"])).toBe(false);
+    });
   });
 
   describe("calculateMatchScore", () => {
@@ -224,9 +248,28 @@ describe("translationService", () => {
       const map = await getTextToIdMap(dataWithDuplicates);
       expect(map.get("Test")).toEqual(["1", "2"]);
     });
+
+    it("should key translations with markup by the text the canvas shows", async () => {
+      const map = await getTextToIdMap({ "1": { en: '<b>Save</b> or <a href="https://x.be">cancel</a>' } });
+      expect(map.get("Save or cancel")).toEqual(["1"]);
+      expect(await exactMatchLookup({ "1": { en: "<i>Done</i>" } }, " Done ")).toEqual(["1"]);
+    });
+  });
+
+  describe("normalizeExactKey", () => {
+    it("should strip markup tags and compose accents", () => {
+      expect(normalizeExactKey("<b>Cre\u0301er</b>")).toBe("Cr\u00e9er");
+    });
   });
 
   describe("detectLanguage", () => {
+    it("should compare against translations without their markup", () => {
+      const result = detectLanguage({ "1": { en: "<b>Submit</b>", fr: "<b>Soumettre</b>" } }, [
+        { multilanId: "1", characters: "Soumettre" },
+      ]);
+      expect(result).toBe("fr");
+    });
+
     it("should detect English when nodes have English text", () => {
       const linkedNodes = [
         { multilanId: "10001", characters: "Submit" },
@@ -287,6 +330,16 @@ describe("translationService", () => {
       expect(result).toBe("en");
     });
 
+    it("should detect languages from the given list", () => {
+      const translationMap = { "1": { en: "Submit", lb: "Ofschécken" }, "2": { en: "Cancel", lb: "Ofbriechen" } };
+      const linkedNodes = [
+        { multilanId: "1", characters: "Ofschécken" },
+        { multilanId: "2", characters: "Ofbriechen" },
+      ];
+      expect(detectLanguage(translationMap, linkedNodes, ["en", "lb"])).toBe("lb");
+      expect(detectLanguage(translationMap, linkedNodes)).toBe("en");
+    });
+
     it("should handle invalid multilanIds gracefully", () => {
       const linkedNodes = [
         { multilanId: "invalid", characters: "Submit" },
@@ -296,4 +349,14 @@ describe("translationService", () => {
       expect(result).toBe("en");
     });
   });
+
+  describe("interpolateVariables", () => {
+    it("should fill each marker with its value", () => {
+      expect(interpolateVariables("Page ###n### of ###total###", { n: "3", total: "10" })).toBe("Page 3 of 10");
+    });
+
+    it("should keep the markers of variables without a value", () => {
+      expect(interpolateVariables("Bonjour, ###name### (###role###)", { name: "Marie" })).toBe("Bonjour, Marie (###role###)");
+    });
+  });
 });
@@ -0,0 +1,55 @@
+// Plugin Test Setup - loads the plugin entry point (src/plugin/index.ts)
+// against the Figma mock and drives it through its message router
+import { vi } from "vitest";
+import type { PluginMessage } from "../../src/shared/types";
+import { setupFigmaMock } from "../setup";
+
+/** A message the plugin posted to the UI */
+export type PostedMessage = PluginMessage & Record<string, unknown>;
+
+export interface LoadedPlugin {
+  figma: ReturnType<typeof setupFigmaMock>;
+  /** Send a UI message to the plugin and wait for its handler */
+  send(msg: PluginMessage): Promise<void>;
+  /** Messages posted to the UI so far, of `type` */
+  posted(type: string): PostedMessage[];
+  /** The last message posted to the UI of `type` */
+  lastPosted(type: string): PostedMessage | undefined;
+  /** A value in clientStorage */
+  stored(key: string): unknown;
+}
+
+/**
+ * Start a fresh copy of the plugin with `stored` in clientStorage, and wait
+ * until its startup has posted "init"
+ */
+export async function loadPlugin(stored: Record<string, unknown> = {}): Promise<LoadedPlugin> {
+  vi.resetModules();
+  const mockFigma = setupFigmaMock();
+  for (const [key, value] of Object.entries(stored)) mockFigma.clientStorage.store.set(key, value);
+  Object.assign(mockFigma, {
+    root: { children: [mockFigma.currentPage] },
+    base64Encode: (bytes: Uint8Array) => Buffer.from(bytes).toString("base64"),
+    base64Decode: (text: string) => new Uint8Array(Buffer.from(text, "base64")),
+    closePlugin: vi.fn(),
+  });
+  Object.assign(mockFigma.ui, { resize: vi.fn() });
+  Object.assign(globalThis, { __html__: "" });
+
+  const posted = (type: string) =>
+    mockFigma.ui.postMessage.mock.calls.map(call => call[0] as PostedMessage).filter(msg => msg.type === type);
+
+  await import("../../src/plugin/index");
+  await vi.waitFor(() => {
+    if (posted("init").length === 0) throw new Error("The plugin hasn't posted init yet");
+  });
+
+  const ui = mockFigma.ui as typeof mockFigma.ui & { onmessage: (msg: PluginMessage) => Promise<void> };
+  return {
+    figma: mockFigma,
+    send: msg => ui.onmessage(msg),
+    posted,
+    lastPosted: type => posted(type).pop(),
+    stored: key => mockFigma.clientStorage.store.get(key),
+  };
+}
@@ -6,7 +6,7 @@ import { vi } from "vitest";
 export function createMockTextNode(overrides: Partial<TextNode> = {}): TextNode {
   const pluginData: Record<string, string> = {};
 
-  return {
+  const node = {
     id: "node-1",
     type: "TEXT",
     name: "Test Node",
@@ -22,8 +22,44 @@ export function createMockTextNode(overrides: Partial<TextNode> = {}): TextNode
       pluginData[key] = value;
     }),
     getRangeFontName: vi.fn(() => ({ family: "Inter", style: "Regular" })),
+    // One style over the whole text
+    getStyledTextSegments: vi.fn(() => node.characters ? [{
+      start: 0,
+      end: node.characters.length,
+      characters: node.characters,
+      fontName: node.fontName,
+      fills: node.fills,
+    }] : []),
     ...overrides,
   } as unknown as TextNode;
+  return node;
+}
+
+// Text node figma.createText makes for measuring text (see overflowService):
+// once set to grow in height, it's as tall as its text's entry in
+// `contentHeights`, or 20
+export function createMockMeasuringNode(contentHeights: Record<string, number> = {}) {
+  const node = {
+    characters: "",
+    height: 20,
+    fontName: { family: "Inter", style: "Regular" },
+    remove: vi.fn(),
+    resize: vi.fn(),
+    setRangeFontName: vi.fn(),
+    setRangeFontSize: vi.fn(),
+    setRangeLetterSpacing: vi.fn(),
+    setRangeLineHeight: vi.fn(),
+    setRangeTextCase: vi.fn(),
+    setRangeParagraphSpacing: vi.fn(),
+    setRangeParagraphIndent: vi.fn(),
+    setRangeIndentation: vi.fn(),
+    setRangeListOptions: vi.fn(),
+    setRangeListSpacing: vi.fn(),
+    set textAutoResize(value: string) {
+      if (value === "HEIGHT") node.height = contentHeights[node.characters] ?? 20;
+    },
+  };
+  return node;
 }
 
 // In-memory clientStorage mock mirroring figma.clientStorage's contract.
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  closestLocale,
+  isLanguageCode,
+  isTextScope,
+  localeFallbackChain,
+  normalizeLocale,
+} from "../../src/shared/types";
+
+describe("shared/types", () => {
+  describe("isLanguageCode", () => {
+    it("should accept language, script and region tags in canonical case", () => {
+      expect(isLanguageCode("fr")).toBe(true);
+      expect(isLanguageCode("fr-BE")).toBe(true);
+      expect(isLanguageCode("zh-Hant-TW")).toBe(true);
+      expect(isLanguageCode("es-419")).toBe(true);
+    });
+
+    it("should reject other casing and other strings", () => {
+      expect(isLanguageCode("fr-be")).toBe(false);
+      expect(isLanguageCode("fr_BE")).toBe(false);
+      expect(isLanguageCode("English")).toBe(false);
+      expect(isLanguageCode("")).toBe(false);
+    });
+  });
+
+  describe("isTextScope", () => {
+    it("should accept the four scopes only", () => {
+      expect(["selection", "frame", "page", "document"].every(isTextScope)).toBe(true);
+      expect(isTextScope("Frame")).toBe(false);
+      expect(isTextScope(undefined)).toBe(false);
+    });
+  });
+
+  describe("normalizeLocale", () => {
+    it("should canonicalize case and separators", () => {
+      expect(normalizeLocale("fr_be")).toBe("fr-BE");
+      expect(normalizeLocale("FR-be")).toBe("fr-BE");
+      expect(normalizeLocale("zh-hant-tw")).toBe("zh-Hant-TW");
+      expect(normalizeLocale("nl")).toBe("nl");
+    });
+
+    it("should return null for tags it can't read", () => {
+      expect(normalizeLocale("french")).toBeNull();
+      expect(normalizeLocale("fr-BE-extra")).toBeNull();
+      expect(normalizeLocale("")).toBeNull();
+    });
+  });
+
+  describe("localeFallbackChain", () => {
+    it("should drop subtags in turn and end with English", () => {
+      expect(localeFallbackChain("fr-FR")).toEqual(["fr-FR", "fr", "en"]);
+      expect(localeFallbackChain("zh-Hant-TW")).toEqual(["zh-Hant-TW", "zh-Hant", "zh", "en"]);
+    });
+
+    it("should not repeat English", () => {
+      expect(localeFallbackChain("en-GB")).toEqual(["en-GB", "en"]);
+      expect(localeFallbackChain("en")).toEqual(["en"]);
+    });
+  });
+
+  describe("closestLocale", () => {
+    it("should prefer the locale's own chain", () => {
+      expect(closestLocale("fr-BE", ["fr", "fr-BE"])).toBe("fr-BE");
+      expect(closestLocale("fr-CA", ["en", "fr"])).toBe("fr");
+    });
+
+    it("should fall back to another region of the same language", () => {
+      expect(closestLocale("fr", ["en-BE", "fr-BE", "fr-FR"])).toBe("fr-BE");
+    });
+
+    it("should fall back to English, then the first locale", () => {
+      expect(closestLocale("de", ["fr", "en"])).toBe("en");
+      expect(closestLocale("de", ["fr-BE", "nl-BE"])).toBe("fr-BE");
+      expect(closestLocale("de", [])).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { setupUIFixture, mockParentPostMessage } from "../setup";
+import { store } from "../../../src/ui/state/store";
+import {
+  initFallbackPanel,
+  parseFallbackLanguages,
+  renderFallbackLanguages,
+  renderFallbackReport,
+} from "../../../src/ui/components/FallbackPanel";
+
+describe("FallbackPanel", () => {
+  let postMessageMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    setupUIFixture();
+    postMessageMock = mockParentPostMessage();
+    store.setState({ fallbackLanguages: ["en"], fallbackNodes: [] });
+    initFallbackPanel();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("parseFallbackLanguages", () => {
+    it("should read arrows, commas and spaces", () => {
+      expect(parseFallbackLanguages("nl → en")).toEqual(["nl", "en"]);
+      expect(parseFallbackLanguages("fr_be -> fr, en")).toEqual(["fr-BE", "fr", "en"]);
+      expect(parseFallbackLanguages("de en de")).toEqual(["de", "en"]);
+    });
+
+    it("should drop what isn't a locale", () => {
+      expect(parseFallbackLanguages("english, fr")).toEqual(["fr"]);
+      expect(parseFallbackLanguages("")).toEqual([]);
+    });
+  });
+
+  describe("fallback languages field", () => {
+    it("should show the configured languages", () => {
+      store.setState({ fallbackLanguages: ["fr", "en"] });
+      renderFallbackLanguages();
+
+      const input = document.getElementById("fallbackLanguagesInput") as HTMLInputElement;
+      expect(input.value).toBe("fr → en");
+    });
+
+    it("should save edited languages", () => {
+      const input = document.getElementById("fallbackLanguagesInput") as HTMLInputElement;
+      input.value = "NL, en";
+      input.dispatchEvent(new Event("change"));
+
+      expect(input.value).toBe("nl → en");
+      expect(store.getState().fallbackLanguages).toEqual(["nl", "en"]);
+      expect(postMessageMock).toHaveBeenCalledWith(
+        { pluginMessage: { type: "save-fallback-languages", fallbackLanguages: ["nl", "en"] } },
+        "*"
+      );
+    });
+  });
+
+  describe("renderFallbackReport", () => {
+    it("should stay hidden without fallback nodes", () => {
+      renderFallbackReport();
+      expect(document.getElementById("fallbackReport")?.style.display).toBe("none");
+    });
+
+    it("should list the nodes and select one when its link is clicked", () => {
+      store.setState({
+        fallbackNodes: [{ nodeId: "1:2", name: "<Title>", multilanId: "10001", language: "nl", fallbackLanguage: "en" }],
+      });
+      renderFallbackReport();
+
+      const report = document.getElementById("fallbackReport")!;
+      expect(report.style.display).toBe("");
+      expect(report.textContent).toContain("1 text shows fallback text");
+      expect(report.textContent).toContain("EN for NL");
+      expect(report.innerHTML).toContain("&lt;Title&gt;");
+
+      report.querySelector<HTMLButtonElement>(".switch-report-link")!.click();
+      expect(postMessageMock).toHaveBeenCalledWith({ pluginMessage: { type: "select-node", nodeId: "1:2" } }, "*");
+    });
+
+    it("should hide the report when dismissed", () => {
+      store.setState({
+        fallbackNodes: [{ nodeId: "1:2", name: "Title", multilanId: "10001", language: "nl", fallbackLanguage: "en" }],
+      });
+      renderFallbackReport();
+
+      document.querySelector<HTMLButtonElement>(".switch-report-close")!.click();
+      expect(store.getState().fallbackNodes).toEqual([]);
+      expect(document.getElementById("fallbackReport")?.style.display).toBe("none");
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { setupUIFixture, mockParentPostMessage } from "../setup";
+import { store } from "../../../src/ui/state/store";
+import {
+  showFolderManager,
+  refreshFolderManager,
+  hideFolderManager,
+} from "../../../src/ui/components/FolderManagerModal";
+
+function rows(): HTMLElement[] {
+  return Array.from(document.querySelectorAll<HTMLElement>(".folder-manager-row"));
+}
+
+function row(folder: string): HTMLElement {
+  return rows().find(el => el.dataset.folder === folder)!;
+}
+
+describe("FolderManagerModal", () => {
+  let postMessageMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    setupUIFixture();
+    postMessageMock = mockParentPostMessage();
+    store.setState({
+      folderNames: ["EB", "EBB", "PCB"],
+      folderDataStatus: { EB: { hasData: true }, EBB: { hasData: false }, PCB: { hasData: false } },
+    });
+    showFolderManager();
+  });
+
+  afterEach(() => {
+    hideFolderManager();
+    vi.unstubAllGlobals();
+  });
+
+  describe("folder list", () => {
+    it("should show a row per folder in order", () => {
+      expect(rows().map(el => el.dataset.folder)).toEqual(["EB", "EBB", "PCB"]);
+      expect(row("EB").querySelector<HTMLInputElement>(".folder-manager-name")!.value).toBe("EB");
+    });
+
+    it("should disable moves past either end", () => {
+      const [firstUp] = row("EB").querySelectorAll<HTMLButtonElement>(".folder-manager-move");
+      const [, lastDown] = row("PCB").querySelectorAll<HTMLButtonElement>(".folder-manager-move");
+      expect(firstUp.disabled).toBe(true);
+      expect(lastDown.disabled).toBe(true);
+    });
+
+    it("should warn that deleting a folder with data deletes its translations", () => {
+      expect(row("EB").querySelector(".folder-manager-delete")!.getAttribute("title")).toContain("stored translations");
+      expect(row("EBB").querySelector(".folder-manager-delete")!.getAttribute("title")).toBe("Deletes the folder");
+    });
+
+    it("should not allow deleting the last folder", () => {
+      store.setState({ folderNames: ["EB"] });
+      refreshFolderManager();
+
+      expect(row("EB").querySelector<HTMLButtonElement>(".folder-manager-delete")!.disabled).toBe(true);
+    });
+
+    it("should escape folder names", () => {
+      store.setState({ folderNames: ["<b>EB</b>", "PCB"] });
+      refreshFolderManager();
+
+      expect(document.querySelector(".folder-manager-list b")).toBeNull();
+      expect(rows()[0].querySelector<HTMLInputElement>(".folder-manager-name")!.value).toBe("<b>EB</b>");
+      expect(rows()[0].dataset.folder).toBe("<b>EB</b>");
+    });
+  });
+
+  describe("creating", () => {
+    it("should send a new folder's trimmed name and clear the field", () => {
+      const input = document.querySelector<HTMLInputElement>(".folder-manager-new")!;
+      input.value = "  Checkout ";
+      document.querySelector<HTMLButtonElement>(".folder-manager-create")!.click();
+
+      expect(postMessageMock).toHaveBeenCalledWith(
+        { pluginMessage: { type: "create-folder", folderName: "Checkout" } },
+        "*"
+      );
+      expect(input.value).toBe("");
+    });
+
+    it("should ignore an empty name", () => {
+      const input = document.querySelector<HTMLInputElement>(".folder-manager-new")!;
+      input.value = "   ";
+      input.dispatchEvent(new KeyboardEvent("keydown", { key: "Enter" }));
+
+      expect(postMessageMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("renaming", () => {
+    it("should send a rename when a name is committed", () => {
+      const input = row("EBB").querySelector<HTMLInputElement>(".folder-manager-name")!;
+      input.value = "Checkout";
+      input.dispatchEvent(new Event("change", { bubbles: true }));
+
+      expect(postMessageMock).toHaveBeenCalledWith(
+        { pluginMessage: { type: "rename-folder", folderName: "EBB", newFolderName: "Checkout" } },
+        "*"
+      );
+    });
+
+    it("should restore the name when it's cleared", () => {
+      const input = row("EBB").querySelector<HTMLInputElement>(".folder-manager-name")!;
+      input.value = "  ";
+      input.dispatchEvent(new Event("change", { bubbles: true }));
+
+      expect(input.value).toBe("EBB");
+      expect(postMessageMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("reordering", () => {
+    it("should send the folders with one moved down", () => {
+      const [, down] = row("EB").querySelectorAll<HTMLButtonElement>(".folder-manager-move");
+      down.click();
+
+      expect(postMessageMock).toHaveBeenCalledWith(
+        { pluginMessage: { type: "reorder-folders", folderNames: ["EBB", "EB", "PCB"] } },
+        "*"
+      );
+    });
+
+    it("should send the folders with one moved up", () => {
+      const [up] = row("PCB").querySelectorAll<HTMLButtonElement>(".folder-manager-move");
+      up.click();
+
+      expect(postMessageMock).toHaveBeenCalledWith(
+        { pluginMessage: { type: "reorder-folders", folderNames: ["EB", "PCB", "EBB"] } },
+        "*"
+      );
+    });
+
+    it("should show the order the plugin reports", () => {
+      store.setState({ folderNames: ["PCB", "EB", "EBB"] });
+      refreshFolderManager();
+
+      expect(rows().map(el => el.dataset.folder)).toEqual(["PCB", "EB", "EBB"]);
+    });
+  });
+
+  describe("deleting", () => {
+    it("should ask for confirmation before deleting", () => {
+      row("EB").querySelector<HTMLButtonElement>(".folder-manager-delete")!.click();
+
+      const button = row("EB").querySelector<HTMLButtonElement>(".folder-manager-delete")!;
+      expect(button.textContent).toBe("Confirm");
+      expect(postMessageMock).not.toHaveBeenCalled();
+
+      button.click();
+      expect(postMessageMock).toHaveBeenCalledWith({ pluginMessage: { type: "delete-folder", folderName: "EB" } }, "*");
+    });
+
+    it("should drop a pending confirmation when the folder goes away", () => {
+      row("EBB").querySelector<HTMLButtonElement>(".folder-manager-delete")!.click();
+      store.setState({ folderNames: ["EB", "PCB"] });
+      refreshFolderManager();
+      store.setState({ folderNames: ["EB", "EBB", "PCB"] });
+      refreshFolderManager();
+
+      expect(row("EBB").querySelector(".folder-manager-delete")!.textContent).toBe("Delete");
+    });
+  });
+
+  describe("closing", () => {
+    it("should close on Done", () => {
+      document.querySelector<HTMLButtonElement>(".folder-manager-done")!.click();
+
+      expect(document.querySelector(".folder-manager-modal")).toBeNull();
+    });
+
+    it("should close when the backdrop is clicked", () => {
+      document.querySelector<HTMLElement>(".variable-prompt-overlay")!.click();
+
+      expect(document.querySelector(".folder-manager-modal")).toBeNull();
+    });
+  });
+});
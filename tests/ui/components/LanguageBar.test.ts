@@ -1,7 +1,12 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
 import { setupUIFixture, mockParentPostMessage } from "../setup";
 import { store } from "../../../src/ui/state/store";
-import { initLanguageBar, setActiveLanguage } from "../../../src/ui/components/LanguageBar";
+import {
+  initLanguageBar,
+  listedLanguages,
+  setActiveLanguage,
+  updateLanguageAvailability,
+} from "../../../src/ui/components/LanguageBar";
 
 describe("LanguageBar", () => {
   let postMessageMock: ReturnType<typeof vi.fn>;
@@ -37,6 +42,18 @@ describe("LanguageBar", () => {
       expect(store.getState().currentLang).toBe("fr");
     });
 
+    it("should switch the whole file when that scope is chosen, even with a selection", () => {
+      store.setState({ scope: "document", hasSelection: true });
+      initLanguageBar();
+
+      (document.querySelector('[data-lang="nl"]') as HTMLButtonElement).click();
+
+      expect(postMessageMock).toHaveBeenCalledWith(
+        { pluginMessage: { type: "switch-language", language: "nl", scope: "document" } },
+        "*"
+      );
+    });
+
     it("should send switch-language message when button clicked", () => {
       initLanguageBar();
 
@@ -103,4 +120,44 @@ describe("LanguageBar", () => {
       }
     });
   });
+
+  describe("listedLanguages", () => {
+    it("should list the default languages when nothing is available", () => {
+      expect(listedLanguages([])).toEqual(["en", "fr", "nl", "de"]);
+    });
+
+    it("should list regional variants in place of their language", () => {
+      expect(listedLanguages(["en-BE", "fr-BE", "fr-FR", "nl-BE", "de-BE"])).toEqual([
+        "en-BE",
+        "fr-BE",
+        "fr-FR",
+        "nl-BE",
+        "de-BE",
+      ]);
+    });
+
+    it("should keep a language next to its variants and add other languages last", () => {
+      expect(listedLanguages(["fr", "fr-FR", "en", "lb-LU"])).toEqual(["en", "fr", "fr-FR", "nl", "de", "lb-LU"]);
+    });
+  });
+
+  describe("updateLanguageAvailability", () => {
+    it("should render a button per locale and switch to a regional one", () => {
+      initLanguageBar();
+      updateLanguageAvailability(["en", "fr-BE", "fr-FR"]);
+
+      const langs = Array.from(document.querySelectorAll<HTMLButtonElement>(".lang-btn")).map(btn => btn.dataset.lang);
+      expect(langs).toEqual(["en", "fr-BE", "fr-FR", "nl", "de"]);
+      expect(document.querySelector<HTMLButtonElement>('[data-lang="nl"]')?.disabled).toBe(true);
+
+      document.querySelector<HTMLButtonElement>('[data-lang="fr-FR"]')!.click();
+      expect(store.getState().currentLang).toBe("fr-FR");
+      expect(postMessageMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          pluginMessage: expect.objectContaining({ type: "switch-language", language: "fr-FR" }),
+        }),
+        "*"
+      );
+    });
+  });
 });
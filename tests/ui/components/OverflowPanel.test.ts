@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { setupUIFixture, mockParentPostMessage } from "../setup";
+import { store } from "../../../src/ui/state/store";
+import { initOverflowPanel, renderOverflowReport } from "../../../src/ui/components/OverflowPanel";
+
+describe("OverflowPanel", () => {
+  let postMessageMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    setupUIFixture();
+    postMessageMock = mockParentPostMessage();
+    store.setState({
+      overflowNodes: [
+        { nodeId: "1:2", name: "Button label", multilanId: "10001", kind: "clipped" },
+        { nodeId: "1:3", name: "Title", multilanId: "10002", kind: "parent-overflow" },
+      ],
+    });
+    initOverflowPanel();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should stay hidden without overflowing nodes", () => {
+    store.setState({ overflowNodes: [] });
+    renderOverflowReport();
+    expect(document.getElementById("overflowReport")?.style.display).toBe("none");
+  });
+
+  it("should list the nodes with how they overflow", () => {
+    renderOverflowReport();
+
+    const report = document.getElementById("overflowReport")!;
+    expect(report.style.display).toBe("");
+    expect(report.textContent).toContain("2 texts overflow");
+    expect(report.textContent).toContain("Text box too small");
+    expect(report.textContent).toContain("Past its frame");
+  });
+
+  it("should select a node from its link, or all of them", () => {
+    renderOverflowReport();
+
+    document.querySelector<HTMLButtonElement>('.switch-report-link[data-node-id="1:3"]')!.click();
+    expect(postMessageMock).toHaveBeenCalledWith({ pluginMessage: { type: "select-node", nodeId: "1:3" } }, "*");
+
+    document.querySelector<HTMLButtonElement>(".overflow-select-all")!.click();
+    expect(postMessageMock).toHaveBeenCalledWith({ pluginMessage: { type: "select-nodes", nodeIds: ["1:2", "1:3"] } }, "*");
+  });
+
+  it("should hide the report when dismissed", () => {
+    renderOverflowReport();
+
+    document.querySelector<HTMLButtonElement>(".switch-report-close")!.click();
+    expect(store.getState().overflowNodes).toEqual([]);
+    expect(document.getElementById("overflowReport")?.style.display).toBe("none");
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { setupUIFixture, mockParentPostMessage } from "../setup";
+import { store } from "../../../src/ui/state/store";
+import { initScopePanel, renderScopeOptions, renderPageReport } from "../../../src/ui/components/ScopePanel";
+
+describe("ScopePanel", () => {
+  let postMessageMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    setupUIFixture();
+    postMessageMock = mockParentPostMessage();
+    store.setState({ scope: "selection", pageResults: [] });
+    initScopePanel();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should choose a scope from its button and save it", () => {
+    document.querySelector<HTMLButtonElement>('.scope-btn[data-scope="frame"]')!.click();
+
+    expect(store.getState().scope).toBe("frame");
+    expect(document.querySelector(".scope-btn.active")?.getAttribute("data-scope")).toBe("frame");
+    expect(postMessageMock).toHaveBeenCalledWith({ pluginMessage: { type: "save-scope", scope: "frame" } }, "*");
+  });
+
+  it("should not save the scope again when it is already chosen", () => {
+    document.querySelector<HTMLButtonElement>('.scope-btn[data-scope="selection"]')!.click();
+    expect(postMessageMock).not.toHaveBeenCalled();
+  });
+
+  it("should mark the stored scope", () => {
+    store.setState({ scope: "document" });
+    renderScopeOptions();
+
+    const active = Array.from(document.querySelectorAll(".scope-btn.active")).map(btn => btn.getAttribute("data-scope"));
+    expect(active).toEqual(["document"]);
+  });
+
+  it("should stay hidden without page results", () => {
+    renderPageReport();
+    expect(document.getElementById("pageReport")?.style.display).toBe("none");
+  });
+
+  it("should list what the switch did on each page, until dismissed", () => {
+    store.setState({
+      pageResults: [
+        { pageId: "0:1", pageName: "Home", textCount: 4, linked: 3, switched: 3, missing: 1 },
+        { pageId: "0:2", pageName: "<Archive>", textCount: 2, linked: 2, switched: 2, missing: 0 },
+      ],
+    });
+    renderPageReport();
+
+    const report = document.getElementById("pageReport")!;
+    expect(report.style.display).toBe("");
+    expect(report.textContent).toContain("2 pages");
+    expect(report.textContent).toContain("3 switched, 1 missing");
+    expect(report.innerHTML).toContain("&lt;Archive&gt;");
+
+    report.querySelector<HTMLButtonElement>(".switch-report-close")!.click();
+    expect(store.getState().pageResults).toEqual([]);
+    expect(report.style.display).toBe("none");
+  });
+});
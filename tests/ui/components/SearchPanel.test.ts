@@ -5,6 +5,7 @@ import {
   initSearchPanel,
   renderGlobalSearchResults,
   clearSearch,
+  refreshSearchForChanges,
 } from "../../../src/ui/components/SearchPanel";
 
 describe("SearchPanel", () => {
@@ -86,6 +87,35 @@ describe("SearchPanel", () => {
       expect(translations.length).toBeGreaterThanOrEqual(4); // en, fr, nl, de for first result
     });
 
+    it("should show translator notes from metadata", () => {
+      store.setState({
+        globalSearchResults: [
+          { ...sampleSearchResults[0], metadata: { notes: "Checkout button\n<keep short>" } },
+          sampleSearchResults[1],
+        ],
+      });
+      renderGlobalSearchResults();
+
+      const notes = document.querySelectorAll(".search-result-note");
+      expect(notes.length).toBe(2);
+      expect(notes[1].textContent).toBe("<keep short>");
+    });
+
+    it("should badge results with the layer they came from", () => {
+      store.setState({
+        globalSearchResults: [
+          { ...sampleSearchResults[0], metadata: { origin: "draft" } },
+          sampleSearchResults[1],
+        ],
+      });
+      renderGlobalSearchResults();
+
+      const badges = document.querySelectorAll(".origin-badge");
+      expect(badges.length).toBe(1);
+      expect(badges[0].textContent).toBe("draft");
+      expect(badges[0].classList.contains("origin-badge-draft")).toBe(true);
+    });
+
     it("should show Link button when unlinked node is selected", () => {
       store.setState({
         globalSearchResults: sampleSearchResults,
@@ -168,6 +198,31 @@ describe("SearchPanel", () => {
     });
   });
 
+  describe("refreshSearchForChanges", () => {
+    it("should re-run the search only when its results may be stale", () => {
+      const input = document.getElementById("globalSearchInput") as HTMLInputElement;
+      input.value = "submit";
+      store.setState({ globalSearchResults: sampleSearchResults });
+      const shownId = sampleSearchResults[0].multilanId;
+
+      refreshSearchForChanges({ added: [], changed: ["unrelated"], removed: [] });
+      expect(postMessageMock).not.toHaveBeenCalled();
+
+      refreshSearchForChanges({ added: [], changed: [shownId], removed: [] });
+      expect(postMessageMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          pluginMessage: expect.objectContaining({ type: "global-search", searchQuery: "submit" }),
+        }),
+        "*"
+      );
+    });
+
+    it("should do nothing without a query", () => {
+      refreshSearchForChanges({ added: ["1"], changed: [], removed: [] });
+      expect(postMessageMock).not.toHaveBeenCalled();
+    });
+  });
+
   describe("initSearchPanel", () => {
     it("should trigger search on input with debounce", async () => {
       vi.useFakeTimers();
@@ -70,6 +70,19 @@ describe("ManualLinkWidget", () => {
     expect(pluginBridge.verifyMultilanId).toHaveBeenCalledWith(NODE_ID, "10042");
   });
 
+  it("keeps non-numeric keys as typed", () => {
+    const { container, rerender } = mountWidget();
+    container.querySelector<HTMLButtonElement>(".manual-link-toggle")!.click();
+    const input = container.querySelector<HTMLInputElement>(".manual-link-input")!;
+    input.value = "checkout.submit";
+    input.dispatchEvent(new Event("input"));
+    rerender();
+
+    expect(container.querySelector<HTMLInputElement>(".manual-link-input")!.value).toBe("checkout.submit");
+    container.querySelector<HTMLButtonElement>(".manual-link-verify")!.click();
+    expect(pluginBridge.verifyMultilanId).toHaveBeenCalledWith(NODE_ID, "checkout.submit");
+  });
+
   it("calls verify when Enter is pressed in the input", () => {
     const { container } = mountWidget();
     container.querySelector<HTMLButtonElement>(".manual-link-toggle")!.click();
@@ -56,6 +56,17 @@ describe("pluginBridge", () => {
     });
   });
 
+  describe("saveScope", () => {
+    it("should send save-scope message", () => {
+      pluginBridge.saveScope("frame");
+
+      expect(postMessageMock).toHaveBeenCalledWith(
+        { pluginMessage: { type: "save-scope", scope: "frame" } },
+        "*"
+      );
+    });
+  });
+
   describe("switchLanguage", () => {
     it("should send switch-language message", () => {
       pluginBridge.switchLanguage("fr", "page");
@@ -225,6 +236,109 @@ describe("pluginBridge", () => {
     });
   });
 
+  describe("folder management", () => {
+    it("should send create, rename, delete and reorder messages", () => {
+      pluginBridge.createFolder("Web");
+      pluginBridge.renameFolder("Web", "Website");
+      pluginBridge.deleteFolder("EBB");
+      pluginBridge.reorderFolders(["Website", "EB"]);
+
+      expect(postMessageMock.mock.calls.map(call => call[0].pluginMessage)).toEqual([
+        { type: "create-folder", folderName: "Web" },
+        { type: "rename-folder", folderName: "Web", newFolderName: "Website" },
+        { type: "delete-folder", folderName: "EBB" },
+        { type: "reorder-folders", folderNames: ["Website", "EB"] },
+      ]);
+    });
+  });
+
+  describe("uploadTraFiles", () => {
+    const files = { en: '1,"Hi"', fr: "", nl: "", de: "" };
+    const metadata = {
+      uploadTimestamp: 1,
+      fileLastModified: { en: 1, fr: 0, nl: 0, de: 0 },
+      availableLanguages: ["en"],
+    };
+
+    it("should leave the default merge mode out of the message", () => {
+      pluginBridge.uploadTraFiles("EB", files, metadata);
+
+      expect(postMessageMock).toHaveBeenCalledWith(
+        { pluginMessage: { type: "upload-tra-files", folderName: "EB", traFileData: files, traUploadMetadata: metadata } },
+        "*"
+      );
+    });
+
+    it("should send the upload mode and its languages", () => {
+      pluginBridge.uploadTraFiles("EB", files, metadata, { mode: "replace-languages", languages: ["en", "fr"] });
+
+      expect(postMessageMock.mock.calls[0][0].pluginMessage).toMatchObject({
+        uploadMode: "replace-languages",
+        uploadLanguages: ["en", "fr"],
+      });
+    });
+
+    it("should flag overlay uploads", () => {
+      pluginBridge.uploadTraFiles("EB", files, metadata, { overlay: true });
+
+      expect(postMessageMock.mock.calls[0][0].pluginMessage.overlay).toBe(true);
+    });
+  });
+
+  describe("removeLanguages", () => {
+    it("should send an upload without files in remove-language mode", () => {
+      pluginBridge.removeLanguages("EB", ["de"]);
+
+      expect(postMessageMock).toHaveBeenCalledWith(
+        {
+          pluginMessage: {
+            type: "upload-tra-files",
+            folderName: "EB",
+            traFileData: {},
+            uploadMode: "remove-language",
+            uploadLanguages: ["de"],
+          },
+        },
+        "*"
+      );
+    });
+  });
+
+  describe("selectNodes", () => {
+    it("should send select-nodes message", () => {
+      pluginBridge.selectNodes(["1:2", "1:3"]);
+
+      expect(postMessageMock).toHaveBeenCalledWith({ pluginMessage: { type: "select-nodes", nodeIds: ["1:2", "1:3"] } }, "*");
+    });
+  });
+
+  describe("saveFallbackLanguages", () => {
+    it("should send save-fallback-languages message", () => {
+      pluginBridge.saveFallbackLanguages(["en", "fr"]);
+
+      expect(postMessageMock).toHaveBeenCalledWith(
+        { pluginMessage: { type: "save-fallback-languages", fallbackLanguages: ["en", "fr"] } },
+        "*"
+      );
+    });
+  });
+
+  describe("saveSearchApiEndpoint", () => {
+    it("should send save-search-api-endpoint message", () => {
+      pluginBridge.saveSearchApiEndpoint("http://localhost:3000/multilan:search");
+
+      expect(postMessageMock).toHaveBeenCalledWith(
+        {
+          pluginMessage: {
+            type: "save-search-api-endpoint",
+            searchApiEndpoint: "http://localhost:3000/multilan:search",
+          },
+        },
+        "*"
+      );
+    });
+  });
+
   describe("findCloseMatches", () => {
     it("should send find-close-matches message", () => {
       pluginBridge.findCloseMatches("node-123", "Submit");
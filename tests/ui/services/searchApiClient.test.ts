@@ -0,0 +1,111 @@
+// @vitest-environment node
+// Runs against a local stub server, so the real fetch and paging loop are exercised
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { fetchAllSearchApiPages } from "../../../src/ui/services/searchApiClient";
+import type { SearchApiProgress } from "../../../src/ui/services/searchApiClient";
+import type { SearchApiRequest } from "../../../src/adapters/types/searchApi.types";
+import { createAdapter } from "../../../src/adapters";
+
+const TOTAL = 5;
+
+function multilan(id: number) {
+  return {
+    multilan: {
+      id,
+      multilanTextList: [
+        { id: id * 10 + 1, languageId: 3, wording: `Text ${id}` },
+        { id: id * 10 + 2, languageId: 2, wording: `Texte ${id}` },
+      ],
+    },
+  };
+}
+
+describe("fetchAllSearchApiPages", () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: SearchApiRequest[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => (body += chunk));
+      req.on("end", () => {
+        if (req.url === "/broken") {
+          res.writeHead(503).end();
+          return;
+        }
+        if (req.url === "/not-search") {
+          res.writeHead(200, { "Content-Type": "application/json" }).end('{"items": []}');
+          return;
+        }
+        const request = JSON.parse(body) as SearchApiRequest;
+        requests.push(request);
+        const { page, pageSize } = request.pagination;
+        const ids = Array.from({ length: TOTAL }, (_, i) => i + 1).slice(page * pageSize, (page + 1) * pageSize);
+        const totalPages = Math.ceil(TOTAL / pageSize);
+        res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({
+          resultList: ids.map(multilan),
+          isLastPage: page + 1 >= totalPages,
+          numberOfElements: ids.length,
+          totalElements: TOTAL,
+          totalPages,
+        }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("should page through the endpoint, report progress and merge the pages", async () => {
+    requests.length = 0;
+    const progress: SearchApiProgress[] = [];
+    const response = await fetchAllSearchApiPages(`${baseUrl}/multilan:search`, {
+      pageSize: 2,
+      onProgress: p => progress.push(p),
+    });
+
+    expect(requests.map(r => r.pagination)).toEqual([
+      { page: 0, pageSize: 2 },
+      { page: 1, pageSize: 2 },
+      { page: 2, pageSize: 2 },
+    ]);
+    expect(requests[0].sorting).toEqual({ field: "id", direction: "ASC" });
+    expect(progress.map(p => p.loaded)).toEqual([2, 4, 5]);
+    expect(progress[2]).toEqual({ page: 3, totalPages: 3, loaded: 5, totalElements: 5 });
+    expect(response.resultList.map(r => r.multilan.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(response.numberOfElements).toBe(5);
+  });
+
+  it("should produce a payload the search-API adapter loads", async () => {
+    const response = await fetchAllSearchApiPages(`${baseUrl}/multilan:search`, { pageSize: 3 });
+    const adapter = await createAdapter(response, "search-api");
+    expect(adapter.getTranslationCount()).toBe(TOTAL);
+    expect(adapter.getTranslationMap()["4"]).toEqual({ en: "Text 4", fr: "Texte 4" });
+  });
+
+  it("should send the search text when given", async () => {
+    requests.length = 0;
+    await fetchAllSearchApiPages(`${baseUrl}/multilan:search`, { searchText: "checkout" });
+    expect(requests[0].searchText).toBe("checkout");
+  });
+
+  it("should throw on an error status or a body that isn't a search response", async () => {
+    await expect(fetchAllSearchApiPages(`${baseUrl}/broken`)).rejects.toThrow("HTTP 503");
+    await expect(fetchAllSearchApiPages(`${baseUrl}/not-search`)).rejects.toThrow("unexpected response");
+  });
+
+  it("should stop when aborted", async () => {
+    const abort = new AbortController();
+    abort.abort();
+    await expect(
+      fetchAllSearchApiPages(`${baseUrl}/multilan:search`, { signal: abort.signal })
+    ).rejects.toThrow();
+  });
+});
@@ -20,7 +20,20 @@ export function setupUIFixture(): void {
           <button class="lang-btn" data-lang="nl">NL</button>
           <button class="lang-btn" data-lang="de">DE</button>
         </div>
-        <p class="lang-bar-hint">Change language of selection or entire page</p>
+        <p class="lang-bar-hint">Change language of</p>
+        <div id="scopeOptions" class="scope-options">
+          <button class="scope-btn active" data-scope="selection">Selection</button>
+          <button class="scope-btn" data-scope="frame">Frame</button>
+          <button class="scope-btn" data-scope="page">Page</button>
+          <button class="scope-btn" data-scope="document">File</button>
+        </div>
+        <div class="fallback-settings">
+          <label for="fallbackLanguagesInput">Missing text falls back to</label>
+          <input type="text" id="fallbackLanguagesInput" class="fallback-input">
+        </div>
+        <div id="fallbackReport" class="switch-report" style="display: none;"></div>
+        <div id="overflowReport" class="switch-report" style="display: none;"></div>
+        <div id="pageReport" class="switch-report page-report" style="display: none;"></div>
       </div>
 
       <!-- Tabs -->
@@ -0,0 +1,59 @@
+// @vitest-environment node
+// fflate tells files from folders with `instanceof Uint8Array`, which fails across the jsdom realm
+import { describe, it, expect } from "vitest";
+import { zipSync, strToU8 } from "fflate";
+import { readXlsxRows } from "../../../src/ui/utils/xlsx";
+
+function buildWorkbook(files: Record<string, string>): Uint8Array {
+  const entries: Record<string, Uint8Array> = {};
+  for (const [path, xml] of Object.entries(files)) entries[path] = strToU8(xml);
+  return zipSync(entries);
+}
+
+const sharedStrings = `<?xml version="1.0" encoding="UTF-8"?>
+<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <si><t>ID</t></si>
+  <si><t>English</t></si>
+  <si><r><t>Sub</t></r><r><rPr><b/></rPr><t>mit</t></r></si>
+  <si><t xml:space="preserve">Fish &amp; chips</t><rPh><t>ignored</t></rPh></si>
+</sst>`;
+
+const sheet = `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+  <sheetData>
+    <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>
+    <row r="2"><c r="A2"><v>10001</v></c><c r="B2" t="s"><v>2</v></c></row>
+    <row r="3"/>
+    <row r="4"><c r="A4" t="str"><f>CONCAT("a","b")</f><v>ab</v></c><c r="C4" t="inlineStr"><is><t>Inline</t></is></c></row>
+    <row r="5"><c r="B5" t="s"><v>3</v></c></row>
+  </sheetData>
+</worksheet>`;
+
+describe("readXlsxRows", () => {
+  it("should read the first sheet with shared, rich, inline and formula strings", () => {
+    const bytes = buildWorkbook({
+      "xl/workbook.xml": '<workbook><sheets><sheet name="Strings" sheetId="1" r:id="rId7"/></sheets></workbook>',
+      "xl/_rels/workbook.xml.rels": '<Relationships><Relationship Id="rId7" Target="worksheets/strings.xml"/></Relationships>',
+      "xl/sharedStrings.xml": sharedStrings,
+      "xl/worksheets/strings.xml": sheet,
+      "xl/worksheets/sheet1.xml": "<worksheet><sheetData><row><c t=\"inlineStr\"><is><t>Wrong sheet</t></is></c></row></sheetData></worksheet>",
+    });
+
+    expect(readXlsxRows(bytes)).toEqual([
+      ["ID", "English"],
+      ["10001", "Submit"],
+      ["ab", "", "Inline"],
+      ["", "Fish & chips"],
+    ]);
+  });
+
+  it("should fall back to sheet1.xml without workbook relationships", () => {
+    const bytes = buildWorkbook({ "xl/sharedStrings.xml": sharedStrings, "xl/worksheets/sheet1.xml": sheet });
+    expect(readXlsxRows(bytes)[0]).toEqual(["ID", "English"]);
+  });
+
+  it("should throw when the archive has no worksheet", () => {
+    const bytes = buildWorkbook({ "word/document.xml": "<document/>" });
+    expect(() => readXlsxRows(bytes)).toThrow("no worksheet");
+  });
+});